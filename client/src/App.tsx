@@ -7,59 +7,72 @@ import { CreateProfile } from './components/profile/CreateProfile';
 import { ProfileDetail } from './components/profile/ProfileDetail';
 import { CreateEvent } from './components/event/CreateEvent';
 import { ProfileShop } from './components/profile/ProfileShop';
+import { StageMode } from './components/profile/StageMode';
 import { EventDetail } from './components/event/EventDetail';
 import { LandingPage } from './components/landing/LandingPage';
 import { Success } from './components/payment/Success';
+import { TipReceipt } from './components/payment/TipReceipt';
 import { WithdrawalAdmin } from './components/admin/WithdrawalAdmin';
+import { AuditLog } from './components/admin/AuditLog';
 import { InvitePage } from './pages/InvitePage';
 import { Layout } from './components/layout/Layout';
 import { ProtectedRoute } from './components/ProtectedRoute';
+import { AdminRoute } from './components/AdminRoute';
 import './App.css';
 
 export default function App() {
   return (
     <ToastProvider>
       <Router>
-      <Layout>
-          <Routes>
-            <Route path="/" element={<LandingPage />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/auth/callback" element={<AuthCallback />} />
-            <Route path="/dashboard" element={
-              <ProtectedRoute>
-                <Dashboard />
-              </ProtectedRoute>
-            } />
-            <Route path="/create-profile" element={
-              <ProtectedRoute>
-                <CreateProfile />
-              </ProtectedRoute>
-            } />
-            <Route path="/profile/:id" element={<ProfileDetail />} />
-            <Route path="/profile/:id/shop" element={<ProfileShop />} />
-            <Route path="/create-event" element={
-              <ProtectedRoute>
-                <CreateEvent />
-              </ProtectedRoute>
-            } />
-            <Route path="/event/:id" element={<EventDetail />} />
-            <Route path="/payment/success" element={
-              <ProtectedRoute>
-                <Success />
-              </ProtectedRoute>
-            } />
-            <Route path="/admin/withdrawals" element={
-              <ProtectedRoute>
-                <WithdrawalAdmin />
-              </ProtectedRoute>
-            } />
-            <Route path="/invite/:token" element={
-              <ProtectedRoute>
-                <InvitePage />
-              </ProtectedRoute>
-            } />
-          </Routes>
-      </Layout>
+        <Routes>
+          {/* Stage mode is fullscreen, for a tablet on stage or an OBS browser source */}
+          <Route path="/profile/:id/stage" element={<StageMode />} />
+          <Route path="*" element={
+            <Layout>
+              <Routes>
+                <Route path="/" element={<LandingPage />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/auth/callback" element={<AuthCallback />} />
+                <Route path="/dashboard" element={
+                  <ProtectedRoute>
+                    <Dashboard />
+                  </ProtectedRoute>
+                } />
+                <Route path="/create-profile" element={
+                  <ProtectedRoute>
+                    <CreateProfile />
+                  </ProtectedRoute>
+                } />
+                <Route path="/profile/:id" element={<ProfileDetail />} />
+                <Route path="/profile/:id/shop" element={<ProfileShop />} />
+                <Route path="/create-event" element={
+                  <ProtectedRoute>
+                    <CreateEvent />
+                  </ProtectedRoute>
+                } />
+                <Route path="/event/:id" element={<EventDetail />} />
+                {/* Guests can tip from a QR code, so payment pages don't need a login */}
+                <Route path="/payment/success" element={<Success />} />
+                <Route path="/receipt/:sessionId" element={<TipReceipt />} />
+                <Route path="/admin/withdrawals" element={
+                  <AdminRoute>
+                    <WithdrawalAdmin />
+                  </AdminRoute>
+                } />
+                <Route path="/admin/audit" element={
+                  <AdminRoute>
+                    <AuditLog />
+                  </AdminRoute>
+                } />
+                <Route path="/invite/:token" element={
+                  <ProtectedRoute>
+                    <InvitePage />
+                  </ProtectedRoute>
+                } />
+              </Routes>
+            </Layout>
+          } />
+        </Routes>
     </Router>
     </ToastProvider>
   );
@@ -0,0 +1,29 @@
+import type { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useIsAdmin } from '../hooks/useIsAdmin';
+import { ProtectedRoute } from './ProtectedRoute';
+import { Skeleton } from './ui/Skeleton';
+
+interface AdminRouteProps {
+  children: ReactNode;
+}
+
+// A page for platform admins only. Others are sent to their dashboard.
+export function AdminRoute({ children }: AdminRouteProps) {
+  const { isAdmin, loading } = useIsAdmin();
+
+  return (
+    <ProtectedRoute>
+      {loading ? (
+        <div className="max-w-6xl mx-auto p-8 space-y-4">
+          <Skeleton className="h-8 w-64" />
+          <Skeleton className="h-32 w-full" />
+        </div>
+      ) : isAdmin ? (
+        children
+      ) : (
+        <Navigate to="/dashboard" replace />
+      )}
+    </ProtectedRoute>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import type { Profile, EventInvite } from '../types/models';
 import { profileService } from '../services/profileService';
@@ -8,6 +8,8 @@ import { createUserFriendlyError } from '../lib/errorHandling';
 import { ErrorMessage, LoadingMessage } from './ui/ErrorMessage';
 import { DashboardSkeleton } from './ui/SpecificSkeletons';
 import { Wallet } from './Wallet';
+import { OrderHistory } from './OrderHistory';
+import { PatronSubscriptions } from './PatronSubscriptions';
 import { Mail, Plus, Check, X, Calendar, MapPin } from 'lucide-react';
 
 interface PendingInvite {
@@ -56,6 +58,7 @@ interface PendingEventRequest {
 
 export function Dashboard() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [userProfiles, setUserProfiles] = useState<Profile[]>([]);
   const [pendingInvites, setPendingInvites] = useState<PendingInvite[]>([]);
@@ -65,7 +68,10 @@ export function Dashboard() {
   const [invitesError, setInvitesError] = useState<string | null>(null);
   const [requestsError, setRequestsError] = useState<string | null>(null);
   const [profilesError, setProfilesError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'profiles' | 'wallet' | 'requests' | 'invites'>('profiles');
+  // Stripe payout onboarding redirects back to ?tab=wallet, the customer portal to ?tab=subscriptions
+  const [activeTab, setActiveTab] = useState<'profiles' | 'wallet' | 'orders' | 'subscriptions' | 'requests' | 'invites'>(
+    searchParams.get('tab') === 'wallet' ? 'wallet' : searchParams.get('tab') === 'subscriptions' ? 'subscriptions' : 'profiles'
+  );
   const [showCreateMenu, setShowCreateMenu] = useState(false);
   const createMenuRef = useRef<HTMLDivElement>(null);
 
@@ -321,6 +327,26 @@ export function Dashboard() {
           >
             💰 Wallet
           </button>
+          <button
+            onClick={() => setActiveTab('orders')}
+            className={`px-3 sm:px-6 py-3 font-semibold transition-all duration-200 border-b-2 whitespace-nowrap text-sm sm:text-base ${
+              activeTab === 'orders'
+                ? 'text-light-blue dark:text-github-blue border-light-blue dark:border-github-blue'
+                : 'text-light-text-secondary dark:text-github-text-secondary border-transparent hover:text-light-text dark:hover:text-github-text'
+            }`}
+          >
+            🛍️ Orders
+          </button>
+          <button
+            onClick={() => setActiveTab('subscriptions')}
+            className={`px-3 sm:px-6 py-3 font-semibold transition-all duration-200 border-b-2 whitespace-nowrap text-sm sm:text-base ${
+              activeTab === 'subscriptions'
+                ? 'text-light-blue dark:text-github-blue border-light-blue dark:border-github-blue'
+                : 'text-light-text-secondary dark:text-github-text-secondary border-transparent hover:text-light-text dark:hover:text-github-text'
+            }`}
+          >
+            🌟 Subscriptions
+          </button>
           <button
             onClick={() => setActiveTab('requests')}
             className={`px-3 sm:px-6 py-3 font-semibold transition-all duration-200 border-b-2 flex items-center gap-1 sm:gap-2 whitespace-nowrap text-sm sm:text-base ${
@@ -436,6 +462,10 @@ export function Dashboard() {
             </div>
           ) : activeTab === 'wallet' ? (
             <Wallet userProfiles={userProfiles} />
+          ) : activeTab === 'orders' ? (
+            <OrderHistory />
+          ) : activeTab === 'subscriptions' ? (
+            <PatronSubscriptions />
           ) : activeTab === 'requests' ? (
             // Pending Requests Tab
             <div>
@@ -641,6 +671,13 @@ export function Dashboard() {
                               </div>
                             </div>
 
+                            {/* Venue share agreed by accepting */}
+                            {Number(invite.organizer_share_percent || 0) > 0 && (
+                              <p className="text-sm text-green-600 dark:text-green-400 mb-2">
+                                💰 Venue Share: {Number(invite.organizer_share_percent)}% of the tips you get through the event page
+                              </p>
+                            )}
+
                             {/* Message */}
                             {invite.message && (
                               <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700/30 rounded-lg p-3 mb-2">
@@ -1,25 +1,15 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import type { FulfilmentStatus, Order, OrderDownload } from '../types/models';
+import { getDownloadUrl } from '../services/orderService';
 
-interface OrderItem {
-  id: string;
-  name: string;
-  quantity: number;
-  price: number;
-}
-
-interface Order {
-  id: string;
-  profile_id: string;
-  stripe_session_id: string;
-  customer_email: string;
-  customer_name?: string;
-  total_amount: number;
-  currency: string;
-  payment_status: string;
-  items: OrderItem[];
-  created_at: string;
-}
+const FULFILMENT_LABELS: Record<FulfilmentStatus, string> = {
+  paid: 'Being prepared',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  picked_up: 'Picked up',
+  delivered: 'Delivered'
+};
 
 export function OrderHistory() {
   const [orders, setOrders] = useState<Order[]>([]);
@@ -31,16 +21,17 @@ export function OrderHistory() {
       try {
         const { data: { session } } = await supabase.auth.getSession();
         
-        if (!session?.user?.id) {
+        if (!session?.user?.email) {
           setError('You must be logged in to view orders');
           setIsLoading(false);
           return;
         }
 
-        // Fetch orders for the current user's profiles
+        // Orders the current user placed; shop orders are managed on the profile
         const { data, error: dbError } = await supabase
           .from('orders')
-          .select('*')
+          .select('*, pickup_event:events(id, title, place_name, start_time), downloads:order_downloads(*)')
+          .eq('customer_email', session.user.email)
           .order('created_at', { ascending: false });
 
         if (dbError) {
@@ -76,6 +67,12 @@ export function OrderHistory() {
     });
   };
 
+  const getDownloadState = (download: OrderDownload) => {
+    if (new Date(download.expires_at) < new Date()) return 'Link expired';
+    const remaining = download.download_limit - download.download_count;
+    return remaining > 0 ? `${remaining} of ${download.download_limit} downloads left` : 'No downloads left';
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center py-12">
@@ -127,13 +124,19 @@ export function OrderHistory() {
 
               {/* Order Details */}
               <div className="p-6 border-b border-github-border bg-github-bg">
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                   <div>
                     <p className="text-xs text-github-text-secondary uppercase tracking-wide mb-1">Status</p>
                     <p className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-900/30 text-green-300 border border-green-700">
                       {order.payment_status === 'paid' ? '✓ Paid' : order.payment_status}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-xs text-github-text-secondary uppercase tracking-wide mb-1">Delivery</p>
+                    <p className="text-sm text-github-text">
+                      {order.payment_status === 'paid' ? FULFILMENT_LABELS[order.fulfilment_status] : '—'}
+                    </p>
+                  </div>
                   <div>
                     <p className="text-xs text-github-text-secondary uppercase tracking-wide mb-1">Items</p>
                     <p className="text-sm font-semibold text-github-text">{order.items?.length || 0}</p>
@@ -169,6 +172,70 @@ export function OrderHistory() {
                 </div>
               </div>
 
+              {/* Downloads */}
+              {order.downloads && order.downloads.length > 0 && (
+                <div className="p-6 border-b border-github-border">
+                  <p className="text-sm font-semibold text-github-text mb-3">Downloads</p>
+                  <div className="space-y-2">
+                    {order.downloads.map((download) => {
+                      const canDownload = order.payment_status === 'paid'
+                        && download.download_count < download.download_limit
+                        && new Date(download.expires_at) > new Date();
+
+                      return (
+                        <div key={download.id} className="flex justify-between items-center gap-4 text-sm">
+                          <div>
+                            <p className="text-github-text font-medium">
+                              {order.items?.find(item => item.product_id === download.product_id)?.name || 'Download'}
+                            </p>
+                            <p className="text-github-text-secondary text-xs">
+                              {getDownloadState(download)} · Expires {formatDate(download.expires_at)}
+                            </p>
+                          </div>
+                          {canDownload && (
+                            <a
+                              href={getDownloadUrl(download.token)}
+                              className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-github-blue hover:bg-github-blue-dark text-white transition-all"
+                            >
+                              Download
+                            </a>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Fulfilment */}
+              {order.fulfilment_method !== 'digital' && (
+                <div className="p-6 border-b border-github-border">
+                  <p className="text-sm font-semibold text-github-text mb-2">
+                    {order.fulfilment_method === 'pickup' ? 'Pickup' : 'Shipping'}
+                  </p>
+                  {order.fulfilment_method === 'pickup' ? (
+                    <p className="text-sm text-github-text-secondary">
+                      {order.pickup_event
+                        ? `${order.pickup_event.title} · ${formatDate(order.pickup_event.start_time)}${order.pickup_event.place_name ? ` · ${order.pickup_event.place_name}` : ''}`
+                        : 'The event is no longer listed, please contact the artist'}
+                    </p>
+                  ) : (
+                    <div className="space-y-1">
+                      {order.shipping_address && (
+                        <p className="text-sm text-github-text-secondary">
+                          {[order.shipping_name, order.shipping_address.line1, order.shipping_address.line2, order.shipping_address.postal_code, order.shipping_address.city, order.shipping_address.country].filter(Boolean).join(', ')}
+                        </p>
+                      )}
+                      {order.tracking_number && (
+                        <p className="text-sm text-github-text-secondary">
+                          <span className="text-github-text-muted">Tracking:</span> {order.tracking_carrier ? `${order.tracking_carrier} ` : ''}{order.tracking_number}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Customer Info */}
               <div className="p-6 bg-github-bg">
                 <p className="text-sm font-semibold text-github-text mb-2">Customer Information</p>
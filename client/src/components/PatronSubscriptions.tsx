@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { PatronSubscription } from '../types/models';
+import { subscriptionService } from '../services/subscriptionService';
+import { formatMoney } from '../lib/money';
+
+const STATUS_LABELS: Partial<Record<PatronSubscription['status'], string>> = {
+  active: 'Active',
+  trialing: 'Active',
+  past_due: 'Payment failed',
+  canceled: 'Ended',
+  unpaid: 'Unpaid',
+  incomplete: 'Waiting for payment',
+  incomplete_expired: 'Not started',
+  paused: 'Paused'
+};
+
+export function PatronSubscriptions() {
+  const [subscriptions, setSubscriptions] = useState<PatronSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    subscriptionService.getMySubscriptions()
+      .then(setSubscriptions)
+      .catch(err => {
+        console.error('Error fetching subscriptions:', err);
+        setError('Failed to load your subscriptions');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Cancelling and card changes happen in Stripe's customer portal
+  const handleManage = async () => {
+    try {
+      setIsOpeningPortal(true);
+      setError(null);
+      window.location.href = await subscriptionService.openPortal();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open subscription management');
+      setIsOpeningPortal(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="text-light-text-secondary dark:text-github-text-secondary">Loading subscriptions...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-light-text dark:text-github-text">Subscriptions</h2>
+          <p className="text-light-text-secondary dark:text-github-text-secondary mt-1">Artists you support every month</p>
+        </div>
+        {subscriptions.length > 0 && (
+          <button
+            onClick={handleManage}
+            disabled={isOpeningPortal}
+            className="px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white font-semibold rounded-lg transition-all whitespace-nowrap"
+          >
+            {isOpeningPortal ? 'Opening...' : 'Manage or Cancel'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 rounded-lg p-4">
+          <p className="text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {subscriptions.length === 0 ? (
+        <div className="bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg p-8 text-center">
+          <p className="text-light-text-secondary dark:text-github-text-secondary text-lg">No subscriptions yet</p>
+          <p className="text-light-text-muted dark:text-github-text-muted text-sm mt-1">Become a patron from an artist's profile</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {subscriptions.map(subscription => (
+            <div key={subscription.id} className="flex items-center justify-between gap-4 p-4 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg">
+              <div className="min-w-0">
+                <Link
+                  to={`/profile/${subscription.profile_id}`}
+                  className="font-semibold text-light-text dark:text-github-text hover:text-light-blue dark:hover:text-github-blue"
+                >
+                  {subscription.profile?.name || 'Artist'}
+                </Link>
+                <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">
+                  {subscription.tier?.name || 'Patron'} · {STATUS_LABELS[subscription.status] || subscription.status}
+                  {subscription.current_period_end && subscription.status !== 'canceled' && (
+                    subscription.cancel_at_period_end
+                      ? <> · ends {new Date(subscription.current_period_end).toLocaleDateString()}</>
+                      : <> · renews {new Date(subscription.current_period_end).toLocaleDateString()}</>
+                  )}
+                </p>
+              </div>
+              <p className="font-bold text-light-blue dark:text-github-blue whitespace-nowrap">
+                {formatMoney(subscription.amount, subscription.currency)} / mo
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
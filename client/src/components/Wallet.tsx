@@ -4,11 +4,14 @@ import { DollarSign, History } from 'lucide-react';
 import { TransactionSkeleton } from './ui/SpecificSkeletons';
 import type { Profile } from '../types/models';
 import { WithdrawalWidget } from './WithdrawalWidget';
+import { formatMoney } from '../lib/money';
+import type { Money } from '../lib/money';
 
 interface Transaction {
   id: string;
   type: 'tip' | 'order' | 'withdrawal';
-  amount: number;
+  amount: number; // in minor units
+  currency: string;
   description: string;
   donor_name?: string;
   customer_name?: string;
@@ -27,6 +30,7 @@ export function Wallet({ userProfiles }: WalletProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'tip' | 'order' | 'withdrawal'>('all');
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [balances, setBalances] = useState<Money[]>([]);
 
   // Get current user ID on mount
   useEffect(() => {
@@ -50,7 +54,7 @@ export function Wallet({ userProfiles }: WalletProps) {
         // Fetch tips received
         const { data: allTips, error: allTipsError } = await supabase
           .from('tips')
-          .select('*')
+          .select('id, amount, currency, donor_name, payment_status, created_at')
           .eq('profile_id', profile.id)
           .order('created_at', { ascending: false });
 
@@ -61,13 +65,14 @@ export function Wallet({ userProfiles }: WalletProps) {
         // Show only completed tips
         const completedTips = allTips?.filter(t => t.payment_status === 'completed') || [];
 
-        completedTips.forEach((tip: { id: string; amount: number; donor_name: string; payment_status: string; created_at: string }) => {
+        completedTips.forEach((tip: { id: string; amount: number; currency: string; donor_name: string | null; payment_status: string; created_at: string }) => {
           allTransactions.push({
             id: tip.id,
             type: 'tip',
             amount: tip.amount,
-            description: `Tip from ${tip.donor_name}`,
-            donor_name: tip.donor_name,
+            currency: tip.currency,
+            description: `Tip from ${tip.donor_name || 'Anonymous'}`,
+            donor_name: tip.donor_name || 'Anonymous',
             profile_id: profile.id,
             profile_name: profile.name,
             status: 'completed',
@@ -78,7 +83,7 @@ export function Wallet({ userProfiles }: WalletProps) {
         // Fetch orders - only show orders from OTHER customers (not your own purchases)
         const { data: orders, error: ordersError } = await supabase
           .from('orders')
-          .select('id, customer_email, customer_name, total_amount, payment_status, created_at')
+          .select('id, customer_email, customer_name, total_amount, currency, payment_status, created_at')
           .eq('profile_id', profile.id)
           .eq('payment_status', 'paid')
           .order('created_at', { ascending: false });
@@ -88,13 +93,14 @@ export function Wallet({ userProfiles }: WalletProps) {
         }
 
         if (orders) {
-          orders.forEach((order: { id: string; customer_email: string; customer_name: string; total_amount: number; created_at: string }) => {
+          orders.forEach((order: { id: string; customer_email: string; customer_name: string; total_amount: number; currency: string; created_at: string }) => {
             // Only show orders from OTHER customers - exclude your own purchases from your own shop
             if (order.customer_email !== currentUserId) {
               allTransactions.push({
                 id: order.id,
                 type: 'order',
-                amount: order.total_amount / 100, // Convert from cents
+                amount: order.total_amount,
+                currency: order.currency,
                 description: `Sale from ${order.customer_name || 'Customer'}`,
                 customer_name: order.customer_name,
                 profile_id: profile.id,
@@ -109,7 +115,7 @@ export function Wallet({ userProfiles }: WalletProps) {
         // Fetch completed withdrawals
         const { data: withdrawals, error: withdrawalsError } = await supabase
           .from('withdrawals')
-          .select('id, amount, status, processed_at')
+          .select('id, amount, currency, status, processed_at')
           .eq('profile_id', profile.id)
           .eq('status', 'completed')
           .order('processed_at', { ascending: false });
@@ -119,11 +125,12 @@ export function Wallet({ userProfiles }: WalletProps) {
         }
 
         if (withdrawals) {
-          withdrawals.forEach((withdrawal: { id: string; amount: number; status: string; processed_at: string }) => {
+          withdrawals.forEach((withdrawal: { id: string; amount: number; currency: string; status: string; processed_at: string }) => {
             allTransactions.push({
               id: withdrawal.id,
               type: 'withdrawal',
               amount: -withdrawal.amount, // Negative because money goes out
+              currency: withdrawal.currency,
               description: `Withdrawal to bank account`,
               profile_id: profile.id,
               profile_name: profile.name,
@@ -153,20 +160,19 @@ export function Wallet({ userProfiles }: WalletProps) {
     filter === 'all' || tx.type === filter
   );
 
-  // Fetch total saldo from user_wallets instead of summing profiles
+  // Balances are computed from the wallet ledger, one per currency
   useEffect(() => {
     const fetchUserWallet = async () => {
       if (!currentUserId) return;
       try {
-        const { data: wallet } = await supabase
-          .from('user_wallets')
-          .select('saldo')
-          .eq('user_id', currentUserId)
-          .single();
-        
-        if (wallet) {
-          // Update totalSaldo when wallet changes
-        }
+        const { data, error } = await supabase
+          .from('wallet_balances')
+          .select('balance, currency')
+          .eq('user_id', currentUserId);
+
+        if (error) throw error;
+
+        setBalances((data || []).map(row => ({ amount: row.balance, currency: row.currency })));
       } catch (err) {
         console.error('Error fetching wallet:', err);
       }
@@ -174,10 +180,6 @@ export function Wallet({ userProfiles }: WalletProps) {
     fetchUserWallet();
   }, [currentUserId]);
 
-  // This should now be fetched from user_wallets, not from profile.saldo
-  // For now, keeping this for display but it's read from server
-  const totalSaldo = userProfiles.reduce((sum, profile) => sum + (profile.saldo || 0), 0);
-
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'tip':
@@ -219,7 +221,15 @@ export function Wallet({ userProfiles }: WalletProps) {
             <span className="text-light-text-secondary dark:text-github-text-secondary text-sm font-medium">Total Saldo</span>
             <span className="text-xl sm:text-2xl">💰</span>
           </div>
-          <p className="text-2xl sm:text-4xl font-bold text-green-600 dark:text-green-400">${totalSaldo.toFixed(2)}</p>
+          {balances.length === 0 ? (
+            <p className="text-2xl sm:text-4xl font-bold text-green-600 dark:text-green-400">{formatMoney(0)}</p>
+          ) : (
+            balances.map(balance => (
+              <p key={balance.currency} className="text-2xl sm:text-4xl font-bold text-green-600 dark:text-green-400">
+                {formatMoney(balance.amount, balance.currency)}
+              </p>
+            ))
+          )}
           <p className="text-light-text-secondary dark:text-github-text-secondary text-xs mt-2">Available balance from tips</p>
         </div>
       </div>
@@ -285,7 +295,7 @@ export function Wallet({ userProfiles }: WalletProps) {
                       <p className={`text-light-text dark:text-github-text font-bold text-sm sm:text-lg ${
                         tx.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
                       }`}>
-                        {tx.amount < 0 ? '−$' : '+$'}{Math.abs(tx.amount).toFixed(2)}
+                        {tx.amount < 0 ? '−' : '+'}{formatMoney(Math.abs(tx.amount), tx.currency)}
                       </p>
                       <p className={`text-xs font-semibold ${
                         tx.status === 'completed' ? 'text-green-600 dark:text-green-400' :
@@ -1,18 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
-import { AlertCircle, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { AlertCircle, CheckCircle, XCircle, Clock, CalendarClock } from 'lucide-react';
 import { BankAccountSetup } from './BankAccountSetup';
-import type { Profile } from '../types/models';
-
-interface Withdrawal {
-  id: string;
-  profile_id: string;
-  amount: number;
-  status: 'pending' | 'approved' | 'rejected' | 'completed';
-  requested_at: string;
-  processed_at?: string;
-  notes?: string;
-}
+import { connectService } from '../services/connectService';
+import type { ConnectAccount } from '../services/connectService';
+import { withdrawalService } from '../services/withdrawalService';
+import type { PayoutFrequency, PayoutSchedule, Profile, Withdrawal } from '../types/models';
+import { DEFAULT_CURRENCY, formatMoney, fromMinorUnits, toMinorUnits } from '../lib/money';
 
 interface WithdrawalWidgetProps {
   userProfiles: Profile[];
@@ -23,10 +17,18 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
   const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [hasBankAccount, setHasBankAccount] = useState(false);
-  const [availableSaldo, setAvailableSaldo] = useState<number>(0);
+  const [connectAccount, setConnectAccount] = useState<ConnectAccount | null>(null);
+  const [availableSaldo, setAvailableSaldo] = useState<number>(0); // in minor units
+  const [heldSaldo, setHeldSaldo] = useState<number>(0); // held by pending requests, in minor units
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string>('');
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<PayoutSchedule | null>(null);
+  const [scheduleFrequency, setScheduleFrequency] = useState<PayoutFrequency | 'off'>('off');
+  const [scheduleMinimum, setScheduleMinimum] = useState<string>('');
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [scheduleMessage, setScheduleMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const payoutCurrency = userProfiles[0]?.payout_currency || DEFAULT_CURRENCY;
 
   // Get current user ID from auth
   useEffect(() => {
@@ -42,54 +44,48 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
   const fetchUserWallet = useCallback(async () => {
     if (!currentUserId) return;
     try {
-      // Get user's wallet (shared across all profiles)
+      // Get user's balance in the payout currency (shared across all profiles),
+      // less what pending requests hold
       const { data: wallet, error: walletError } = await supabase
-        .from('user_wallets')
-        .select('saldo')
+        .from('wallet_available_balances')
+        .select('available, held')
         .eq('user_id', currentUserId)
-        .single();
+        .eq('currency', payoutCurrency)
+        .maybeSingle();
 
-      if (!walletError && wallet) {
-        setAvailableSaldo(wallet.saldo || 0);
+      if (!walletError) {
+        setAvailableSaldo(wallet?.available || 0);
+        setHeldSaldo(wallet?.held || 0);
       } else {
         console.error('Error fetching wallet:', walletError);
         setAvailableSaldo(0);
+        setHeldSaldo(0);
       }
     } catch (err) {
       console.error('Error fetching user wallet:', err);
     }
-  }, [currentUserId]);
+  }, [currentUserId, payoutCurrency]);
 
   const checkBankAccount = useCallback(async () => {
     if (!userProfiles.length) return;
     try {
-      // Check if any profile has bank account (just need one since it's user-level concept now)
-      const { data: profile, error } = await supabase
-        .from('profiles')
-        .select('bank_account_token')
-        .eq('id', userProfiles[0].id)
-        .single();
-
-      if (!error && profile?.bank_account_token) {
-        setHasBankAccount(true);
-      } else {
-        setHasBankAccount(false);
-      }
+      // Payouts go to the Stripe Connect account of the user's membership
+      const account = await connectService.getStatus(userProfiles[0].id);
+      setConnectAccount(account);
     } catch (err) {
-      console.error('Error checking bank account:', err);
+      console.error('Error checking payout account:', err);
+      setConnectAccount(null);
     }
   }, [userProfiles]);
 
+  const hasBankAccount = connectAccount?.status === 'connected';
+
   const fetchWithdrawals = useCallback(async () => {
     if (!currentUserId || !userProfiles.length) return;
     try {
       setIsLoading(true);
       // Fetch withdrawals for any of the user's profiles
-      const response = await fetch(`http://localhost:3000/api/withdrawals/${userProfiles[0].id}`);
-      if (response.ok) {
-        const data = await response.json();
-        setWithdrawals(data);
-      }
+      setWithdrawals(await withdrawalService.getProfileWithdrawals(userProfiles[0].id));
     } catch (err) {
       console.error('Error fetching withdrawals:', err);
     } finally {
@@ -97,13 +93,26 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
     }
   }, [currentUserId, userProfiles]);
 
+  const fetchSchedule = useCallback(async () => {
+    if (!currentUserId) return;
+    try {
+      const current = await withdrawalService.getSchedule();
+      setSchedule(current);
+      setScheduleFrequency(current?.frequency || 'off');
+      setScheduleMinimum(current ? fromMinorUnits(current.minimum_amount).toFixed(2) : '');
+    } catch (err) {
+      console.error('Error fetching payout schedule:', err);
+    }
+  }, [currentUserId]);
+
   useEffect(() => {
     if (currentUserId && userProfiles.length) {
       checkBankAccount();
       fetchUserWallet();
       fetchWithdrawals();
+      fetchSchedule();
     }
-  }, [currentUserId, userProfiles, checkBankAccount, fetchUserWallet, fetchWithdrawals]);
+  }, [currentUserId, userProfiles, checkBankAccount, fetchUserWallet, fetchWithdrawals, fetchSchedule]);
 
   const handleRequestWithdrawal = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -114,34 +123,68 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
       return;
     }
 
-    if (parseFloat(requestAmount) > availableSaldo) {
-      setMessage({ type: 'error', text: `Amount exceeds available saldo ($${availableSaldo.toFixed(2)})` });
+    const amountInMinorUnits = toMinorUnits(parseFloat(requestAmount));
+
+    if (amountInMinorUnits > availableSaldo) {
+      setMessage({ type: 'error', text: `Amount exceeds available saldo (${formatMoney(availableSaldo, payoutCurrency)})` });
       return;
     }
 
     try {
       setIsSubmitting(true);
-      const response = await fetch('http://localhost:3000/api/withdrawals/request', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          profileId: userProfiles[0].id,
-          amount: parseFloat(requestAmount)
-        })
-      });
-
-      if (response.ok) {
-        setMessage({ type: 'success', text: 'Withdrawal request submitted successfully!' });
-        setRequestAmount('');
-        fetchWithdrawals();
+      await withdrawalService.requestWithdrawal(userProfiles[0].id, amountInMinorUnits, payoutCurrency);
+      setMessage({ type: 'success', text: 'Withdrawal request submitted successfully!' });
+      setRequestAmount('');
+      fetchWithdrawals();
+      fetchUserWallet();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Error submitting withdrawal request' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelWithdrawal = async (withdrawalId: string) => {
+    if (!confirm('Cancel this withdrawal request?')) return;
+    setMessage(null);
+
+    try {
+      setCancellingId(withdrawalId);
+      await withdrawalService.cancelWithdrawal(withdrawalId);
+      setMessage({ type: 'success', text: 'Withdrawal request cancelled' });
+      fetchWithdrawals();
+      fetchUserWallet();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Error cancelling withdrawal request' });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const handleSaveSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setScheduleMessage(null);
+
+    try {
+      setIsSavingSchedule(true);
+
+      if (scheduleFrequency === 'off') {
+        if (schedule) await withdrawalService.deleteSchedule();
+        setScheduleMessage({ type: 'success', text: 'Scheduled payouts turned off' });
       } else {
-        const error = await response.json();
-        setMessage({ type: 'error', text: error.message || 'Failed to submit withdrawal request' });
+        if (!scheduleMinimum || parseFloat(scheduleMinimum) <= 0) {
+          setScheduleMessage({ type: 'error', text: 'Please enter a valid minimum amount' });
+          return;
+        }
+        await withdrawalService.saveSchedule(userProfiles[0].id, scheduleFrequency, toMinorUnits(parseFloat(scheduleMinimum)));
+        setScheduleMessage({ type: 'success', text: 'Payout schedule saved' });
       }
-    } catch {
-      setMessage({ type: 'error', text: 'Error submitting withdrawal request' });
+
+      fetchSchedule();
+    } catch (err) {
+      setScheduleMessage({ type: 'error', text: err instanceof Error ? err.message : 'Error saving payout schedule' });
     } finally {
-      setIsSubmitting(false);
+      setIsSavingSchedule(false);
     }
   };
 
@@ -154,7 +197,10 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
       case 'completed':
         return <CheckCircle size={16} className="text-green-400" />;
       case 'rejected':
+      case 'failed':
         return <XCircle size={16} className="text-red-400" />;
+      case 'cancelled':
+        return <XCircle size={16} className="text-gray-400" />;
       default:
         return null;
     }
@@ -169,6 +215,7 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
       case 'completed':
         return 'bg-green-900/20 border-green-700 text-green-300';
       case 'rejected':
+      case 'failed':
         return 'bg-red-900/20 border-red-700 text-red-300';
       default:
         return 'bg-gray-900/20 border-gray-700 text-gray-300';
@@ -177,13 +224,11 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
 
   return (
     <div className="space-y-6">
-      {/* Bank Account Setup - Show if needed */}
-      {!hasBankAccount && userProfiles.length > 0 && (
+      {/* Payout Account Setup */}
+      {userProfiles.length > 0 && (
         <BankAccountSetup 
           profileId={userProfiles[0].id}
-          onAccountAdded={() => {
-            checkBankAccount();
-          }}
+          account={connectAccount}
         />
       )}
 
@@ -193,7 +238,12 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
 
         <div className="mb-4 p-4 bg-github-card border border-github-border rounded-lg">
           <p className="text-github-text-secondary text-sm mb-1">Available Saldo</p>
-          <p className="text-2xl font-bold text-green-400">{availableSaldo.toFixed(2)} SEK</p>
+          <p className="text-2xl font-bold text-green-400">{formatMoney(availableSaldo, payoutCurrency)}</p>
+          {heldSaldo > 0 && (
+            <p className="text-xs text-yellow-300 mt-2">
+              {formatMoney(heldSaldo, payoutCurrency)} held by pending requests
+            </p>
+          )}
           <p className="text-xs text-github-text-secondary mt-2">Shared balance across all your profiles</p>
         </div>
 
@@ -201,9 +251,9 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
           <div className="mb-4 p-4 bg-red-900/20 border border-red-700 rounded-lg flex items-start gap-3">
             <AlertCircle className="text-red-400 flex-shrink-0 mt-0.5" size={20} />
             <div>
-              <p className="text-red-300 font-semibold mb-2">Bank Account Required</p>
+              <p className="text-red-300 font-semibold mb-2">Payout Account Required</p>
               <p className="text-sm text-red-200">
-                You need to add a bank account to request withdrawals. Scroll up to add your banking details.
+                You need to finish setting up your payout account to request withdrawals. Scroll up to continue with Stripe.
               </p>
             </div>
           </div>
@@ -216,12 +266,12 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
             </label>
             <div className="flex gap-2">
               <div className="flex-1 relative">
-                <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-github-text-secondary">SEK</span>
+                <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-github-text-secondary">{payoutCurrency}</span>
                 <input
                   type="number"
                   step="0.01"
                   min="0"
-                  max={availableSaldo}
+                  max={fromMinorUnits(availableSaldo)}
                   value={requestAmount}
                   onChange={(e) => setRequestAmount(e.target.value)}
                   placeholder="0.00"
@@ -231,7 +281,7 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
               </div>
               <button
                 type="button"
-                onClick={() => setRequestAmount(availableSaldo.toFixed(2))}
+                onClick={() => setRequestAmount(fromMinorUnits(availableSaldo).toFixed(2))}
                 disabled={!hasBankAccount}
                 className="px-3 py-2 bg-github-blue hover:bg-github-blue-dark disabled:opacity-50 text-github-text text-sm font-medium rounded-lg transition-all duration-200"
               >
@@ -265,6 +315,72 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
         </form>
       </div>
 
+      {/* Scheduled Payouts */}
+      <div className="bg-github-bg border border-github-border rounded-lg p-6">
+        <h3 className="text-lg font-bold text-github-text mb-2">Scheduled Payouts</h3>
+        <p className="text-sm text-github-text-secondary mb-4">
+          Withdraw your available saldo automatically every Monday or on the 1st of each month, once it reaches your minimum.
+        </p>
+
+        <form onSubmit={handleSaveSchedule} className={`space-y-4 ${!hasBankAccount ? 'opacity-50 pointer-events-none' : ''}`}>
+          <div className="flex gap-2">
+            <select
+              value={scheduleFrequency}
+              onChange={(e) => setScheduleFrequency(e.target.value as PayoutFrequency | 'off')}
+              disabled={!hasBankAccount}
+              className="px-3 py-2 bg-github-card border border-github-border rounded-lg text-github-text focus:border-github-blue focus:outline-none disabled:opacity-50"
+            >
+              <option value="off">Off</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+            </select>
+            <div className="flex-1 relative">
+              <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-github-text-secondary">{payoutCurrency}</span>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={scheduleMinimum}
+                onChange={(e) => setScheduleMinimum(e.target.value)}
+                placeholder="Minimum amount"
+                disabled={!hasBankAccount || scheduleFrequency === 'off'}
+                className="w-full pl-12 pr-3 py-2 bg-github-card border border-github-border rounded-lg text-github-text placeholder-github-text-secondary focus:border-github-blue focus:outline-none disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {schedule && (
+            <p className="text-xs text-github-text-secondary flex items-center gap-2">
+              <CalendarClock size={14} />
+              Next payout check: {new Date(schedule.next_run_at).toLocaleDateString()}
+            </p>
+          )}
+
+          {scheduleMessage && (
+            <div className={`p-3 rounded-lg border flex items-center gap-2 ${
+              scheduleMessage.type === 'success'
+                ? 'bg-green-900/20 border-green-700 text-green-300'
+                : 'bg-red-900/20 border-red-700 text-red-300'
+            }`}>
+              {scheduleMessage.type === 'success' ? (
+                <CheckCircle size={18} />
+              ) : (
+                <AlertCircle size={18} />
+              )}
+              <span className="text-sm">{scheduleMessage.text}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSavingSchedule || !hasBankAccount || (scheduleFrequency === 'off' && !schedule)}
+            className="w-full px-4 py-2 bg-github-blue hover:bg-github-blue-dark disabled:opacity-50 disabled:cursor-not-allowed text-github-text font-semibold rounded-lg transition-all duration-200"
+          >
+            {isSavingSchedule ? 'Saving...' : 'Save Schedule'}
+          </button>
+        </form>
+      </div>
+
       {/* Withdrawal History */}
       <div className="bg-github-bg border border-github-border rounded-lg p-6">
         <h3 className="text-lg font-bold text-github-text mb-4">Withdrawal History</h3>
@@ -283,15 +399,31 @@ export function WithdrawalWidget({ userProfiles }: WithdrawalWidgetProps) {
                 <div className="flex items-center gap-3 flex-1">
                   {getStatusIcon(withdrawal.status)}
                   <div>
-                    <p className="font-semibold">{withdrawal.amount.toFixed(2)} SEK</p>
+                    <p className="font-semibold">{formatMoney(withdrawal.amount, withdrawal.currency)}</p>
                     <p className="text-xs opacity-75">
                       {new Date(withdrawal.requested_at).toLocaleDateString()} • {withdrawal.status.charAt(0).toUpperCase() + withdrawal.status.slice(1)}
+                      {withdrawal.payout_schedule_id && ' • Scheduled'}
                     </p>
                     {withdrawal.notes && (
                       <p className="text-xs opacity-75 mt-1">{withdrawal.notes}</p>
                     )}
+                    {withdrawal.status === 'failed' && (
+                      <p className="text-xs opacity-75 mt-1">
+                        The payout didn't reach your bank and has been returned to your saldo
+                        {withdrawal.payout_error && ` (${withdrawal.payout_error})`}
+                      </p>
+                    )}
                   </div>
                 </div>
+                {withdrawal.status === 'pending' && (
+                  <button
+                    onClick={() => handleCancelWithdrawal(withdrawal.id)}
+                    disabled={cancellingId === withdrawal.id}
+                    className="px-3 py-1 text-sm border border-current rounded-lg opacity-75 hover:opacity-100 disabled:opacity-50 transition-all duration-200"
+                  >
+                    {cancellingId === withdrawal.id ? 'Cancelling...' : 'Cancel'}
+                  </button>
+                )}
               </div>
             ))}
           </div>
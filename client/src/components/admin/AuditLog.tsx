@@ -0,0 +1,258 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { adminService } from '../../services/adminService';
+import type { AuditEventFilters } from '../../services/adminService';
+import type { AuditAction, AuditEvent } from '../../types/models';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'withdrawal.approve': 'Withdrawal approved',
+  'withdrawal.reject': 'Withdrawal rejected',
+  'withdrawal.mark_completed': 'Withdrawal marked completed',
+  'withdrawal.bulk_process': 'Withdrawals bulk processed',
+  'withdrawal.auto_approve_limit': 'Auto-approve limit changed',
+  'withdrawal.cancel': 'Withdrawal cancelled',
+  'payout_schedule.update': 'Payout schedule saved',
+  'payout_schedule.delete': 'Payout schedule removed',
+  'refund.create': 'Refund issued',
+  'invite.accept': 'Invite accepted (revenue shares)',
+  'payout_account.onboarding': 'Payout account setup',
+  'payout_account.dashboard_login': 'Payout details opened on Stripe',
+  'payout_account.bank_account_created': 'Bank account added',
+  'payout_account.bank_account_updated': 'Bank account updated',
+  'payout_account.bank_account_deleted': 'Bank account removed'
+};
+
+interface FilterForm {
+  action: AuditAction | '';
+  actor: string;
+  targetId: string;
+  from: string; // yyyy-mm-dd
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterForm = { action: '', actor: '', targetId: '', from: '', to: '' };
+
+// Dates are picked in local time; `to` includes the whole day
+function toApiFilters(form: FilterForm): AuditEventFilters {
+  return {
+    action: form.action || undefined,
+    actor: form.actor.trim() || undefined,
+    targetId: form.targetId.trim() || undefined,
+    from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+    to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined
+  };
+}
+
+export function AuditLog() {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [page, setPage] = useState(1);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await adminService.getAuditEvents(filters, page);
+      setEvents(result.events);
+      setTotal(result.total);
+      setPageSize(result.pageSize);
+    } catch (err) {
+      console.error('Error fetching audit events:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch audit events');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(toApiFilters(form));
+    setPage(1);
+  };
+
+  const handleClear = () => {
+    setForm(EMPTY_FILTERS);
+    setFilters({});
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const csv = await adminService.exportAuditEvents(filters);
+      const url = URL.createObjectURL(csv);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting audit events:', err);
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to export audit events'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="min-h-screen bg-github-bg p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-github-text">Audit Log</h1>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || total === 0}
+            className="px-4 py-2 bg-github-blue hover:bg-github-blue-dark disabled:opacity-50 text-github-text font-medium rounded-lg transition-all flex items-center gap-2"
+          >
+            <Download size={18} />
+            {isExporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={handleSearch} className="mb-6 bg-github-card border border-github-border rounded-lg p-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <select
+            value={form.action}
+            onChange={(e) => setForm({ ...form, action: e.target.value as AuditAction | '' })}
+            className="lg:col-span-2 px-3 py-2 bg-github-bg border border-github-border rounded text-github-text text-sm focus:outline-none focus:border-github-blue"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={form.actor}
+            onChange={(e) => setForm({ ...form, actor: e.target.value })}
+            placeholder="Actor email"
+            className="px-3 py-2 bg-github-bg border border-github-border rounded text-github-text text-sm placeholder-github-text-secondary focus:outline-none focus:border-github-blue"
+          />
+          <input
+            type="text"
+            value={form.targetId}
+            onChange={(e) => setForm({ ...form, targetId: e.target.value })}
+            placeholder="Target ID"
+            className="px-3 py-2 bg-github-bg border border-github-border rounded text-github-text text-sm placeholder-github-text-secondary focus:outline-none focus:border-github-blue"
+          />
+          <input
+            type="date"
+            value={form.from}
+            onChange={(e) => setForm({ ...form, from: e.target.value })}
+            title="From"
+            className="px-3 py-2 bg-github-bg border border-github-border rounded text-github-text text-sm focus:outline-none focus:border-github-blue"
+          />
+          <input
+            type="date"
+            value={form.to}
+            onChange={(e) => setForm({ ...form, to: e.target.value })}
+            title="To"
+            className="px-3 py-2 bg-github-bg border border-github-border rounded text-github-text text-sm focus:outline-none focus:border-github-blue"
+          />
+          <div className="md:col-span-3 lg:col-span-6 flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={handleClear}
+              className="px-4 py-2 bg-github-bg border border-github-border text-github-text-secondary hover:border-github-blue rounded-lg text-sm font-medium transition-all"
+            >
+              Clear
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-github-blue hover:bg-github-blue-dark text-github-text rounded-lg text-sm font-medium transition-all"
+            >
+              Search
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-700 rounded-lg text-red-300">{error}</div>
+        )}
+
+        {/* Events */}
+        {isLoading ? (
+          <p className="text-center text-github-text-secondary py-8">Loading...</p>
+        ) : events.length === 0 ? (
+          <p className="text-center text-github-text-secondary py-8">No audit events</p>
+        ) : (
+          <div className="border border-github-border rounded-lg divide-y divide-github-border">
+            {events.map((event) => (
+              <div key={event.id} className="bg-github-card">
+                <button
+                  onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  className="w-full p-4 flex items-start gap-3 text-left hover:bg-github-bg transition-all"
+                >
+                  {expandedId === event.id
+                    ? <ChevronDown size={18} className="text-github-text-secondary mt-0.5" />
+                    : <ChevronRight size={18} className="text-github-text-secondary mt-0.5" />}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-github-text">{ACTION_LABELS[event.action] || event.action}</p>
+                    <p className="text-sm text-github-text-secondary truncate">
+                      {event.actor_email || (event.actor_id ? event.actor_id : 'Stripe / system')}
+                      {' • '}{event.target_type}{event.target_id && ` ${event.target_id}`}
+                    </p>
+                  </div>
+                  <div className="text-right text-xs text-github-text-secondary whitespace-nowrap">
+                    <p>{new Date(event.created_at).toLocaleString()}</p>
+                    {event.ip_address && <p className="font-mono">{event.ip_address}</p>}
+                  </div>
+                </button>
+
+                {expandedId === event.id && (
+                  <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {(['before', 'after'] as const).map((side) => (
+                      <div key={side}>
+                        <p className="text-sm font-semibold text-github-text mb-1 capitalize">{side}</p>
+                        <pre className="text-xs text-github-text-secondary bg-github-bg border border-github-border rounded p-3 overflow-x-auto">
+                          {event[side] == null ? '—' : JSON.stringify(event[side], null, 2)}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {total > pageSize && (
+          <div className="mt-6 flex items-center justify-between text-sm text-github-text-secondary">
+            <span>{total} events</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 bg-github-card border border-github-border rounded disabled:opacity-50 hover:border-github-blue transition-all"
+              >
+                Previous
+              </button>
+              <span>Page {page} of {pageCount}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount}
+                className="px-3 py-1 bg-github-card border border-github-border rounded disabled:opacity-50 hover:border-github-blue transition-all"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,41 +1,52 @@
 import { useState, useEffect } from 'react';
 import { CheckCircle, XCircle, Clock } from 'lucide-react';
-
-interface WithdrawalRequest {
-  id: string;
-  profile_id: string;
-  amount: number;
-  status: 'pending' | 'approved' | 'rejected' | 'completed';
-  requested_at: string;
-  processed_at?: string;
-  notes?: string;
-  profile_name?: string;
-  stripe_payout_id?: string;
-  payout_error?: string;
-}
+import { SUPPORTED_CURRENCIES, formatMoney, fromMinorUnits, toMinorUnits } from '../../lib/money';
+import { withdrawalService } from '../../services/withdrawalService';
+import type { Withdrawal, WithdrawalStatus } from '../../types/models';
 
 export function WithdrawalAdmin() {
-  const [withdrawals, setWithdrawals] = useState<WithdrawalRequest[]>([]);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected' | 'completed'>('pending');
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [filter, setFilter] = useState<'all' | WithdrawalStatus>('pending');
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState<string | null>(null);
   const [adminNotes, setAdminNotes] = useState<{ [key: string]: string }>({});
   const [successMessage, setSuccessMessage] = useState<{ id: string; message: string } | null>(null);
+  // Auto-approve limits for scheduled payouts, in major units as typed; '' means none
+  const [autoApproveLimits, setAutoApproveLimits] = useState<{ [currency: string]: string }>({});
+  const [savingLimit, setSavingLimit] = useState<string | null>(null);
 
   useEffect(() => {
     fetchWithdrawals();
+    fetchAutoApproveLimits();
   }, []);
 
+  const fetchAutoApproveLimits = async () => {
+    try {
+      const limits = await withdrawalService.getAutoApproveLimits();
+      setAutoApproveLimits(Object.fromEntries(limits.map(l => [l.currency, fromMinorUnits(l.amount).toFixed(2)])));
+    } catch (err) {
+      console.error('Error fetching auto-approve limits:', err);
+    }
+  };
+
+  const handleSaveLimit = async (currency: string) => {
+    const value = autoApproveLimits[currency] || '';
+    setSavingLimit(currency);
+    try {
+      await withdrawalService.setAutoApproveLimit(currency, value === '' ? null : toMinorUnits(parseFloat(value)));
+      fetchAutoApproveLimits();
+    } catch (err) {
+      console.error('Error saving auto-approve limit:', err);
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to save auto-approve limit'}`);
+    } finally {
+      setSavingLimit(null);
+    }
+  };
+
   const fetchWithdrawals = async () => {
     try {
       setIsLoading(true);
-      // This would need to be an admin endpoint that fetches all withdrawals
-      // For now, showing the structure
-      const response = await fetch('http://localhost:3000/api/withdrawals/admin/all');
-      if (response.ok) {
-        const data = await response.json();
-        setWithdrawals(data);
-      }
+      setWithdrawals(await withdrawalService.getAllWithdrawals());
     } catch (err) {
       console.error('Error fetching withdrawals:', err);
     } finally {
@@ -46,36 +57,23 @@ export function WithdrawalAdmin() {
   const handleApprove = async (withdrawalId: string) => {
     setIsProcessing(withdrawalId);
     try {
-      const response = await fetch(`http://localhost:3000/api/withdrawals/${withdrawalId}/approve`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          notes: adminNotes[withdrawalId] || null
-        })
+      const data = await withdrawalService.approveWithdrawal(withdrawalId, adminNotes[withdrawalId] || null);
+      const payoutMsg = data.payout?.success 
+        ? ` Stripe payout initiated (${data.payout.payoutId})`
+        : data.payout?.error 
+        ? ` ⚠️ Payout failed: ${data.payout.error}`
+        : '';
+      
+      setSuccessMessage({
+        id: withdrawalId,
+        message: `✓ Withdrawal approved! ${formatMoney(data.withdrawal.amount, data.withdrawal.currency)} deducted from artist's saldo. New saldo: ${formatMoney(data.newSaldo.amount, data.newSaldo.currency)}.${payoutMsg}`
       });
-
-      if (response.ok) {
-        const data = await response.json();
-        const payoutMsg = data.payout?.success 
-          ? ` Stripe payout initiated (${data.payout.payoutId})`
-          : data.payout?.error 
-          ? ` ⚠️ Payout failed: ${data.payout.error}`
-          : '';
-        
-        setSuccessMessage({
-          id: withdrawalId,
-          message: `✓ Withdrawal approved! ${data.withdrawal.amount.toFixed(2)} SEK deducted from artist's saldo. New saldo: ${data.newSaldo.toFixed(2)} SEK.${payoutMsg}`
-        });
-        setTimeout(() => setSuccessMessage(null), 5000);
-        fetchWithdrawals();
-        setAdminNotes({ ...adminNotes, [withdrawalId]: '' });
-      } else {
-        const error = await response.json();
-        alert(`Error: ${error.message}`);
-      }
+      setTimeout(() => setSuccessMessage(null), 5000);
+      fetchWithdrawals();
+      setAdminNotes({ ...adminNotes, [withdrawalId]: '' });
     } catch (err) {
       console.error('Error approving withdrawal:', err);
-      alert('Failed to approve withdrawal');
+      alert(`Error: ${err instanceof Error ? err.message : 'Failed to approve withdrawal'}`);
     } finally {
       setIsProcessing(null);
     }
@@ -84,18 +82,9 @@ export function WithdrawalAdmin() {
   const handleReject = async (withdrawalId: string) => {
     setIsProcessing(withdrawalId);
     try {
-      const response = await fetch(`http://localhost:3000/api/withdrawals/${withdrawalId}/reject`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          notes: adminNotes[withdrawalId] || null
-        })
-      });
-
-      if (response.ok) {
-        fetchWithdrawals();
-        setAdminNotes({ ...adminNotes, [withdrawalId]: '' });
-      }
+      await withdrawalService.rejectWithdrawal(withdrawalId, adminNotes[withdrawalId] || null);
+      fetchWithdrawals();
+      setAdminNotes({ ...adminNotes, [withdrawalId]: '' });
     } catch (err) {
       console.error('Error rejecting withdrawal:', err);
     } finally {
@@ -106,13 +95,8 @@ export function WithdrawalAdmin() {
   const handleMarkCompleted = async (withdrawalId: string) => {
     setIsProcessing(withdrawalId);
     try {
-      const response = await fetch(`http://localhost:3000/api/withdrawals/${withdrawalId}/mark-completed`, {
-        method: 'PATCH'
-      });
-
-      if (response.ok) {
-        fetchWithdrawals();
-      }
+      await withdrawalService.markCompleted(withdrawalId);
+      fetchWithdrawals();
     } catch (err) {
       console.error('Error marking as completed:', err);
     } finally {
@@ -133,7 +117,10 @@ export function WithdrawalAdmin() {
       case 'completed':
         return <CheckCircle size={18} className="text-green-400" />;
       case 'rejected':
+      case 'failed':
         return <XCircle size={18} className="text-red-400" />;
+      case 'cancelled':
+        return <XCircle size={18} className="text-gray-400" />;
       default:
         return null;
     }
@@ -148,6 +135,7 @@ export function WithdrawalAdmin() {
       case 'completed':
         return 'bg-green-900/20 border-green-700';
       case 'rejected':
+      case 'failed':
         return 'bg-red-900/20 border-red-700';
       default:
         return 'bg-gray-900/20 border-gray-700';
@@ -166,9 +154,40 @@ export function WithdrawalAdmin() {
           </div>
         )}
 
+        {/* Auto-approve Limits */}
+        <div className="mb-8 bg-github-card border border-github-border rounded-lg p-6">
+          <h2 className="text-lg font-bold text-github-text mb-2">Scheduled Payout Auto-approval</h2>
+          <p className="text-sm text-github-text-secondary mb-4">
+            Scheduled withdrawals up to these amounts are approved and paid out automatically. Leave a currency empty to review all of its scheduled withdrawals.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {SUPPORTED_CURRENCIES.map((currency) => (
+              <div key={currency} className="flex gap-2 items-center">
+                <span className="w-12 text-sm text-github-text-secondary">{currency}</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={autoApproveLimits[currency] || ''}
+                  onChange={(e) => setAutoApproveLimits({ ...autoApproveLimits, [currency]: e.target.value })}
+                  placeholder="No limit"
+                  className="flex-1 min-w-0 px-3 py-2 bg-github-bg border border-github-border rounded text-github-text text-sm focus:outline-none focus:border-github-blue"
+                />
+                <button
+                  onClick={() => handleSaveLimit(currency)}
+                  disabled={savingLimit === currency}
+                  className="px-3 py-2 bg-github-blue hover:bg-github-blue-dark disabled:opacity-50 text-github-text text-sm font-medium rounded transition-all"
+                >
+                  {savingLimit === currency ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Filter Buttons */}
         <div className="mb-6 flex gap-2 flex-wrap">
-          {(['all', 'pending', 'approved', 'rejected', 'completed'] as const).map((filterType) => (
+          {(['all', 'pending', 'approved', 'rejected', 'completed', 'failed', 'cancelled'] as const).map((filterType) => (
             <button
               key={filterType}
               onClick={() => setFilter(filterType)}
@@ -200,10 +219,11 @@ export function WithdrawalAdmin() {
                     {getStatusIcon(withdrawal.status)}
                     <div>
                       <h3 className="text-lg font-bold text-github-text">
-                        {withdrawal.amount.toFixed(2)} SEK
+                        {formatMoney(withdrawal.amount, withdrawal.currency)}
                       </h3>
                       <p className="text-sm text-github-text-secondary">
                         {withdrawal.profile_name} • {new Date(withdrawal.requested_at).toLocaleDateString()}
+                        {withdrawal.payout_schedule_id && ' • Scheduled payout'}
                       </p>
                     </div>
                   </div>
@@ -211,6 +231,7 @@ export function WithdrawalAdmin() {
                     withdrawal.status === 'pending' ? 'bg-yellow-900/30 text-yellow-300' :
                     withdrawal.status === 'approved' ? 'bg-blue-900/30 text-blue-300' :
                     withdrawal.status === 'completed' ? 'bg-green-900/30 text-green-300' :
+                    withdrawal.status === 'cancelled' ? 'bg-gray-900/30 text-gray-300' :
                     'bg-red-900/30 text-red-300'
                   }`}>
                     {withdrawal.status.charAt(0).toUpperCase() + withdrawal.status.slice(1)}
@@ -40,7 +40,8 @@ const INITIAL_FORM_STATE = {
   subcategory: '',
   event_type: 'solo_performance' as 'solo_performance' | 'open_mic' | 'venue_booking',
   max_performers: 1,
-  accepting_requests: false
+  accepting_requests: false,
+  organizer_share_percent: 0
 };
 
 const EVENT_TYPES = [
@@ -247,7 +248,8 @@ export function CreateEvent() {
         end_time: endTime.toISOString(),
         event_type: form.event_type,
         max_performers: form.event_type === 'solo_performance' ? 1 : form.max_performers,
-        accepting_requests: form.event_type !== 'solo_performance' && form.accepting_requests
+        accepting_requests: form.event_type !== 'solo_performance' && form.accepting_requests,
+        organizer_share_percent: form.event_type === 'venue_booking' ? form.organizer_share_percent : 0
       };
 
       const event = await eventService.createEvent(eventPayload);
@@ -569,6 +571,35 @@ export function CreateEvent() {
           </>
         )}
 
+        {/* Organizer share of tips - Only for venue booking */}
+        {form.event_type === 'venue_booking' && (
+          <>
+            <div className="col-span-1 flex items-center">
+              <label className="font-medium text-gray-900 dark:text-github-text">Venue Share</label>
+            </div>
+            <div className="col-span-3">
+              <div className="flex items-center gap-4">
+                <input
+                  type="number"
+                  min="0"
+                  max="50"
+                  step="0.5"
+                  value={form.organizer_share_percent}
+                  onChange={e => setForm(prev => ({ ...prev, organizer_share_percent: Math.min(50, Math.max(0, parseFloat(e.target.value) || 0)) }))}
+                  className="w-24 px-3 py-2 rounded border border-gray-300 dark:border-github-border bg-white dark:bg-github-bg text-gray-900 dark:text-github-text text-center"
+                />
+                <span className="text-sm text-gray-600 dark:text-github-text-secondary">
+                  % of the tips artists get through this event's page (optional, up to 50%)
+                </span>
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-github-text-muted">
+                Artists see the share before they request to join or accept your invite. Changing it later
+                only applies to new requests and invites.
+              </p>
+            </div>
+          </>
+        )}
+
         {/* Title */}
         <div className="col-span-1 flex items-center">
           <label className="font-medium text-gray-900 dark:text-github-text">Title</label>
@@ -3,6 +3,8 @@ import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { eventService } from '../../services/eventService';
 import { profileService } from '../../services/profileService';
 import { useAuth } from '../../context/useAuth';
+import { EventTipButton } from './EventTipButton';
+import { EventTipReport } from './EventTipReport';
 import type { Event, Profile, EventRequest } from '../../types/models';
 import { Users, Music, Building2, Check, X, Send, Loader2, Clock, Mail, MapPin, Calendar, User, Star } from 'lucide-react';
 import { Map, Marker } from 'react-map-gl';
@@ -61,8 +63,8 @@ export function EventDetail() {
   const [selectedProfileId, setSelectedProfileId] = useState<string>('');
   const [eventRequests, setEventRequests] = useState<EventRequestWithProfile[]>([]);
   const [eventInvites, setEventInvites] = useState<any[]>([]);
-  const [existingRequest, setExistingRequest] = useState<{ id: string; status: string } | null>(null);
-  const [existingInvite, setExistingInvite] = useState<{ id: string; status: string } | null>(null);
+  const [existingRequest, setExistingRequest] = useState<{ id: string; status: string; organizer_share_percent?: number } | null>(null);
+  const [existingInvite, setExistingInvite] = useState<{ id: string; status: string; organizer_share_percent?: number } | null>(null);
   const [requestMessage, setRequestMessage] = useState('');
   const [isSubmittingRequest, setIsSubmittingRequest] = useState(false);
   const [showRequestForm, setShowRequestForm] = useState(false);
@@ -73,13 +75,17 @@ export function EventDetail() {
   const hasAcceptedRequest = existingRequest?.status === 'accepted';
   const isAlreadyParticipating = hasAcceptedInvite || hasAcceptedRequest;
   const canRequest = event?.accepting_requests && !isEventOwner && selectedProfileId && !existingRequest && !isEventInPast && !isAlreadyParticipating;
+  // The venue's cut of tips made through this page, as the event is set up now
+  const organizerSharePercent = event?.event_type === 'venue_booking' ? Number(event.organizer_share_percent || 0) : 0;
+  // The cut agreed with the current user's profile, fixed when they requested or were invited
+  const agreedSharePercent = Number((existingRequest || existingInvite)?.organizer_share_percent || 0);
 
   // Handle event invite responses
   const handleEventInviteResponse = async (inviteId: string, status: 'accepted' | 'rejected') => {
     try {
       await eventService.updateEventInviteStatus(inviteId, status);
       // Update the existing invite state
-      setExistingInvite({ id: inviteId, status });
+      setExistingInvite(prev => prev && { ...prev, status });
       // Reload event data to update participant list
       if (id) {
         const data = await eventService.getEvent(id);
@@ -403,6 +409,11 @@ export function EventDetail() {
                 <div>
                   <h3 className="font-bold">You're Invited!</h3>
                   <p className="text-sm opacity-90">You've been invited to perform at this event</p>
+                  {Number(existingInvite.organizer_share_percent || 0) > 0 && (
+                    <p className="text-sm opacity-90">
+                      By accepting, you agree the venue keeps {Number(existingInvite.organizer_share_percent)}% of the tips you get through this event's page
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex gap-2">
@@ -633,6 +644,11 @@ export function EventDetail() {
           {/* Right Column - Compact Sidebar */}
           <div className="space-y-4">
             
+            {/* Tip the performers at this event */}
+            {event.status !== 'cancelled' && (
+              <EventTipButton eventId={event.id} />
+            )}
+
             {/* Event Status Card - Compact */}
             <div className="bg-github-card border border-github-border rounded-xl p-4 shadow-lg">
               <h3 className="font-bold text-github-text mb-3">Event Status</h3>
@@ -678,6 +694,17 @@ export function EventDetail() {
                 </div>
               )}
 
+              {/* Venue share of performers' tips */}
+              {isAlreadyParticipating ? agreedSharePercent > 0 && (
+                <p className="mb-3 text-xs text-github-text-secondary">
+                  The venue keeps {agreedSharePercent}% of the tips you get through this page
+                </p>
+              ) : organizerSharePercent > 0 && (
+                <p className="mb-3 text-xs text-github-text-secondary">
+                  The venue keeps {organizerSharePercent}% of the tips performers get through this page
+                </p>
+              )}
+
               {/* Participation Status */}
               {existingRequest ? (
                 <div className={`flex items-center gap-2 p-3 rounded-lg ${
@@ -789,6 +816,9 @@ export function EventDetail() {
               )}
             </div>
 
+            {/* Tip earnings for the event maker and performers */}
+            {user && <EventTipReport eventId={event.id} />}
+
             {/* Pending Requests for Event Owner */}
             {isEventOwner && eventRequests.filter(r => r.status === 'pending').length > 0 && (
               <div className="bg-github-card border border-github-border rounded-xl p-4 shadow-lg">
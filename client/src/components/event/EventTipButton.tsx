@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, Heart, User, X } from 'lucide-react';
+import type { Campaign, EventPerformer, TipSettings } from '../../types/models';
+import { eventService } from '../../services/eventService';
+import { tipService } from '../../services/tipService';
+import { campaignService, isCampaignOpen } from '../../services/campaignService';
+import { TipForm } from '../profile/TipForm';
+
+interface EventTipButtonProps {
+  eventId: string;
+}
+
+/**
+ * "Tip a Performer" button for an event page. Fans pick one of the acts
+ * performing at the event; the tip goes to that act and is recorded
+ * against the event.
+ */
+export function EventTipButton({ eventId }: EventTipButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [performers, setPerformers] = useState<EventPerformer[] | null>(null);
+  const [selected, setSelected] = useState<EventPerformer | null>(null);
+  const [settings, setSettings] = useState<TipSettings | null>(null);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || performers) return;
+
+    eventService.getAcceptedPerformers(eventId)
+      .then(setPerformers)
+      .catch(err => {
+        console.error('Error loading performers:', err);
+        setError('Could not load the performers');
+      });
+  }, [isOpen, performers, eventId]);
+
+  // Each performer has their own presets, limits and campaigns
+  useEffect(() => {
+    if (!selected) return;
+
+    Promise.all([
+      tipService.getTipSettings(selected.id),
+      campaignService.getProfileCampaigns(selected.id)
+    ])
+      .then(([tipSettings, profileCampaigns]) => {
+        setSettings(tipSettings);
+        setCampaigns(profileCampaigns.filter(isCampaignOpen));
+      })
+      .catch(err => {
+        console.error('Error loading tip settings:', err);
+        setError('Could not load this performer\'s tip settings');
+      });
+  }, [selected]);
+
+  const selectPerformer = (performer: EventPerformer | null) => {
+    setSettings(null);
+    setCampaigns([]);
+    setSelected(performer);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    selectPerformer(null);
+    setError(null);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full py-3 bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 text-white font-semibold rounded-lg transition-all flex items-center justify-center gap-2 shadow-lg"
+      >
+        <Heart className="w-4 h-4" />
+        Tip a Performer
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={close}>
+          <div className="bg-light-card dark:bg-github-card rounded-2xl shadow-2xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-light-text dark:text-github-text flex items-center gap-2">
+                {selected && (
+                  <button onClick={() => selectPerformer(null)} className="text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue" title="Back">
+                    <ChevronLeft className="w-5 h-5" />
+                  </button>
+                )}
+                {selected ? `Tip ${selected.name}` : 'Who do you want to tip?'}
+              </h3>
+              <button onClick={close} className="text-light-text-secondary dark:text-github-text-secondary hover:text-light-text dark:hover:text-github-text" title="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            {selected ? (
+              settings ? (
+                <TipForm
+                  profileId={selected.id}
+                  settings={settings}
+                  currency={settings.currency}
+                  campaigns={campaigns}
+                  eventId={eventId}
+                />
+              ) : !error && (
+                <p className="text-center py-6 text-light-text-secondary dark:text-github-text-secondary">Loading...</p>
+              )
+            ) : !performers ? (
+              !error && <p className="text-center py-6 text-light-text-secondary dark:text-github-text-secondary">Loading performers...</p>
+            ) : performers.length === 0 ? (
+              <p className="text-center py-6 text-light-text-secondary dark:text-github-text-secondary">No performers confirmed yet</p>
+            ) : (
+              <div className="space-y-2">
+                {performers.map(performer => (
+                  <button
+                    key={performer.id}
+                    onClick={() => selectPerformer(performer)}
+                    className="w-full p-3 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border hover:border-light-blue dark:hover:border-github-blue rounded-lg flex items-center gap-3 text-left transition-all"
+                  >
+                    {performer.avatar_url ? (
+                      <img src={performer.avatar_url} alt={performer.name} className="w-10 h-10 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-10 h-10 bg-light-border dark:bg-github-border rounded-full flex items-center justify-center">
+                        <User className="w-5 h-5 text-light-text-muted dark:text-github-text-muted" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-light-text dark:text-github-text truncate">{performer.name}</p>
+                      {performer.bio && (
+                        <p className="text-xs text-light-text-secondary dark:text-github-text-secondary truncate">{performer.bio}</p>
+                      )}
+                    </div>
+                    <Heart className="w-4 h-4 text-yellow-500 flex-shrink-0" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DollarSign } from 'lucide-react';
+import type { EventTipReport as EventTipReportData } from '../../types/models';
+import { tipService } from '../../services/tipService';
+import { formatMoney } from '../../lib/money';
+
+interface EventTipReportProps {
+  eventId: string;
+}
+
+/**
+ * What each performer was tipped at an event. The event maker sees every
+ * performer; performers only see their own earnings. Renders nothing for
+ * anyone else.
+ */
+export function EventTipReport({ eventId }: EventTipReportProps) {
+  const navigate = useNavigate();
+  const [report, setReport] = useState<EventTipReportData | null>(null);
+
+  useEffect(() => {
+    tipService.getEventTipReport(eventId)
+      .then(setReport)
+      .catch(() => setReport(null));
+  }, [eventId]);
+
+  if (!report || report.performers.length === 0) return null;
+
+  const tipCount = report.performers.reduce((sum, line) => sum + line.tipCount, 0);
+
+  return (
+    <div className="bg-github-card border border-github-border rounded-xl p-4 shadow-lg">
+      <h3 className="font-bold text-github-text mb-3 flex items-center gap-2">
+        <DollarSign className="w-4 h-4 text-yellow-400" />
+        Tips at this Event
+      </h3>
+      <div className="space-y-2">
+        {report.performers.map(line => (
+          <div
+            key={`${line.profileId}-${line.currency}`}
+            onClick={() => navigate(`/profile/${line.profileId}`)}
+            className="flex items-center justify-between p-2 bg-github-bg border border-github-border rounded-lg hover:border-github-blue cursor-pointer transition-colors"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-github-text truncate">{line.profileName || 'Performer'}</p>
+              <p className="text-xs text-github-text-secondary">
+                {line.tipCount} {line.tipCount === 1 ? 'tip' : 'tips'}
+              </p>
+            </div>
+            <p className="text-sm font-bold text-green-400">{formatMoney(line.amount, line.currency)}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-github-text-muted mt-3">
+        {tipCount} {tipCount === 1 ? 'tip' : 'tips'} made from this event page
+      </p>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { profileService } from '../../services/profileService';
+import { useIsAdmin } from '../../hooks/useIsAdmin';
 import { AuthModal } from '../AuthModal';
 import { 
   Search, 
@@ -12,7 +13,9 @@ import {
   ChevronDown,
   LayoutDashboard,
   Plus,
-  User
+  User,
+  Banknote,
+  ScrollText
 } from 'lucide-react';
 import type { Profile } from '../../types/models';
 
@@ -34,6 +37,7 @@ export function Sidebar({ isDarkMode, onToggleDarkMode }: SidebarProps) {
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [activeProfile, setActiveProfile] = useState<Profile | null>(null);
   const [profileDropdownOpen, setProfileDropdownOpen] = useState(false);
+  const { isAdmin } = useIsAdmin();
 
   useEffect(() => {
     localStorage.setItem('gobusker-sidebar-expanded', JSON.stringify(isExpanded));
@@ -347,6 +351,44 @@ export function Sidebar({ isDarkMode, onToggleDarkMode }: SidebarProps) {
                 <Calendar size={20} />
                 {isExpanded && <span>Create Event</span>}
               </button>
+
+              {/* Platform admins only */}
+              {isAdmin && (
+                <>
+                  <button
+                    onClick={() => navigate('/admin/withdrawals')}
+                    className={`
+                      w-full flex items-center gap-2.5 px-2.5 py-2.5 rounded-lg text-sm
+                      transition-all duration-200 mb-0.5
+                      ${isExpanded ? 'justify-start' : 'justify-center'}
+                      ${location.pathname === '/admin/withdrawals'
+                        ? 'bg-light-blue/10 dark:bg-github-blue/10 text-light-blue dark:text-github-blue font-semibold hover:bg-light-blue/20 dark:hover:bg-github-blue/20'
+                        : 'text-light-text-secondary dark:text-github-text-secondary hover:bg-light-bg dark:hover:bg-github-bg hover:text-light-text dark:hover:text-github-text'
+                      }
+                    `}
+                    title={!isExpanded ? 'Withdrawals' : undefined}
+                  >
+                    <Banknote size={20} />
+                    {isExpanded && <span>Withdrawals</span>}
+                  </button>
+                  <button
+                    onClick={() => navigate('/admin/audit')}
+                    className={`
+                      w-full flex items-center gap-2.5 px-2.5 py-2.5 rounded-lg text-sm
+                      transition-all duration-200 mb-0.5
+                      ${isExpanded ? 'justify-start' : 'justify-center'}
+                      ${location.pathname === '/admin/audit'
+                        ? 'bg-light-blue/10 dark:bg-github-blue/10 text-light-blue dark:text-github-blue font-semibold hover:bg-light-blue/20 dark:hover:bg-github-blue/20'
+                        : 'text-light-text-secondary dark:text-github-text-secondary hover:bg-light-bg dark:hover:bg-github-bg hover:text-light-text dark:hover:text-github-text'
+                      }
+                    `}
+                    title={!isExpanded ? 'Audit Log' : undefined}
+                  >
+                    <ScrollText size={20} />
+                    {isExpanded && <span>Audit Log</span>}
+                  </button>
+                </>
+              )}
             </>
           )}
         </nav>
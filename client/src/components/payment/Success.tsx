@@ -1,5 +1,8 @@
 import { useEffect, useState, useRef } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
+import { clearCart } from '../../hooks/useCart';
+import { useAuth } from '../../context/useAuth';
+import { formatMoney } from '../../lib/money';
 
 interface OrderItem {
   id: string;
@@ -12,23 +15,25 @@ interface OrderItem {
 interface OrderData {
   id: string;
   status: string;
-  customer_email: string;
-  customer_name?: string;
   total_amount: number;
   currency: string;
   items: OrderItem[];
+  profile_id?: string;
   created_at: string;
   payment_method?: string;
-  type?: 'order' | 'tip';
+  type?: 'order' | 'tip' | 'subscription';
   tipId?: string;
+  receipt_url?: string | null;
   message?: string;
+  fulfilled?: boolean;
 }
 
 export function Success() {
   const [searchParams] = useSearchParams();
+  const { user } = useAuth();
   const [sessionStatus, setSessionStatus] = useState<'loading' | 'success' | 'failure'>('loading');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [orderData] = useState<OrderData | null>(null);
+  const [orderData, setOrderData] = useState<OrderData | null>(null);
   const hasFetched = useRef(false);
 
   useEffect(() => {
@@ -52,6 +57,10 @@ export function Success() {
           .then(data => {
             attempts++;
             if (data.status === 'complete') {
+                if (data.type === 'order' && data.profile_id) {
+                  clearCart(data.profile_id);
+                }
+                setOrderData(data);
                 setSessionStatus('success');
             } else if (attempts < maxAttempts) {
                 setTimeout(verifySession, 1500);
@@ -87,15 +96,17 @@ export function Success() {
           {/* Success Header */}
           <div className="p-10 text-center border-b border-gray-300 dark:border-gray-600">
             <div className="text-5xl mb-5">
-              {orderData.type === 'tip' ? '💰' : '✅'}
+              {orderData.type === 'tip' ? '💰' : orderData.type === 'subscription' ? '🌟' : '✅'}
             </div>
             <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
-              {orderData.type === 'tip' ? 'Tip Sent Successfully!' : 'Payment Successful!'}
+              {orderData.type === 'tip' ? 'Tip Sent Successfully!' : orderData.type === 'subscription' ? "You're a Patron!" : 'Payment Successful!'}
             </h2>
             <p className="text-gray-600 dark:text-gray-300">
               {orderData.type === 'tip' 
                 ? 'Thank you for supporting this artist!' 
-                : 'Thank you for your purchase'}
+                : orderData.type === 'subscription'
+                  ? 'Thank you for supporting this artist every month!'
+                  : 'Thank you for your purchase'}
             </p>
           </div>
 
@@ -108,7 +119,7 @@ export function Success() {
                   <div>
                     <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">TIP AMOUNT</p>
                     <p className="text-gray-900 dark:text-white font-medium text-lg">
-                      ${(orderData.total_amount / 100).toFixed(2)} {orderData.currency?.toUpperCase() || 'USD'}
+                      {formatMoney(orderData.total_amount, orderData.currency || 'USD')}
                     </p>
                   </div>
                   <div>
@@ -119,19 +130,75 @@ export function Success() {
                   </div>
                 </div>
               </div>
+              {/* Guests have no dashboard, so the receipt link is how they find the tip again */}
+              {orderData.receipt_url && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-5 text-center">
+                  Bookmark your receipt to find this tip again. A link is also emailed to you.
+                </p>
+              )}
+              <div className="flex justify-center gap-4">
+                {orderData.receipt_url && (
+                  <a
+                    href={orderData.receipt_url}
+                    className="px-6 py-2 border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg font-medium transition-colors"
+                  >
+                    View Receipt
+                  </a>
+                )}
+                {user ? (
+                  <Link 
+                    to="/dashboard"
+                    className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                  >
+                    Back to Dashboard
+                  </Link>
+                ) : orderData.profile_id && (
+                  <Link
+                    to={`/profile/${orderData.profile_id}`}
+                    className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                  >
+                    Back to Artist
+                  </Link>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Subscription Summary (if applicable) */}
+          {orderData.type === 'subscription' && (
+            <div className="p-7">
+              <div className="mb-5 pb-5 border-b border-gray-200 dark:border-gray-700">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">MONTHLY AMOUNT</p>
+                    <p className="text-gray-900 dark:text-white font-medium text-lg">
+                      {(orderData.total_amount / 100).toFixed(2)} {orderData.currency?.toUpperCase() || 'USD'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">STARTED</p>
+                    <p className="text-gray-900 dark:text-white font-medium">
+                      {new Date(orderData.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                  You can cancel anytime under Subscriptions in your dashboard.
+                </p>
+              </div>
               <div className="flex justify-center gap-4">
                 <Link 
-                  to="/dashboard"
+                  to="/dashboard?tab=subscriptions"
                   className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
                 >
-                  Back to Dashboard
+                  View Subscriptions
                 </Link>
               </div>
             </div>
           )}
 
           {/* Order Summary (if order, not tip) */}
-          {orderData.type !== 'tip' && (
+          {orderData.type !== 'tip' && orderData.type !== 'subscription' && (
             <div className="p-7">
             {/* Order ID & Date */}
             <div className="mb-5 pb-5 border-b border-gray-200 dark:border-gray-700">
@@ -150,23 +217,6 @@ export function Success() {
               </div>
             </div>
 
-            {/* Customer Info */}
-            <div className="mb-5 pb-5 border-b border-gray-200 dark:border-gray-700">
-              <h3 className="text-base font-bold text-gray-900 dark:text-white mb-4">Customer Information</h3>
-              <div className="text-sm">
-                <p className="text-gray-900 dark:text-white mb-2">
-                  <span className="text-xs text-gray-500 dark:text-gray-400 block mb-1">EMAIL</span>
-                  {orderData.customer_email}
-                </p>
-                {orderData.customer_name && (
-                  <p className="text-gray-900 dark:text-white">
-                    <span className="text-xs text-gray-500 dark:text-gray-400 block mb-1">NAME</span>
-                    {orderData.customer_name}
-                  </p>
-                )}
-              </div>
-            </div>
-
             {/* Items */}
             <div className="mb-5 pb-5 border-b border-gray-200 dark:border-gray-700">
               <h3 className="text-base font-bold text-gray-900 dark:text-white mb-4">Items Ordered</h3>
@@ -206,16 +256,25 @@ export function Success() {
               </div>
             </div>
 
+            {/* Webhook hasn't recorded the order yet */}
+            {orderData.fulfilled === false && (
+              <div className="p-4 bg-yellow-50 dark:bg-yellow-900/30 border-l-4 border-yellow-500 rounded mb-5">
+                <p className="text-yellow-700 dark:text-yellow-300 text-sm">
+                  Your payment was received and your order is being finalized. It will appear in your order history shortly.
+                </p>
+              </div>
+            )}
+
             {/* Confirmation Message */}
             <div className="p-4 bg-green-50 dark:bg-green-900/30 border-l-4 border-green-500 rounded mb-5">
               <p className="text-green-700 dark:text-green-300 text-sm">
-                A confirmation email has been sent to <strong>{orderData.customer_email}</strong>
+                A confirmation email has been sent to the address you paid with.
               </p>
             </div>
 
             {/* Action Button */}
-            <Link to="/dashboard" className="block text-center py-3 px-5 bg-primary text-white no-underline rounded font-medium transition-colors duration-200 hover:bg-accent">
-              Go to Dashboard
+            <Link to={user ? '/dashboard' : '/'} className="block text-center py-3 px-5 bg-primary text-white no-underline rounded font-medium transition-colors duration-200 hover:bg-accent">
+              {user ? 'Go to Dashboard' : 'Back to Home'}
             </Link>
             </div>
           )}
@@ -227,8 +286,8 @@ export function Success() {
           <div className="text-5xl mb-5">❌</div>
           <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Payment Verification Failed</h2>
           <p className="text-red-500 mb-5">{errorMessage}</p>
-          <Link to="/dashboard" className="inline-block py-2 px-5 bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white no-underline rounded">
-            Return to Dashboard
+          <Link to={user ? '/dashboard' : '/'} className="inline-block py-2 px-5 bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white no-underline rounded">
+            {user ? 'Return to Dashboard' : 'Return Home'}
           </Link>
         </div>
       )}
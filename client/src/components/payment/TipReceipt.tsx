@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import type { TipReceipt as TipReceiptData } from '../../types/models';
+import { tipService } from '../../services/tipService';
+import { formatMoney } from '../../lib/money';
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Waiting for payment',
+  completed: 'Paid',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+  disputed: 'Disputed'
+};
+
+export function TipReceipt() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [searchParams] = useSearchParams();
+  const [receipt, setReceipt] = useState<TipReceiptData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    tipService.getReceipt(sessionId, searchParams.get('sig') || '')
+      .then(setReceipt)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load receipt'));
+  }, [sessionId, searchParams]);
+
+  if (error) {
+    return (
+      <div className="max-w-2xl mx-auto my-10 px-5">
+        <div className="p-10 bg-white dark:bg-secondary rounded-lg shadow-md text-center">
+          <div className="text-5xl mb-5">❌</div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Receipt Unavailable</h2>
+          <p className="text-red-500">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!receipt) {
+    return (
+      <div className="max-w-2xl mx-auto my-10 px-5">
+        <div className="p-10 bg-white dark:bg-secondary rounded-lg shadow-md text-center">
+          <p className="text-gray-600 dark:text-gray-300">Loading receipt...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto my-10 px-5">
+      <div className="bg-white dark:bg-secondary rounded-lg shadow-md">
+        <div className="p-10 text-center border-b border-gray-300 dark:border-gray-600">
+          <div className="text-5xl mb-5">🧾</div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Tip Receipt</h2>
+          <p className="text-gray-600 dark:text-gray-300">
+            Your tip to {receipt.profileName || 'the artist'}
+          </p>
+        </div>
+
+        <div className="p-7">
+          <div className="grid grid-cols-2 gap-4 text-sm mb-5 pb-5 border-b border-gray-200 dark:border-gray-700">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">TIP AMOUNT</p>
+              <p className="text-gray-900 dark:text-white font-medium text-lg">{formatMoney(receipt.amount, receipt.currency)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">DATE</p>
+              <p className="text-gray-900 dark:text-white font-medium">{new Date(receipt.createdAt).toLocaleDateString()}</p>
+            </div>
+            {receipt.feeAmount > 0 && (
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">CARD FEE COVERED</p>
+                <p className="text-gray-900 dark:text-white font-medium">{formatMoney(receipt.feeAmount, receipt.currency)}</p>
+              </div>
+            )}
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">STATUS</p>
+              <p className="text-gray-900 dark:text-white font-medium">{STATUS_LABELS[receipt.paymentStatus] || receipt.paymentStatus}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">FROM</p>
+              <p className="text-gray-900 dark:text-white font-medium">
+                {receipt.donorName || 'Anonymous'}
+                {receipt.donorName && !receipt.showName && <span className="text-xs text-gray-500 dark:text-gray-400"> (hidden on the tip wall)</span>}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">TOTAL CHARGED</p>
+              <p className="text-gray-900 dark:text-white font-medium">{formatMoney(receipt.amount + receipt.feeAmount, receipt.currency)}</p>
+            </div>
+          </div>
+
+          {receipt.message && (
+            <p className="text-sm italic text-gray-600 dark:text-gray-300 mb-5">"{receipt.message}"</p>
+          )}
+
+          <div className="flex justify-center">
+            <Link
+              to={`/profile/${receipt.profileId}`}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+            >
+              Visit {receipt.profileName || 'Artist'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import type { Campaign } from '../../types/models';
+import { campaignService } from '../../services/campaignService';
+import { toMinorUnits } from '../../lib/money';
+
+interface CampaignManagerProps {
+  profileId: string;
+  currency: string;
+  onCreated: (campaign: Campaign) => void;
+}
+
+// The earliest deadline that can be picked, as a date input value
+const getTomorrow = () => {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return tomorrow.toISOString().slice(0, 10);
+};
+
+export function CampaignManager({ profileId, currency, onCreated }: CampaignManagerProps) {
+  const [formData, setFormData] = useState({ title: '', description: '', target: '', deadline: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const target = parseFloat(formData.target);
+
+    if (!formData.title.trim() || !target || target <= 0 || !formData.deadline) {
+      setError('Give the campaign a title, a target and a deadline');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const campaign = await campaignService.createCampaign(profileId, {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        targetAmount: toMinorUnits(target),
+        // The campaign runs until the end of the chosen day
+        deadline: new Date(`${formData.deadline}T23:59:59`).toISOString()
+      });
+      setFormData({ title: '', description: '', target: '', deadline: '' });
+      onCreated(campaign);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create campaign');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-secondary focus:outline-none focus:border-light-blue dark:focus:border-github-blue';
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 p-6 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg space-y-4">
+      <h3 className="font-semibold text-light-text dark:text-github-text">New Campaign</h3>
+
+      {error && (
+        <div className="p-3 rounded-lg flex items-center gap-2 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300">
+          <AlertCircle size={18} />
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Title</label>
+          <input
+            type="text"
+            value={formData.title}
+            onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            placeholder="e.g., Help us buy a tour van"
+            maxLength={80}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Target ({currency})</label>
+          <input
+            type="number"
+            min="1"
+            step="0.01"
+            value={formData.target}
+            onChange={(e) => setFormData({ ...formData, target: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Deadline</label>
+          <input
+            type="date"
+            min={getTomorrow()}
+            value={formData.deadline}
+            onChange={(e) => setFormData({ ...formData, deadline: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Description (Optional)</label>
+          <textarea
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="What's the money for?"
+            rows={2}
+            className={`${inputClassName} resize-none`}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-light-text-muted dark:text-github-text-muted">
+        Fans can put their tips towards the campaign until the deadline. When it passes, the campaign
+        closes and you get a summary by email.
+      </p>
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="w-full px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white font-semibold rounded-lg transition-all"
+      >
+        {isSaving ? 'Creating...' : 'Start Campaign'}
+      </button>
+    </form>
+  );
+}
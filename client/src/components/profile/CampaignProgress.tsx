@@ -0,0 +1,78 @@
+import { Target } from 'lucide-react';
+import type { Campaign } from '../../types/models';
+import { isCampaignOpen } from '../../services/campaignService';
+import { formatMoney } from '../../lib/money';
+
+interface CampaignProgressProps {
+  campaign: Campaign;
+  onClose?: (campaign: Campaign) => void; // owners can end a campaign early
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatTimeLeft(deadline: string): string {
+  const days = Math.ceil((new Date(deadline).getTime() - Date.now()) / DAY_MS);
+  if (days <= 1) return 'Ends today';
+  return `${days} days left`;
+}
+
+/**
+ * A campaign's progress bar, or its closing summary once the deadline has passed
+ */
+export function CampaignProgress({ campaign, onClose }: CampaignProgressProps) {
+  const isOpen = isCampaignOpen(campaign);
+  const progress = Math.min(100, (campaign.raised_amount / campaign.target_amount) * 100);
+  const goalReached = campaign.raised_amount >= campaign.target_amount;
+  const tipsLabel = `${campaign.tip_count} ${campaign.tip_count === 1 ? 'tip' : 'tips'}`;
+
+  return (
+    <div className={`p-4 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg ${isOpen ? '' : 'opacity-80'}`}>
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <div className="min-w-0">
+          <p className="font-bold text-light-text dark:text-github-text flex items-center gap-2">
+            <Target size={16} className="flex-shrink-0 text-light-blue dark:text-github-blue" />
+            <span className="truncate">{campaign.title}</span>
+          </p>
+          {campaign.description && (
+            <p className="text-sm text-light-text-secondary dark:text-github-text-secondary mt-1">{campaign.description}</p>
+          )}
+        </div>
+        {isOpen && onClose && (
+          <button
+            onClick={() => onClose(campaign)}
+            className="flex-shrink-0 px-3 py-1 text-xs bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary hover:border-red-500 hover:text-red-500 rounded-lg transition-all"
+          >
+            End Now
+          </button>
+        )}
+      </div>
+
+      <div className="h-3 rounded-full bg-light-border dark:bg-github-border overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-700 ${goalReached ? 'bg-green-500' : 'bg-light-blue dark:bg-github-blue'}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs text-light-text-muted dark:text-github-text-muted">
+        <span>
+          <strong className="text-light-text dark:text-github-text">{formatMoney(campaign.raised_amount, campaign.currency)}</strong>
+          {' '}of {formatMoney(campaign.target_amount, campaign.currency)} · {tipsLabel}
+        </span>
+        <span>
+          {isOpen
+            ? formatTimeLeft(campaign.deadline)
+            : `Ended ${new Date(campaign.closed_at || campaign.deadline).toLocaleDateString()}`}
+        </span>
+      </div>
+
+      {!isOpen && (
+        <p className="text-sm text-light-text-secondary dark:text-github-text-secondary mt-2">
+          {goalReached
+            ? '🎉 Goal reached! Thanks to everyone who chipped in.'
+            : `Raised ${Math.floor(progress)}% of the goal. Thanks to everyone who chipped in!`}
+        </p>
+      )}
+    </div>
+  );
+}
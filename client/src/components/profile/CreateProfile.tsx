@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { profileService } from '../../services/profileService';
 import { useToast } from '../../hooks/useToast';
 import { useNavigate } from 'react-router-dom';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../../lib/money';
+import type { CurrencyCode } from '../../lib/money';
 
 type ProfileRole = 'eventmaker' | 'busker' | 'viewer';
 type ProfileType = 'individual' | 'band';
@@ -13,6 +15,7 @@ const INITIAL_FORM_STATE = {
   bio: '',
   profile_type: 'individual' as ProfileType,
   performance_type: 'music' as PerformanceType,
+  payout_currency: DEFAULT_CURRENCY as CurrencyCode,
   genres: [] as string[],
   instruments: [] as string[],
   avatar_url: '',
@@ -63,6 +66,7 @@ export function CreateProfile() {
         bio: form.bio,
         profile_type: form.profile_type,
         performance_type: form.performance_type,
+        payout_currency: form.payout_currency,
         genres: form.genres.filter(Boolean),
         instruments: form.instruments.filter(Boolean),
         location: form.location,
@@ -388,6 +392,24 @@ export function CreateProfile() {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-github-text mb-2">
+                  Payout Currency
+                </label>
+                <select
+                  value={form.payout_currency}
+                  onChange={e => setForm(prev => ({ ...prev, payout_currency: e.target.value as CurrencyCode }))}
+                  className="block w-full px-4 py-2 bg-github-bg border border-github-border rounded-lg text-github-text focus:outline-none focus:border-github-blue"
+                >
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-github-text-secondary mt-1">
+                  Tips to this profile are charged and paid out in this currency
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-github-text mb-2">
                   Bio
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Calendar } from 'lucide-react';
+import type { ProfileEventEarnings } from '../../types/models';
+import { tipService } from '../../services/tipService';
+import { formatMoney } from '../../lib/money';
+
+interface EventEarningsProps {
+  profileId: string;
+}
+
+/**
+ * What a profile was tipped at each event it performed at
+ */
+export function EventEarnings({ profileId }: EventEarningsProps) {
+  const navigate = useNavigate();
+  const [earnings, setEarnings] = useState<ProfileEventEarnings[]>([]);
+
+  useEffect(() => {
+    tipService.getProfileEventEarnings(profileId)
+      .then(setEarnings)
+      .catch(err => console.error('Error loading event earnings:', err));
+  }, [profileId]);
+
+  if (earnings.length === 0) return null;
+
+  return (
+    <div className="mt-8 pt-8 border-t border-light-border dark:border-github-border">
+      <h2 className="text-2xl font-bold text-light-text dark:text-github-text mb-6">🎤 Tips by Event</h2>
+      <div className="space-y-2">
+        {earnings.map(entry => (
+          <div
+            key={`${entry.eventId}-${entry.currency}`}
+            onClick={() => navigate(`/event/${entry.eventId}`)}
+            className="p-4 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg hover:border-light-blue dark:hover:border-github-blue cursor-pointer transition-all flex items-center justify-between"
+          >
+            <div className="min-w-0">
+              <p className="font-semibold text-light-text dark:text-github-text truncate">{entry.title}</p>
+              <p className="text-xs text-light-text-muted dark:text-github-text-muted flex items-center gap-1">
+                <Calendar size={12} />
+                {new Date(entry.startTime).toLocaleDateString()}
+                {entry.hostProfileId !== profileId && ' · guest performer'}
+                {' · '}{entry.tipCount} {entry.tipCount === 1 ? 'tip' : 'tips'}
+              </p>
+            </div>
+            <p className="font-bold text-green-600 dark:text-green-400">{formatMoney(entry.amount, entry.currency)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
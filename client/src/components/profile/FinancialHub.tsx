@@ -1,44 +1,76 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../../lib/supabase';
 import { DollarSign, History } from 'lucide-react';
+import { DEFAULT_CURRENCY, formatMoney } from '../../lib/money';
+import type { CurrencyCode } from '../../lib/money';
 
 interface Transaction {
   id: string;
-  type: 'tip' | 'order' | 'withdrawal';
-  amount: number;
+  type: 'tip' | 'order' | 'withdrawal' | 'event_share';
+  amount: number; // in minor units
+  currency: string;
   description: string;
+  split?: string; // how a tip made through a venue booking was shared with the venue
   donor_name?: string;
   customer_name?: string;
   status: 'pending' | 'completed' | 'failed';
   created_at: string;
 }
 
+// A related row embedded in a query; typed as a list even when there's only one
+type Embedded<T> = T | T[] | null;
+
+const firstOf = <T,>(value: Embedded<T>): T | null => (Array.isArray(value) ? value[0] ?? null : value);
+
 interface FinancialHubProps {
   profileId: string;
-  currentSaldo: number;
+  currency?: CurrencyCode;
 }
 
-export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
+export function FinancialHub({ profileId, currency = DEFAULT_CURRENCY }: FinancialHubProps) {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [currentSaldo, setCurrentSaldo] = useState(0); // in minor units
   const [isLoading, setIsLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'tip' | 'order' | 'withdrawal'>('all');
+  const [filter, setFilter] = useState<'all' | 'tip' | 'event_share' | 'order' | 'withdrawal'>('all');
 
   const loadTransactions = useCallback(async () => {
     try {
       setIsLoading(true);
 
+      // The wallet is the user's own, shared across all their profiles
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const { data: wallet } = await supabase
+          .from('wallet_balances')
+          .select('balance')
+          .eq('user_id', user.id)
+          .eq('currency', currency)
+          .maybeSingle();
+
+        setCurrentSaldo(wallet?.balance || 0);
+      }
+
       // Fetch tips received
       const { data: tips } = await supabase
         .from('tips')
-        .select('id, donor_name, amount, payment_status, created_at')
+        .select('id, donor_name, amount, currency, payment_status, created_at, organizer_share_amount, event:events(title)')
         .eq('profile_id', profileId)
         .eq('payment_status', 'completed')
         .order('created_at', { ascending: false });
 
+      // Fetch the venue's share of tips performers got at this profile's venue bookings
+      const { data: sharedTips } = await supabase
+        .from('tips')
+        .select('id, amount, currency, organizer_share_amount, created_at, profile:profiles!tips_profile_id_fkey(name), event:events(title)')
+        .eq('organizer_profile_id', profileId)
+        .eq('payment_status', 'completed')
+        .gt('organizer_share_amount', 0)
+        .order('created_at', { ascending: false });
+
       // Fetch orders (if applicable for this profile)
       const { data: orders } = await supabase
         .from('orders')
-        .select('id, customer_name, total_amount, payment_status, created_at')
+        .select('id, customer_name, total_amount, currency, payment_status, created_at')
         .eq('profile_id', profileId)
         .eq('payment_status', 'paid')
         .order('created_at', { ascending: false });
@@ -46,7 +78,7 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
       // Fetch completed withdrawals
       const { data: withdrawals } = await supabase
         .from('withdrawals')
-        .select('id, amount, status, processed_at')
+        .select('id, amount, currency, status, processed_at')
         .eq('profile_id', profileId)
         .eq('status', 'completed')
         .order('processed_at', { ascending: false });
@@ -55,13 +87,36 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
       const allTransactions: Transaction[] = [];
 
       if (tips) {
-        tips.forEach((tip: { id: string; donor_name: string; amount: number; payment_status: string; created_at: string }) => {
+        tips.forEach((tip: { id: string; donor_name: string | null; amount: number; currency: string; payment_status: string; created_at: string; organizer_share_amount: number; event: Embedded<{ title: string }> }) => {
+          // The performer receives the tip minus the venue's share
+          const share = Number(tip.organizer_share_amount || 0);
+          const event = firstOf(tip.event);
           allTransactions.push({
             id: tip.id,
             type: 'tip',
-            amount: tip.amount,
-            description: `Tip from ${tip.donor_name}`,
-            donor_name: tip.donor_name,
+            amount: tip.amount - share,
+            currency: tip.currency,
+            description: `Tip from ${tip.donor_name || 'Anonymous'}${event ? ` at ${event.title}` : ''}`,
+            split: share > 0
+              ? `${formatMoney(tip.amount, tip.currency)} tip − ${formatMoney(share, tip.currency)} venue share`
+              : undefined,
+            donor_name: tip.donor_name || 'Anonymous',
+            status: 'completed',
+            created_at: tip.created_at,
+          });
+        });
+      }
+
+      if (sharedTips) {
+        sharedTips.forEach((tip: { id: string; amount: number; currency: string; organizer_share_amount: number; created_at: string; profile: Embedded<{ name: string }>; event: Embedded<{ title: string }> }) => {
+          const event = firstOf(tip.event);
+          allTransactions.push({
+            id: `share-${tip.id}`,
+            type: 'event_share',
+            amount: Number(tip.organizer_share_amount),
+            currency: tip.currency,
+            description: `Venue share of a tip to ${firstOf(tip.profile)?.name || 'a performer'}${event ? ` at ${event.title}` : ''}`,
+            split: `${formatMoney(tip.amount, tip.currency)} tip − ${formatMoney(tip.amount - Number(tip.organizer_share_amount), tip.currency)} to the performer`,
             status: 'completed',
             created_at: tip.created_at,
           });
@@ -69,11 +124,12 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
       }
 
       if (orders) {
-        orders.forEach((order: { id: string; customer_name: string; total_amount: number; payment_status: string; created_at: string }) => {
+        orders.forEach((order: { id: string; customer_name: string; total_amount: number; currency: string; payment_status: string; created_at: string }) => {
           allTransactions.push({
             id: order.id,
             type: 'order',
-            amount: order.total_amount / 100, // Convert from cents
+            amount: order.total_amount,
+            currency: order.currency,
             description: `Sale to ${order.customer_name || 'Customer'}`,
             customer_name: order.customer_name,
             status: 'completed',
@@ -83,11 +139,12 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
       }
 
       if (withdrawals) {
-        withdrawals.forEach((withdrawal: { id: string; amount: number; status: string; processed_at: string }) => {
+        withdrawals.forEach((withdrawal: { id: string; amount: number; currency: string; status: string; processed_at: string }) => {
           allTransactions.push({
             id: withdrawal.id,
             type: 'withdrawal',
             amount: -withdrawal.amount, // Negative because it's money going out
+            currency: withdrawal.currency,
             description: `Withdrawal to bank account`,
             status: 'completed',
             created_at: withdrawal.processed_at,
@@ -103,7 +160,7 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [profileId]);
+  }, [profileId, currency]);
 
   useEffect(() => {
     loadTransactions();
@@ -113,12 +170,17 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
     filter === 'all' || tx.type === filter
   );
 
-  const totalEarnings = transactions.reduce((sum, tx) => sum + tx.amount, 0);
+  // Amounts in other currencies are never added together
+  const totalEarnings = transactions
+    .filter(tx => tx.currency === currency)
+    .reduce((sum, tx) => sum + tx.amount, 0);
 
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'tip':
         return '💰';
+      case 'event_share':
+        return '🏛️';
       case 'order':
         return '🛍️';
       case 'withdrawal':
@@ -132,6 +194,8 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
     switch (type) {
       case 'tip':
         return 'text-yellow-400 bg-yellow-900/20 border-yellow-700';
+      case 'event_share':
+        return 'text-blue-400 bg-blue-900/20 border-blue-700';
       case 'order':
         return 'text-[#D2B48C] bg-[#D2B48C]/20 border-[#B8956F]';
       case 'withdrawal':
@@ -156,7 +220,7 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
             <span className="text-github-text-secondary text-sm font-medium">Current Saldo</span>
             <span className="text-2xl">💰</span>
           </div>
-          <p className="text-3xl font-bold text-green-400">${currentSaldo.toFixed(2)}</p>
+          <p className="text-3xl font-bold text-green-400">{formatMoney(currentSaldo, currency)}</p>
           <p className="text-github-text-secondary text-xs mt-2">Available balance</p>
         </div>
 
@@ -166,7 +230,7 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
             <span className="text-github-text-secondary text-sm font-medium">Total Earnings</span>
             <span className="text-2xl">📈</span>
           </div>
-          <p className="text-3xl font-bold text-[#D2B48C]">${totalEarnings.toFixed(2)}</p>
+          <p className="text-3xl font-bold text-[#D2B48C]">{formatMoney(totalEarnings, currency)}</p>
           <p className="text-github-text-secondary text-xs mt-2">All time</p>
         </div>
 
@@ -183,7 +247,7 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
 
       {/* Filter Buttons */}
       <div className="mb-6 flex gap-2 flex-wrap">
-        {(['all', 'tip', 'order', 'withdrawal'] as const).map((filterType) => (
+        {(['all', 'tip', 'event_share', 'order', 'withdrawal'] as const).map((filterType) => (
           <button
             key={filterType}
             onClick={() => setFilter(filterType)}
@@ -195,6 +259,7 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
           >
             {filterType === 'all' && 'All Transactions'}
             {filterType === 'tip' && '💰 Tips'}
+            {filterType === 'event_share' && '🏛️ Venue Shares'}
             {filterType === 'order' && '🛍️ Orders'}
             {filterType === 'withdrawal' && '💳 Withdrawals'}
           </button>
@@ -224,6 +289,9 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
                 </div>
                 <div className="flex-1">
                   <p className="text-github-text font-medium">{tx.description}</p>
+                  {tx.split && (
+                    <p className="text-github-text-secondary text-xs">{tx.split}</p>
+                  )}
                   <p className="text-github-text-secondary text-xs">
                     {new Date(tx.created_at).toLocaleDateString('en-US', {
                       year: 'numeric',
@@ -239,7 +307,7 @@ export function FinancialHub({ profileId, currentSaldo }: FinancialHubProps) {
                 <p className={`text-github-text font-bold text-lg ${
                   tx.amount < 0 ? 'text-red-400' : 'text-green-400'
                 }`}>
-                  {tx.amount < 0 ? '−$' : '+$'}{Math.abs(tx.amount).toFixed(2)}
+                  {tx.amount < 0 ? '−' : '+'}{formatMoney(Math.abs(tx.amount), tx.currency)}
                 </p>
                 <p className={`text-xs font-semibold ${
                   tx.status === 'completed' ? 'text-green-400' :
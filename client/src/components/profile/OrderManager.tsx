@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Download, MapPin, Package, Truck } from 'lucide-react';
+import type { FulfilmentStatus, Order } from '../../types/models';
+import { orderService } from '../../services/orderService';
+import { formatMoney } from '../../lib/money';
+
+interface OrderManagerProps {
+  profileId: string;
+}
+
+const STATUS_FILTERS: { value: FulfilmentStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'paid', label: 'To pack' },
+  { value: 'packed', label: 'Packed' },
+  { value: 'shipped', label: 'Shipped' },
+  { value: 'picked_up', label: 'Picked up' },
+  { value: 'delivered', label: 'Delivered' }
+];
+
+const STATUS_LABELS: Record<FulfilmentStatus, string> = {
+  paid: 'Paid',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  picked_up: 'Picked up',
+  delivered: 'Delivered'
+};
+
+export function OrderManager({ profileId }: OrderManagerProps) {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [statusFilter, setStatusFilter] = useState<FulfilmentStatus | ''>('paid');
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [tracking, setTracking] = useState<Record<string, { carrier: string; number: string }>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await orderService.getProfileOrders(profileId, statusFilter || undefined);
+      setOrders(data);
+    } catch (err) {
+      console.error('Error fetching orders:', err);
+      setError('Failed to load orders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profileId, statusFilter]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const handleUpdate = async (order: Order, status: FulfilmentStatus) => {
+    const orderTracking = tracking[order.id];
+
+    try {
+      setUpdatingId(order.id);
+      setError(null);
+      await orderService.updateFulfilment(profileId, order.id, {
+        status,
+        ...(status === 'shipped' && {
+          trackingCarrier: orderTracking?.carrier,
+          trackingNumber: orderTracking?.number
+        })
+      });
+      fetchOrders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const inputClassName = 'px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-sm text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-secondary focus:outline-none focus:border-light-blue dark:focus:border-github-blue';
+  const actionClassName = 'px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white text-sm font-semibold rounded-lg transition-all';
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-lg font-bold text-light-text dark:text-github-text flex items-center gap-2">
+        <Package size={20} />
+        Orders
+      </h3>
+
+      <div className="flex gap-2 overflow-x-auto">
+        {STATUS_FILTERS.map(filter => (
+          <button
+            key={filter.value}
+            onClick={() => setStatusFilter(filter.value)}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              statusFilter === filter.value
+                ? 'bg-light-blue dark:bg-github-blue text-white'
+                : 'bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg flex items-center gap-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300">
+          <AlertCircle size={18} />
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-light-text-secondary dark:text-github-text-secondary">Loading...</div>
+      ) : orders.length === 0 ? (
+        <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">No orders here.</p>
+      ) : (
+        <div className="space-y-4">
+          {orders.map(order => (
+            <div key={order.id} className="p-4 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-semibold text-light-text dark:text-github-text">
+                    {order.customer_name || order.customer_email}
+                  </p>
+                  <p className="text-xs text-light-text-secondary dark:text-github-text-secondary">
+                    {new Date(order.created_at).toLocaleString()} · {order.customer_email}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <span className="inline-block px-2.5 py-0.5 rounded-full text-xs font-semibold bg-light-blue/10 dark:bg-github-blue/20 text-light-blue dark:text-github-blue">
+                    {order.payment_status === 'paid' ? STATUS_LABELS[order.fulfilment_status] : order.payment_status}
+                  </span>
+                  <p className="mt-1 font-bold text-light-text dark:text-github-text">
+                    {formatMoney(order.total_amount, order.currency)}
+                  </p>
+                </div>
+              </div>
+
+              <ul className="text-sm text-light-text dark:text-github-text">
+                {order.items?.map(item => (
+                  <li key={item.id}>{item.quantity} × {item.name}</li>
+                ))}
+              </ul>
+
+              <div className="text-sm text-light-text-secondary dark:text-github-text-secondary flex items-start gap-2">
+                {order.fulfilment_method === 'digital' ? (
+                  <>
+                    <Download size={16} className="mt-0.5 flex-shrink-0" />
+                    <span>Download links emailed to the fan</span>
+                  </>
+                ) : order.fulfilment_method === 'pickup' ? (
+                  <>
+                    <MapPin size={16} className="mt-0.5 flex-shrink-0" />
+                    <span>
+                      Pickup at {order.pickup_event?.title || 'an event'}
+                      {order.pickup_event && ` · ${new Date(order.pickup_event.start_time).toLocaleDateString()}`}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <Truck size={16} className="mt-0.5 flex-shrink-0" />
+                    <span>
+                      {order.shipping_address ? (
+                        <>
+                          {order.shipping_name && <>{order.shipping_name}, </>}
+                          {[order.shipping_address.line1, order.shipping_address.line2, order.shipping_address.postal_code, order.shipping_address.city, order.shipping_address.country].filter(Boolean).join(', ')}
+                        </>
+                      ) : 'No shipping address'}
+                      {order.tracking_number && (
+                        <span className="block">Tracking: {order.tracking_carrier ? `${order.tracking_carrier} ` : ''}{order.tracking_number}</span>
+                      )}
+                    </span>
+                  </>
+                )}
+              </div>
+
+              {order.payment_status === 'paid' && (
+                <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-light-border dark:border-github-border">
+                  {order.fulfilment_status === 'paid' && (
+                    <button onClick={() => handleUpdate(order, 'packed')} disabled={updatingId === order.id} className={actionClassName}>
+                      Mark Packed
+                    </button>
+                  )}
+                  {order.fulfilment_status === 'packed' && order.fulfilment_method === 'shipping' && (
+                    <>
+                      <input
+                        type="text"
+                        value={tracking[order.id]?.carrier || ''}
+                        onChange={(e) => setTracking({ ...tracking, [order.id]: { carrier: e.target.value, number: tracking[order.id]?.number || '' } })}
+                        placeholder="Carrier, e.g. PostNord"
+                        className={inputClassName}
+                      />
+                      <input
+                        type="text"
+                        value={tracking[order.id]?.number || ''}
+                        onChange={(e) => setTracking({ ...tracking, [order.id]: { carrier: tracking[order.id]?.carrier || '', number: e.target.value } })}
+                        placeholder="Tracking number"
+                        className={inputClassName}
+                      />
+                      <button onClick={() => handleUpdate(order, 'shipped')} disabled={updatingId === order.id} className={actionClassName}>
+                        Mark Shipped
+                      </button>
+                    </>
+                  )}
+                  {order.fulfilment_status === 'packed' && order.fulfilment_method === 'pickup' && (
+                    <button onClick={() => handleUpdate(order, 'picked_up')} disabled={updatingId === order.id} className={actionClassName}>
+                      Mark Picked Up
+                    </button>
+                  )}
+                  {(order.fulfilment_status === 'shipped' || order.fulfilment_status === 'picked_up') && (
+                    <button onClick={() => handleUpdate(order, 'delivered')} disabled={updatingId === order.id} className={actionClassName}>
+                      Mark Delivered
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
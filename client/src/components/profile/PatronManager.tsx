@@ -0,0 +1,303 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Archive, CheckCircle, Edit2, Heart, Plus, RotateCcw, Users } from 'lucide-react';
+import type { PatronSubscription, SubscriptionTier } from '../../types/models';
+import { subscriptionService } from '../../services/subscriptionService';
+import { DEFAULT_CURRENCY, formatMoney, fromMinorUnits, toMinorUnits } from '../../lib/money';
+
+interface PatronManagerProps {
+  profileId: string;
+  currency?: string;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  perks: '',
+  price: ''
+};
+
+export function PatronManager({ profileId, currency = DEFAULT_CURRENCY }: PatronManagerProps) {
+  const [tiers, setTiers] = useState<SubscriptionTier[]>([]);
+  const [patrons, setPatrons] = useState<PatronSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [tierData, patronData] = await Promise.all([
+        subscriptionService.getProfileTiers(profileId),
+        subscriptionService.getProfilePatrons(profileId)
+      ]);
+      setTiers(tierData);
+      setPatrons(patronData);
+    } catch (err) {
+      console.error('Error fetching patrons:', err);
+      setMessage({ type: 'error', text: 'Failed to load patrons' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (tier: SubscriptionTier) => {
+    setForm({
+      name: tier.name,
+      perks: tier.perks || '',
+      price: fromMinorUnits(tier.price).toFixed(2)
+    });
+    setEditingId(tier.id);
+    setShowForm(true);
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    const price = parseFloat(form.price);
+
+    if (!form.name.trim()) {
+      setMessage({ type: 'error', text: 'Please enter a tier name' });
+      return;
+    }
+
+    if (!price || price <= 0) {
+      setMessage({ type: 'error', text: 'Please enter a valid monthly price' });
+      return;
+    }
+
+    const input = {
+      name: form.name.trim(),
+      perks: form.perks.trim(),
+      price: toMinorUnits(price)
+    };
+
+    try {
+      setIsSaving(true);
+
+      if (editingId) {
+        await subscriptionService.updateTier(profileId, editingId, input);
+        setMessage({ type: 'success', text: 'Tier updated. A new price only applies to new patrons.' });
+      } else {
+        await subscriptionService.createTier(profileId, input);
+        setMessage({ type: 'success', text: 'Tier added' });
+      }
+
+      resetForm();
+      fetchData();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save tier' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (tier: SubscriptionTier) => {
+    const status = tier.status === 'active' ? 'archived' : 'active';
+
+    if (status === 'archived' && !confirm(`Archive "${tier.name}"? Fans can no longer subscribe to it, but current patrons keep their subscription.`)) return;
+
+    try {
+      await subscriptionService.updateTier(profileId, tier.id, { status });
+      fetchData();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to update tier' });
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-secondary focus:outline-none focus:border-light-blue dark:focus:border-github-blue';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-light-text dark:text-github-text flex items-center gap-2">
+          <Heart size={20} />
+          Subscription Tiers
+        </h3>
+        {!showForm && (
+          <button
+            onClick={() => {
+              resetForm();
+              setShowForm(true);
+              setMessage(null);
+            }}
+            className="px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white font-semibold rounded-lg transition-all flex items-center gap-2"
+          >
+            <Plus size={18} />
+            Add Tier
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300'
+        }`}>
+          {message.type === 'success' ? <CheckCircle size={18} /> : <AlertCircle size={18} />}
+          {message.text}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg p-6 space-y-4">
+          <h4 className="font-semibold text-light-text dark:text-github-text">
+            {editingId ? 'Edit Tier' : 'New Tier'}
+          </h4>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Front Row"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Price per month ({currency})</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.price}
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+                placeholder="0.00"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Perks</label>
+            <textarea
+              value={form.perks}
+              onChange={(e) => setForm({ ...form, perks: e.target.value })}
+              rows={3}
+              placeholder="e.g., Early access to new songs, your name on the tip wall"
+              className={`${inputClassName} resize-none`}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white font-semibold rounded-lg transition-all"
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Tier'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text dark:text-github-text rounded-lg transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="text-light-text-secondary dark:text-github-text-secondary">Loading...</div>
+      ) : (
+        <>
+          {tiers.length === 0 ? (
+            <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">
+              No tiers yet. Add one so fans can support you every month.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {tiers.map(tier => (
+                <div
+                  key={tier.id}
+                  className={`flex items-center gap-4 p-4 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg ${
+                    tier.status === 'archived' ? 'opacity-60' : ''
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-light-text dark:text-github-text truncate">
+                      {tier.name}
+                      {tier.status === 'archived' && (
+                        <span className="ml-2 text-xs font-normal text-light-text-secondary dark:text-github-text-secondary">(archived)</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">
+                      {formatMoney(tier.price, tier.currency)} / month · {patrons.filter(patron => patron.tier_id === tier.id).length} patrons
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {tier.status === 'active' && (
+                      <button
+                        onClick={() => handleEdit(tier)}
+                        className="p-2 rounded-lg border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue transition-all"
+                        title="Edit"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleToggleArchived(tier)}
+                      className="p-2 rounded-lg border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue transition-all"
+                      title={tier.status === 'active' ? 'Archive' : 'Restore'}
+                    >
+                      {tier.status === 'active' ? <Archive size={16} /> : <RotateCcw size={16} />}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-lg font-bold text-light-text dark:text-github-text flex items-center gap-2 mb-3">
+              <Users size={20} />
+              Patrons ({patrons.length})
+            </h3>
+            {patrons.length === 0 ? (
+              <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">No patrons yet.</p>
+            ) : (
+              <div className="divide-y divide-light-border dark:divide-github-border border border-light-border dark:border-github-border rounded-lg">
+                {patrons.map(patron => (
+                  <div key={patron.id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-light-text dark:text-github-text truncate">
+                        {patron.customer_name || patron.customer_email || 'Anonymous patron'}
+                      </p>
+                      <p className="text-xs text-light-text-secondary dark:text-github-text-secondary">
+                        {patron.tier?.name || 'Archived tier'} · since {new Date(patron.created_at).toLocaleDateString()}
+                        {patron.cancel_at_period_end && patron.current_period_end && (
+                          <> · ends {new Date(patron.current_period_end).toLocaleDateString()}</>
+                        )}
+                        {patron.status === 'past_due' && ' · payment failed'}
+                      </p>
+                    </div>
+                    <p className="font-semibold text-light-text dark:text-github-text whitespace-nowrap">
+                      {formatMoney(patron.amount, patron.currency)} / mo
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, Heart } from 'lucide-react';
+import { useAuth } from '../../context/useAuth';
+import type { SubscriptionTier } from '../../types/models';
+import { subscriptionService } from '../../services/subscriptionService';
+import { formatMoney } from '../../lib/money';
+
+interface PatronTiersProps {
+  profileId: string;
+  profileName: string;
+}
+
+export function PatronTiers({ profileId, profileName }: PatronTiersProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [tiers, setTiers] = useState<SubscriptionTier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [redirectingTierId, setRedirectingTierId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    subscriptionService.getProfileTiers(profileId)
+      .then(data => setTiers(data.filter(tier => tier.status === 'active')))
+      .catch(err => {
+        console.error('Error fetching tiers:', err);
+        setError('Failed to load subscription tiers');
+      })
+      .finally(() => setIsLoading(false));
+  }, [profileId]);
+
+  const handleSubscribe = async (tier: SubscriptionTier) => {
+    // Patrons manage their subscription from their dashboard, so they need an account
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    try {
+      setRedirectingTierId(tier.id);
+      setError(null);
+      window.location.href = await subscriptionService.startSubscription(profileId, tier.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start your subscription. Please try again.');
+      setRedirectingTierId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-light-text-secondary dark:text-github-text-secondary">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-bold text-light-text dark:text-github-text flex items-center gap-2">
+          <Heart size={20} />
+          Become a Patron
+        </h3>
+        <p className="text-sm text-light-text-secondary dark:text-github-text-secondary mt-1">
+          Support {profileName} every month. Cancel anytime from your dashboard.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg flex items-center gap-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300">
+          <AlertCircle size={18} />
+          {error}
+        </div>
+      )}
+
+      {tiers.length === 0 ? (
+        <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">
+          {profileName} doesn't offer monthly support yet.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {tiers.map(tier => (
+            <div key={tier.id} className="p-5 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg flex flex-col">
+              <p className="font-bold text-light-text dark:text-github-text">{tier.name}</p>
+              <p className="text-2xl font-bold text-light-blue dark:text-github-blue mt-2">
+                {formatMoney(tier.price, tier.currency)}
+                <span className="text-sm font-normal text-light-text-secondary dark:text-github-text-secondary"> / month</span>
+              </p>
+              {tier.perks && (
+                <p className="text-sm text-light-text-secondary dark:text-github-text-secondary mt-3 whitespace-pre-line flex-1">{tier.perks}</p>
+              )}
+              <button
+                onClick={() => handleSubscribe(tier)}
+                disabled={redirectingTierId !== null}
+                className="mt-4 px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white font-semibold rounded-lg transition-all"
+              >
+                {redirectingTierId === tier.id ? 'Redirecting...' : 'Subscribe'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,522 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Archive, CheckCircle, Edit2, Music, Package, Plus, RotateCcw, X } from 'lucide-react';
+import type { Product, ProductType } from '../../types/models';
+import { getAvailableStock, getVariantLabel, isLowStock, productService } from '../../services/productService';
+import { DEFAULT_CURRENCY, formatMoney, fromMinorUnits, toMinorUnits } from '../../lib/money';
+
+interface ProductManagerProps {
+  profileId: string;
+  currency?: string;
+}
+
+const EMPTY_FORM = {
+  type: 'physical' as ProductType,
+  name: '',
+  description: '',
+  price: '',
+  stock: '0',
+  lowStockThreshold: '3',
+  imageUrl: '',
+  downloadLimit: '5',
+  fileName: ''
+};
+
+interface VariantForm {
+  id?: string;
+  size: string;
+  color: string;
+  stock: string;
+}
+
+export function ProductManager({ profileId, currency = DEFAULT_CURRENCY }: ProductManagerProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [variants, setVariants] = useState<VariantForm[]>([]);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [productFile, setProductFile] = useState<File | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchProducts = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await productService.getProfileProducts(profileId);
+      setProducts(data);
+    } catch (err) {
+      console.error('Error fetching products:', err);
+      setMessage({ type: 'error', text: 'Failed to load products' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setVariants([]);
+    setImageFile(null);
+    setProductFile(null);
+    setEditingId(null);
+    setShowForm(false);
+  };
+
+  const handleEdit = (product: Product) => {
+    setForm({
+      type: product.type,
+      name: product.name,
+      description: product.description || '',
+      price: fromMinorUnits(product.price).toFixed(2),
+      stock: String(product.stock),
+      lowStockThreshold: String(product.low_stock_threshold),
+      imageUrl: product.image_url || '',
+      downloadLimit: String(product.download_limit),
+      fileName: product.file_name || ''
+    });
+    setVariants(product.variants.map(variant => ({
+      id: variant.id,
+      size: variant.size || '',
+      color: variant.color || '',
+      stock: String(variant.stock)
+    })));
+    setImageFile(null);
+    setProductFile(null);
+    setEditingId(product.id);
+    setShowForm(true);
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    const price = parseFloat(form.price);
+    const stock = parseInt(form.stock, 10);
+    const lowStockThreshold = parseInt(form.lowStockThreshold, 10);
+    const downloadLimit = parseInt(form.downloadLimit, 10);
+    const isDigital = form.type === 'digital';
+
+    if (!form.name.trim()) {
+      setMessage({ type: 'error', text: 'Please enter a product name' });
+      return;
+    }
+
+    if (!price || price <= 0) {
+      setMessage({ type: 'error', text: 'Please enter a valid price' });
+      return;
+    }
+
+    if (isDigital && !editingId && !productFile) {
+      setMessage({ type: 'error', text: 'Please choose the file fans will download' });
+      return;
+    }
+
+    if (isDigital && (isNaN(downloadLimit) || downloadLimit < 1)) {
+      setMessage({ type: 'error', text: 'Download limit must be at least 1' });
+      return;
+    }
+
+    // With variants, stock is counted per variant instead. Digital products have none.
+    if (!isDigital && variants.length === 0 && (isNaN(stock) || stock < 0)) {
+      setMessage({ type: 'error', text: 'Stock must be 0 or more' });
+      return;
+    }
+
+    if (isNaN(lowStockThreshold) || lowStockThreshold < 0) {
+      setMessage({ type: 'error', text: 'Low-stock alert must be 0 or more' });
+      return;
+    }
+
+    if (variants.some(variant => !variant.size.trim() && !variant.color.trim())) {
+      setMessage({ type: 'error', text: 'Each variant needs a size or a colour' });
+      return;
+    }
+
+    if (variants.some(variant => isNaN(parseInt(variant.stock, 10)) || parseInt(variant.stock, 10) < 0)) {
+      setMessage({ type: 'error', text: 'Variant stock must be 0 or more' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      const imageUrl = imageFile
+        ? await productService.uploadProductImage(imageFile, profileId)
+        : form.imageUrl;
+
+      const filePath = productFile
+        ? await productService.uploadProductFile(productFile, profileId)
+        : undefined;
+
+      const input = {
+        name: form.name.trim(),
+        description: form.description.trim(),
+        imageUrl,
+        price: toMinorUnits(price),
+        stock: !isDigital && variants.length === 0 ? stock : 0,
+        lowStockThreshold,
+        ...(isDigital ? {
+          downloadLimit,
+          ...(productFile && { filePath, fileName: productFile.name })
+        } : {
+          variants: variants.map(variant => ({
+            id: variant.id,
+            size: variant.size.trim(),
+            color: variant.color.trim(),
+            stock: parseInt(variant.stock, 10)
+          }))
+        })
+      };
+
+      if (editingId) {
+        await productService.updateProduct(profileId, editingId, input);
+        setMessage({ type: 'success', text: 'Product updated' });
+      } else {
+        await productService.createProduct(profileId, { ...input, type: form.type });
+        setMessage({ type: 'success', text: 'Product added to your shop' });
+      }
+
+      resetForm();
+      fetchProducts();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save product' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantForm>) => {
+    setVariants(variants.map((variant, i) => i === index ? { ...variant, ...changes } : variant));
+  };
+
+  const handleToggleArchived = async (product: Product) => {
+    const status = product.status === 'active' ? 'archived' : 'active';
+
+    if (status === 'archived' && !confirm(`Archive "${product.name}"? It will be hidden from your shop.`)) return;
+
+    try {
+      await productService.updateProduct(profileId, product.id, { status });
+      fetchProducts();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to update product' });
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-secondary focus:outline-none focus:border-light-blue dark:focus:border-github-blue';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-light-text dark:text-github-text flex items-center gap-2">
+          <Package size={20} />
+          Merch
+        </h3>
+        {!showForm && (
+          <button
+            onClick={() => {
+              resetForm();
+              setShowForm(true);
+              setMessage(null);
+            }}
+            className="px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white font-semibold rounded-lg transition-all flex items-center gap-2"
+          >
+            <Plus size={18} />
+            Add Product
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300'
+        }`}>
+          {message.type === 'success' ? <CheckCircle size={18} /> : <AlertCircle size={18} />}
+          {message.text}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg p-6 space-y-4">
+          <h4 className="font-semibold text-light-text dark:text-github-text">
+            {editingId ? 'Edit Product' : 'New Product'}
+          </h4>
+
+          {!editingId && (
+            <div className="flex gap-2">
+              {(['physical', 'digital'] as const).map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setForm({ ...form, type })}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium border transition-all ${
+                    form.type === type
+                      ? 'bg-light-blue dark:bg-github-blue border-transparent text-white'
+                      : 'bg-light-card dark:bg-github-card border-light-border dark:border-github-border text-light-text dark:text-github-text'
+                  }`}
+                >
+                  {type === 'physical' ? 'Physical merch' : 'Digital download'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder={form.type === 'digital' ? 'e.g., Live at the Harbour EP' : 'e.g., Tour T-shirt'}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={3}
+              className={`${inputClassName} resize-none`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Price ({currency})</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.price}
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+                placeholder="0.00"
+                className={inputClassName}
+              />
+            </div>
+            {form.type === 'digital' && (
+              <div>
+                <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Downloads per order</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={form.downloadLimit}
+                  onChange={(e) => setForm({ ...form, downloadLimit: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            {form.type === 'physical' && variants.length === 0 && (
+              <div>
+                <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Stock</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={form.stock}
+                  onChange={(e) => setForm({ ...form, stock: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            {form.type === 'physical' && (
+              <div>
+                <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Low-stock alert at</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={form.lowStockThreshold}
+                  onChange={(e) => setForm({ ...form, lowStockThreshold: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          {form.type === 'digital' && (
+            <div>
+              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">File</label>
+              <p className="text-xs text-light-text-secondary dark:text-github-text-secondary mb-2">
+                Kept private. Fans get an expiring download link by email after paying.
+              </p>
+              {form.fileName && !productFile && (
+                <p className="text-sm text-light-text dark:text-github-text mb-2 flex items-center gap-2">
+                  <Music size={14} />
+                  {form.fileName}
+                </p>
+              )}
+              <input
+                type="file"
+                accept="audio/*,.zip"
+                onChange={(e) => setProductFile(e.target.files?.[0] || null)}
+                className="text-sm text-light-text-secondary dark:text-github-text-secondary"
+              />
+            </div>
+          )}
+
+          {form.type === 'physical' && (
+            <div>
+              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Variants</label>
+              <p className="text-xs text-light-text-secondary dark:text-github-text-secondary mb-2">
+                Sizes or colours, each with its own stock. Leave empty if the product comes in one version.
+              </p>
+              <div className="space-y-2">
+                {variants.map((variant, index) => (
+                  <div key={variant.id || index} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={variant.size}
+                      onChange={(e) => updateVariant(index, { size: e.target.value })}
+                      placeholder="Size, e.g. M"
+                      className={inputClassName}
+                    />
+                    <input
+                      type="text"
+                      value={variant.color}
+                      onChange={(e) => updateVariant(index, { color: e.target.value })}
+                      placeholder="Colour, e.g. Black"
+                      className={inputClassName}
+                    />
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(index, { stock: e.target.value })}
+                      className={`${inputClassName} w-24`}
+                      title="Stock"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                      className="p-2 text-red-500 hover:text-red-400"
+                      title="Remove variant"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setVariants([...variants, { size: '', color: '', stock: '0' }])}
+                className="mt-2 text-sm font-medium text-light-blue dark:text-github-blue hover:underline flex items-center gap-1"
+              >
+                <Plus size={14} />
+                Add Variant
+              </button>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Image</label>
+            {form.imageUrl && !imageFile && (
+              <img src={form.imageUrl} alt={form.name} className="w-24 h-24 object-cover rounded-lg mb-2" />
+            )}
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setImageFile(e.target.files?.[0] || null)}
+              className="text-sm text-light-text-secondary dark:text-github-text-secondary"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white font-semibold rounded-lg transition-all"
+            >
+              {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Product'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text dark:text-github-text rounded-lg transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="text-light-text-secondary dark:text-github-text-secondary">Loading...</div>
+      ) : products.length === 0 ? (
+        <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">
+          No products yet. Add merch to sell it in your shop.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {products.map((product) => (
+            <div
+              key={product.id}
+              className={`flex items-center gap-4 p-4 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg ${
+                product.status === 'archived' ? 'opacity-60' : ''
+              }`}
+            >
+              {product.image_url ? (
+                <img src={product.image_url} alt={product.name} className="w-16 h-16 object-cover rounded-lg flex-shrink-0" />
+              ) : (
+                <div className="w-16 h-16 rounded-lg bg-light-card dark:bg-github-card flex items-center justify-center flex-shrink-0">
+                  <Package size={24} className="text-light-text-secondary dark:text-github-text-secondary" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-light-text dark:text-github-text truncate">
+                  {product.name}
+                  {product.status === 'archived' && (
+                    <span className="ml-2 text-xs font-normal text-light-text-secondary dark:text-github-text-secondary">(archived)</span>
+                  )}
+                </p>
+                <p className="text-sm text-light-text-secondary dark:text-github-text-secondary">
+                  {formatMoney(product.price, product.currency)} · {product.type === 'digital'
+                    ? `Digital download · ${product.download_limit} downloads per order`
+                    : `${getAvailableStock(product)} in stock`}
+                  {getAvailableStock(product) === 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-xs font-semibold">Sold out</span>
+                  )}
+                  {isLowStock(product) && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 text-xs font-semibold">Low stock</span>
+                  )}
+                </p>
+                {product.variants.length > 0 && (
+                  <p className="text-xs text-light-text-secondary dark:text-github-text-secondary truncate">
+                    {product.variants.map(variant => `${getVariantLabel(variant)}: ${variant.stock}`).join(' · ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                {product.status === 'active' && (
+                  <button
+                    onClick={() => handleEdit(product)}
+                    className="p-2 rounded-lg border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue transition-all"
+                    title="Edit"
+                  >
+                    <Edit2 size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleToggleArchived(product)}
+                  className="p-2 rounded-lg border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue transition-all"
+                  title={product.status === 'active' ? 'Archive' : 'Restore'}
+                >
+                  {product.status === 'active' ? <Archive size={16} /> : <RotateCcw size={16} />}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
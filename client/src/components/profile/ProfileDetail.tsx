@@ -1,12 +1,21 @@
-import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { useState, useEffect, useRef } from 'react';
-import type { Profile } from '../../types/models';
+import { useParams, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { Campaign, Profile } from '../../types/models';
 import { profileService } from '../../services/profileService';
+import { campaignService } from '../../services/campaignService';
 import { supabase } from '../../lib/supabase';
 import { ProfileQRCode } from './ProfileQRCode';
 import { TipWall } from './TipWall';
+import type { TipPreset } from './TipWall';
+import { CampaignProgress } from './CampaignProgress';
+import { EventEarnings } from './EventEarnings';
+import { FinancialHub } from './FinancialHub';
 import { ProfileEvents } from './ProfileEvents';
 import { BandMembersManager } from '../BandMembersManager';
+import { ProductManager } from './ProductManager';
+import { OrderManager } from './OrderManager';
+import { PatronManager } from './PatronManager';
+import { PatronTiers } from './PatronTiers';
 import { ProfileDetailSkeleton } from '../ui/SpecificSkeletons';
 import { ShoppingBag, Edit2, Save, X, Plus, ChevronLeft } from 'lucide-react';
 
@@ -14,6 +23,7 @@ export function ProfileDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const location = useLocation();
+  const [searchParams] = useSearchParams();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -22,10 +32,29 @@ export function ProfileDetail() {
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState({ bio: '', avatar_url: '' });
   const [isSaving, setIsSaving] = useState(false);
-  const [activeTab, setActiveTab] = useState<'about' | 'events' | 'members' | 'tips'>('about');
+  // Scanned QR codes link to ?tip=1, with an event and amount if the code has them
+  const tipPreset = useMemo<TipPreset | undefined>(() => {
+    if (!searchParams.get('tip')) return undefined;
+    const amount = Number(searchParams.get('amount'));
+    return {
+      amount: Number.isInteger(amount) && amount > 0 ? amount : undefined,
+      eventId: searchParams.get('event') || undefined
+    };
+  }, [searchParams]);
+  const [activeTab, setActiveTab] = useState<'about' | 'events' | 'members' | 'tips' | 'patrons' | 'merch' | 'orders' | 'finances'>(tipPreset ? 'tips' : 'about');
   const [showActionsMenu, setShowActionsMenu] = useState(false);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const actionsMenuRef = useRef<HTMLDivElement>(null);
 
+  // Campaigns are shown on the About tab so fans see them first
+  useEffect(() => {
+    if (!id || profile?.role !== 'busker') return;
+
+    campaignService.getProfileCampaigns(id)
+      .then(setCampaigns)
+      .catch(err => console.error('Error loading campaigns:', err));
+  }, [id, profile?.role]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -360,8 +389,54 @@ export function ProfileDetail() {
                 >
                   💝 <span className="hidden sm:inline">Tip </span>Wall
                 </button>
+                <button
+                  onClick={() => setActiveTab('patrons')}
+                  className={`flex-shrink-0 px-3 sm:px-6 py-4 text-xs sm:text-sm font-semibold transition-all duration-200 whitespace-nowrap ${
+                    activeTab === 'patrons'
+                      ? 'text-light-blue dark:text-github-blue border-b-2 border-light-blue dark:border-github-blue bg-light-bg/50 dark:bg-github-bg/50'
+                      : 'text-light-text-secondary dark:text-github-text-secondary hover:text-light-text dark:hover:text-github-text hover:bg-light-bg/30 dark:hover:bg-github-bg/30'
+                  }`}
+                >
+                  🌟 Patrons
+                </button>
+                {isOwner && (
+                  <button
+                    onClick={() => setActiveTab('merch')}
+                    className={`flex-shrink-0 px-3 sm:px-6 py-4 text-xs sm:text-sm font-semibold transition-all duration-200 whitespace-nowrap ${
+                      activeTab === 'merch'
+                        ? 'text-light-blue dark:text-github-blue border-b-2 border-light-blue dark:border-github-blue bg-light-bg/50 dark:bg-github-bg/50'
+                        : 'text-light-text-secondary dark:text-github-text-secondary hover:text-light-text dark:hover:text-github-text hover:bg-light-bg/30 dark:hover:bg-github-bg/30'
+                    }`}
+                  >
+                    🛍️ Merch
+                  </button>
+                )}
+                {isOwner && (
+                  <button
+                    onClick={() => setActiveTab('orders')}
+                    className={`flex-shrink-0 px-3 sm:px-6 py-4 text-xs sm:text-sm font-semibold transition-all duration-200 whitespace-nowrap ${
+                      activeTab === 'orders'
+                        ? 'text-light-blue dark:text-github-blue border-b-2 border-light-blue dark:border-github-blue bg-light-bg/50 dark:bg-github-bg/50'
+                        : 'text-light-text-secondary dark:text-github-text-secondary hover:text-light-text dark:hover:text-github-text hover:bg-light-bg/30 dark:hover:bg-github-bg/30'
+                    }`}
+                  >
+                    📦 Orders
+                  </button>
+                )}
               </>
             )}
+            {isOwner && (profile.role === 'busker' || profile.role === 'eventmaker') && (
+              <button
+                onClick={() => setActiveTab('finances')}
+                className={`flex-shrink-0 px-3 sm:px-6 py-4 text-xs sm:text-sm font-semibold transition-all duration-200 whitespace-nowrap ${
+                  activeTab === 'finances'
+                    ? 'text-light-blue dark:text-github-blue border-b-2 border-light-blue dark:border-github-blue bg-light-bg/50 dark:bg-github-bg/50'
+                    : 'text-light-text-secondary dark:text-github-text-secondary hover:text-light-text dark:hover:text-github-text hover:bg-light-bg/30 dark:hover:bg-github-bg/30'
+                }`}
+              >
+                💼 Finances
+              </button>
+            )}
           </div>
 
           {/* Tab Content */}
@@ -369,6 +444,27 @@ export function ProfileDetail() {
             {/* About Tab */}
             {activeTab === 'about' && (
               <div className="space-y-6">
+                {/* Campaigns Section */}
+                {campaigns.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-bold text-light-text dark:text-github-text mb-3 flex items-center gap-2">
+                      <span>🎯</span>
+                      <span>Campaigns</span>
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {campaigns.map(campaign => (
+                        <CampaignProgress key={campaign.id} campaign={campaign} />
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => setActiveTab('tips')}
+                      className="mt-3 text-sm font-semibold text-light-blue dark:text-github-blue hover:underline"
+                    >
+                      Chip in on the Tip Wall →
+                    </button>
+                  </div>
+                )}
+
                 {/* Genres Section */}
                 {profile.genres && profile.genres.length > 0 && (
                   <div>
@@ -455,9 +551,38 @@ export function ProfileDetail() {
             {/* Tip Wall Tab */}
             {activeTab === 'tips' && profile.role === 'busker' && (
               <div>
-                <TipWall profileId={profile.id} />
+                <TipWall
+                  profileId={profile.id}
+                  profileName={profile.name}
+                  currency={profile.payout_currency}
+                  isOwner={isOwner}
+                  preset={tipPreset}
+                />
+                {isOwner && <EventEarnings profileId={profile.id} />}
               </div>
             )}
+
+            {/* Patrons Tab */}
+            {activeTab === 'patrons' && profile.role === 'busker' && id && (
+              isOwner
+                ? <PatronManager profileId={id} currency={profile.payout_currency} />
+                : <PatronTiers profileId={id} profileName={profile.name} />
+            )}
+
+            {/* Merch Tab */}
+            {activeTab === 'merch' && profile.role === 'busker' && isOwner && id && (
+              <ProductManager profileId={id} currency={profile.payout_currency} />
+            )}
+
+            {/* Orders Tab */}
+            {activeTab === 'orders' && profile.role === 'busker' && isOwner && id && (
+              <OrderManager profileId={id} />
+            )}
+
+            {/* Finances Tab */}
+            {activeTab === 'finances' && (profile.role === 'busker' || profile.role === 'eventmaker') && isOwner && id && (
+              <FinancialHub profileId={id} currency={profile.payout_currency} />
+            )}
           </div>
         </div>
       </div>
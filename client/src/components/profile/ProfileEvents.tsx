@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { eventService } from '../../services/eventService';
 import { EventCardSkeleton } from '../ui/SpecificSkeletons';
 import type { Event } from '../../types/models';
-import { Calendar, MapPin, Clock, Users, ChevronRight } from 'lucide-react';
+import { Calendar, MapPin, Clock, Users, ChevronRight, MonitorPlay } from 'lucide-react';
 
 interface ProfileEventsProps {
   profileId: string;
@@ -215,6 +215,20 @@ export function ProfileEvents({ profileId, isOwner }: ProfileEventsProps) {
                     </div>
                   </div>
 
+                  {/* Stage mode for this event's tips */}
+                  {isOwner && new Date(event.end_time) > now && (
+                    <a
+                      href={`/profile/${profileId}/stage?event=${event.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="p-2 rounded-lg text-light-text-muted dark:text-github-text-muted hover:text-light-blue dark:hover:text-github-blue transition-colors flex-shrink-0"
+                      title="Open stage mode for this event"
+                    >
+                      <MonitorPlay className="w-5 h-5" />
+                    </a>
+                  )}
+
                   {/* Arrow */}
                   <ChevronRight className="w-5 h-5 text-light-text-muted dark:text-github-text-muted group-hover:text-light-blue dark:group-hover:text-github-blue group-hover:translate-x-1 transition-all flex-shrink-0" />
                 </div>
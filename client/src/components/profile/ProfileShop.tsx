@@ -1,39 +1,61 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../context/useAuth';
+import type { FulfilmentMethod, PickupEvent, Product, ProductVariant } from '../../types/models';
+import { getAvailableStock, getVariantLabel, isLowStock, productService } from '../../services/productService';
+import { orderService } from '../../services/orderService';
+import { formatMoney } from '../../lib/money';
+import { useCart } from '../../hooks/useCart';
+import { Minus, Plus, ShoppingCart, Trash2 } from 'lucide-react';
 
-export function ProfileShop() {
-  // This interface now accurately reflects the Stripe Product object from your API
-  interface Product {
-    id: string;
-    name: string;
-    description: string | null;
-    images: string[];
-    default_price: {
-      id: string; // The Price ID is essential for checkout
-      unit_amount: number;
-      currency: string;
-    } | null;
-  }
+// How many of a line a fan can buy. One copy of a download is enough.
+function getLineStock(product: Product, variant?: ProductVariant): number {
+  if (product.type === 'digital') return 1;
+
+  return variant ? variant.stock : product.stock;
+}
 
+export function ProfileShop() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [isRedirecting, setIsRedirecting] = useState<string | null>(null); // To show feedback
+  const [isRedirecting, setIsRedirecting] = useState(false); // To show feedback
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+  const [fulfilmentMethod, setFulfilmentMethod] = useState<FulfilmentMethod>('shipping');
+  const [pickupEvents, setPickupEvents] = useState<PickupEvent[]>([]);
+  const [pickupEventId, setPickupEventId] = useState('');
+  const { lines, getQuantity, addItem, setQuantity, removeItem } = useCart(id);
+
+  // Cart lines joined with current product data. Removed and sold out items
+  // drop out, and quantities are capped at what's left in stock.
+  const cartItems = useMemo(() => lines.flatMap(line => {
+    const product = products.find(product => product.id === line.productId);
+    const variant = product?.variants.find(variant => variant.id === line.variantId);
+
+    if (!product || (product.variants.length > 0) !== !!variant) return [];
+
+    const stock = getLineStock(product, variant);
+    if (stock === 0) return [];
+
+    return [{ ...line, quantity: Math.min(line.quantity, stock), stock, product, variant }];
+  }), [lines, products]);
+
+  // Downloads need no delivery choice
+  const needsDelivery = cartItems.some(item => item.product.type === 'physical');
+  const cartTotal = cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+  const cartCurrency = cartItems[0]?.product.currency;
 
   useEffect(() => {
     const fetchProducts = async () => {
+      if (!id) return;
       setIsLoading(true);
       try {
-        const response = await fetch('http://localhost:3000/api/products');
-        if (!response.ok) {
-          throw new Error(`Network response was not ok: ${response.statusText}`);
-        }
-        const data: Product[] = await response.json();
-        setProducts(data);
+        // Owners also get archived products back, the shop only shows what's for sale
+        const data = await productService.getProfileProducts(id);
+        setProducts(data.filter(product => product.status === 'active'));
       } catch (e: any) {
         console.error("Failed to fetch products:", e);
         setError(e.message || "An unknown error occurred while fetching products.");
@@ -43,20 +65,39 @@ export function ProfileShop() {
     };
 
     fetchProducts();
-  }, []);
+  }, [id]);
 
-  const handlePurchase = async (priceId: string) => {
-    setIsRedirecting(priceId);
+  useEffect(() => {
+    if (!id) return;
+
+    // Pickup is only offered when the artist has upcoming gigs
+    orderService.getPickupEvents(id)
+      .then(setPickupEvents)
+      .catch(e => console.error('Failed to fetch pickup events:', e));
+  }, [id]);
+
+  const getSelectedVariant = (product: Product): ProductVariant | undefined =>
+    product.variants.find(variant => variant.id === selectedVariants[product.id]);
+
+  const handleCheckout = async () => {
+    setIsRedirecting(true);
+    setError(null);
 
     if (!id) {
       setError('Profile ID is missing. Please try again.');
-      setIsRedirecting(null);
+      setIsRedirecting(false);
       return;
     }
 
     if (!user?.email) {
       setError('User email is missing. Please log in again.');
-      setIsRedirecting(null);
+      setIsRedirecting(false);
+      return;
+    }
+
+    if (needsDelivery && fulfilmentMethod === 'pickup' && !pickupEventId) {
+      setError('Please choose the event to pick your order up at.');
+      setIsRedirecting(false);
       return;
     }
 
@@ -67,22 +108,34 @@ export function ProfileShop() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
-          priceId,
+          items: cartItems.map(item => ({ productId: item.productId, variantId: item.variantId, quantity: item.quantity })),
           profileId: id,
-          email: user.email
+          email: user.email,
+          fulfilment: needsDelivery && fulfilmentMethod === 'pickup'
+            ? { method: 'pickup', eventId: pickupEventId }
+            : { method: 'shipping' }
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to create checkout session.');
+        const { message } = await response.json();
+
+        // Something sold out since the shop was loaded, show what's left
+        if (response.status === 409) {
+          const data = await productService.getProfileProducts(id);
+          setProducts(data.filter(product => product.status === 'active'));
+        }
+
+        throw new Error(message || 'Failed to create checkout session.');
       }
 
+      // The cart is cleared on the success page, so cancelling keeps it
       const { url } = await response.json();
       window.location.href = url;
     } catch (e: unknown) {
       console.error('Purchase failed:', e);
-      setError('Could not initiate purchase. Please try again.');
-      setIsRedirecting(null);
+      setError(e instanceof Error ? e.message : 'Could not initiate purchase. Please try again.');
+      setIsRedirecting(false);
     }
   };
 
@@ -117,40 +170,170 @@ export function ProfileShop() {
           </div>
         )}
 
-        {!isLoading && products.length > 0 && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {products.map((product) => (
-              <div key={product.id} className="bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg overflow-hidden shadow-lg hover:border-light-blue dark:hover:border-github-blue transition-all duration-300 flex flex-col">
-                <img src={product.images[0]} alt={product.name} className="w-full h-48 object-cover" />
-                <div className="p-4 flex flex-col flex-1">
-                  <h3 className="text-lg font-bold text-light-text dark:text-github-text mb-2">{product.name}</h3>
-                  <p className="text-light-text-secondary dark:text-github-text-secondary text-sm flex-1 mb-4">{product.description}</p>
-                  <div className="flex justify-between items-center pt-4 border-t border-light-border dark:border-github-border">
-                    {product.default_price ? (
-                      <span className="text-xl font-bold text-light-blue dark:text-github-blue">
-                        {new Intl.NumberFormat('en-US', {
-                          style: 'currency',
-                          currency: product.default_price.currency,
-                        }).format(product.default_price.unit_amount / 100)}
-                      </span>
-                    ) : (
-                      <span className="text-sm text-light-text-secondary dark:text-github-text-secondary">Price not set</span>
+        {cartItems.length > 0 && (
+          <div className="mb-8 p-6 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg">
+            <h2 className="text-xl font-bold text-light-text dark:text-github-text mb-4 flex items-center gap-2">
+              <ShoppingCart size={20} />
+              Your Cart
+            </h2>
+            <div className="space-y-3 mb-4">
+              {cartItems.map(item => (
+                <div key={`${item.productId}:${item.variantId || ''}`} className="flex items-center justify-between gap-4">
+                  <span className="flex-1 min-w-0 truncate text-light-text dark:text-github-text">
+                    {item.product.name}
+                    {item.variant && (
+                      <span className="text-light-text-secondary dark:text-github-text-secondary"> ({getVariantLabel(item.variant)})</span>
                     )}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setQuantity(item, item.quantity - 1)}
+                      className="p-1.5 rounded border border-light-border dark:border-github-border text-light-text dark:text-github-text hover:border-light-blue dark:hover:border-github-blue"
+                      title="Decrease quantity"
+                    >
+                      <Minus size={14} />
+                    </button>
+                    <span className="w-8 text-center font-semibold text-light-text dark:text-github-text">{item.quantity}</span>
                     <button
-                      onClick={() => product.default_price && handlePurchase(product.default_price.id)}
-                      disabled={!product.default_price || isRedirecting === product.id}
-                      className={`px-4 py-2 rounded-lg font-semibold transition-all duration-200 ${
-                        !product.default_price || isRedirecting === product.id
-                          ? 'bg-light-text-secondary/30 dark:bg-github-text-secondary/30 text-light-text-muted dark:text-github-text-muted cursor-not-allowed'
-                          : 'bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white dark:text-github-text'
-                      }`}
+                      onClick={() => setQuantity(item, item.quantity + 1)}
+                      disabled={item.quantity >= item.stock}
+                      className="p-1.5 rounded border border-light-border dark:border-github-border text-light-text dark:text-github-text hover:border-light-blue dark:hover:border-github-blue disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Increase quantity"
                     >
-                      {isRedirecting === product.id ? 'Redirecting...' : 'Buy Now'}
+                      <Plus size={14} />
                     </button>
                   </div>
+                  <span className="w-28 text-right font-semibold text-light-text dark:text-github-text">
+                    {formatMoney(item.product.price * item.quantity, item.product.currency)}
+                  </span>
+                  <button
+                    onClick={() => removeItem(item)}
+                    className="p-1.5 text-red-500 hover:text-red-400"
+                    title="Remove from cart"
+                  >
+                    <Trash2 size={16} />
+                  </button>
                 </div>
+              ))}
+            </div>
+            {needsDelivery && (
+              <div className="pt-4 mb-4 border-t border-light-border dark:border-github-border space-y-2">
+                <p className="text-sm font-semibold text-light-text dark:text-github-text">Delivery</p>
+                <label className="flex items-center gap-2 text-sm text-light-text dark:text-github-text">
+                  <input
+                    type="radio"
+                    name="fulfilment"
+                    checked={fulfilmentMethod === 'shipping'}
+                    onChange={() => setFulfilmentMethod('shipping')}
+                  />
+                  Ship to me (address entered at checkout)
+                </label>
+                {pickupEvents.length > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-light-text dark:text-github-text">
+                    <input
+                      type="radio"
+                      name="fulfilment"
+                      checked={fulfilmentMethod === 'pickup'}
+                      onChange={() => setFulfilmentMethod('pickup')}
+                    />
+                    Pick up at a gig
+                  </label>
+                )}
+                {fulfilmentMethod === 'pickup' && (
+                  <select
+                    value={pickupEventId}
+                    onChange={(e) => setPickupEventId(e.target.value)}
+                    className="w-full px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
+                  >
+                    <option value="">Choose an event</option>
+                    {pickupEvents.map(event => (
+                      <option key={event.id} value={event.id}>
+                        {event.title} · {new Date(event.start_time).toLocaleDateString()}{event.place_name ? ` · ${event.place_name}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
               </div>
-            ))}
+            )}
+            <div className="flex items-center justify-between pt-4 border-t border-light-border dark:border-github-border">
+              <span className="text-lg font-bold text-light-text dark:text-github-text">
+                Total: {formatMoney(cartTotal, cartCurrency)}
+              </span>
+              <button
+                onClick={handleCheckout}
+                disabled={isRedirecting}
+                className="px-6 py-2 rounded-lg font-semibold bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white dark:text-github-text disabled:opacity-50 transition-all duration-200"
+              >
+                {isRedirecting ? 'Redirecting...' : 'Checkout'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!isLoading && products.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {products.map((product) => {
+              const isSoldOut = getAvailableStock(product) === 0;
+              const selectedVariant = getSelectedVariant(product);
+              const needsVariant = product.variants.length > 0 && !selectedVariant;
+              const lineKey = { productId: product.id, variantId: selectedVariant?.id };
+              const lineStock = getLineStock(product, selectedVariant);
+              const inCart = needsVariant ? 0 : getQuantity(lineKey);
+              const canAdd = !isSoldOut && !needsVariant && inCart < lineStock;
+
+              return (
+                <div key={product.id} className={`bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg overflow-hidden shadow-lg hover:border-light-blue dark:hover:border-github-blue transition-all duration-300 flex flex-col ${
+                  isSoldOut ? 'opacity-60' : ''
+                }`}>
+                  {product.image_url && (
+                    <div className="relative">
+                      <img src={product.image_url} alt={product.name} className={`w-full h-48 object-cover ${isSoldOut ? 'grayscale' : ''}`} />
+                      {isSoldOut && (
+                        <span className="absolute top-3 right-3 px-3 py-1 rounded-full bg-red-600 text-white text-xs font-bold uppercase">Sold Out</span>
+                      )}
+                    </div>
+                  )}
+                  <div className="p-4 flex flex-col flex-1">
+                    <h3 className="text-lg font-bold text-light-text dark:text-github-text mb-2">{product.name}</h3>
+                    <p className="text-light-text-secondary dark:text-github-text-secondary text-sm flex-1 mb-4">{product.description}</p>
+                    {isLowStock(product) && (
+                      <p className="text-sm font-semibold text-orange-500 mb-3">Only {getAvailableStock(product)} left!</p>
+                    )}
+                    {product.variants.length > 0 && !isSoldOut && (
+                      <select
+                        value={selectedVariants[product.id] || ''}
+                        onChange={(e) => setSelectedVariants({ ...selectedVariants, [product.id]: e.target.value })}
+                        className="w-full mb-4 px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
+                      >
+                        <option value="">Choose an option</option>
+                        {product.variants.map(variant => (
+                          <option key={variant.id} value={variant.id} disabled={variant.stock === 0}>
+                            {getVariantLabel(variant)}{variant.stock === 0 ? ' (sold out)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <div className="flex justify-between items-center pt-4 border-t border-light-border dark:border-github-border">
+                      <span className="text-xl font-bold text-light-blue dark:text-github-blue">
+                        {formatMoney(product.price, product.currency)}
+                      </span>
+                      <button
+                        onClick={() => addItem(lineKey)}
+                        disabled={!canAdd}
+                        className={`px-4 py-2 rounded-lg font-semibold transition-all duration-200 flex items-center gap-2 ${
+                          !canAdd
+                            ? 'bg-light-text-secondary/30 dark:bg-github-text-secondary/30 text-light-text-muted dark:text-github-text-muted cursor-not-allowed'
+                            : 'bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white dark:text-github-text'
+                        }`}
+                      >
+                        <ShoppingCart size={16} />
+                        {isSoldOut ? 'Sold Out' : inCart > 0 ? `In Cart (${inCart})` : 'Add to Cart'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
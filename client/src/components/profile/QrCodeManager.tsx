@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Printer, QrCode as QrCodeIcon, Trash2 } from 'lucide-react';
+import type { Event, QrCode } from '../../types/models';
+import { qrCodeService } from '../../services/qrCodeService';
+import { eventService } from '../../services/eventService';
+import { formatMoney, toMinorUnits } from '../../lib/money';
+import { QrPoster } from './QrPoster';
+
+interface QrCodeManagerProps {
+  profileId: string;
+  profileName: string;
+  currency: string;
+}
+
+/**
+ * The profile's printable QR codes. Each one leads to the tip form, with an
+ * event and an amount already chosen if it has them, and counts its scans.
+ */
+export function QrCodeManager({ profileId, profileName, currency }: QrCodeManagerProps) {
+  const [qrCodes, setQrCodes] = useState<QrCode[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [formData, setFormData] = useState({ label: '', eventId: '', amount: '' });
+  const [posterCode, setPosterCode] = useState<QrCode | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQrCodes = useCallback(async () => {
+    try {
+      setQrCodes(await qrCodeService.getProfileQrCodes(profileId));
+    } catch (err) {
+      console.error('Error loading QR codes:', err);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    loadQrCodes();
+  }, [loadQrCodes]);
+
+  // Codes can tip at events the profile performs at that haven't ended
+  useEffect(() => {
+    Promise.all([
+      eventService.getProfileEvents(profileId),
+      eventService.getProfileParticipatingEvents(profileId)
+    ])
+      .then(([hosted, participating]) => {
+        const performing = [...hosted.filter(event => event.event_type === 'solo_performance'), ...participating]
+          .filter(event => new Date(event.end_time) > new Date() && event.status !== 'cancelled')
+          .filter((event, index, self) => index === self.findIndex(e => e.id === event.id))
+          .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+        setEvents(performing);
+      })
+      .catch(err => console.error('Error loading events:', err));
+  }, [profileId]);
+
+  const eventTitle = (eventId: string | null) => events.find(event => event.id === eventId)?.title;
+
+  const describe = (qrCode: QrCode) => [
+    qrCode.event_id ? `at ${eventTitle(qrCode.event_id) || 'an event'}` : null,
+    qrCode.amount && qrCode.currency ? formatMoney(qrCode.amount, qrCode.currency) : null
+  ].filter(Boolean).join(' • ');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const amount = parseFloat(formData.amount);
+
+    try {
+      setIsSaving(true);
+      const qrCode = await qrCodeService.createQrCode(profileId, {
+        label: formData.label.trim() || null,
+        eventId: formData.eventId || null,
+        amount: amount > 0 ? toMinorUnits(amount) : null
+      });
+      setFormData({ label: '', eventId: '', amount: '' });
+      setQrCodes(prev => [qrCode, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create QR code');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (qrCode: QrCode) => {
+    if (!window.confirm('Delete this QR code? Printed copies will stop working.')) return;
+
+    try {
+      await qrCodeService.deleteQrCode(profileId, qrCode.id);
+      setQrCodes(prev => prev.filter(code => code.id !== qrCode.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete QR code');
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-secondary focus:outline-none focus:border-light-blue dark:focus:border-github-blue';
+
+  return (
+    <div className="mb-6 p-6 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg space-y-4">
+      <h3 className="font-semibold text-light-text dark:text-github-text flex items-center gap-2">
+        <QrCodeIcon className="w-5 h-5" />
+        QR Codes &amp; Posters
+      </h3>
+
+      {error && (
+        <div className="p-3 rounded-lg flex items-center gap-2 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300">
+          <AlertCircle size={18} />
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Label (Optional)</label>
+          <input
+            type="text"
+            value={formData.label}
+            onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+            placeholder="e.g., Guitar case sign"
+            maxLength={60}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Event (Optional)</label>
+          <select
+            value={formData.eventId}
+            onChange={(e) => setFormData({ ...formData, eventId: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">No event</option>
+            {events.map(event => (
+              <option key={event.id} value={event.id}>
+                {event.title} ({new Date(event.start_time).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Amount ({currency}, Optional)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={formData.amount}
+            onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="md:col-span-3 px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white font-semibold rounded-lg transition-all"
+        >
+          {isSaving ? 'Creating...' : 'Create QR Code'}
+        </button>
+      </form>
+
+      <p className="text-xs text-light-text-muted dark:text-github-text-muted">
+        Scanning a code opens your tip form. You can print a code and keep using it if you rename your
+        profile.
+      </p>
+
+      {qrCodes.length > 0 && (
+        <div className="space-y-2">
+          {qrCodes.map(qrCode => (
+            <div key={qrCode.id} className="p-3 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-light-text dark:text-github-text truncate">
+                  {qrCode.label || qrCode.code}
+                </p>
+                <p className="text-xs text-light-text-secondary dark:text-github-text-secondary truncate">
+                  {describe(qrCode) || 'Tip form'} • {qrCode.scan_count} scan{qrCode.scan_count === 1 ? '' : 's'}
+                  {qrCode.last_scanned_at && `, last ${new Date(qrCode.last_scanned_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              <button
+                onClick={() => setPosterCode(qrCode)}
+                className="p-2 text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue"
+                title="Poster"
+              >
+                <Printer className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(qrCode)}
+                className="p-2 text-light-text-secondary dark:text-github-text-secondary hover:text-red-500"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {posterCode && (
+        <QrPoster
+          qrCode={posterCode}
+          artistName={profileName}
+          detail={describe(posterCode) || undefined}
+          onClose={() => setPosterCode(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { QRCodeCanvas } from 'qrcode.react';
+import { Download, Printer, X } from 'lucide-react';
+import type { QrCode } from '../../types/models';
+
+interface QrPosterProps {
+  qrCode: QrCode;
+  artistName: string;
+  detail?: string; // e.g. the event the code tips at
+  onClose: () => void;
+}
+
+// A4 at 150 dpi, large enough to print sharply
+const POSTER_WIDTH = 1240;
+const POSTER_HEIGHT = 1754;
+const QR_SIZE = 860;
+const BRAND_COLOR = '#B8956F';
+
+/**
+ * Draw text centered on a line, shrinking it until it fits the poster
+ */
+function drawCenteredText(context: CanvasRenderingContext2D, text: string, y: number, fontSize: number, weight = 'normal') {
+  let size = fontSize;
+  do {
+    context.font = `${weight} ${size}px sans-serif`;
+    size -= 4;
+  } while (context.measureText(text).width > POSTER_WIDTH - 120 && size > 20);
+
+  context.fillText(text, POSTER_WIDTH / 2, y);
+}
+
+interface PosterText {
+  artistName: string;
+  callToAction: string;
+  detail?: string;
+  url: string; // printed under the code for phones that can't scan
+}
+
+function drawPoster(poster: HTMLCanvasElement, qr: HTMLCanvasElement, { artistName, callToAction, detail, url }: PosterText) {
+  const context = poster.getContext('2d');
+  if (!context) return;
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, POSTER_WIDTH, POSTER_HEIGHT);
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+
+  context.fillStyle = BRAND_COLOR;
+  context.fillRect(0, 0, POSTER_WIDTH, 24);
+  context.fillRect(0, POSTER_HEIGHT - 24, POSTER_WIDTH, 24);
+  drawCenteredText(context, 'B U S K E R', 110, 48, 'bold');
+
+  context.fillStyle = '#111111';
+  drawCenteredText(context, artistName, 240, 110, 'bold');
+
+  context.fillStyle = BRAND_COLOR;
+  drawCenteredText(context, callToAction, 380, 72, 'bold');
+
+  context.imageSmoothingEnabled = false;
+  context.drawImage(qr, (POSTER_WIDTH - QR_SIZE) / 2, 470, QR_SIZE, QR_SIZE);
+
+  context.fillStyle = '#333333';
+  if (detail) {
+    drawCenteredText(context, detail, 1440, 48);
+  }
+
+  context.fillStyle = '#888888';
+  drawCenteredText(context, url.replace(/^https?:\/\//, ''), 1560, 30);
+}
+
+/**
+ * Printable poster for a QR code: the artist's name, a call to action and
+ * the code. Downloads as a PNG, or prints (and saves as PDF) through the
+ * browser's print dialog.
+ */
+export function QrPoster({ qrCode, artistName, detail, onClose }: QrPosterProps) {
+  const [callToAction, setCallToAction] = useState('Scan to tip!');
+  const qrRef = useRef<HTMLCanvasElement>(null);
+  const posterRef = useRef<HTMLCanvasElement>(null);
+
+  // The QR canvas draws itself in its own effect, which runs before this one
+  useEffect(() => {
+    if (qrRef.current && posterRef.current) {
+      drawPoster(posterRef.current, qrRef.current, { artistName, callToAction, detail, url: qrCode.url });
+    }
+  }, [qrCode.url, artistName, callToAction, detail]);
+
+  const fileName = `${artistName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${qrCode.code}`;
+
+  const handleDownload = () => {
+    if (!posterRef.current) return;
+
+    const link = document.createElement('a');
+    link.href = posterRef.current.toDataURL('image/png');
+    link.download = `${fileName}.png`;
+    link.click();
+  };
+
+  // A page with only the poster, so "Save as PDF" gives a one-page poster
+  const handlePrint = () => {
+    if (!posterRef.current) return;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <title>${fileName}</title>
+    <style>
+      @page { size: A4; margin: 0; }
+      html, body { margin: 0; }
+      img { width: 100%; height: auto; display: block; }
+    </style>
+  </head>
+  <body>
+    <img src="${posterRef.current.toDataURL('image/png')}" onload="window.print(); window.close();" />
+  </body>
+</html>`);
+    printWindow.document.close();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-light-card dark:bg-github-card rounded-2xl shadow-2xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-light-text dark:text-github-text">Poster</h3>
+          <button onClick={onClose} className="text-light-text-secondary dark:text-github-text-secondary hover:text-light-text dark:hover:text-github-text" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Call to action</label>
+        <input
+          type="text"
+          value={callToAction}
+          onChange={(e) => setCallToAction(e.target.value)}
+          maxLength={40}
+          className="w-full mb-4 px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
+        />
+
+        <QRCodeCanvas
+          ref={qrRef}
+          value={qrCode.url}
+          size={QR_SIZE}
+          level="H"
+          marginSize={2}
+          className="hidden"
+        />
+        <canvas
+          ref={posterRef}
+          width={POSTER_WIDTH}
+          height={POSTER_HEIGHT}
+          className="w-full h-auto border border-light-border dark:border-github-border rounded-lg mb-4"
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleDownload}
+            className="flex-1 px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white font-semibold rounded-lg transition-all flex items-center justify-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            PNG
+          </button>
+          <button
+            onClick={handlePrint}
+            className="flex-1 px-4 py-2 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border text-light-text dark:text-github-text hover:border-light-blue dark:hover:border-github-blue font-semibold rounded-lg transition-all flex items-center justify-center gap-2"
+          >
+            <Printer className="w-4 h-4" />
+            Print / PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { QRCodeSVG } from 'qrcode.react';
+import { Maximize } from 'lucide-react';
+import type { Tip } from '../../types/models';
+import { tipService } from '../../services/tipService';
+import { profileService } from '../../services/profileService';
+import { eventService } from '../../services/eventService';
+import { useLiveTips } from '../../hooks/useLiveTips';
+import { DEFAULT_CURRENCY, formatMoney, toMinorUnits } from '../../lib/money';
+
+const RECENT_TIPS = 5;
+
+// Tips count from the start of the event, or from midnight without one
+function getStartOfToday(): string {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today.toISOString();
+}
+
+/**
+ * Fullscreen tip screen for a set: animated alerts for new tips, the running
+ * total and an optional goal bar. Opened on a tablet next to the stage, or
+ * added to OBS as a browser source.
+ *
+ * Query parameters:
+ * - `event`: count tips from the start of this event instead of today
+ * - `goal`: goal in major units, e.g. `goal=500`
+ * - `overlay=1`: transparent background and no QR code, for OBS
+ */
+export function StageMode() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const eventId = searchParams.get('event');
+  const goal = toMinorUnits(parseFloat(searchParams.get('goal') || '0') || 0);
+  const isOverlay = searchParams.get('overlay') === '1';
+
+  const [profileName, setProfileName] = useState('');
+  const [eventTitle, setEventTitle] = useState<string | null>(null);
+  const [since, setSince] = useState<string | null>(null);
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [tips, setTips] = useState<Tip[]>([]);
+  const [alerts, setAlerts] = useState<Tip[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Work out where the running total starts
+  useEffect(() => {
+    if (!id) return;
+
+    const load = async () => {
+      try {
+        const [profile, settings] = await Promise.all([
+          profileService.getProfile(id),
+          tipService.getTipSettings(id)
+        ]);
+        setProfileName(profile.name);
+        setCurrency(settings.currency);
+
+        if (eventId) {
+          const event = await eventService.getEvent(eventId);
+          setEventTitle(event.title);
+          setSince(event.start_time);
+        } else {
+          setSince(getStartOfToday());
+        }
+      } catch (err) {
+        console.error('Error loading stage mode:', err);
+        setError('Could not load this stage screen');
+      }
+    };
+
+    load();
+  }, [id, eventId]);
+
+  useEffect(() => {
+    if (!id || !since) return;
+
+    tipService.getProfileTips(id, since)
+      .then(data => setTips(data.filter(tip => !tip.is_hidden)))
+      .catch(err => console.error('Error loading tips:', err));
+  }, [id, since]);
+
+  useLiveTips(id, {
+    onTip: (tip) => {
+      if (since && tip.created_at < since) return;
+      setTips(current => (current.some(t => t.id === tip.id) ? current : [tip, ...current]));
+      setAlerts(current => [...current, tip]);
+    },
+    onRemove: (tipId) => {
+      setTips(current => current.filter(t => t.id !== tipId));
+      setAlerts(current => current.filter(t => t.id !== tipId));
+    }
+  });
+
+  // OBS composites the page over the stream, so the page itself must be see-through
+  useEffect(() => {
+    if (!isOverlay) return;
+
+    const root = document.documentElement;
+    const previous = root.style.backgroundColor;
+    root.style.backgroundColor = 'transparent';
+    document.body.style.backgroundColor = 'transparent';
+
+    return () => {
+      root.style.backgroundColor = previous;
+      document.body.style.backgroundColor = '';
+    };
+  }, [isOverlay]);
+
+  const total = useMemo(() => tips.reduce((sum, tip) => sum + tip.amount, 0), [tips]);
+  const recentTips = useMemo(
+    () => [...tips].sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, RECENT_TIPS),
+    [tips]
+  );
+  const goalProgress = goal > 0 ? Math.min(100, (total / goal) * 100) : 0;
+  const currentAlert = alerts[0];
+
+  const handleFullscreen = () => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+  };
+
+  if (error) {
+    return (
+      <div className="h-[100dvh] flex items-center justify-center bg-black text-white text-2xl">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`h-[100dvh] w-full overflow-hidden relative flex flex-col text-white ${
+      isOverlay ? 'bg-transparent' : 'bg-gradient-to-br from-primary via-secondary to-black'
+    }`}>
+      {!isOverlay && (
+        <button
+          onClick={handleFullscreen}
+          className="absolute top-4 right-4 p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+          title="Fullscreen"
+        >
+          <Maximize size={20} />
+        </button>
+      )}
+
+      {/* Running total and goal */}
+      <div className="p-8 text-center">
+        {!isOverlay && (
+          <p className="text-xl text-white/70 mb-2">
+            {profileName}{eventTitle && ` · ${eventTitle}`}
+          </p>
+        )}
+        <p className="text-6xl md:text-8xl font-bold text-accent drop-shadow-lg">
+          {formatMoney(total, currency)}
+        </p>
+        {goal > 0 && (
+          <div className="max-w-3xl mx-auto mt-6">
+            <div className="h-6 rounded-full bg-white/20 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-accent transition-all duration-1000 ease-out"
+                style={{ width: `${goalProgress}%` }}
+              />
+            </div>
+            <p className="text-lg text-white/80 mt-2">
+              {goalProgress >= 100 ? 'Goal reached! 🎉' : `Goal: ${formatMoney(goal, currency)}`}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* New tip alert, one at a time */}
+      <div className="flex-1 flex items-center justify-center px-8">
+        {currentAlert && (
+          <div
+            key={currentAlert.id}
+            onAnimationEnd={() => setAlerts(current => current.slice(1))}
+            className="animate-tip-alert max-w-3xl w-full text-center p-10 rounded-3xl bg-black/60 border-4 border-accent shadow-2xl"
+          >
+            <p className="text-3xl md:text-5xl font-bold">
+              {currentAlert.donor_name || 'Someone'} tipped {formatMoney(currentAlert.amount, currentAlert.currency)}!
+            </p>
+            {currentAlert.message && (
+              <p className="text-2xl md:text-3xl italic text-white/80 mt-6">"{currentAlert.message}"</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Recent tips and how to tip */}
+      {!isOverlay && (
+        <div className="p-8 flex items-end justify-between gap-8">
+          <div className="space-y-2 min-w-0">
+            {recentTips.map(tip => (
+              <p key={tip.id} className="text-lg text-white/80 truncate">
+                💝 {tip.donor_name || 'Anonymous'} · {formatMoney(tip.amount, tip.currency)}
+              </p>
+            ))}
+          </div>
+          {id && (
+            <div className="flex-shrink-0 text-center">
+              <div className="bg-white p-3 rounded-xl">
+                <QRCodeSVG value={`${window.location.origin}/profile/${id}`} size={140} />
+              </div>
+              <p className="text-sm text-white/70 mt-2">Scan to tip</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
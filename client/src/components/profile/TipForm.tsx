@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { formatMoney, fromMinorUnits, toMinorUnits } from '../../lib/money';
+import type { Campaign, TipSettings } from '../../types/models';
+import { calculateCoverFee } from '../../services/tipService';
+
+interface TipFormProps {
+  profileId: string;
+  settings: TipSettings | null;
+  currency: string;
+  campaigns?: Campaign[]; // open campaigns the tip can go towards
+  eventId?: string; // the event the tip is made at
+  initialAmount?: number; // in minor units, e.g. from a scanned QR code
+}
+
+/**
+ * The form fans tip a profile with. Creates the pending tip and sends the
+ * fan to Stripe Checkout.
+ */
+export function TipForm({ profileId, settings, currency, campaigns = [], eventId, initialAmount }: TipFormProps) {
+  const [formData, setFormData] = useState({
+    donor_name: '',
+    donor_email: '',
+    amount: 0,
+    message: '',
+    cover_fees: false,
+    show_name: true,
+    campaign_id: ''
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tipAmounts = settings?.presets || [];
+  const amountInMinorUnits = toMinorUnits(formData.amount);
+  const feeAmount = settings && formData.cover_fees ? calculateCoverFee(amountInMinorUnits, settings.fee) : 0;
+
+  // Start from the amount asked for, or the middle preset so the form never
+  // suggests a tip below the minimum
+  useEffect(() => {
+    if (settings && initialAmount) {
+      setFormData(data => ({ ...data, amount: fromMinorUnits(initialAmount) }));
+    } else if (settings && settings.presets.length > 0) {
+      const preset = settings.presets[Math.floor((settings.presets.length - 1) / 2)];
+      setFormData(data => ({ ...data, amount: fromMinorUnits(preset) }));
+    }
+  }, [settings, initialAmount]);
+
+  const handleSubmitTip = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!formData.donor_email.trim()) {
+      setError('Please enter your email');
+      return;
+    }
+
+    // Simple email validation
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(formData.donor_email.trim())) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    if (settings && amountInMinorUnits < settings.limits.min) {
+      setError(`Tip amount must be at least ${formatMoney(settings.limits.min, currency)}`);
+      return;
+    }
+
+    if (settings && amountInMinorUnits > settings.limits.max) {
+      setError(`Tip amount can be at most ${formatMoney(settings.limits.max, currency)}`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      
+      // Create a temporary tip record first (before payment). Fans can't read
+      // tips back, so the id is chosen here instead of returned by the insert.
+      const tipId = crypto.randomUUID();
+      const donorName = formData.donor_name.trim();
+
+      const { error: insertError } = await supabase
+        .from('tips')
+        .insert([
+          {
+            id: tipId,
+            profile_id: profileId,
+            donor_name: donorName || null, // no name means an anonymous tip
+            show_name: !!donorName && formData.show_name,
+            amount: amountInMinorUnits,
+            currency,
+            message: formData.message.trim() || null,
+            payment_status: 'pending'
+          }
+        ]);
+
+      if (insertError) throw insertError;
+
+      // Redirect to Stripe checkout
+      const response = await fetch('http://localhost:3000/api/checkout/create-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          profileId: profileId,
+          email: formData.donor_email.trim(),
+          tipId: tipId,
+          tipAmount: amountInMinorUnits,
+          coverFees: formData.cover_fees,
+          campaignId: formData.campaign_id || undefined,
+          eventId,
+        }),
+      });
+
+      const data = await response.json();
+      if (data.url) {
+        // Redirect to Stripe checkout
+        window.location.href = data.url;
+      } else {
+        throw new Error(data.message || 'Failed to create checkout session');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process tip');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg">
+      <form onSubmit={handleSubmitTip} className="space-y-4">
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Donor Name */}
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
+            Your Name (Optional)
+          </label>
+          <input
+            type="text"
+            placeholder="Leave empty to tip anonymously"
+            value={formData.donor_name}
+            onChange={(e) => setFormData({ ...formData, donor_name: e.target.value })}
+            className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-muted focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
+          />
+        </div>
+
+        {/* Donor Email */}
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
+            Your Email
+          </label>
+          <input
+            type="email"
+            placeholder="Enter your email"
+            value={formData.donor_email}
+            onChange={(e) => setFormData({ ...formData, donor_email: e.target.value })}
+            className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-muted focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
+          />
+          <p className="text-xs text-light-text-muted dark:text-github-text-muted mt-1">
+            Your receipt is sent here. No account needed.
+          </p>
+        </div>
+
+        {/* Tip Amount */}
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
+            Tip Amount ({currency})
+          </label>
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-3">
+            {tipAmounts.map((amount) => (
+              <button
+                key={amount}
+                type="button"
+                onClick={() => setFormData({ ...formData, amount: fromMinorUnits(amount) })}
+                className={`py-2 rounded-lg font-semibold transition-all duration-200 ${
+                  amountInMinorUnits === amount
+                    ? 'bg-light-blue dark:bg-github-blue text-white dark:text-github-text border border-light-blue dark:border-github-blue'
+                    : 'bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary hover:border-light-blue dark:hover:border-github-blue'
+                }`}
+              >
+                {formatMoney(amount, currency)}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            min={settings ? fromMinorUnits(settings.limits.min) : 1}
+            max={settings ? fromMinorUnits(settings.limits.max) : undefined}
+            step="0.01"
+            value={formData.amount}
+            onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+            className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
+          />
+          {settings && (
+            <p className="text-xs text-light-text-muted dark:text-github-text-muted mt-1">
+              {formatMoney(settings.limits.min, currency)} – {formatMoney(settings.limits.max, currency)}
+            </p>
+          )}
+        </div>
+
+        {/* Campaign */}
+        {campaigns.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
+              Put this tip towards
+            </label>
+            <select
+              value={formData.campaign_id}
+              onChange={(e) => setFormData({ ...formData, campaign_id: e.target.value })}
+              className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
+            >
+              <option value="">Just a tip</option>
+              {campaigns.map(campaign => (
+                <option key={campaign.id} value={campaign.id}>{campaign.title}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Show Name */}
+        {formData.donor_name.trim() && (
+          <label className="flex items-start gap-2 text-sm text-light-text dark:text-github-text cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.show_name}
+              onChange={(e) => setFormData({ ...formData, show_name: e.target.checked })}
+              className="mt-1"
+            />
+            <span>Show my name on the tip wall</span>
+          </label>
+        )}
+
+        {/* Cover the Fees */}
+        <label className="flex items-start gap-2 text-sm text-light-text dark:text-github-text cursor-pointer">
+          <input
+            type="checkbox"
+            checked={formData.cover_fees}
+            onChange={(e) => setFormData({ ...formData, cover_fees: e.target.checked })}
+            className="mt-1"
+          />
+          <span>
+            Cover the card fee{feeAmount > 0 && ` (${formatMoney(feeAmount, currency)})`} so the artist gets the whole tip
+          </span>
+        </label>
+
+        {/* Message */}
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
+            Message (Optional)
+          </label>
+          <textarea
+            placeholder="Write a message..."
+            value={formData.message}
+            onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+            maxLength={150}
+            rows={3}
+            className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-muted focus:outline-none focus:border-light-blue dark:focus:border-github-blue resize-none"
+          />
+          <p className="text-xs text-light-text-muted dark:text-github-text-muted mt-1">
+            {formData.message.length}/150 characters
+          </p>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white dark:text-github-text font-semibold rounded-lg transition-all duration-200"
+        >
+          {isSubmitting
+            ? 'Processing...'
+            : amountInMinorUnits > 0 ? `Send ${formatMoney(amountInMinorUnits + feeAmount, currency)}` : 'Send Tip'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import type { TipSettings } from '../../types/models';
+import { tipService } from '../../services/tipService';
+import { SUPPORTED_CURRENCIES, formatMoney, fromMinorUnits, toMinorUnits } from '../../lib/money';
+import type { CurrencyCode } from '../../lib/money';
+
+interface TipSettingsManagerProps {
+  profileId: string;
+  settings: TipSettings;
+  onSaved: (settings: TipSettings) => void;
+}
+
+const formatPresets = (presets: number[]) => presets.map(preset => fromMinorUnits(preset)).join(', ');
+
+export function TipSettingsManager({ profileId, settings, onSaved }: TipSettingsManagerProps) {
+  const [currency, setCurrency] = useState<CurrencyCode>(settings.currency);
+  const [presets, setPresets] = useState(formatPresets(settings.presets));
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const save = async (changes: Parameters<typeof tipService.updateTipSettings>[1]) => {
+    try {
+      setIsSaving(true);
+      setMessage(null);
+      const updated = await tipService.updateTipSettings(profileId, changes);
+      setCurrency(updated.currency);
+      setPresets(formatPresets(updated.presets));
+      setMessage({ type: 'success', text: 'Tip settings saved' });
+      onSaved(updated);
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save tip settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amounts = presets
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean)
+      .map(value => parseFloat(value));
+
+    if (amounts.length === 0 || amounts.some(amount => !amount || amount <= 0)) {
+      setMessage({ type: 'error', text: 'Enter the preset amounts separated by commas, e.g. 20, 50, 100' });
+      return;
+    }
+
+    // Presets typed for the old currency don't carry over to a new one
+    const currencyChanged = currency !== settings.currency;
+    const presetsChanged = presets !== formatPresets(settings.presets);
+
+    save({
+      ...(currencyChanged && { currency }),
+      ...((presetsChanged || !currencyChanged) && { presets: amounts.map(amount => toMinorUnits(amount)) })
+    });
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-secondary focus:outline-none focus:border-light-blue dark:focus:border-github-blue';
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 p-6 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg space-y-4">
+      <h3 className="font-semibold text-light-text dark:text-github-text">Tip Settings</h3>
+
+      {message && (
+        <div className={`p-3 rounded-lg flex items-center gap-2 text-sm ${
+          message.type === 'success'
+            ? 'bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 text-green-700 dark:text-green-300'
+            : 'bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300'
+        }`}>
+          {message.type === 'success' ? <CheckCircle size={18} /> : <AlertCircle size={18} />}
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Currency</label>
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+            className={inputClassName}
+          >
+            {SUPPORTED_CURRENCIES.map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">Preset amounts ({currency})</label>
+          <input
+            type="text"
+            value={presets}
+            onChange={(e) => setPresets(e.target.value)}
+            placeholder="e.g., 20, 50, 100"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-light-text-muted dark:text-github-text-muted">
+        Fans can tip between {formatMoney(settings.limits.min, settings.currency)} and {formatMoney(settings.limits.max, settings.currency)}.
+        The currency is also your payout currency and can't be changed once you've been paid.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="flex-1 px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white font-semibold rounded-lg transition-all"
+        >
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </button>
+        <button
+          type="button"
+          disabled={isSaving}
+          onClick={() => save({ presets: null })}
+          className="px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text dark:text-github-text rounded-lg transition-all"
+        >
+          Use Defaults
+        </button>
+      </div>
+    </form>
+  );
+}
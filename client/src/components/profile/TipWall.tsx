@@ -1,32 +1,39 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../../lib/supabase';
+import { DEFAULT_CURRENCY, formatMoney } from '../../lib/money';
+import type { CurrencyCode } from '../../lib/money';
+import { Eye, EyeOff, MonitorPlay, Pin, PinOff } from 'lucide-react';
+import type { Campaign, Tip, TipSettings } from '../../types/models';
+import { tipService } from '../../services/tipService';
+import { campaignService, isCampaignOpen } from '../../services/campaignService';
+import { TipSettingsManager } from './TipSettingsManager';
+import { CampaignManager } from './CampaignManager';
+import { CampaignProgress } from './CampaignProgress';
+import { TipForm } from './TipForm';
+import { QrCodeManager } from './QrCodeManager';
+import { useLiveTips } from '../../hooks/useLiveTips';
 
-interface Tip {
-  id: string;
-  profile_id: string;
-  donor_name: string;
-  amount: number;
-  message?: string;
-  created_at: string;
-  payment_status?: string;
+// What a scanned QR code preselects on the tip form
+export interface TipPreset {
+  amount?: number; // in minor units
+  eventId?: string;
 }
 
 interface TipWallProps {
   profileId: string;
+  profileName?: string;
+  currency?: CurrencyCode;
+  isOwner?: boolean;
+  preset?: TipPreset; // opens the tip form straight away
 }
 
-export function TipWall({ profileId }: TipWallProps) {
+export function TipWall({ profileId, profileName = '', currency: profileCurrency = DEFAULT_CURRENCY, isOwner = false, preset }: TipWallProps) {
   const [tips, setTips] = useState<Tip[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [showTipForm, setShowTipForm] = useState(false);
-  const [formData, setFormData] = useState({
-    donor_name: '',
-    donor_email: '',
-    amount: 5,
-    message: ''
-  });
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [showTipForm, setShowTipForm] = useState(!!preset);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<TipSettings | null>(null);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [moderationError, setModerationError] = useState<string | null>(null);
 
   // Fetch tips
   useEffect(() => {
@@ -34,17 +41,44 @@ export function TipWall({ profileId }: TipWallProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [profileId]);
 
+  // New tips appear without a reload. Owners refetch to get the moderation fields.
+  useLiveTips(profileId, {
+    onTip: (tip) => {
+      if (campaigns.some(isCampaignOpen)) loadCampaigns();
+      if (isOwner) {
+        loadTips();
+        return;
+      }
+      setTips(current => {
+        if (current.some(t => t.id === tip.id)) return current;
+        const pinnedCount = current.filter(t => t.pinned_at).length;
+        return [...current.slice(0, pinnedCount), tip, ...current.slice(pinnedCount)];
+      });
+    },
+    onRemove: (tipId) => {
+      if (!isOwner) setTips(current => current.filter(t => t.id !== tipId));
+    }
+  });
+
+  // Fetch the profile's preset amounts and limits
+  useEffect(() => {
+    tipService.getTipSettings(profileId)
+      .then(setSettings)
+      .catch(err => console.error('Error loading tip settings:', err));
+  }, [profileId]);
+
+  useEffect(() => {
+    loadCampaigns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profileId]);
+
+  const currency = settings?.currency || profileCurrency;
+  const openCampaigns = campaigns.filter(isCampaignOpen);
+
   const loadTips = async () => {
     try {
       setIsLoading(true);
-      const { data, error: err } = await supabase
-        .from('tips')
-        .select('*')
-        .eq('profile_id', profileId)
-        .order('created_at', { ascending: false });
-
-      if (err) throw err;
-      setTips(data || []);
+      setTips(await tipService.getProfileTips(profileId));
     } catch (err) {
       console.error('Error loading tips:', err);
     } finally {
@@ -52,194 +86,118 @@ export function TipWall({ profileId }: TipWallProps) {
     }
   };
 
-  const handleSubmitTip = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError(null);
-
-    if (!formData.donor_name.trim()) {
-      setError('Please enter your name');
-      return;
-    }
-
-    if (!formData.donor_email.trim()) {
-      setError('Please enter your email');
-      return;
+  const loadCampaigns = async () => {
+    try {
+      setCampaigns(await campaignService.getProfileCampaigns(profileId));
+    } catch (err) {
+      console.error('Error loading campaigns:', err);
     }
+  };
 
-    // Simple email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(formData.donor_email.trim())) {
-      setError('Please enter a valid email address');
-      return;
-    }
+  const handleCloseCampaign = async (campaign: Campaign) => {
+    if (!window.confirm(`End "${campaign.title}" now? Fans won't be able to tip towards it anymore.`)) return;
 
-    if (formData.amount < 1) {
-      setError('Tip amount must be at least $1');
-      return;
+    try {
+      setModerationError(null);
+      const closed = await campaignService.closeCampaign(profileId, campaign.id);
+      setCampaigns(current => current.map(c => (c.id === closed.id ? closed : c)));
+    } catch (err) {
+      setModerationError(err instanceof Error ? err.message : 'Failed to end campaign');
     }
+  };
 
+  const handleModerate = async (tip: Tip, changes: { hidden?: boolean; pinned?: boolean }) => {
     try {
-      setIsSubmitting(true);
-      
-      // Create a temporary tip record first (before payment)
-      const { data: tempTip, error: insertError } = await supabase
-        .from('tips')
-        .insert([
-          {
-            profile_id: profileId,
-            donor_name: formData.donor_name.trim(),
-            amount: formData.amount,
-            message: formData.message.trim() || null,
-            payment_status: 'pending'
-          }
-        ])
-        .select();
-
-      if (insertError) throw insertError;
-      if (!tempTip || tempTip.length === 0) throw new Error('Failed to create tip record');
-
-      const tipId = tempTip[0].id;
-
-      // Redirect to Stripe checkout
-      const response = await fetch('http://localhost:3000/api/checkout/create-session', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          priceId: formData.amount,
-          profileId: profileId,
-          email: formData.donor_email.trim(),
-          tipId: tipId,
-          tipAmount: Math.round(formData.amount * 100), // Convert to cents
-        }),
-      });
-
-      const data = await response.json();
-      if (data.url) {
-        // Redirect to Stripe checkout
-        window.location.href = data.url;
-      } else {
-        throw new Error('Failed to create checkout session');
-      }
+      setModerationError(null);
+      const updated = await tipService.moderateTip(profileId, tip.id, changes);
+      setTips(current => current.map(t => (t.id === updated.id ? updated : t)));
+      // Pinning changes the order, so fetch the wall again
+      if (changes.pinned !== undefined) loadTips();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process tip');
-      setIsSubmitting(false);
+      setModerationError(err instanceof Error ? err.message : 'Failed to update tip');
     }
   };
 
-  const tipAmounts = [1, 5, 10, 20, 50];
-
   return (
     <div className="mt-8 pt-8 border-t border-light-border dark:border-github-border">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-light-text dark:text-github-text">💰 Tip Wall</h2>
-        <button
-          onClick={() => setShowTipForm(!showTipForm)}
-          className="px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white dark:text-github-text font-semibold rounded-lg transition-all duration-200"
-        >
-          {showTipForm ? 'Cancel' : 'Send a Tip'}
-        </button>
+        <div className="flex gap-2">
+          {isOwner && (
+            <a
+              href={`/profile/${profileId}/stage`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text dark:text-github-text font-semibold rounded-lg transition-all duration-200 flex items-center gap-2"
+              title="Fullscreen tip alerts for a tablet or OBS"
+            >
+              <MonitorPlay size={18} />
+              Stage Mode
+            </a>
+          )}
+          {isOwner && settings && (
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text dark:text-github-text font-semibold rounded-lg transition-all duration-200"
+            >
+              {showSettings ? 'Close Settings' : 'Tip Settings'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowTipForm(!showTipForm)}
+            className="px-4 py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark text-white dark:text-github-text font-semibold rounded-lg transition-all duration-200"
+          >
+            {showTipForm ? 'Cancel' : 'Send a Tip'}
+          </button>
+        </div>
       </div>
 
-      {/* Tip Form */}
-      {showTipForm && (
-        <div className="mb-6 p-6 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg">
-          <form onSubmit={handleSubmitTip} className="space-y-4">
-            {/* Error Message */}
-            {error && (
-              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg text-sm">
-                {error}
-              </div>
-            )}
-
-            {/* Donor Name */}
-            <div>
-              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
-                Your Name
-              </label>
-              <input
-                type="text"
-                placeholder="Enter your name"
-                value={formData.donor_name}
-                onChange={(e) => setFormData({ ...formData, donor_name: e.target.value })}
-                className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-muted focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
-              />
-            </div>
-
-            {/* Donor Email */}
-            <div>
-              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
-                Your Email
-              </label>
-              <input
-                type="email"
-                placeholder="Enter your email"
-                value={formData.donor_email}
-                onChange={(e) => setFormData({ ...formData, donor_email: e.target.value })}
-                className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-muted focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
-              />
-            </div>
-
-            {/* Tip Amount */}
-            <div>
-              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
-                Tip Amount
-              </label>
-              <div className="grid grid-cols-5 gap-2 mb-3">
-                {tipAmounts.map((amount) => (
-                  <button
-                    key={amount}
-                    type="button"
-                    onClick={() => setFormData({ ...formData, amount })}
-                    className={`py-2 rounded-lg font-semibold transition-all duration-200 ${
-                      formData.amount === amount
-                        ? 'bg-light-blue dark:bg-github-blue text-white dark:text-github-text border border-light-blue dark:border-github-blue'
-                        : 'bg-light-card dark:bg-github-card border border-light-border dark:border-github-border text-light-text-secondary dark:text-github-text-secondary hover:border-light-blue dark:hover:border-github-blue'
-                    }`}
-                  >
-                    ${amount}
-                  </button>
-                ))}
-              </div>
-              <input
-                type="number"
-                min="1"
-                step="0.01"
-                value={formData.amount}
-                onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
-                className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text focus:outline-none focus:border-light-blue dark:focus:border-github-blue"
-              />
-            </div>
+      {/* Owner Settings */}
+      {showSettings && settings && (
+        <>
+          <TipSettingsManager profileId={profileId} settings={settings} onSaved={setSettings} />
+          <CampaignManager
+            profileId={profileId}
+            currency={currency}
+            onCreated={loadCampaigns}
+          />
+          <QrCodeManager profileId={profileId} profileName={profileName} currency={currency} />
+        </>
+      )}
 
-            {/* Message */}
-            <div>
-              <label className="block text-sm font-medium text-light-text dark:text-github-text mb-2">
-                Message (Optional)
-              </label>
-              <textarea
-                placeholder="Write a message..."
-                value={formData.message}
-                onChange={(e) => setFormData({ ...formData, message: e.target.value })}
-                maxLength={150}
-                rows={3}
-                className="w-full px-4 py-2 bg-light-card dark:bg-github-card border border-light-border dark:border-github-border rounded-lg text-light-text dark:text-github-text placeholder-light-text-muted dark:placeholder-github-text-muted focus:outline-none focus:border-light-blue dark:focus:border-github-blue resize-none"
-              />
-              <p className="text-xs text-light-text-muted dark:text-github-text-muted mt-1">
-                {formData.message.length}/150 characters
-              </p>
-            </div>
+      {/* Campaigns */}
+      {campaigns.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+          {campaigns.map(campaign => (
+            <CampaignProgress
+              key={campaign.id}
+              campaign={campaign}
+              onClose={isOwner ? handleCloseCampaign : undefined}
+            />
+          ))}
+        </div>
+      )}
 
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="w-full py-2 bg-light-blue dark:bg-github-blue hover:bg-light-blue-dark dark:hover:bg-github-blue-dark disabled:opacity-50 text-white dark:text-github-text font-semibold rounded-lg transition-all duration-200"
-            >
-              {isSubmitting ? 'Processing...' : 'Send Tip'}
-            </button>
-          </form>
+      {/* Tip Form */}
+      {showTipForm && (
+        <div className="mb-6">
+          <TipForm
+            profileId={profileId}
+            settings={settings}
+            currency={currency}
+            campaigns={openCampaigns}
+            eventId={preset?.eventId}
+            initialAmount={preset?.amount}
+          />
         </div>
       )}
 
       {/* Tips Display */}
+      {moderationError && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-700 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          {moderationError}
+        </div>
+      )}
       {isLoading ? (
         <div className="text-center py-8 text-github-text-secondary">Loading tips...</div>
       ) : tips.length === 0 ? (
@@ -251,23 +209,52 @@ export function TipWall({ profileId }: TipWallProps) {
           {tips.map((tip) => (
             <div
               key={tip.id}
-              className="p-4 bg-light-bg dark:bg-github-bg border border-light-border dark:border-github-border rounded-lg hover:border-light-blue dark:hover:border-github-blue transition-all duration-200 transform hover:scale-105"
+              className={`p-4 bg-light-bg dark:bg-github-bg border rounded-lg hover:border-light-blue dark:hover:border-github-blue transition-all duration-200 transform hover:scale-105 ${
+                tip.pinned_at ? 'border-light-blue dark:border-github-blue' : 'border-light-border dark:border-github-border'
+              } ${tip.is_hidden ? 'opacity-50' : ''}`}
             >
               <div className="flex items-start justify-between mb-2">
                 <div>
-                  <p className="font-bold text-light-text dark:text-github-text text-sm">{tip.donor_name}</p>
+                  <p className="font-bold text-light-text dark:text-github-text text-sm">
+                    {tip.donor_name || 'Anonymous'}
+                    {/* Owners see names the donor kept off the public wall */}
+                    {tip.show_name === false && tip.donor_name && (
+                      <span className="ml-1 font-normal text-xs text-light-text-muted dark:text-github-text-muted">(shown as Anonymous)</span>
+                    )}
+                  </p>
                   <p className="text-xs text-light-text-muted dark:text-github-text-muted">
-                    ${tip.amount.toFixed(2)}
+                    {formatMoney(tip.amount, tip.currency)}
                   </p>
                 </div>
-                <span className="text-lg">💝</span>
+                <span className="text-lg">{tip.pinned_at ? '📌' : '💝'}</span>
               </div>
               {tip.message && (
                 <p className="text-xs text-light-text-secondary dark:text-github-text-secondary italic">"{tip.message}"</p>
               )}
-              <p className="text-xs text-light-text-muted dark:text-github-text-muted mt-2">
-                {new Date(tip.created_at).toLocaleDateString()}
-              </p>
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-xs text-light-text-muted dark:text-github-text-muted">
+                  {new Date(tip.created_at).toLocaleDateString()}
+                  {tip.is_hidden && ' · hidden'}
+                </p>
+                {tip.is_hidden !== undefined && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => handleModerate(tip, { pinned: !tip.pinned_at })}
+                      className="p-1 rounded text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue"
+                      title={tip.pinned_at ? 'Unpin' : 'Pin to the top'}
+                    >
+                      {tip.pinned_at ? <PinOff size={14} /> : <Pin size={14} />}
+                    </button>
+                    <button
+                      onClick={() => handleModerate(tip, { hidden: !tip.is_hidden })}
+                      className="p-1 rounded text-light-text-secondary dark:text-github-text-secondary hover:text-light-blue dark:hover:text-github-blue"
+                      title={tip.is_hidden ? 'Show on the tip wall' : 'Hide from the tip wall'}
+                    >
+                      {tip.is_hidden ? <Eye size={14} /> : <EyeOff size={14} />}
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
           ))}
         </div>
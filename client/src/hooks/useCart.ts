@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export interface CartLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+// A cart line is one product, or one variant of a product
+export type CartLineKey = Pick<CartLine, 'productId' | 'variantId'>;
+
+const cartKey = (profileId: string) => `gobusker-cart-${profileId}`;
+
+const isSameLine = (line: CartLine, key: CartLineKey) =>
+  line.productId === key.productId && (line.variantId || null) === (key.variantId || null);
+
+function loadCart(profileId: string): CartLine[] {
+  try {
+    const saved = localStorage.getItem(cartKey(profileId));
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Empty a profile's cart outside the shop, e.g. once its checkout has been paid
+export function clearCart(profileId: string) {
+  localStorage.removeItem(cartKey(profileId));
+}
+
+// Each profile's shop has its own cart, kept in localStorage across visits
+export function useCart(profileId: string | undefined) {
+  const [lines, setLines] = useState<CartLine[]>(() => (profileId ? loadCart(profileId) : []));
+
+  useEffect(() => {
+    setLines(profileId ? loadCart(profileId) : []);
+  }, [profileId]);
+
+  const save = useCallback((next: CartLine[]) => {
+    setLines(next);
+    if (!profileId) return;
+    if (next.length === 0) {
+      localStorage.removeItem(cartKey(profileId));
+    } else {
+      localStorage.setItem(cartKey(profileId), JSON.stringify(next));
+    }
+  }, [profileId]);
+
+  const getQuantity = useCallback((key: CartLineKey) => {
+    return lines.find(line => isSameLine(line, key))?.quantity || 0;
+  }, [lines]);
+
+  const setQuantity = useCallback((key: CartLineKey, quantity: number) => {
+    if (quantity <= 0) {
+      save(lines.filter(line => !isSameLine(line, key)));
+    } else if (lines.some(line => isSameLine(line, key))) {
+      save(lines.map(line => isSameLine(line, key) ? { ...line, quantity } : line));
+    } else {
+      save([...lines, { ...key, quantity }]);
+    }
+  }, [lines, save]);
+
+  const addItem = useCallback((key: CartLineKey, quantity: number = 1) => {
+    setQuantity(key, getQuantity(key) + quantity);
+  }, [getQuantity, setQuantity]);
+
+  const removeItem = useCallback((key: CartLineKey) => {
+    save(lines.filter(line => !isSameLine(line, key)));
+  }, [lines, save]);
+
+  const clear = useCallback(() => save([]), [save]);
+
+  return { lines, getQuantity, addItem, setQuantity, removeItem, clear };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/useAuth';
+import { adminService } from '../services/adminService';
+
+// Whether the signed-in user is a platform admin. `loading` stays true until
+// both the session and the role are known.
+export function useIsAdmin() {
+  const { user, loading: authLoading } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [checkedUserId, setCheckedUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    adminService.isAdmin()
+      .catch(() => false)
+      .then(admin => {
+        if (cancelled) return;
+        setIsAdmin(admin);
+        setCheckedUserId(user.id);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return {
+    isAdmin: !!user && checkedUserId === user.id && isAdmin,
+    loading: authLoading || (!!user && checkedUserId !== user.id)
+  };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Tip } from '../types/models';
+
+interface TipAlertRow {
+  tip_id: string;
+  profile_id: string;
+  donor_name: string | null;
+  amount: number; // in minor units
+  currency: string;
+  message: string | null;
+  created_at: string;
+}
+
+interface LiveTipHandlers {
+  onTip: (tip: Tip) => void;
+  onRemove?: (tipId: string) => void; // the tip was hidden or refunded
+}
+
+// Subscribe to a profile's tips as they're completed. Completed tips are
+// published to tip_alerts, since the tips table itself isn't public.
+export function useLiveTips(profileId: string | undefined, handlers: LiveTipHandlers) {
+  // Keep the latest handlers without resubscribing on every render
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    const channel = supabase
+      .channel(`tip-alerts-${profileId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'tip_alerts', filter: `profile_id=eq.${profileId}` },
+        (payload) => {
+          const alert = payload.new as TipAlertRow;
+          handlersRef.current.onTip({
+            id: alert.tip_id,
+            profile_id: alert.profile_id,
+            donor_name: alert.donor_name,
+            amount: alert.amount,
+            currency: alert.currency,
+            message: alert.message,
+            pinned_at: null,
+            created_at: alert.created_at
+          });
+        }
+      )
+      // Deletes can't be filtered by profile, they only carry the tip id
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'tip_alerts' },
+        (payload) => {
+          const tipId = (payload.old as Partial<TipAlertRow>).tip_id;
+          if (tipId) handlersRef.current.onRemove?.(tipId);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profileId]);
+}
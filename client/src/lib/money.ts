@@ -0,0 +1,24 @@
+// Amounts are integers in the currency's minor unit (öre, cents),
+// always paired with an ISO 4217 currency code. Mirrors server/src/lib/money.ts.
+
+export const SUPPORTED_CURRENCIES = ['SEK', 'NOK', 'DKK', 'EUR', 'USD'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'SEK';
+
+export interface Money {
+  amount: number; // integer, in minor units
+  currency: CurrencyCode;
+}
+
+export const toMinorUnits = (majorAmount: number): number => Math.round(majorAmount * 100);
+
+export const fromMinorUnits = (minorAmount: number): number => minorAmount / 100;
+
+export const formatMoney = (minorAmount: number, currency: string = DEFAULT_CURRENCY): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(fromMinorUnits(minorAmount));
+};
@@ -0,0 +1,71 @@
+import { supabase } from '../lib/supabase';
+import type { AuditAction, AuditEvent } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api/admin';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction;
+  actor?: string; // part of the actor's email
+  targetId?: string;
+  from?: string; // ISO dates
+  to?: string;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+function auditQuery(filters: AuditEventFilters, page?: number): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  if (page) params.set('page', String(page));
+  return params.toString();
+}
+
+export const adminService = {
+  // Whether the current user is a platform admin. Only decides which pages
+  // are shown; the server checks the role on every admin request.
+  async isAdmin(): Promise<boolean> {
+    const response = await fetch(`${API_URL}/me`, {
+      headers: await authHeaders()
+    });
+    const { isAdmin } = await parseResponse<{ isAdmin: boolean }>(response);
+    return isAdmin;
+  },
+
+  async getAuditEvents(filters: AuditEventFilters, page: number): Promise<AuditEventPage> {
+    const response = await fetch(`${API_URL}/audit-events?${auditQuery(filters, page)}`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<AuditEventPage>(response);
+  },
+
+  // The matching events as a CSV file
+  async exportAuditEvents(filters: AuditEventFilters): Promise<Blob> {
+    const response = await fetch(`${API_URL}/audit-events/export?${auditQuery(filters)}`, {
+      headers: await authHeaders()
+    });
+    if (!response.ok) {
+      await parseResponse(response);
+    }
+    return response.blob();
+  }
+};
@@ -0,0 +1,67 @@
+import { supabase } from '../lib/supabase';
+import type { Campaign } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+export interface CampaignInput {
+  title: string;
+  description?: string | null;
+  targetAmount: number; // in minor units
+  deadline: string;
+}
+
+/**
+ * Whether fans can still put tips towards a campaign. A campaign past its
+ * deadline may not have been closed by the server yet.
+ */
+export const isCampaignOpen = (campaign: Campaign): boolean =>
+  campaign.status === 'active' && new Date(campaign.deadline) > new Date();
+
+export const campaignService = {
+  // Active campaigns and those that closed in the last 30 days
+  async getProfileCampaigns(profileId: string): Promise<Campaign[]> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/campaigns`);
+    return parseResponse<Campaign[]>(response);
+  },
+
+  async createCampaign(profileId: string, input: CampaignInput): Promise<Campaign> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/campaigns`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(input)
+    });
+    return parseResponse<Campaign>(response);
+  },
+
+  async updateCampaign(profileId: string, campaignId: string, changes: Partial<CampaignInput>): Promise<Campaign> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/campaigns/${campaignId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(changes)
+    });
+    return parseResponse<Campaign>(response);
+  },
+
+  // Ends the campaign before its deadline and freezes its total
+  async closeCampaign(profileId: string, campaignId: string): Promise<Campaign> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/campaigns/${campaignId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ status: 'closed' })
+    });
+    return parseResponse<Campaign>(response);
+  }
+};
@@ -0,0 +1,57 @@
+import { supabase } from '../lib/supabase';
+
+const API_URL = 'http://localhost:3000/api/connect';
+
+export type ConnectStatus = 'not_connected' | 'pending' | 'restricted' | 'connected';
+
+export interface ConnectAccount {
+  accountId: string | null;
+  status: ConnectStatus;
+}
+
+async function authorizedFetch(path: string, init: RequestInit = {}) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+      ...init.headers
+    }
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+
+  return data;
+}
+
+export const connectService = {
+  // The current user's payout account for one of their profiles
+  async getStatus(profileId: string): Promise<ConnectAccount> {
+    return authorizedFetch(`/status/${profileId}`);
+  },
+
+  // Returns a Stripe-hosted onboarding URL to redirect the user to
+  async createOnboardingLink(profileId: string, country?: string): Promise<string> {
+    const { url } = await authorizedFetch('/onboarding-link', {
+      method: 'POST',
+      body: JSON.stringify({ profileId, country })
+    });
+    return url;
+  },
+
+  async createDashboardLink(profileId: string): Promise<string> {
+    const { url } = await authorizedFetch('/dashboard-link', {
+      method: 'POST',
+      body: JSON.stringify({ profileId })
+    });
+    return url;
+  }
+};
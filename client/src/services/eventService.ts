@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { Event } from '../types/models';
+import type { Event, EventPerformer } from '../types/models';
 
 export const eventService = {
   async createEvent(event: Omit<Event, 'id' | 'created_at' | 'updated_at'>) {
@@ -336,30 +336,47 @@ export const eventService = {
     if (error) throw error;
   },
 
-  async getAcceptedPerformers(eventId: string) {
-    const { data, error } = await supabase
-      .from('event_requests')
-      .select(`
-        *,
-        requester_profile:profiles!requester_profile_id(
-          id,
-          name,
-          avatar_url,
-          role,
-          bio
-        )
-      `)
-      .eq('event_id', eventId)
-      .eq('status', 'accepted');
+  // Everyone performing at an event: accepted requests and invites, and the
+  // host of a solo performance. These are the acts fans can tip at the event.
+  async getAcceptedPerformers(eventId: string): Promise<EventPerformer[]> {
+    const performerFields = 'id, name, avatar_url, role, bio';
 
-    if (error) throw error;
-    return data;
+    const [{ data: event, error: eventError }, { data: requests, error: requestsError }, { data: invites, error: invitesError }] = await Promise.all([
+      supabase
+        .from('events')
+        .select(`event_type, profile:profiles(${performerFields})`)
+        .eq('id', eventId)
+        .single(),
+      supabase
+        .from('event_requests')
+        .select(`requester_profile:profiles!requester_profile_id(${performerFields})`)
+        .eq('event_id', eventId)
+        .eq('status', 'accepted'),
+      supabase
+        .from('event_invites')
+        .select(`invited_profile:profiles!invited_profile_id(${performerFields})`)
+        .eq('event_id', eventId)
+        .eq('status', 'accepted')
+    ]);
+
+    if (eventError) throw eventError;
+    if (requestsError) throw requestsError;
+    if (invitesError) throw invitesError;
+
+    const performers = [
+      ...(event.event_type === 'solo_performance' ? [event.profile] : []),
+      ...(requests || []).map(request => request.requester_profile),
+      ...(invites || []).map(invite => invite.invited_profile)
+    ].flat().filter(Boolean) as EventPerformer[];
+
+    // A profile can be both invited and accepted through a request
+    return performers.filter((performer, index) => performers.findIndex(p => p.id === performer.id) === index);
   },
 
   async hasUserRequestedEvent(eventId: string, profileId: string) {
     const { data, error } = await supabase
       .from('event_requests')
-      .select('id, status')
+      .select('id, status, organizer_share_percent')
       .eq('event_id', eventId)
       .eq('requester_profile_id', profileId)
       .maybeSingle();
@@ -463,7 +480,7 @@ export const eventService = {
   async hasUserBeenInvited(eventId: string, profileId: string) {
     const { data, error } = await supabase
       .from('event_invites')
-      .select('id, status')
+      .select('id, status, organizer_share_percent')
       .eq('event_id', eventId)
       .eq('invited_profile_id', profileId)
       .maybeSingle();
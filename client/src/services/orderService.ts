@@ -0,0 +1,54 @@
+import { supabase } from '../lib/supabase';
+import type { FulfilmentStatus, Order, PickupEvent } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api';
+
+export interface FulfilmentUpdate {
+  status: FulfilmentStatus;
+  trackingCarrier?: string;
+  trackingNumber?: string;
+}
+
+// Each visit counts towards the download limit, so only link it for a click
+export function getDownloadUrl(token: string): string {
+  return `${API_URL}/downloads/${token}`;
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+export const orderService = {
+  // Upcoming events where fans can pick up the profile's merch
+  async getPickupEvents(profileId: string): Promise<PickupEvent[]> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/pickup-events`);
+    return parseResponse<PickupEvent[]>(response);
+  },
+
+  // Orders placed with a profile's shop, for its members
+  async getProfileOrders(profileId: string, status?: FulfilmentStatus): Promise<Order[]> {
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`${API_URL}/profiles/${profileId}/orders${query}`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<Order[]>(response);
+  },
+
+  async updateFulfilment(profileId: string, orderId: string, update: FulfilmentUpdate): Promise<Order> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/orders/${orderId}/fulfilment`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(update)
+    });
+    return parseResponse<Order>(response);
+  }
+};
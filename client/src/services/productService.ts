@@ -0,0 +1,123 @@
+import { supabase } from '../lib/supabase';
+import type { Product, ProductType, ProductVariant } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api';
+
+export interface ProductVariantInput {
+  id?: string;
+  size?: string;
+  color?: string;
+  stock: number;
+}
+
+export interface ProductInput {
+  type?: ProductType; // set on create only
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  price: number; // in minor units
+  stock: number;
+  lowStockThreshold?: number;
+  variants?: ProductVariantInput[]; // replaces the product's variants
+  filePath?: string; // digital products, from uploadProductFile
+  fileName?: string;
+  downloadLimit?: number;
+}
+
+// e.g. "M / Black"
+export function getVariantLabel(variant: Pick<ProductVariant, 'size' | 'color'>): string {
+  return [variant.size, variant.color].filter(Boolean).join(' / ');
+}
+
+// What a fan can buy: the sum of the variants' stock when there are variants.
+// Digital products never run out.
+export function getAvailableStock(product: Product): number {
+  if (product.type === 'digital') return Infinity;
+
+  return product.variants.length > 0
+    ? product.variants.reduce((sum, variant) => sum + variant.stock, 0)
+    : product.stock;
+}
+
+export function isLowStock(product: Product): boolean {
+  const stock = getAvailableStock(product);
+  return stock > 0 && stock <= product.low_stock_threshold;
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+export const productService = {
+  // Owners and admins also get archived products
+  async getProfileProducts(profileId: string): Promise<Product[]> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/products`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<Product[]>(response);
+  },
+
+  async createProduct(profileId: string, input: ProductInput): Promise<Product> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/products`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(input)
+    });
+    return parseResponse<Product>(response);
+  },
+
+  async updateProduct(profileId: string, productId: string, changes: Partial<ProductInput> & { status?: Product['status'] }): Promise<Product> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/products/${productId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(changes)
+    });
+    return parseResponse<Product>(response);
+  },
+
+  async uploadProductImage(file: File, profileId: string): Promise<string> {
+    const fileExt = file.name.split('.').pop();
+    // Stored under the profile's folder so storage policies can check membership
+    const filePath = `${profileId}/${crypto.randomUUID()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('product-images')
+      .upload(filePath, file);
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('product-images')
+      .getPublicUrl(filePath);
+
+    return publicUrl;
+  },
+
+  // Files for digital products go to a private bucket; fans only get them
+  // through the download links sent after payment
+  async uploadProductFile(file: File, profileId: string): Promise<string> {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${profileId}/${crypto.randomUUID()}.${fileExt}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('product-files')
+      .upload(filePath, file);
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    return filePath;
+  }
+};
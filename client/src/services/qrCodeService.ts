@@ -0,0 +1,60 @@
+import { supabase } from '../lib/supabase';
+import type { QrCode } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+export interface QrCodeInput {
+  label?: string | null;
+  eventId?: string | null; // preselected on the tip form
+  amount?: number | null; // in minor units, preselected on the tip form
+}
+
+export const qrCodeService = {
+  // With scan counts, newest first (members only)
+  async getProfileQrCodes(profileId: string): Promise<QrCode[]> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/qr-codes`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<QrCode[]>(response);
+  },
+
+  async createQrCode(profileId: string, input: QrCodeInput): Promise<QrCode> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/qr-codes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(input)
+    });
+    return parseResponse<QrCode>(response);
+  },
+
+  // Printed copies of the code pick up the change
+  async updateQrCode(profileId: string, codeId: string, changes: QrCodeInput): Promise<QrCode> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/qr-codes/${codeId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(changes)
+    });
+    return parseResponse<QrCode>(response);
+  },
+
+  async deleteQrCode(profileId: string, codeId: string): Promise<void> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/qr-codes/${codeId}`, {
+      method: 'DELETE',
+      headers: await authHeaders()
+    });
+    await parseResponse<{ message: string }>(response);
+  }
+};
@@ -0,0 +1,88 @@
+import { supabase } from '../lib/supabase';
+import type { PatronSubscription, SubscriptionTier } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api';
+
+export interface TierInput {
+  name: string;
+  perks?: string;
+  price: number; // per month, in minor units
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+export const subscriptionService = {
+  // Owners and admins also get archived tiers
+  async getProfileTiers(profileId: string): Promise<SubscriptionTier[]> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/tiers`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<SubscriptionTier[]>(response);
+  },
+
+  async createTier(profileId: string, input: TierInput): Promise<SubscriptionTier> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/tiers`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(input)
+    });
+    return parseResponse<SubscriptionTier>(response);
+  },
+
+  async updateTier(profileId: string, tierId: string, changes: Partial<TierInput> & { status?: SubscriptionTier['status'] }): Promise<SubscriptionTier> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/tiers/${tierId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(changes)
+    });
+    return parseResponse<SubscriptionTier>(response);
+  },
+
+  // A profile's current patrons, for its members
+  async getProfilePatrons(profileId: string): Promise<PatronSubscription[]> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/patrons`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<PatronSubscription[]>(response);
+  },
+
+  // The subscriptions the current user has taken out
+  async getMySubscriptions(): Promise<PatronSubscription[]> {
+    const response = await fetch(`${API_URL}/subscriptions`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<PatronSubscription[]>(response);
+  },
+
+  // Returns the Stripe Checkout URL to redirect to
+  async startSubscription(profileId: string, tierId: string): Promise<string> {
+    const response = await fetch(`${API_URL}/checkout/create-subscription-session`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ profileId, tierId })
+    });
+    const { url } = await parseResponse<{ url: string }>(response);
+    return url;
+  },
+
+  // Returns the Stripe customer portal URL, where fans cancel or change their card
+  async openPortal(): Promise<string> {
+    const response = await fetch(`${API_URL}/subscriptions/portal`, {
+      method: 'POST',
+      headers: await authHeaders()
+    });
+    const { url } = await parseResponse<{ url: string }>(response);
+    return url;
+  }
+};
@@ -0,0 +1,84 @@
+import { supabase } from '../lib/supabase';
+import type { CurrencyCode } from '../lib/money';
+import type { EventTipReport, ProfileEventEarnings, Tip, TipReceipt, TipSettings } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+/**
+ * The fee added on top of a tip when the fan covers it. Mirrors the server's
+ * calculation; the server decides what's actually charged.
+ */
+export const calculateCoverFee = (tipAmount: number, fee: TipSettings['fee']): number => {
+  const gross = Math.ceil((tipAmount + fee.fixed) / (1 - fee.percent / 100));
+  return gross - tipAmount;
+};
+
+export const tipService = {
+  async getTipSettings(profileId: string): Promise<TipSettings> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/tip-settings`);
+    return parseResponse<TipSettings>(response);
+  },
+
+  // `presets: null` restores the defaults for the currency
+  async updateTipSettings(profileId: string, changes: { presets?: number[] | null; currency?: CurrencyCode }): Promise<TipSettings> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/tip-settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(changes)
+    });
+    return parseResponse<TipSettings>(response);
+  },
+
+  // Owners and admins also get hidden tips. `since` limits it to tips from then on.
+  async getProfileTips(profileId: string, since?: string): Promise<Tip[]> {
+    const query = since ? `?${new URLSearchParams({ since })}` : '';
+    const response = await fetch(`${API_URL}/profiles/${profileId}/tips${query}`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<Tip[]>(response);
+  },
+
+  async moderateTip(profileId: string, tipId: string, changes: { hidden?: boolean; pinned?: boolean }): Promise<Tip> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/tips/${tipId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(changes)
+    });
+    return parseResponse<Tip>(response);
+  },
+
+  // The event maker gets every performer, performers only their own earnings
+  async getEventTipReport(eventId: string): Promise<EventTipReport> {
+    const response = await fetch(`${API_URL}/events/${eventId}/tip-report`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<EventTipReport>(response);
+  },
+
+  async getProfileEventEarnings(profileId: string): Promise<ProfileEventEarnings[]> {
+    const response = await fetch(`${API_URL}/profiles/${profileId}/event-earnings`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<ProfileEventEarnings[]>(response);
+  },
+
+  // No login needed, the signature proves the link came from us
+  async getReceipt(sessionId: string, signature: string): Promise<TipReceipt> {
+    const params = new URLSearchParams({ sig: signature });
+    const response = await fetch(`${API_URL}/tips/receipt/${encodeURIComponent(sessionId)}?${params}`);
+    return parseResponse<TipReceipt>(response);
+  }
+};
@@ -0,0 +1,135 @@
+import { supabase } from '../lib/supabase';
+import type { PayoutFrequency, PayoutSchedule, Withdrawal } from '../types/models';
+
+const API_URL = 'http://localhost:3000/api/withdrawals';
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {};
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+export interface WithdrawalApproval {
+  withdrawal: Withdrawal;
+  newSaldo: { amount: number; currency: string };
+  payout: { success: boolean; payoutId?: string; error?: string };
+}
+
+export interface AutoApproveLimit {
+  amount: number; // in minor units
+  currency: string;
+}
+
+export const withdrawalService = {
+  // Newest first (the profile owner only)
+  async getProfileWithdrawals(profileId: string): Promise<Withdrawal[]> {
+    const response = await fetch(`${API_URL}/${profileId}`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<Withdrawal[]>(response);
+  },
+
+  // `amount` is in minor units of the profile's payout currency
+  async requestWithdrawal(profileId: string, amount: number, currency: string): Promise<Withdrawal> {
+    const response = await fetch(`${API_URL}/request`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ profileId, amount, currency })
+    });
+    const { withdrawal } = await parseResponse<{ withdrawal: Withdrawal }>(response);
+    return withdrawal;
+  },
+
+  // Pending withdrawals only, releasing their hold
+  async cancelWithdrawal(withdrawalId: string): Promise<void> {
+    const response = await fetch(`${API_URL}/${withdrawalId}/cancel`, {
+      method: 'PATCH',
+      headers: await authHeaders()
+    });
+    await parseResponse(response);
+  },
+
+  // The current user's payout schedule, or null
+  async getSchedule(): Promise<PayoutSchedule | null> {
+    const response = await fetch(`${API_URL}/schedule`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<PayoutSchedule | null>(response);
+  },
+
+  // `minimumAmount` is in minor units of the profile's payout currency
+  async saveSchedule(profileId: string, frequency: PayoutFrequency, minimumAmount: number): Promise<PayoutSchedule> {
+    const response = await fetch(`${API_URL}/schedule`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ profileId, frequency, minimumAmount })
+    });
+    return parseResponse<PayoutSchedule>(response);
+  },
+
+  async deleteSchedule(): Promise<void> {
+    const response = await fetch(`${API_URL}/schedule`, {
+      method: 'DELETE',
+      headers: await authHeaders()
+    });
+    await parseResponse(response);
+  },
+
+  // Platform admins only
+  async getAllWithdrawals(): Promise<Withdrawal[]> {
+    const response = await fetch(`${API_URL}/admin/all`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<Withdrawal[]>(response);
+  },
+
+  async approveWithdrawal(withdrawalId: string, notes: string | null): Promise<WithdrawalApproval> {
+    const response = await fetch(`${API_URL}/${withdrawalId}/approve`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ notes })
+    });
+    return parseResponse<WithdrawalApproval>(response);
+  },
+
+  async rejectWithdrawal(withdrawalId: string, notes: string | null): Promise<void> {
+    const response = await fetch(`${API_URL}/${withdrawalId}/reject`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ notes })
+    });
+    await parseResponse(response);
+  },
+
+  async markCompleted(withdrawalId: string): Promise<void> {
+    const response = await fetch(`${API_URL}/${withdrawalId}/mark-completed`, {
+      method: 'PATCH',
+      headers: await authHeaders()
+    });
+    await parseResponse(response);
+  },
+
+  async getAutoApproveLimits(): Promise<AutoApproveLimit[]> {
+    const response = await fetch(`${API_URL}/admin/auto-approve-limits`, {
+      headers: await authHeaders()
+    });
+    return parseResponse<AutoApproveLimit[]>(response);
+  },
+
+  // `amount` in minor units, or null to stop auto-approving in that currency
+  async setAutoApproveLimit(currency: string, amount: number | null): Promise<AutoApproveLimit[]> {
+    const response = await fetch(`${API_URL}/admin/auto-approve-limits`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ currency, amount })
+    });
+    return parseResponse<AutoApproveLimit[]>(response);
+  }
+};
@@ -1,3 +1,5 @@
+import type { CurrencyCode } from '../lib/money';
+
 export interface Profile {
   id: string;
   user_id?: string;
@@ -32,7 +34,9 @@ export interface Profile {
   location?: string;
 
   // Financial
-  saldo?: number; // Accumulated balance from tips and sales
+  saldo?: number; // Deprecated: balances are read from wallet_balances
+  payout_currency?: CurrencyCode; // Tips are charged and paid out in this currency
+  tip_presets?: number[] | null; // Tip wall amounts in minor units; null means the defaults
 
   // Metadata
   created_at?: string;
@@ -86,6 +90,7 @@ export interface Event {
   max_performers?: number; // For open_mic/venue_booking: how many slots available
   accepting_requests?: boolean; // Whether the event is accepting performer requests
   accepted_requests_count?: number; // Count of accepted performer requests
+  organizer_share_percent?: number; // For venue_booking: % of performers' event tips kept by the event maker
   
   profile?: Profile;
   created_at: string;
@@ -99,12 +104,22 @@ export interface EventRequest {
   requester_profile_id: string;
   status: 'pending' | 'accepted' | 'rejected';
   message?: string; // Optional message from the requester
+  organizer_share_percent?: number; // Event maker's % of the performer's event tips, fixed when the request was made
   requester_profile?: Profile;
   event?: Event;
   created_at: string;
   updated_at: string;
 }
 
+// A profile performing at an event, who can be tipped from the event page
+export interface EventPerformer {
+  id: string;
+  name: string;
+  avatar_url?: string;
+  role?: string;
+  bio?: string;
+}
+
 // Event owner invites a performer to join their event
 export interface EventInvite {
   id: string;
@@ -113,9 +128,304 @@ export interface EventInvite {
   inviter_profile_id: string;
   status: 'pending' | 'accepted' | 'rejected';
   message?: string; // Optional message from the inviter
+  organizer_share_percent?: number; // Event maker's % of the performer's event tips, fixed when the invite was made
   invited_profile?: Profile;
   inviter_profile?: Profile;
   event?: Event;
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+// Merch sold in a profile's shop
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  size: string | null;
+  color: string | null;
+  stock: number;
+  low_stock_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductType = 'physical' | 'digital';
+
+export interface Product {
+  id: string;
+  profile_id: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  type: ProductType;
+  price: number; // in minor units
+  currency: CurrencyCode;
+  stock: number; // used when the product has no variants
+  file_path: string | null; // digital products, in the private product-files bucket
+  file_name: string | null;
+  download_limit: number;
+  low_stock_threshold: number;
+  low_stock_notified_at: string | null;
+  status: 'active' | 'archived';
+  stripe_product_id: string | null;
+  stripe_price_id: string | null;
+  created_at: string;
+  updated_at: string;
+  variants: ProductVariant[];
+}
+
+export type FulfilmentMethod = 'shipping' | 'pickup' | 'digital';
+
+export type FulfilmentStatus = 'paid' | 'packed' | 'shipped' | 'picked_up' | 'delivered';
+
+export interface OrderItem {
+  id: string;
+  name: string;
+  quantity: number;
+  price: number; // per unit, in minor units
+  product_id?: string | null;
+  variant_id?: string | null;
+}
+
+export interface ShippingAddress {
+  line1: string | null;
+  line2: string | null;
+  postal_code: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+}
+
+export interface PickupEvent {
+  id: string;
+  title: string;
+  place_name: string | null;
+  start_time: string;
+  end_time?: string;
+}
+
+// A fan's download of a digital product they bought
+export interface OrderDownload {
+  id: string;
+  order_id: string;
+  product_id: string;
+  token: string;
+  download_count: number;
+  download_limit: number;
+  expires_at: string;
+  last_downloaded_at: string | null;
+}
+
+export interface Order {
+  id: string;
+  profile_id: string;
+  stripe_session_id: string;
+  customer_email: string;
+  customer_name?: string;
+  total_amount: number; // in minor units
+  currency: CurrencyCode;
+  payment_status: string;
+  items: OrderItem[];
+  fulfilment_method: FulfilmentMethod;
+  fulfilment_status: FulfilmentStatus;
+  pickup_event_id: string | null;
+  pickup_event?: PickupEvent | null;
+  shipping_name: string | null;
+  shipping_address: ShippingAddress | null;
+  tracking_carrier: string | null;
+  tracking_number: string | null;
+  packed_at: string | null;
+  shipped_at: string | null;
+  picked_up_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  downloads?: OrderDownload[];
+}
+
+// Monthly support for a profile
+export interface SubscriptionTier {
+  id: string;
+  profile_id: string;
+  name: string;
+  perks: string | null;
+  price: number; // per month, in minor units
+  currency: CurrencyCode;
+  status: 'active' | 'archived';
+  created_at: string;
+  updated_at: string;
+}
+
+export type PatronSubscriptionStatus = 'incomplete' | 'incomplete_expired' | 'trialing' | 'active' | 'past_due' | 'canceled' | 'unpaid' | 'paused';
+
+export interface PatronSubscription {
+  id: string;
+  profile_id: string;
+  tier_id: string | null;
+  tier?: Pick<SubscriptionTier, 'id' | 'name'> & { perks?: string | null } | null;
+  profile?: { id: string; name: string } | null;
+  customer_email: string | null;
+  customer_name: string | null;
+  status: PatronSubscriptionStatus;
+  amount: number; // per month, in minor units
+  currency: CurrencyCode;
+  cancel_at_period_end: boolean;
+  current_period_end: string | null;
+  canceled_at: string | null;
+  created_at: string;
+}
+
+// A tip on a profile's tip wall. Owners and admins also get the moderation fields.
+export interface Tip {
+  id: string;
+  profile_id: string;
+  donor_name: string | null; // null when the donor is anonymous or hid their name
+  amount: number; // in minor units
+  currency: string;
+  message: string | null;
+  pinned_at: string | null;
+  created_at: string;
+  show_name?: boolean;
+  is_hidden?: boolean;
+}
+
+export interface TipSettings {
+  currency: CurrencyCode;
+  presets: number[]; // in minor units
+  limits: { min: number; max: number }; // in minor units
+  fee: { percent: number; fixed: number }; // card fee estimate, for "cover the fees"
+}
+
+// A tip goal on a profile. raised_amount and tip_count are live while the
+// campaign is active and frozen when it closes.
+export interface Campaign {
+  id: string;
+  profile_id: string;
+  title: string;
+  description: string | null;
+  target_amount: number; // in minor units
+  currency: string;
+  deadline: string;
+  status: 'active' | 'closed';
+  raised_amount: number;
+  tip_count: number;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What one performer was tipped at an event
+export interface EventTipLine {
+  profileId: string;
+  profileName: string | null;
+  tipCount: number;
+  amount: number; // in minor units
+  currency: string;
+}
+
+export interface EventTipReport {
+  eventId: string;
+  title: string;
+  startTime: string;
+  performers: EventTipLine[];
+}
+
+// What a profile was tipped at one event
+export interface ProfileEventEarnings {
+  eventId: string;
+  title: string;
+  startTime: string;
+  hostProfileId: string;
+  tipCount: number;
+  amount: number; // in minor units
+  currency: string;
+}
+
+// A tip's receipt, from a signed receipt link
+export interface TipReceipt {
+  tipId: string;
+  profileId: string;
+  profileName: string | null;
+  donorName: string | null;
+  showName: boolean;
+  amount: number; // the tip, in minor units
+  feeAmount: number; // covered card fee, in minor units
+  currency: CurrencyCode;
+  message: string | null;
+  paymentStatus: string;
+  createdAt: string;
+}
+
+// A printable QR code that leads to a profile's tip form. The link only holds
+// the short code, so what it preselects can change after it's printed.
+export interface QrCode {
+  id: string;
+  code: string;
+  profile_id: string;
+  label: string | null;
+  event_id: string | null;
+  amount: number | null; // in minor units
+  currency: string | null;
+  scan_count: number;
+  last_scanned_at: string | null;
+  url: string; // the link encoded in the QR code
+  created_at: string;
+  updated_at: string;
+}
+
+export type WithdrawalStatus = 'pending' | 'approved' | 'rejected' | 'completed' | 'failed' | 'cancelled';
+
+export interface Withdrawal {
+  id: string;
+  profile_id: string;
+  amount: number; // in minor units
+  currency: string;
+  status: WithdrawalStatus;
+  requested_at: string;
+  processed_at?: string | null;
+  notes?: string | null;
+  stripe_payout_id?: string | null;
+  payout_error?: string | null;
+  payout_schedule_id?: string | null; // set when a payout schedule requested it
+  profile_name?: string; // only in the admin list
+}
+
+export type PayoutFrequency = 'weekly' | 'monthly';
+
+export interface PayoutSchedule {
+  id: string;
+  user_id: string;
+  profile_id: string;
+  frequency: PayoutFrequency;
+  minimum_amount: number; // in minor units
+  currency: string;
+  next_run_at: string;
+  last_run_at: string | null;
+}
+
+export type AuditAction =
+  | 'withdrawal.approve'
+  | 'withdrawal.reject'
+  | 'withdrawal.mark_completed'
+  | 'withdrawal.bulk_process'
+  | 'withdrawal.auto_approve_limit'
+  | 'withdrawal.cancel'
+  | 'payout_schedule.update'
+  | 'payout_schedule.delete'
+  | 'refund.create'
+  | 'invite.accept'
+  | 'payout_account.onboarding'
+  | 'payout_account.dashboard_login'
+  | 'payout_account.bank_account_created'
+  | 'payout_account.bank_account_updated'
+  | 'payout_account.bank_account_deleted';
+
+export interface AuditEvent {
+  id: string;
+  actor_id: string | null; // null for Stripe and background jobs
+  actor_email: string | null;
+  action: AuditAction;
+  target_type: string;
+  target_id: string | null;
+  before: unknown;
+  after: unknown;
+  ip_address: string | null;
+  created_at: string;
+}
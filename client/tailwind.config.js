@@ -32,6 +32,19 @@ export default {
         'github-blue': '#D2B48C',
         'github-blue-dark': '#B8956F',
       },
+      keyframes: {
+        // A tip alert in stage mode: pops in, stays, fades out
+        'tip-alert': {
+          '0%': { opacity: '0', transform: 'translateY(2rem) scale(0.9)' },
+          '8%': { opacity: '1', transform: 'translateY(0) scale(1.05)' },
+          '12%': { transform: 'scale(1)' },
+          '90%': { opacity: '1', transform: 'translateY(0)' },
+          '100%': { opacity: '0', transform: 'translateY(-1rem)' },
+        },
+      },
+      animation: {
+        'tip-alert': 'tip-alert 6s ease-out forwards',
+      },
     },
   },
   plugins: [],
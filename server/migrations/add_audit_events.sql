@@ -0,0 +1,50 @@
+-- ==========================================
+-- MIGRATION: Audit log
+-- ==========================================
+-- Who changed money-related state, and how: withdrawal approvals,
+-- rejections and bulk payouts, revenue share changes when a member joins,
+-- and payout account changes. Events are written by the server's audit
+-- middleware after a request succeeds, and by the Stripe webhook for changes
+-- made on Stripe (actor_id is NULL for those and for background jobs).
+
+-- Step 1: Events
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT, -- as it was when the event happened
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  before JSONB,
+  after JSONB,
+  ip_address TEXT,
+  stripe_event_id TEXT UNIQUE, -- for changes made on Stripe, so redelivered events are recorded once
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events(action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_type, target_id);
+
+-- Only the server reads and writes the log, for platform admins
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Step 2: The log is append-only, even for the service role
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events_append_only' USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_audit_event_changes ON audit_events;
+CREATE TRIGGER trigger_prevent_audit_event_changes
+BEFORE UPDATE OR DELETE ON audit_events
+FOR EACH ROW
+EXECUTE FUNCTION prevent_audit_event_changes();
+
+-- ROLLBACK:
+-- DROP TRIGGER IF EXISTS trigger_prevent_audit_event_changes ON audit_events;
+-- DROP FUNCTION IF EXISTS prevent_audit_event_changes();
+-- DROP TABLE IF EXISTS audit_events;
@@ -0,0 +1,163 @@
+-- ==========================================
+-- MIGRATION: Digital products and order downloads
+-- ==========================================
+-- Digital products (EPs, albums) have a file in the private product-files
+-- bucket instead of stock. Each paid order gets one download per digital
+-- product, reached through a secret token link that the server turns into a
+-- short-lived signed URL, up to the product's download limit.
+
+-- Step 1: Product type and file
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'physical' CHECK (type IN ('physical', 'digital')),
+ADD COLUMN IF NOT EXISTS file_path TEXT, -- <profile_id>/<file> in the product-files bucket
+ADD COLUMN IF NOT EXISTS file_name TEXT, -- name the fan's download is saved as
+ADD COLUMN IF NOT EXISTS download_limit INTEGER NOT NULL DEFAULT 5 CHECK (download_limit > 0);
+
+-- Step 2: Digital-only orders have nothing to ship or pick up
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_fulfilment_method_check;
+ALTER TABLE orders ADD CONSTRAINT orders_fulfilment_method_check
+  CHECK (fulfilment_method IN ('shipping', 'pickup', 'digital'));
+
+-- Step 3: Create order_downloads table
+CREATE TABLE IF NOT EXISTS order_downloads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  download_count INTEGER NOT NULL DEFAULT 0,
+  download_limit INTEGER NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '30 days',
+  last_downloaded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_downloads_order_id ON order_downloads(order_id);
+
+ALTER TABLE order_downloads ENABLE ROW LEVEL SECURITY;
+
+-- Fans see the downloads of their own orders (for OrderHistory)
+CREATE POLICY "Customers can view their own downloads" ON order_downloads
+  FOR SELECT USING (
+    order_id IN (SELECT id FROM orders WHERE customer_email = auth.jwt() ->> 'email')
+  );
+
+-- Step 4: Count a download if the link is still valid.
+-- Returns the download, or nothing when it has expired or hit its limit.
+CREATE OR REPLACE FUNCTION claim_order_download(p_token TEXT)
+RETURNS SETOF order_downloads AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE order_downloads
+  SET download_count = download_count + 1,
+      last_downloaded_at = NOW()
+  WHERE token = p_token
+    AND download_count < download_limit
+    AND expires_at > NOW()
+    AND order_id IN (SELECT id FROM orders WHERE payment_status = 'paid')
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Digital products have no stock to reserve or put back
+CREATE OR REPLACE FUNCTION reserve_stock(p_checkout_id UUID, p_items JSONB, p_expires_at TIMESTAMP WITH TIME ZONE)
+RETURNS VOID AS $$
+DECLARE
+  item JSONB;
+  updated_count INTEGER;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    IF EXISTS (SELECT 1 FROM products WHERE id = (item->>'product_id')::UUID AND type = 'digital') THEN
+      updated_count := 1;
+    ELSIF item->>'variant_id' IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - (item->>'quantity')::INTEGER
+      WHERE id = (item->>'variant_id')::UUID
+        AND product_id = (item->>'product_id')::UUID
+        AND stock >= (item->>'quantity')::INTEGER;
+
+      GET DIAGNOSTICS updated_count = ROW_COUNT;
+    ELSE
+      UPDATE products
+      SET stock = stock - (item->>'quantity')::INTEGER
+      WHERE id = (item->>'product_id')::UUID
+        AND stock >= (item->>'quantity')::INTEGER;
+
+      GET DIAGNOSTICS updated_count = ROW_COUNT;
+    END IF;
+
+    IF updated_count = 0 THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING ERRCODE = 'check_violation', DETAIL = item->>'product_id';
+    END IF;
+
+    INSERT INTO stock_reservations (
+      checkout_id, product_id, variant_id, variant_label, quantity, unit_price, currency, expires_at
+    ) VALUES (
+      p_checkout_id,
+      (item->>'product_id')::UUID,
+      (item->>'variant_id')::UUID,
+      item->>'variant_label',
+      (item->>'quantity')::INTEGER,
+      (item->>'unit_price')::BIGINT,
+      item->>'currency',
+      p_expires_at
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION release_stock_reservation(p_checkout_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  reservation RECORD;
+BEGIN
+  FOR reservation IN
+    SELECT r.*, p.type AS product_type
+    FROM stock_reservations r
+    JOIN products p ON p.id = r.product_id
+    WHERE r.checkout_id = p_checkout_id AND r.status = 'reserved'
+    FOR UPDATE OF r
+  LOOP
+    IF reservation.product_type = 'digital' THEN
+      NULL;
+    ELSIF reservation.variant_id IS NOT NULL THEN
+      UPDATE product_variants SET stock = stock + reservation.quantity WHERE id = reservation.variant_id;
+    ELSIF reservation.variant_label IS NULL THEN
+      UPDATE products SET stock = stock + reservation.quantity WHERE id = reservation.product_id;
+    END IF;
+    -- A deleted variant has nothing to restore
+
+    UPDATE stock_reservations SET status = 'released' WHERE id = reservation.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 6: Private bucket for product files, uploaded by owners/admins of the
+-- profile into <profile_id>/<file>. There is no read policy: fans only get
+-- files through signed URLs created by the server.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-files', 'product-files', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Profile managers can upload product files" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'product-files'
+    AND (storage.foldername(name))[1] IN (
+      SELECT profile_id::TEXT FROM profile_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+-- ROLLBACK:
+-- DROP POLICY IF EXISTS "Profile managers can upload product files" ON storage.objects;
+-- (re-run Steps 4 and 5 of add_product_inventory.sql to restore the stock functions)
+-- DROP FUNCTION IF EXISTS claim_order_download(TEXT);
+-- DROP TABLE IF EXISTS order_downloads;
+-- ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_fulfilment_method_check;
+-- ALTER TABLE orders ADD CONSTRAINT orders_fulfilment_method_check CHECK (fulfilment_method IN ('shipping', 'pickup'));
+-- ALTER TABLE products DROP COLUMN IF EXISTS download_limit;
+-- ALTER TABLE products DROP COLUMN IF EXISTS file_name;
+-- ALTER TABLE products DROP COLUMN IF EXISTS file_path;
+-- ALTER TABLE products DROP COLUMN IF EXISTS type;
@@ -0,0 +1,106 @@
+-- ==========================================
+-- MIGRATION: Organizer revenue share on event tips
+-- ==========================================
+-- Venue bookings can take a cut of the tips performers are given through
+-- the event's page. The event maker sets the percentage on the event; each
+-- request and invite records the percentage the performer saw when it was
+-- made, and once it's accepted that is what applies to the performer's
+-- event tips. The cut is credited to the event maker's members with the
+-- 'event_share' source and the rest is distributed as a normal tip.
+
+-- Step 1: The percentage the event maker asks for. Only venue bookings take a cut.
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS organizer_share_percent NUMERIC(5,2) NOT NULL DEFAULT 0
+  CHECK (organizer_share_percent >= 0 AND organizer_share_percent <= 50);
+
+-- Step 2: The percentage agreed with each performer
+ALTER TABLE event_requests
+ADD COLUMN IF NOT EXISTS organizer_share_percent NUMERIC(5,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE event_invites
+ADD COLUMN IF NOT EXISTS organizer_share_percent NUMERIC(5,2) NOT NULL DEFAULT 0;
+
+-- Copied from the event when the request or invite is made and never changed
+-- afterwards, so neither side can alter the terms the other agreed to
+CREATE OR REPLACE FUNCTION set_event_organizer_share()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT CASE WHEN e.event_type = 'venue_booking' THEN e.organizer_share_percent ELSE 0 END
+    INTO NEW.organizer_share_percent
+    FROM events e
+    WHERE e.id = NEW.event_id;
+  ELSE
+    NEW.organizer_share_percent := OLD.organizer_share_percent;
+  END IF;
+
+  NEW.organizer_share_percent := COALESCE(NEW.organizer_share_percent, 0);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_event_requests_organizer_share ON event_requests;
+CREATE TRIGGER trigger_event_requests_organizer_share
+BEFORE INSERT OR UPDATE ON event_requests
+FOR EACH ROW
+EXECUTE FUNCTION set_event_organizer_share();
+
+DROP TRIGGER IF EXISTS trigger_event_invites_organizer_share ON event_invites;
+CREATE TRIGGER trigger_event_invites_organizer_share
+BEFORE INSERT OR UPDATE ON event_invites
+FOR EACH ROW
+EXECUTE FUNCTION set_event_organizer_share();
+
+-- Step 3: The organizer's cut of a tip, set by the server when the tip completes.
+-- amount stays what the fan tipped; the performer receives amount - organizer_share_amount.
+ALTER TABLE tips
+ADD COLUMN IF NOT EXISTS organizer_profile_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS organizer_share_amount BIGINT NOT NULL DEFAULT 0 CHECK (organizer_share_amount >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_tips_organizer_profile_id ON tips(organizer_profile_id) WHERE organizer_profile_id IS NOT NULL;
+
+GRANT SELECT (organizer_profile_id, organizer_share_amount) ON tips TO authenticated;
+
+-- The organizer's members can see the tips they got a cut of
+CREATE POLICY "Organizer members can view their shared tips" ON tips
+  FOR SELECT USING (
+    organizer_profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Anyone can create pending tips" ON tips;
+CREATE POLICY "Anyone can create pending tips" ON tips
+  FOR INSERT WITH CHECK (
+    payment_status = 'pending'
+    AND donor_email IS NULL
+    AND is_hidden = false
+    AND pinned_at IS NULL
+    AND campaign_id IS NULL
+    AND event_id IS NULL
+    AND organizer_profile_id IS NULL
+    AND organizer_share_amount = 0
+  );
+
+-- Step 4: Allow organizer share entries in the wallet ledger
+ALTER TABLE wallet_ledger DROP CONSTRAINT IF EXISTS wallet_ledger_source_type_check;
+ALTER TABLE wallet_ledger ADD CONSTRAINT wallet_ledger_source_type_check
+  CHECK (source_type IN ('tip', 'order', 'withdrawal', 'refund', 'opening_balance', 'subscription', 'event_share'));
+
+-- ROLLBACK:
+-- ALTER TABLE wallet_ledger DROP CONSTRAINT IF EXISTS wallet_ledger_source_type_check;
+-- ALTER TABLE wallet_ledger ADD CONSTRAINT wallet_ledger_source_type_check
+--   CHECK (source_type IN ('tip', 'order', 'withdrawal', 'refund', 'opening_balance', 'subscription'));
+-- DROP POLICY IF EXISTS "Anyone can create pending tips" ON tips;
+-- CREATE POLICY "Anyone can create pending tips" ON tips FOR INSERT WITH CHECK (
+--   payment_status = 'pending' AND donor_email IS NULL AND is_hidden = false
+--   AND pinned_at IS NULL AND campaign_id IS NULL AND event_id IS NULL
+-- );
+-- DROP POLICY IF EXISTS "Organizer members can view their shared tips" ON tips;
+-- DROP INDEX IF EXISTS idx_tips_organizer_profile_id;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS organizer_share_amount;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS organizer_profile_id;
+-- DROP TRIGGER IF EXISTS trigger_event_invites_organizer_share ON event_invites;
+-- DROP TRIGGER IF EXISTS trigger_event_requests_organizer_share ON event_requests;
+-- DROP FUNCTION IF EXISTS set_event_organizer_share();
+-- ALTER TABLE event_invites DROP COLUMN IF EXISTS organizer_share_percent;
+-- ALTER TABLE event_requests DROP COLUMN IF EXISTS organizer_share_percent;
+-- ALTER TABLE events DROP COLUMN IF EXISTS organizer_share_percent;
@@ -0,0 +1,37 @@
+-- ==========================================
+-- MIGRATION: Event tips
+-- ==========================================
+-- Tips can be made from an event page to one of the event's performers, so
+-- at an open mic with several acts each act gets its own tips. The tip is
+-- still paid to the performer's profile (profile_id); event_id records where
+-- it was made so the event maker and the performers can see what each
+-- event earned.
+
+-- Step 1: The event a tip was made at. Only the server sets it, after
+-- checking the tipped profile performs at the event.
+ALTER TABLE tips
+ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tips_event_id ON tips(event_id) WHERE event_id IS NOT NULL;
+
+GRANT SELECT (event_id) ON tips TO authenticated;
+
+DROP POLICY IF EXISTS "Anyone can create pending tips" ON tips;
+CREATE POLICY "Anyone can create pending tips" ON tips
+  FOR INSERT WITH CHECK (
+    payment_status = 'pending'
+    AND donor_email IS NULL
+    AND is_hidden = false
+    AND pinned_at IS NULL
+    AND campaign_id IS NULL
+    AND event_id IS NULL
+  );
+
+-- ROLLBACK:
+-- DROP POLICY IF EXISTS "Anyone can create pending tips" ON tips;
+-- CREATE POLICY "Anyone can create pending tips" ON tips FOR INSERT WITH CHECK (
+--   payment_status = 'pending' AND donor_email IS NULL AND is_hidden = false
+--   AND pinned_at IS NULL AND campaign_id IS NULL
+-- );
+-- DROP INDEX IF EXISTS idx_tips_event_id;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS event_id;
@@ -0,0 +1,16 @@
+-- ==========================================
+-- MIGRATION: Guest tips
+-- ==========================================
+-- Fans can tip without an account. They choose whether their name is shown
+-- on the tip wall, and get a receipt link signed with the Stripe session id
+-- instead of needing to log in to see it.
+
+-- Step 1: Whether the donor's name may be shown publicly
+ALTER TABLE tips ADD COLUMN IF NOT EXISTS show_name BOOLEAN NOT NULL DEFAULT true;
+
+-- Step 2: Receipts are looked up by session once the tip is completed
+CREATE INDEX IF NOT EXISTS idx_tips_stripe_session_id ON tips(stripe_session_id);
+
+-- ROLLBACK:
+-- DROP INDEX IF EXISTS idx_tips_stripe_session_id;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS show_name;
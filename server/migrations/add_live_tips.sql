@@ -0,0 +1,65 @@
+-- ==========================================
+-- MIGRATION: Live tip alerts
+-- ==========================================
+-- The tip wall and stage mode show new tips as they come in, through
+-- Supabase Realtime. The tips table isn't publicly readable, so completed
+-- tips are published to tip_alerts with only what the tip wall may show.
+-- Rows are written by a trigger, never by clients, so alerts can't be faked.
+-- Hiding a tip removes its alert, which tells open walls to drop it.
+
+-- Step 1: Create tip_alerts table
+CREATE TABLE IF NOT EXISTS tip_alerts (
+  tip_id UUID PRIMARY KEY REFERENCES tips(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  donor_name TEXT, -- null when the donor is anonymous or hid their name
+  amount BIGINT NOT NULL, -- in minor units
+  currency TEXT NOT NULL,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tip_alerts_profile_id ON tip_alerts(profile_id);
+
+ALTER TABLE tip_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tip alerts are viewable by everyone" ON tip_alerts
+  FOR SELECT USING (true);
+
+-- Step 2: Publish completed tips, and withdraw them when they're hidden
+CREATE OR REPLACE FUNCTION publish_tip_alert()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_status = 'completed' AND NOT NEW.is_hidden
+     AND (OLD.payment_status IS DISTINCT FROM 'completed' OR OLD.is_hidden) THEN
+    INSERT INTO tip_alerts (tip_id, profile_id, donor_name, amount, currency, message)
+    VALUES (
+      NEW.id,
+      NEW.profile_id,
+      CASE WHEN NEW.show_name THEN NEW.donor_name END,
+      NEW.amount,
+      NEW.currency,
+      NEW.message
+    )
+    ON CONFLICT (tip_id) DO NOTHING;
+  ELSIF NEW.payment_status <> 'completed' OR NEW.is_hidden THEN
+    DELETE FROM tip_alerts WHERE tip_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_publish_tip_alert ON tips;
+CREATE TRIGGER trigger_publish_tip_alert
+AFTER UPDATE OF payment_status, is_hidden ON tips
+FOR EACH ROW
+EXECUTE FUNCTION publish_tip_alert();
+
+-- Step 3: Stream inserts and deletes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE tip_alerts;
+
+-- ROLLBACK:
+-- ALTER PUBLICATION supabase_realtime DROP TABLE tip_alerts;
+-- DROP TRIGGER IF EXISTS trigger_publish_tip_alert ON tips;
+-- DROP FUNCTION IF EXISTS publish_tip_alert();
+-- DROP TABLE IF EXISTS tip_alerts;
@@ -0,0 +1,59 @@
+-- ==========================================
+-- MIGRATION: Order fulfilment (shipping, pickup at a gig, tracking)
+-- ==========================================
+-- Fans choose at checkout to have merch shipped (address collected by Stripe)
+-- or to pick it up at one of the artist's upcoming events.
+-- Fulfilment moves forward only:
+--   paid -> packed -> shipped   -> delivered
+--                  -> picked_up -> delivered
+-- Transitions are enforced by the server; the check constraints only guard
+-- against unknown values.
+
+-- Step 1: Add fulfilment columns to orders
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS fulfilment_method TEXT NOT NULL DEFAULT 'shipping' CHECK (fulfilment_method IN ('shipping', 'pickup')),
+ADD COLUMN IF NOT EXISTS pickup_event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS shipping_name TEXT,
+ADD COLUMN IF NOT EXISTS shipping_address JSONB, -- Stripe address: line1, line2, postal_code, city, state, country
+ADD COLUMN IF NOT EXISTS fulfilment_status TEXT NOT NULL DEFAULT 'paid'
+  CHECK (fulfilment_status IN ('paid', 'packed', 'shipped', 'picked_up', 'delivered')),
+ADD COLUMN IF NOT EXISTS tracking_carrier TEXT,
+ADD COLUMN IF NOT EXISTS tracking_number TEXT,
+ADD COLUMN IF NOT EXISTS packed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS picked_up_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_orders_profile_fulfilment ON orders(profile_id, fulfilment_status);
+CREATE INDEX IF NOT EXISTS idx_orders_pickup_event_id ON orders(pickup_event_id);
+
+-- Step 2: Fans see their own orders, profile members see their shop's orders.
+-- Writes go through the server with the service role.
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers can view their own orders" ON orders;
+CREATE POLICY "Customers can view their own orders" ON orders
+  FOR SELECT USING (customer_email = auth.jwt() ->> 'email');
+
+DROP POLICY IF EXISTS "Profile members can view their profile's orders" ON orders;
+CREATE POLICY "Profile members can view their profile's orders" ON orders
+  FOR SELECT USING (
+    profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+-- ROLLBACK:
+-- DROP POLICY IF EXISTS "Profile members can view their profile's orders" ON orders;
+-- DROP POLICY IF EXISTS "Customers can view their own orders" ON orders;
+-- DROP INDEX IF EXISTS idx_orders_pickup_event_id;
+-- DROP INDEX IF EXISTS idx_orders_profile_fulfilment;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS delivered_at;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS picked_up_at;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS shipped_at;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS packed_at;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS tracking_number;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS tracking_carrier;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS fulfilment_status;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS shipping_address;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS shipping_name;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS pickup_event_id;
+-- ALTER TABLE orders DROP COLUMN IF EXISTS fulfilment_method;
@@ -0,0 +1,17 @@
+-- ==========================================
+-- MIGRATION: Refund and dispute clawback for patron payments
+-- ==========================================
+-- A refunded or disputed subscription invoice reverses the 'subscription'
+-- credits its payment gave band members, the same way tips and orders are
+-- clawed back.
+
+-- Step 1: Record when a patron payment was reversed
+-- payment_status values: 'paid', 'refunded', 'disputed'
+ALTER TABLE patron_payments
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'paid'
+  CHECK (payment_status IN ('paid', 'refunded', 'disputed')),
+ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+-- ROLLBACK:
+-- ALTER TABLE patron_payments DROP COLUMN IF EXISTS reversed_at;
+-- ALTER TABLE patron_payments DROP COLUMN IF EXISTS payment_status;
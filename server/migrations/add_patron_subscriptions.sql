@@ -0,0 +1,100 @@
+-- ==========================================
+-- MIGRATION: Patron subscriptions
+-- ==========================================
+-- Fans can support a profile monthly through one of its subscription tiers.
+-- Tiers are synced to Stripe as a product with a recurring price; the
+-- subscriptions themselves live in Stripe and are mirrored here from its
+-- webhooks. Every paid invoice is split among the band members' wallets.
+
+-- Step 1: Create subscription_tiers table
+CREATE TABLE IF NOT EXISTS subscription_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  perks TEXT,
+  price BIGINT NOT NULL CHECK (price > 0), -- per month, in minor units
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  stripe_product_id TEXT UNIQUE,
+  stripe_price_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_tiers_profile_id ON subscription_tiers(profile_id);
+
+ALTER TABLE subscription_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active tiers" ON subscription_tiers
+  FOR SELECT USING (status = 'active');
+
+CREATE POLICY "Profile members can view all their tiers" ON subscription_tiers
+  FOR SELECT USING (
+    profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+-- Step 2: Create patron_subscriptions table (written by the server from Stripe events)
+CREATE TABLE IF NOT EXISTS patron_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  tier_id UUID REFERENCES subscription_tiers(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  customer_email TEXT,
+  customer_name TEXT,
+  stripe_customer_id TEXT NOT NULL,
+  stripe_subscription_id TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL, -- Stripe's subscription status
+  amount BIGINT NOT NULL, -- per month, in minor units
+  currency TEXT NOT NULL,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  current_period_end TIMESTAMP WITH TIME ZONE,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patron_subscriptions_profile_id ON patron_subscriptions(profile_id);
+CREATE INDEX IF NOT EXISTS idx_patron_subscriptions_user_id ON patron_subscriptions(user_id);
+
+ALTER TABLE patron_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patrons can view their own subscriptions" ON patron_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Profile members can view their patrons" ON patron_subscriptions
+  FOR SELECT USING (
+    profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+-- Step 3: Create patron_payments table, one row per paid invoice
+CREATE TABLE IF NOT EXISTS patron_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES patron_subscriptions(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  stripe_invoice_id TEXT NOT NULL UNIQUE,
+  amount BIGINT NOT NULL, -- in minor units
+  currency TEXT NOT NULL,
+  paid_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patron_payments_subscription_id ON patron_payments(subscription_id);
+
+ALTER TABLE patron_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Profile members can view their patron payments" ON patron_payments
+  FOR SELECT USING (
+    profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+-- Step 4: Invoice payments are credited to wallets like tips
+ALTER TABLE wallet_ledger DROP CONSTRAINT IF EXISTS wallet_ledger_source_type_check;
+ALTER TABLE wallet_ledger ADD CONSTRAINT wallet_ledger_source_type_check
+  CHECK (source_type IN ('tip', 'order', 'withdrawal', 'refund', 'opening_balance', 'subscription'));
+
+-- ROLLBACK:
+-- ALTER TABLE wallet_ledger DROP CONSTRAINT IF EXISTS wallet_ledger_source_type_check;
+-- ALTER TABLE wallet_ledger ADD CONSTRAINT wallet_ledger_source_type_check
+--   CHECK (source_type IN ('tip', 'order', 'withdrawal', 'refund', 'opening_balance'));
+-- DROP TABLE IF EXISTS patron_payments;
+-- DROP TABLE IF EXISTS patron_subscriptions;
+-- DROP TABLE IF EXISTS subscription_tiers;
@@ -0,0 +1,30 @@
+-- ==========================================
+-- MIGRATION: Platform admins
+-- ==========================================
+-- Platform admins approve and pay out withdrawals and refund payments. The
+-- role is stored here instead of in user_metadata, which users can change
+-- themselves. Admins are granted from the SQL editor:
+--
+--   INSERT INTO platform_admins (user_id) VALUES ('<auth user id>');
+
+-- Step 1: Admins
+CREATE TABLE IF NOT EXISTS platform_admins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only the service role grants the role; users can see whether they have it
+ALTER TABLE platform_admins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own admin role" ON platform_admins;
+CREATE POLICY "Users can view their own admin role" ON platform_admins
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Step 2: Withdrawal requests go through the server, which checks the
+-- requester owns the wallet being paid out
+DROP POLICY IF EXISTS "Users can create withdrawal requests" ON withdrawals;
+
+-- ROLLBACK:
+-- CREATE POLICY "Users can create withdrawal requests" ON withdrawals
+--   FOR INSERT WITH CHECK (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+-- DROP TABLE IF EXISTS platform_admins;
@@ -0,0 +1,159 @@
+-- ==========================================
+-- MIGRATION: Merch inventory, variants and stock reservations
+-- ==========================================
+-- Products can have variants (size, colour), each with its own stock.
+-- Products without variants keep using products.stock.
+-- Stock is reserved when a checkout session is opened and either kept when it
+-- completes or put back when Stripe sends checkout.session.expired, so two
+-- fans can't both buy the last shirt.
+
+-- Step 1: Create product_variants table
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  size TEXT,
+  color TEXT,
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  low_stock_notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (size IS NOT NULL OR color IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_options
+  ON product_variants(product_id, COALESCE(size, ''), COALESCE(color, ''));
+
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Variants are visible whenever their product is
+CREATE POLICY "Variants are viewable with their product" ON product_variants
+  FOR SELECT USING (product_id IN (SELECT id FROM products));
+
+DROP TRIGGER IF EXISTS trigger_product_variants_updated_at ON product_variants;
+CREATE TRIGGER trigger_product_variants_updated_at
+BEFORE UPDATE ON product_variants
+FOR EACH ROW
+EXECUTE FUNCTION update_products_timestamp();
+
+-- Step 2: Low-stock threshold per product, and when the owner was last told
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER NOT NULL DEFAULT 3 CHECK (low_stock_threshold >= 0),
+ADD COLUMN IF NOT EXISTS low_stock_notified_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 3: Create stock_reservations table (server only, no policies).
+-- One checkout_id groups the lines of one Checkout session.
+-- variant_label is kept so orders still read well if a variant is deleted.
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checkout_id UUID NOT NULL,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  variant_label TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price BIGINT NOT NULL, -- in minor units
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'completed', 'released')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_checkout_id ON stock_reservations(checkout_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_status ON stock_reservations(status, expires_at);
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Reserve stock for every line of a checkout, all or nothing.
+-- p_items: [{ product_id, variant_id, variant_label, quantity, unit_price, currency }]
+-- Raises 'insufficient_stock' (DETAIL = product id) if any line can't be covered.
+CREATE OR REPLACE FUNCTION reserve_stock(p_checkout_id UUID, p_items JSONB, p_expires_at TIMESTAMP WITH TIME ZONE)
+RETURNS VOID AS $$
+DECLARE
+  item JSONB;
+  updated_count INTEGER;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    IF item->>'variant_id' IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock = stock - (item->>'quantity')::INTEGER
+      WHERE id = (item->>'variant_id')::UUID
+        AND product_id = (item->>'product_id')::UUID
+        AND stock >= (item->>'quantity')::INTEGER;
+    ELSE
+      UPDATE products
+      SET stock = stock - (item->>'quantity')::INTEGER
+      WHERE id = (item->>'product_id')::UUID
+        AND stock >= (item->>'quantity')::INTEGER;
+    END IF;
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    IF updated_count = 0 THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING ERRCODE = 'check_violation', DETAIL = item->>'product_id';
+    END IF;
+
+    INSERT INTO stock_reservations (
+      checkout_id, product_id, variant_id, variant_label, quantity, unit_price, currency, expires_at
+    ) VALUES (
+      p_checkout_id,
+      (item->>'product_id')::UUID,
+      (item->>'variant_id')::UUID,
+      item->>'variant_label',
+      (item->>'quantity')::INTEGER,
+      (item->>'unit_price')::BIGINT,
+      item->>'currency',
+      p_expires_at
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Put reserved stock back (checkout expired or couldn't be created).
+-- Only 'reserved' lines are touched, so running it twice is harmless.
+CREATE OR REPLACE FUNCTION release_stock_reservation(p_checkout_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  reservation RECORD;
+BEGIN
+  FOR reservation IN
+    SELECT * FROM stock_reservations
+    WHERE checkout_id = p_checkout_id AND status = 'reserved'
+    FOR UPDATE
+  LOOP
+    IF reservation.variant_id IS NOT NULL THEN
+      UPDATE product_variants SET stock = stock + reservation.quantity WHERE id = reservation.variant_id;
+    ELSIF reservation.variant_label IS NULL THEN
+      UPDATE products SET stock = stock + reservation.quantity WHERE id = reservation.product_id;
+    END IF;
+    -- A deleted variant has nothing to restore
+
+    UPDATE stock_reservations SET status = 'released' WHERE id = reservation.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 6: Keep reserved stock as sold once the checkout is paid.
+-- Returns the number of lines completed by this call (0 on a redelivery).
+CREATE OR REPLACE FUNCTION complete_stock_reservation(p_checkout_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE stock_reservations
+  SET status = 'completed'
+  WHERE checkout_id = p_checkout_id AND status = 'reserved';
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ROLLBACK:
+-- DROP FUNCTION IF EXISTS complete_stock_reservation(UUID);
+-- DROP FUNCTION IF EXISTS release_stock_reservation(UUID);
+-- DROP FUNCTION IF EXISTS reserve_stock(UUID, JSONB, TIMESTAMP WITH TIME ZONE);
+-- DROP TABLE IF EXISTS stock_reservations;
+-- ALTER TABLE products DROP COLUMN IF EXISTS low_stock_notified_at;
+-- ALTER TABLE products DROP COLUMN IF EXISTS low_stock_threshold;
+-- DROP TABLE IF EXISTS product_variants;
@@ -0,0 +1,100 @@
+-- ==========================================
+-- MIGRATION: Merch products per profile
+-- ==========================================
+-- Each profile owns its products. Products are written by the server, which
+-- keeps a matching Stripe product (metadata.profileId) and price in sync.
+-- Prices are in minor units, in the profile's payout currency.
+
+-- Step 1: Create products table
+CREATE TABLE IF NOT EXISTS products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  image_url TEXT,
+  price BIGINT NOT NULL CHECK (price > 0), -- in minor units
+  currency TEXT NOT NULL CHECK (currency IN ('SEK', 'NOK', 'DKK', 'EUR', 'USD')),
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  stripe_product_id TEXT UNIQUE,
+  stripe_price_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_profile_id ON products(profile_id);
+CREATE INDEX IF NOT EXISTS idx_products_status ON products(status);
+
+-- Step 2: Enable RLS (writes go through the server with the service role)
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active products are viewable by everyone" ON products
+  FOR SELECT USING (status = 'active');
+
+CREATE POLICY "Profile members can view archived products" ON products
+  FOR SELECT USING (
+    profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+-- Step 3: Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_products_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_products_updated_at ON products;
+CREATE TRIGGER trigger_products_updated_at
+BEFORE UPDATE ON products
+FOR EACH ROW
+EXECUTE FUNCTION update_products_timestamp();
+
+-- Step 4: Decrement stock when an order is recorded, without going below zero.
+-- Returns false if there wasn't enough stock left.
+CREATE OR REPLACE FUNCTION decrement_product_stock(p_product_id UUID, p_quantity INTEGER)
+RETURNS BOOLEAN AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE products
+  SET stock = stock - p_quantity
+  WHERE id = p_product_id AND stock >= p_quantity;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Public bucket for product images, uploaded by owners/admins of the
+-- profile into a folder named after the profile id: <profile_id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-images', 'product-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Profile managers can upload product images" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'product-images'
+    AND (storage.foldername(name))[1] IN (
+      SELECT profile_id::TEXT FROM profile_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Profile managers can replace product images" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'product-images'
+    AND (storage.foldername(name))[1] IN (
+      SELECT profile_id::TEXT FROM profile_members
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+-- ROLLBACK:
+-- DROP POLICY IF EXISTS "Profile managers can replace product images" ON storage.objects;
+-- DROP POLICY IF EXISTS "Profile managers can upload product images" ON storage.objects;
+-- DROP FUNCTION IF EXISTS decrement_product_stock(UUID, INTEGER);
+-- DROP TRIGGER IF EXISTS trigger_products_updated_at ON products;
+-- DROP FUNCTION IF EXISTS update_products_timestamp();
+-- DROP TABLE IF EXISTS products;
@@ -0,0 +1,56 @@
+-- ==========================================
+-- MIGRATION: Dynamic QR codes
+-- ==========================================
+-- A QR code on a sign or poster holds a short link to the server
+-- (/api/qr/:code) instead of a profile URL. The server counts the scan and
+-- redirects to the profile's tip form, with an event and an amount already
+-- chosen if the code has them. Because the link only holds the code, a
+-- printed code keeps working when the profile is renamed, and its event or
+-- amount can be changed after it's printed.
+
+-- Step 1: QR codes
+CREATE TABLE IF NOT EXISTS qr_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  label TEXT,
+  -- Preselected on the tip form when set
+  event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  amount BIGINT CHECK (amount > 0), -- in minor units
+  currency TEXT,
+  scan_count INTEGER NOT NULL DEFAULT 0,
+  last_scanned_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((amount IS NULL) = (currency IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_qr_codes_profile_id ON qr_codes(profile_id);
+
+-- Codes are managed through the server; members can see their profile's codes
+ALTER TABLE qr_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Profile members can view their QR codes" ON qr_codes;
+CREATE POLICY "Profile members can view their QR codes" ON qr_codes
+  FOR SELECT USING (
+    profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+-- Step 2: Count a scan and return the code, in one statement so concurrent
+-- scans are all counted
+CREATE OR REPLACE FUNCTION record_qr_scan(p_code TEXT)
+RETURNS SETOF qr_codes AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE qr_codes
+  SET scan_count = scan_count + 1,
+      last_scanned_at = NOW()
+  WHERE code = p_code
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ROLLBACK:
+-- DROP FUNCTION IF EXISTS record_qr_scan(TEXT);
+-- DROP TABLE IF EXISTS qr_codes;
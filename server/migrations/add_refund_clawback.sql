@@ -0,0 +1,61 @@
+-- ==========================================
+-- MIGRATION: Refund and dispute clawback
+-- ==========================================
+-- When a tip or order is refunded or disputed, every wallet credit it caused
+-- is reversed with a 'refund' debit and every transfer to a member's Connect
+-- account is reversed on Stripe. Clawbacks may take a wallet negative, but a
+-- withdrawal never may.
+
+-- Step 1: Track reversed tip transfers
+ALTER TABLE tip_transfers
+ADD COLUMN IF NOT EXISTS stripe_reversal_id TEXT,
+ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 2: Record when a payment was reversed
+-- payment_status values for tips: 'pending', 'completed', 'failed', 'refunded', 'disputed'
+-- payment_status values for orders: 'paid', 'refunded', 'disputed'
+ALTER TABLE tips ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+-- Step 3: Reject withdrawal debits that would take a wallet negative.
+-- The advisory lock serializes withdrawals per user, so two approvals can't
+-- both pass the check against the same balance.
+CREATE OR REPLACE FUNCTION check_withdrawal_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_balance BIGINT;
+BEGIN
+  IF NEW.entry_type <> 'debit' OR NEW.source_type <> 'withdrawal' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::TEXT));
+
+  SELECT COALESCE(SUM(CASE WHEN entry_type = 'credit' THEN amount ELSE -amount END), 0)
+  INTO current_balance
+  FROM wallet_ledger
+  WHERE user_id = NEW.user_id AND currency = NEW.currency;
+
+  IF current_balance - NEW.amount < 0 THEN
+    RAISE EXCEPTION 'insufficient_wallet_balance: balance % %, withdrawal % %',
+      current_balance, NEW.currency, NEW.amount, NEW.currency
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_withdrawal_balance ON wallet_ledger;
+CREATE TRIGGER trigger_check_withdrawal_balance
+BEFORE INSERT ON wallet_ledger
+FOR EACH ROW
+EXECUTE FUNCTION check_withdrawal_balance();
+
+-- ROLLBACK:
+-- DROP TRIGGER IF EXISTS trigger_check_withdrawal_balance ON wallet_ledger;
+-- DROP FUNCTION IF EXISTS check_withdrawal_balance();
+-- ALTER TABLE orders DROP COLUMN IF EXISTS reversed_at;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS reversed_at;
+-- ALTER TABLE tip_transfers DROP COLUMN IF EXISTS reversed_at;
+-- ALTER TABLE tip_transfers DROP COLUMN IF EXISTS stripe_reversal_id;
@@ -0,0 +1,120 @@
+-- ==========================================
+-- MIGRATION: Withdrawal cancellation and scheduled payouts
+-- ==========================================
+-- Artists can cancel a pending withdrawal, which releases its hold, and opt
+-- into scheduled payouts: every week or month their available balance is
+-- withdrawn once it reaches their minimum. A scheduled withdrawal up to the
+-- auto-approve limit for its currency is approved and paid out straight
+-- away; larger ones wait for an admin like any other request.
+
+-- Step 1: Cancelled withdrawals
+ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_status_check;
+ALTER TABLE withdrawals ADD CONSTRAINT withdrawals_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'completed', 'failed', 'cancelled'));
+
+CREATE OR REPLACE FUNCTION check_withdrawal_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected', 'cancelled')) OR
+    (OLD.status = 'approved' AND NEW.status IN ('completed', 'failed')) OR
+    (OLD.status = 'completed' AND NEW.status = 'failed')
+  ) THEN
+    RAISE EXCEPTION 'invalid_withdrawal_transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation', DETAIL = OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 2: Payout schedules, one per user since wallets are per user. Payouts
+-- go to the user's connected account on the chosen profile.
+CREATE TABLE IF NOT EXISTS payout_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  minimum_amount BIGINT NOT NULL CHECK (minimum_amount > 0), -- in minor units
+  currency TEXT NOT NULL,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_schedules_next_run_at ON payout_schedules(next_run_at);
+
+-- Schedules are managed through the server; users can see their own
+ALTER TABLE payout_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own payout schedule" ON payout_schedules;
+CREATE POLICY "Users can view their own payout schedule" ON payout_schedules
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Step 3: The largest scheduled withdrawal approved without an admin, per
+-- currency. Currencies without a limit are never approved automatically.
+CREATE TABLE IF NOT EXISTS payout_auto_approve_limits (
+  currency TEXT PRIMARY KEY,
+  amount BIGINT NOT NULL CHECK (amount >= 0), -- in minor units
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE payout_auto_approve_limits ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Which schedule created a withdrawal
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS payout_schedule_id UUID REFERENCES payout_schedules(id) ON DELETE SET NULL;
+
+DROP FUNCTION IF EXISTS request_withdrawal(UUID, UUID, BIGINT, TEXT);
+
+CREATE OR REPLACE FUNCTION request_withdrawal(
+  p_profile_id UUID,
+  p_user_id UUID,
+  p_amount BIGINT,
+  p_currency TEXT,
+  p_payout_schedule_id UUID DEFAULT NULL
+)
+RETURNS SETOF withdrawals AS $$
+DECLARE
+  current_balance BIGINT;
+  held BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT));
+
+  SELECT COALESCE(SUM(CASE WHEN entry_type = 'credit' THEN amount ELSE -amount END), 0)
+  INTO current_balance
+  FROM wallet_ledger
+  WHERE user_id = p_user_id AND currency = p_currency;
+
+  SELECT COALESCE(SUM(amount), 0)
+  INTO held
+  FROM withdrawals
+  WHERE user_id = p_user_id AND currency = p_currency AND status = 'pending';
+
+  IF current_balance - held < p_amount THEN
+    RAISE EXCEPTION 'insufficient_wallet_balance: available % %, withdrawal % %',
+      current_balance - held, p_currency, p_amount, p_currency
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO withdrawals (profile_id, user_id, amount, currency, status, payout_schedule_id)
+  VALUES (p_profile_id, p_user_id, p_amount, p_currency, 'pending', p_payout_schedule_id)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION request_withdrawal(UUID, UUID, BIGINT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ROLLBACK:
+-- DROP FUNCTION IF EXISTS request_withdrawal(UUID, UUID, BIGINT, TEXT, UUID);
+-- (then re-run Step 3 of add_withdrawal_holds.sql)
+-- ALTER TABLE withdrawals DROP COLUMN IF EXISTS payout_schedule_id;
+-- DROP TABLE IF EXISTS payout_auto_approve_limits;
+-- DROP TABLE IF EXISTS payout_schedules;
+-- (then re-run Step 1 and Step 3 of add_withdrawal_state_machine.sql)
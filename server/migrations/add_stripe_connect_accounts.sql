@@ -0,0 +1,37 @@
+-- ==========================================
+-- MIGRATION: Stripe Connect Express accounts per profile member
+-- ==========================================
+-- Payouts are transferred to the member's connected Express account instead
+-- of being paid out from the platform account. Each member of a profile has
+-- their own connected account, since wallets (and withdrawals) are per user.
+
+-- Step 1: Store the connected account on the membership
+ALTER TABLE profile_members
+ADD COLUMN IF NOT EXISTS stripe_connect_account_id TEXT,
+ADD COLUMN IF NOT EXISTS stripe_connect_status TEXT NOT NULL DEFAULT 'not_connected'
+  CHECK (stripe_connect_status IN ('not_connected', 'pending', 'restricted', 'connected'));
+
+COMMENT ON COLUMN profile_members.stripe_connect_account_id IS 'Stripe Connect Express account (acct_...) that receives this member''s payouts';
+COMMENT ON COLUMN profile_members.stripe_connect_status IS 'not_connected | pending (onboarding not finished) | restricted (Stripe needs more info) | connected (payouts enabled)';
+
+-- Looked up by account.updated webhooks
+CREATE INDEX IF NOT EXISTS idx_profile_members_stripe_connect_account
+ON profile_members(stripe_connect_account_id);
+
+-- Step 2: Track the transfer to the connected account on each withdrawal
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS stripe_transfer_id TEXT;
+
+-- Step 3: The profile-level fields are replaced by the membership columns above.
+-- bank_account_token only ever held a base64 blob with the last 4 digits and
+-- could not be paid out to, so it is cleared.
+UPDATE profiles SET bank_account_token = NULL WHERE bank_account_token IS NOT NULL;
+
+COMMENT ON COLUMN profiles.bank_account_token IS 'DEPRECATED: replaced by profile_members.stripe_connect_account_id';
+COMMENT ON COLUMN profiles.stripe_connect_account_id IS 'DEPRECATED: replaced by profile_members.stripe_connect_account_id';
+COMMENT ON COLUMN profiles.stripe_connect_status IS 'DEPRECATED: replaced by profile_members.stripe_connect_status';
+
+-- ROLLBACK:
+-- ALTER TABLE withdrawals DROP COLUMN IF EXISTS stripe_transfer_id;
+-- DROP INDEX IF EXISTS idx_profile_members_stripe_connect_account;
+-- ALTER TABLE profile_members DROP COLUMN IF EXISTS stripe_connect_status;
+-- ALTER TABLE profile_members DROP COLUMN IF EXISTS stripe_connect_account_id;
@@ -0,0 +1,22 @@
+-- ==========================================
+-- MIGRATION: Support the Stripe webhook as source of truth for payments
+-- ==========================================
+-- Tips and orders are now recorded by POST /api/checkout/webhook instead of
+-- the browser hitting /session-status, so redelivered events must be no-ops.
+
+-- Step 1: Track the payment intent on tips so refunds and failures can find them
+ALTER TABLE tips ADD COLUMN IF NOT EXISTS stripe_payment_intent_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_tips_stripe_payment_intent_id ON tips(stripe_payment_intent_id);
+
+-- Step 2: One order per checkout session (prevents duplicate orders on redelivery)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_stripe_session_id ON orders(stripe_session_id);
+CREATE INDEX IF NOT EXISTS idx_orders_stripe_payment_intent_id ON orders(stripe_payment_intent_id);
+
+-- payment_status values for tips: 'pending', 'completed', 'failed', 'refunded'
+-- payment_status values for orders: 'paid', 'refunded'
+
+-- ROLLBACK:
+-- DROP INDEX IF EXISTS idx_orders_stripe_payment_intent_id;
+-- DROP INDEX IF EXISTS idx_orders_stripe_session_id;
+-- DROP INDEX IF EXISTS idx_tips_stripe_payment_intent_id;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS stripe_payment_intent_id;
@@ -0,0 +1,103 @@
+-- ==========================================
+-- MIGRATION: Tip campaigns
+-- ==========================================
+-- A campaign is a visible target on a profile, e.g. saving for a van or a
+-- recording session: a title, a target amount in the profile's payout
+-- currency and a deadline. Fans can put a tip towards one of the profile's
+-- active campaigns at checkout. When the deadline passes the campaign is
+-- closed and the raised amount is frozen into the campaign row as its
+-- closing summary.
+
+-- Step 1: Campaigns
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  target_amount BIGINT NOT NULL CHECK (target_amount > 0),
+  currency TEXT NOT NULL DEFAULT 'SEK',
+  deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  -- Filled in when the campaign closes
+  raised_amount BIGINT,
+  tip_count INTEGER,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_profile_id ON campaigns(profile_id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_active_deadline ON campaigns(deadline) WHERE status = 'active';
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Campaigns are viewable by everyone" ON campaigns;
+CREATE POLICY "Campaigns are viewable by everyone" ON campaigns
+  FOR SELECT USING (true);
+
+-- Step 2: Tips can count towards a campaign. Only the server assigns it,
+-- after checking the campaign belongs to the tipped profile.
+ALTER TABLE tips
+ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tips_campaign_id ON tips(campaign_id) WHERE campaign_id IS NOT NULL;
+
+GRANT SELECT (campaign_id) ON tips TO authenticated;
+
+DROP POLICY IF EXISTS "Anyone can create pending tips" ON tips;
+CREATE POLICY "Anyone can create pending tips" ON tips
+  FOR INSERT WITH CHECK (
+    payment_status = 'pending'
+    AND donor_email IS NULL
+    AND is_hidden = false
+    AND pinned_at IS NULL
+    AND campaign_id IS NULL
+  );
+
+-- Step 3: Live progress of each campaign. Only completed tips count, so a
+-- refunded tip drops back out of the total.
+CREATE OR REPLACE VIEW campaign_progress AS
+SELECT
+  c.id AS campaign_id,
+  COALESCE(SUM(t.amount), 0)::BIGINT AS raised_amount,
+  COUNT(t.id)::INTEGER AS tip_count
+FROM campaigns c
+LEFT JOIN tips t ON t.campaign_id = c.id AND t.payment_status = 'completed'
+GROUP BY c.id;
+
+GRANT SELECT ON campaign_progress TO anon, authenticated;
+
+-- Step 4: Close campaigns and freeze their totals in one statement, so a tip
+-- completing at the same time can't be half counted. Returns the campaigns
+-- that were closed by this call.
+CREATE OR REPLACE FUNCTION close_campaigns(p_campaign_id UUID DEFAULT NULL)
+RETURNS SETOF campaigns AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE campaigns c
+  SET status = 'closed',
+      closed_at = NOW(),
+      updated_at = NOW(),
+      raised_amount = p.raised_amount,
+      tip_count = p.tip_count
+  FROM campaign_progress p
+  WHERE p.campaign_id = c.id
+    AND c.status = 'active'
+    AND (
+      c.id = p_campaign_id
+      OR (p_campaign_id IS NULL AND c.deadline <= NOW())
+    )
+  RETURNING c.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ROLLBACK:
+-- DROP FUNCTION IF EXISTS close_campaigns(UUID);
+-- DROP VIEW IF EXISTS campaign_progress;
+-- DROP POLICY IF EXISTS "Anyone can create pending tips" ON tips;
+-- CREATE POLICY "Anyone can create pending tips" ON tips FOR INSERT WITH CHECK (
+--   payment_status = 'pending' AND donor_email IS NULL AND is_hidden = false AND pinned_at IS NULL
+-- );
+-- DROP INDEX IF EXISTS idx_tips_campaign_id;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS campaign_id;
+-- DROP TABLE IF EXISTS campaigns;
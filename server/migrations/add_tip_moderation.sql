@@ -0,0 +1,80 @@
+-- ==========================================
+-- MIGRATION: Tip wall moderation and privacy
+-- ==========================================
+-- The tip wall used to read the tips table directly, so pending tips and
+-- donor details were public. The public now reads the public_tips view,
+-- which only has completed tips that the profile hasn't hidden, with pinned
+-- tips first and the donor's name only if they chose to show it. Donors can
+-- tip without a name. Messages and names are filtered by the server before
+-- checkout. donor_email is filled in from Stripe and is never readable by
+-- the public or by profile members.
+
+-- Step 1: Moderation and donor columns
+ALTER TABLE tips
+ADD COLUMN IF NOT EXISTS donor_email TEXT,
+ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMP WITH TIME ZONE;
+
+-- Anonymous tips have no name at all
+ALTER TABLE tips ALTER COLUMN donor_name DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tips_pinned_at ON tips(pinned_at) WHERE pinned_at IS NOT NULL;
+
+-- Step 2: Only profile members can read the tips table, and never donor_email.
+-- Column privileges apply on top of RLS, so revoke the table-wide grant and
+-- grant back every other column.
+DROP POLICY IF EXISTS "Tips are viewable by everyone" ON tips;
+
+CREATE POLICY "Profile members can view their tips" ON tips
+  FOR SELECT USING (
+    profile_id IN (SELECT profile_id FROM profile_members WHERE user_id = auth.uid())
+  );
+
+REVOKE SELECT ON tips FROM anon, authenticated;
+GRANT SELECT (
+  id, profile_id, donor_name, show_name, amount, currency, message,
+  payment_status, cover_fees, fee_amount, is_hidden, pinned_at,
+  stripe_session_id, stripe_payment_intent_id, reversed_at, created_at, updated_at
+) ON tips TO authenticated;
+
+-- Step 3: Fans may only create pending, unmoderated tips
+DROP POLICY IF EXISTS "Anyone can create tips" ON tips;
+
+CREATE POLICY "Anyone can create pending tips" ON tips
+  FOR INSERT WITH CHECK (
+    payment_status = 'pending'
+    AND donor_email IS NULL
+    AND is_hidden = false
+    AND pinned_at IS NULL
+  );
+
+-- Step 4: What the tip wall shows. Views run with their owner's rights, so
+-- this is readable even though the table isn't.
+CREATE OR REPLACE VIEW public_tips AS
+SELECT
+  id,
+  profile_id,
+  CASE WHEN show_name THEN donor_name END AS donor_name,
+  amount,
+  currency,
+  message,
+  pinned_at,
+  created_at
+FROM tips
+WHERE payment_status = 'completed'
+  AND is_hidden = false;
+
+GRANT SELECT ON public_tips TO anon, authenticated;
+
+-- ROLLBACK:
+-- DROP VIEW IF EXISTS public_tips;
+-- DROP POLICY IF EXISTS "Anyone can create pending tips" ON tips;
+-- CREATE POLICY "Anyone can create tips" ON tips FOR INSERT WITH CHECK (true);
+-- DROP POLICY IF EXISTS "Profile members can view their tips" ON tips;
+-- GRANT SELECT ON tips TO anon, authenticated;
+-- CREATE POLICY "Tips are viewable by everyone" ON tips FOR SELECT USING (true);
+-- DROP INDEX IF EXISTS idx_tips_pinned_at;
+-- ALTER TABLE tips ALTER COLUMN donor_name SET NOT NULL;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS pinned_at;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS is_hidden;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS donor_email;
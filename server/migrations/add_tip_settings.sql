@@ -0,0 +1,22 @@
+-- ==========================================
+-- MIGRATION: Tip presets and "cover the fees"
+-- ==========================================
+-- Profiles choose the preset tip amounts shown on their tip wall. Tip amounts
+-- are validated by the server against per-currency limits, and fans can add
+-- an estimate of the card fee on top so the artist receives the full tip.
+-- The amount recorded for a tip is the one Stripe charged, not what the
+-- browser sent.
+
+-- Step 1: Preset amounts per profile, in minor units of the payout currency.
+-- NULL means the defaults for the currency.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS tip_presets BIGINT[];
+
+-- Step 2: The fee a fan chose to cover, charged on top of the tip
+ALTER TABLE tips
+ADD COLUMN IF NOT EXISTS cover_fees BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS fee_amount BIGINT NOT NULL DEFAULT 0; -- in minor units
+
+-- ROLLBACK:
+-- ALTER TABLE tips DROP COLUMN IF EXISTS fee_amount;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS cover_fees;
+-- ALTER TABLE profiles DROP COLUMN IF EXISTS tip_presets;
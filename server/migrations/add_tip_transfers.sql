@@ -0,0 +1,34 @@
+-- ==========================================
+-- MIGRATION: Per-member transfers for band tips
+-- ==========================================
+-- Band tips are split at payment time: each member with a connected Stripe
+-- account receives their revenue_share as a transfer from the tip's charge.
+-- One row per tip and member records the transfer that was made.
+
+-- Step 1: Create tip_transfers table
+CREATE TABLE IF NOT EXISTS tip_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tip_id UUID NOT NULL REFERENCES tips(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_transfer_id TEXT NOT NULL UNIQUE,
+  stripe_connect_account_id TEXT NOT NULL,
+  transfer_group TEXT NOT NULL,
+  amount BIGINT NOT NULL CHECK (amount > 0), -- in minor units
+  currency TEXT NOT NULL,
+  revenue_share DECIMAL(5,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(tip_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tip_transfers_user_id ON tip_transfers(user_id);
+CREATE INDEX IF NOT EXISTS idx_tip_transfers_profile_id ON tip_transfers(profile_id);
+
+-- Step 2: Enable RLS (rows are only written by the server with the service role)
+ALTER TABLE tip_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tip transfers" ON tip_transfers
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ROLLBACK:
+-- DROP TABLE IF EXISTS tip_transfers;
@@ -0,0 +1,106 @@
+-- ==========================================
+-- MIGRATION: Append-only wallet ledger
+-- ==========================================
+-- Every movement of money in or out of a user's wallet is recorded as a
+-- credit or debit entry keyed by the tip, order, withdrawal or refund that
+-- caused it. The unique key makes replaying the same event a no-op, and the
+-- balance is computed from the ledger instead of read-modify-write updates.
+
+-- Step 1: Create wallet_ledger table
+CREATE TABLE IF NOT EXISTS wallet_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('credit', 'debit')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  source_type TEXT NOT NULL CHECK (source_type IN ('tip', 'order', 'withdrawal', 'refund', 'opening_balance')),
+  source_id TEXT NOT NULL,
+  profile_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, source_type, source_id, entry_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_user_id ON wallet_ledger(user_id);
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_source ON wallet_ledger(source_type, source_id);
+
+-- Step 2: Enable RLS (entries are only written by the server with the service role)
+ALTER TABLE wallet_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ledger entries" ON wallet_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Step 3: Ledger entries are append-only
+CREATE OR REPLACE FUNCTION prevent_wallet_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'wallet_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_wallet_ledger_append_only ON wallet_ledger;
+CREATE TRIGGER trigger_wallet_ledger_append_only
+BEFORE UPDATE OR DELETE ON wallet_ledger
+FOR EACH ROW
+EXECUTE FUNCTION prevent_wallet_ledger_changes();
+
+-- Step 4: Balance computed from the ledger
+CREATE OR REPLACE VIEW wallet_balances AS
+SELECT
+  user_id,
+  COALESCE(SUM(CASE WHEN entry_type = 'credit' THEN amount ELSE -amount END), 0)::DECIMAL(10,2) AS balance
+FROM wallet_ledger
+GROUP BY user_id;
+
+-- Step 5: Keep user_wallets.saldo in sync as a cached balance for the client.
+-- The increment happens in a single statement, so concurrent entries can't lose updates.
+CREATE OR REPLACE FUNCTION apply_wallet_ledger_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta DECIMAL(10,2) := CASE WHEN NEW.entry_type = 'credit' THEN NEW.amount ELSE -NEW.amount END;
+BEGIN
+  INSERT INTO user_wallets (user_id, saldo)
+  VALUES (NEW.user_id, delta)
+  ON CONFLICT (user_id) DO UPDATE
+  SET saldo = user_wallets.saldo + delta,
+      updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_apply_wallet_ledger_entry ON wallet_ledger;
+CREATE TRIGGER trigger_apply_wallet_ledger_entry
+AFTER INSERT ON wallet_ledger
+FOR EACH ROW
+EXECUTE FUNCTION apply_wallet_ledger_entry();
+
+-- Step 6: Wallets are no longer written directly
+DROP TRIGGER IF EXISTS trigger_update_wallet ON profiles;
+DROP FUNCTION IF EXISTS update_user_wallet_on_profile_change();
+DROP POLICY IF EXISTS "Users can update their own wallet" ON user_wallets;
+
+-- Step 7: Carry over existing balances as opening entries.
+-- Disable the sync trigger so the existing saldo isn't counted twice.
+ALTER TABLE wallet_ledger DISABLE TRIGGER trigger_apply_wallet_ledger_entry;
+
+INSERT INTO wallet_ledger (user_id, entry_type, amount, source_type, source_id, description)
+SELECT
+  w.user_id,
+  CASE WHEN w.saldo >= 0 THEN 'credit' ELSE 'debit' END,
+  ABS(w.saldo),
+  'opening_balance',
+  w.id::TEXT,
+  'Balance before ledger was introduced'
+FROM user_wallets w
+WHERE COALESCE(w.saldo, 0) <> 0
+ON CONFLICT (user_id, source_type, source_id, entry_type) DO NOTHING;
+
+ALTER TABLE wallet_ledger ENABLE TRIGGER trigger_apply_wallet_ledger_entry;
+
+-- ROLLBACK:
+-- DROP TRIGGER IF EXISTS trigger_apply_wallet_ledger_entry ON wallet_ledger;
+-- DROP FUNCTION IF EXISTS apply_wallet_ledger_entry();
+-- DROP VIEW IF EXISTS wallet_balances;
+-- DROP TRIGGER IF EXISTS trigger_wallet_ledger_append_only ON wallet_ledger;
+-- DROP FUNCTION IF EXISTS prevent_wallet_ledger_changes();
+-- DROP TABLE IF EXISTS wallet_ledger;
@@ -0,0 +1,124 @@
+-- ==========================================
+-- MIGRATION: Withdrawal holds and atomic approval
+-- ==========================================
+-- A pending withdrawal holds its amount: the wallet can't be withdrawn past
+-- its balance minus the amounts already requested. Approving a withdrawal
+-- moves the hold to a ledger debit in one transaction, and its payout is
+-- claimed before the transfer is created, so a withdrawal is never approved
+-- or paid twice.
+
+-- Step 1: The wallet a withdrawal is paid out of, and when its payout started
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id);
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS payout_started_at TIMESTAMP WITH TIME ZONE;
+
+-- Withdrawals have always been paid out of the profile owner's wallet
+UPDATE withdrawals w
+SET user_id = p.user_id
+FROM profiles p
+WHERE p.id = w.profile_id AND w.user_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_withdrawals_pending_holds
+ON withdrawals(user_id, currency) WHERE status = 'pending';
+
+-- A transfer pays exactly one withdrawal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawals_stripe_transfer_id
+ON withdrawals(stripe_transfer_id) WHERE stripe_transfer_id IS NOT NULL;
+
+-- Step 2: Balances with the amounts held by pending withdrawals.
+-- security_invoker makes the view respect RLS, so users only see their own.
+CREATE OR REPLACE VIEW wallet_available_balances WITH (security_invoker = true) AS
+SELECT
+  b.user_id,
+  b.currency,
+  b.balance,
+  COALESCE(h.held, 0)::BIGINT AS held,
+  (b.balance - COALESCE(h.held, 0))::BIGINT AS available
+FROM wallet_balances b
+LEFT JOIN (
+  SELECT user_id, currency, SUM(amount) AS held
+  FROM withdrawals
+  WHERE status = 'pending'
+  GROUP BY user_id, currency
+) h ON h.user_id = b.user_id AND h.currency = b.currency;
+
+-- Step 3: Request a withdrawal, holding its amount.
+-- Takes the same per-user lock as check_withdrawal_balance, so concurrent
+-- requests can't both be covered by the same balance.
+CREATE OR REPLACE FUNCTION request_withdrawal(p_profile_id UUID, p_user_id UUID, p_amount BIGINT, p_currency TEXT)
+RETURNS SETOF withdrawals AS $$
+DECLARE
+  current_balance BIGINT;
+  held BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::TEXT));
+
+  SELECT COALESCE(SUM(CASE WHEN entry_type = 'credit' THEN amount ELSE -amount END), 0)
+  INTO current_balance
+  FROM wallet_ledger
+  WHERE user_id = p_user_id AND currency = p_currency;
+
+  SELECT COALESCE(SUM(amount), 0)
+  INTO held
+  FROM withdrawals
+  WHERE user_id = p_user_id AND currency = p_currency AND status = 'pending';
+
+  IF current_balance - held < p_amount THEN
+    RAISE EXCEPTION 'insufficient_wallet_balance: available % %, withdrawal % %',
+      current_balance - held, p_currency, p_amount, p_currency
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO withdrawals (profile_id, user_id, amount, currency, status)
+  VALUES (p_profile_id, p_user_id, p_amount, p_currency, 'pending')
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 4: Approve a pending withdrawal: its hold is released and the wallet
+-- debited in the same transaction. The row lock means only one approval of a
+-- withdrawal gets past the status check; the others raise 'withdrawal_not_pending'
+-- (DETAIL = its status).
+CREATE OR REPLACE FUNCTION approve_withdrawal(p_withdrawal_id UUID, p_notes TEXT)
+RETURNS SETOF withdrawals AS $$
+DECLARE
+  withdrawal withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'withdrawal_not_found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF withdrawal.status <> 'pending' THEN
+    RAISE EXCEPTION 'withdrawal_not_pending'
+      USING ERRCODE = 'check_violation', DETAIL = withdrawal.status;
+  END IF;
+
+  -- check_withdrawal_balance rejects it if clawbacks left too little
+  INSERT INTO wallet_ledger (user_id, entry_type, amount, currency, source_type, source_id, profile_id, description)
+  VALUES (withdrawal.user_id, 'debit', withdrawal.amount, withdrawal.currency, 'withdrawal', withdrawal.id::TEXT, withdrawal.profile_id, 'Withdrawal approved');
+
+  RETURN QUERY
+  UPDATE withdrawals
+  SET status = 'approved',
+      processed_at = NOW(),
+      notes = p_notes,
+      updated_at = NOW()
+  WHERE id = p_withdrawal_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Withdrawals are only requested and approved through the server
+REVOKE EXECUTE ON FUNCTION request_withdrawal(UUID, UUID, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION approve_withdrawal(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ROLLBACK:
+-- DROP FUNCTION IF EXISTS approve_withdrawal(UUID, TEXT);
+-- DROP FUNCTION IF EXISTS request_withdrawal(UUID, UUID, BIGINT, TEXT);
+-- DROP VIEW IF EXISTS wallet_available_balances;
+-- DROP INDEX IF EXISTS idx_withdrawals_stripe_transfer_id;
+-- DROP INDEX IF EXISTS idx_withdrawals_pending_holds;
+-- ALTER TABLE withdrawals DROP COLUMN IF EXISTS payout_started_at;
+-- ALTER TABLE withdrawals DROP COLUMN IF EXISTS user_id;
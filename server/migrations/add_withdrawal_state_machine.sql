@@ -0,0 +1,93 @@
+-- ==========================================
+-- MIGRATION: Withdrawal state machine and payout reconciliation
+-- ==========================================
+-- A withdrawal only moves along these transitions:
+--
+--   pending  -> approved | rejected
+--   approved -> completed | failed
+--   completed -> failed   (a bank can return a payout after it was paid)
+--
+-- Stripe's payout.paid and payout.failed events complete or fail approved
+-- withdrawals, and a nightly job reconciles withdrawals against Stripe's
+-- payouts in case an event was missed. A failed withdrawal's transfer is
+-- reversed and its amount credited back to the wallet.
+
+-- Step 1: Statuses
+ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_status_check;
+ALTER TABLE withdrawals ADD CONSTRAINT withdrawals_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'completed', 'failed'));
+
+-- Step 2: The reversal of a failed withdrawal's transfer
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS stripe_reversal_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_withdrawals_stripe_payout_id ON withdrawals(stripe_payout_id);
+
+-- Step 3: Reject any other status change
+CREATE OR REPLACE FUNCTION check_withdrawal_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected')) OR
+    (OLD.status = 'approved' AND NEW.status IN ('completed', 'failed')) OR
+    (OLD.status = 'completed' AND NEW.status = 'failed')
+  ) THEN
+    RAISE EXCEPTION 'invalid_withdrawal_transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation', DETAIL = OLD.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_withdrawal_transition ON withdrawals;
+CREATE TRIGGER trigger_check_withdrawal_transition
+BEFORE UPDATE OF status ON withdrawals
+FOR EACH ROW
+EXECUTE FUNCTION check_withdrawal_transition();
+
+-- Step 4: Fail a paid-out withdrawal and credit its amount back, in one
+-- transaction. The credit is keyed by the withdrawal, so it's only made once.
+CREATE OR REPLACE FUNCTION fail_withdrawal(p_withdrawal_id UUID, p_error TEXT)
+RETURNS SETOF withdrawals AS $$
+DECLARE
+  withdrawal withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO withdrawal FROM withdrawals WHERE id = p_withdrawal_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'withdrawal_not_found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF withdrawal.status = 'failed' THEN
+    RETURN NEXT withdrawal;
+    RETURN;
+  END IF;
+
+  INSERT INTO wallet_ledger (user_id, entry_type, amount, currency, source_type, source_id, profile_id, description)
+  VALUES (withdrawal.user_id, 'credit', withdrawal.amount, withdrawal.currency, 'withdrawal', withdrawal.id::TEXT, withdrawal.profile_id, 'Withdrawal payout failed')
+  ON CONFLICT (user_id, source_type, source_id, entry_type) DO NOTHING;
+
+  -- check_withdrawal_transition rejects this unless it was approved or completed
+  RETURN QUERY
+  UPDATE withdrawals
+  SET status = 'failed',
+      payout_error = p_error,
+      updated_at = NOW()
+  WHERE id = p_withdrawal_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION fail_withdrawal(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ROLLBACK:
+-- DROP FUNCTION IF EXISTS fail_withdrawal(UUID, TEXT);
+-- DROP TRIGGER IF EXISTS trigger_check_withdrawal_transition ON withdrawals;
+-- DROP FUNCTION IF EXISTS check_withdrawal_transition();
+-- DROP INDEX IF EXISTS idx_withdrawals_stripe_payout_id;
+-- ALTER TABLE withdrawals DROP COLUMN IF EXISTS stripe_reversal_id;
+-- ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_status_check;
@@ -0,0 +1,59 @@
+-- ==========================================
+-- MIGRATION: Integer minor-unit money and a single currency model
+-- ==========================================
+-- All amounts are stored as integers in the currency's minor unit (öre, cents)
+-- next to an ISO 4217 currency code, matching orders.total_amount.
+-- Tips are charged in the payout currency of the profile, wallets keep one
+-- balance per currency and withdrawals are paid out in their own currency.
+
+-- Step 1: Explicit payout currency per profile
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS payout_currency TEXT NOT NULL DEFAULT 'SEK'
+  CHECK (payout_currency IN ('SEK', 'NOK', 'DKK', 'EUR', 'USD'));
+
+-- Step 2: Tips (were DECIMAL dollars, always charged in USD)
+ALTER TABLE tips ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE tips ALTER COLUMN amount TYPE BIGINT USING ROUND(amount * 100);
+ALTER TABLE tips ALTER COLUMN currency SET DEFAULT 'SEK';
+
+-- Step 3: Orders already store total_amount in minor units, normalize the currency code
+UPDATE orders SET currency = UPPER(currency) WHERE currency <> UPPER(currency);
+
+-- Step 4: Withdrawals (were DECIMAL SEK)
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'SEK';
+ALTER TABLE withdrawals ALTER COLUMN amount TYPE BIGINT USING ROUND(amount * 100);
+
+-- Step 5: Wallet ledger. Existing balances were shown and paid out as SEK,
+-- so existing entries are carried over as SEK.
+DROP VIEW IF EXISTS wallet_balances;
+
+ALTER TABLE wallet_ledger DISABLE TRIGGER trigger_wallet_ledger_append_only;
+ALTER TABLE wallet_ledger ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'SEK';
+ALTER TABLE wallet_ledger ALTER COLUMN amount TYPE BIGINT USING ROUND(amount * 100);
+ALTER TABLE wallet_ledger ALTER COLUMN currency DROP DEFAULT;
+ALTER TABLE wallet_ledger ENABLE TRIGGER trigger_wallet_ledger_append_only;
+
+-- Step 6: One balance per user and currency, computed from the ledger.
+-- security_invoker makes the view respect the ledger's RLS, so users only see their own balances.
+CREATE VIEW wallet_balances WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  currency,
+  COALESCE(SUM(CASE WHEN entry_type = 'credit' THEN amount ELSE -amount END), 0)::BIGINT AS balance
+FROM wallet_ledger
+GROUP BY user_id, currency;
+
+-- Step 7: user_wallets.saldo can't represent several currencies; balances are read
+-- from wallet_balances instead, so stop syncing the old column.
+DROP TRIGGER IF EXISTS trigger_apply_wallet_ledger_entry ON wallet_ledger;
+DROP FUNCTION IF EXISTS apply_wallet_ledger_entry();
+COMMENT ON COLUMN user_wallets.saldo IS 'Deprecated: read balances from wallet_balances';
+
+-- ROLLBACK:
+-- DROP VIEW IF EXISTS wallet_balances;
+-- ALTER TABLE wallet_ledger ALTER COLUMN amount TYPE DECIMAL(10,2) USING amount / 100.0;
+-- ALTER TABLE wallet_ledger DROP COLUMN IF EXISTS currency;
+-- ALTER TABLE withdrawals ALTER COLUMN amount TYPE DECIMAL(10,2) USING amount / 100.0;
+-- ALTER TABLE withdrawals DROP COLUMN IF EXISTS currency;
+-- ALTER TABLE tips ALTER COLUMN amount TYPE DECIMAL(10,2) USING amount / 100.0;
+-- ALTER TABLE tips DROP COLUMN IF EXISTS currency;
+-- ALTER TABLE profiles DROP COLUMN IF EXISTS payout_currency;
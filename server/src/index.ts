@@ -5,8 +5,22 @@ dotenv.config();
 import express from 'express';
 import { productRouter } from './routes/productRoutes'; // Import the product router
 import { checkoutRouter } from './routes/checkoutRoutes'; // Import the new checkout router
+import { webhookRouter } from './routes/webhookRoutes'; // Import the Stripe webhook router
 import { withdrawalRouter } from './routes/withdrawalRoutes'; // Import the withdrawal router
 import inviteRouter from './routes/inviteRoutes'; // Import the invite router
+import { connectRouter } from './routes/connectRoutes'; // Import the Stripe Connect router
+import { refundRouter } from './routes/refundRoutes'; // Import the refund router
+import { orderRouter } from './routes/orderRoutes'; // Import the order fulfilment router
+import { downloadRouter } from './routes/downloadRoutes'; // Import the digital download router
+import { subscriptionRouter } from './routes/subscriptionRoutes'; // Import the patron subscription router
+import { tipRouter } from './routes/tipRoutes'; // Import the tip settings and receipt router
+import { campaignRouter } from './routes/campaignRoutes'; // Import the tip campaign router
+import { eventTipRouter } from './routes/eventTipRoutes'; // Import the event tip report router
+import { qrCodeRouter } from './routes/qrCodeRoutes'; // Import the QR code router
+import { adminRouter } from './routes/adminRoutes'; // Import the platform admin router
+import { closeCampaigns } from './services/campaignService';
+import { reconcilePayouts } from './services/withdrawalService';
+import { runScheduledPayouts } from './services/payoutScheduleService';
 
 
 const app = express();
@@ -21,6 +35,9 @@ const corsOptions = {
 // Apply CORS middleware
 app.use(cors(corsOptions));
 // --- Middleware ---
+// The Stripe webhook needs the raw body for signature verification,
+// so it is registered before the JSON body parser.
+app.use('/api/checkout', webhookRouter);
 app.use(express.json()); // For parsing application/json bodies
 
 // --- Routes ---
@@ -31,13 +48,70 @@ app.get('/health', (req, res) => {
 
 // Register your product routes under the `/api` namespace.
 // All routes in `productRouter` will be prefixed with `/api`.
-// Example: GET /api/products
+// Example: GET /api/profiles/:id/products
 app.use('/api', productRouter);
+app.use('/api', orderRouter); // Register the order fulfilment routes
+app.use('/api', subscriptionRouter); // Register the patron subscription routes
+app.use('/api', tipRouter); // Register the tip settings and receipt routes
+app.use('/api', campaignRouter); // Register the tip campaign routes
+app.use('/api', eventTipRouter); // Register the event tip report routes
+app.use('/api', qrCodeRouter); // Register the QR code routes
 app.use('/api/checkout', checkoutRouter); // Register the checkout routes
 app.use('/api/withdrawals', withdrawalRouter); // Register the withdrawal routes
 app.use('/api/invites', inviteRouter); // Register the invite routes
+app.use('/api/connect', connectRouter); // Register the Stripe Connect onboarding routes
+app.use('/api/refunds', refundRouter); // Register the admin refund routes
+app.use('/api/admin', adminRouter); // Register the platform admin routes
+app.use('/api/downloads', downloadRouter); // Register the digital download routes
+
+// --- Background Jobs ---
+// Close campaigns whose deadline has passed and send their summaries
+const CAMPAIGN_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+function sweepCampaigns() {
+  closeCampaigns().catch((error) => console.error('Error closing expired campaigns:', error));
+}
+
+// Compare withdrawals with Stripe's payouts every night, in case a payout webhook was missed
+const PAYOUT_RECONCILIATION_HOUR = 3; // server local time
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function reconcileWithdrawalPayouts() {
+  reconcilePayouts()
+    .then(({ checked, updated, mismatches }) => {
+      console.log(`Reconciled ${checked} withdrawals with Stripe payouts, ${updated} updated`);
+      mismatches.forEach((mismatch) => console.warn(`Payout mismatch: ${mismatch}`));
+    })
+    .catch((error) => console.error('Error reconciling withdrawal payouts:', error));
+}
+
+function msUntilNextReconciliation(): number {
+  const next = new Date();
+  next.setHours(PAYOUT_RECONCILIATION_HOUR, 0, 0, 0);
+  if (next.getTime() <= Date.now()) next.setDate(next.getDate() + 1);
+  return next.getTime() - Date.now();
+}
+
+// Request (and, within the auto-approve limits, pay out) scheduled withdrawals once they're due
+const SCHEDULED_PAYOUT_INTERVAL_MS = 60 * 60 * 1000;
+
+function runPayoutSchedules() {
+  runScheduledPayouts()
+    .then(({ created, approved }) => {
+      if (created > 0) console.log(`Scheduled payouts: ${created} withdrawals requested, ${approved} approved automatically`);
+    })
+    .catch((error) => console.error('Error running scheduled payouts:', error));
+}
 
 // --- Server Activation ---
 app.listen(PORT, () => {
   console.log(`🚀 Server is running and listening on http://localhost:${PORT}`);
+  sweepCampaigns();
+  setInterval(sweepCampaigns, CAMPAIGN_SWEEP_INTERVAL_MS);
+  runPayoutSchedules();
+  setInterval(runPayoutSchedules, SCHEDULED_PAYOUT_INTERVAL_MS);
+  setTimeout(() => {
+    reconcileWithdrawalPayouts();
+    setInterval(reconcileWithdrawalPayouts, DAY_MS);
+  }, msUntilNextReconciliation());
 });
@@ -0,0 +1,98 @@
+/**
+ * Money is always handled as an integer amount in the currency's minor unit
+ * (öre, cents) together with its ISO 4217 currency code.
+ *
+ * Conversion rules:
+ * - A tip or order is charged in the payout currency of the profile it is for,
+ *   so money never changes currency between payment and the artist's wallet.
+ * - Wallets keep one balance per currency; a withdrawal draws from the balance
+ *   in its own currency and is paid out in that same currency.
+ * - Amounts in different currencies are never added or compared implicitly,
+ *   any attempt throws a CurrencyMismatchError.
+ */
+
+export const SUPPORTED_CURRENCIES = ['SEK', 'NOK', 'DKK', 'EUR', 'USD'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'SEK';
+
+export interface Money {
+  amount: number; // integer, in minor units
+  currency: CurrencyCode;
+}
+
+export class CurrencyMismatchError extends Error {
+  constructor(expected: CurrencyCode, actual: CurrencyCode) {
+    super(`Currency mismatch: expected ${expected}, got ${actual}`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+export function isSupportedCurrency(currency: unknown): currency is CurrencyCode {
+  return typeof currency === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(currency.toUpperCase());
+}
+
+/**
+ * Normalize a currency code (Stripe uses lowercase) to a supported currency
+ */
+export function toCurrencyCode(currency: string | null | undefined): CurrencyCode {
+  if (!isSupportedCurrency(currency)) {
+    throw new Error(`Unsupported currency: ${currency}`);
+  }
+  return currency.toUpperCase() as CurrencyCode;
+}
+
+/**
+ * Create a Money value, rejecting fractional minor units
+ */
+export function money(amount: number, currency: string): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new Error(`Money amounts must be integers in minor units, got ${amount}`);
+  }
+  return { amount, currency: toCurrencyCode(currency) };
+}
+
+export function assertSameCurrency(a: Money, b: Money) {
+  if (a.currency !== b.currency) {
+    throw new CurrencyMismatchError(a.currency, b.currency);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+/**
+ * Split an amount by percentages (0-100) without losing minor units.
+ * Each part is rounded down and the remainder goes to the first part, so
+ * callers control who absorbs rounding by ordering the shares.
+ * Percentages adding up to more than 100 are scaled down proportionally,
+ * since more than the total can never be paid out.
+ */
+export function splitMoney(total: Money, percentages: number[]): Money[] {
+  const totalPercentage = percentages.reduce((sum, percentage) => sum + Number(percentage), 0);
+  const scale = totalPercentage > 100 ? 100 / totalPercentage : 1;
+  const target = Math.round((total.amount * Math.min(100, totalPercentage)) / 100);
+  const parts = percentages.map((percentage) => Math.floor((total.amount * Number(percentage) * scale) / 100));
+  const allocated = parts.reduce((sum, part) => sum + part, 0);
+
+  if (parts.length > 0) {
+    parts[0] += target - allocated;
+  }
+
+  return parts.map((amount) => ({ amount, currency: total.currency }));
+}
+
+/**
+ * Format for logs and error messages, e.g. "50.00 SEK"
+ */
+export function formatMoney(value: Money): string {
+  return `${(value.amount / 100).toFixed(2)} ${value.currency}`;
+}
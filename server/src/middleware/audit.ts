@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditAction, AuditTargetType, recordAuditEvent } from '../services/auditService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by route handlers to describe the change they made
+      audit?: {
+        targetId?: string | null;
+        before?: unknown;
+        after?: unknown;
+      };
+    }
+  }
+}
+
+/**
+ * Record an audit event once the request has succeeded. Handlers describe
+ * the change by setting `req.audit`; failed requests changed nothing, so
+ * they aren't recorded. Use after verifyAuth.
+ */
+export function audit(action: AuditAction, targetType: AuditTargetType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.on('finish', () => {
+      if (res.statusCode >= 400) return;
+
+      recordAuditEvent({
+        actorId: req.user?.id ?? null,
+        actorEmail: req.user?.email ?? null,
+        action,
+        targetType,
+        targetId: req.audit?.targetId,
+        before: req.audit?.before,
+        after: req.audit?.after,
+        ipAddress: req.ip
+      }).catch((err) => console.error(`Error recording audit event ${action}:`, err));
+    });
+
+    next();
+  };
+}
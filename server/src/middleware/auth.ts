@@ -70,3 +70,48 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
     next();
   }
 }
+
+/**
+ * Whether a user is a platform admin
+ */
+export async function isPlatformAdmin(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('platform_admins')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return !!data;
+}
+
+/**
+ * Get a user's role in a profile, or null if they aren't a member
+ */
+export async function getMemberRole(profileId: string, userId: string): Promise<string | null> {
+  const { data: member } = await supabase
+    .from('profile_members')
+    .select('role')
+    .eq('profile_id', profileId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return member?.role || null;
+}
+
+/**
+ * Only let platform admins through. Use after verifyAuth.
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user || !(await isPlatformAdmin(req.user.id))) {
+      return res.status(403).json({ message: 'Admin access required' });
+    }
+
+    next();
+  } catch (err) {
+    console.error('Admin check error:', err);
+    res.status(500).json({ message: 'Authentication failed' });
+  }
+}
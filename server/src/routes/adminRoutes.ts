@@ -0,0 +1,114 @@
+import { Router, Request, Response } from 'express';
+import { isPlatformAdmin, requireAdmin, verifyAuth } from '../middleware/auth';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_EXPORT_LIMIT,
+  AUDIT_TARGET_TYPES,
+  AuditAction,
+  AuditEventFilters,
+  AuditTargetType,
+  auditEventsToCsv,
+  listAuditEvents
+} from '../services/auditService';
+
+export const adminRouter = Router();
+
+/**
+ * GET /api/admin/me
+ *
+ * Whether the current user is a platform admin, so the client can show the
+ * admin pages. The admin routes check the role themselves.
+ */
+adminRouter.get('/me', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({ isAdmin: await isPlatformAdmin(req.user!.id) });
+  } catch (error) {
+    console.error('Error checking admin role:', error);
+    res.status(500).json({ message: 'Failed to check admin role' });
+  }
+});
+
+const AUDIT_PAGE_SIZE = 50;
+
+/**
+ * Read the audit log filters from the query string:
+ * `action`, `actor` (part of an email), `targetType`, `targetId`, `from` and `to`
+ */
+function parseAuditFilters(query: Request['query']): AuditEventFilters | string {
+  const filters: AuditEventFilters = {};
+  const param = (name: string) => (typeof query[name] === 'string' && query[name] ? query[name] as string : undefined);
+
+  const action = param('action');
+  if (action) {
+    if (!AUDIT_ACTIONS.includes(action as AuditAction)) return 'Unknown audit action';
+    filters.action = action as AuditAction;
+  }
+
+  const targetType = param('targetType');
+  if (targetType) {
+    if (!AUDIT_TARGET_TYPES.includes(targetType as AuditTargetType)) return 'Unknown target type';
+    filters.targetType = targetType as AuditTargetType;
+  }
+
+  for (const name of ['from', 'to'] as const) {
+    const value = param(name);
+    if (value) {
+      if (isNaN(Date.parse(value))) return `${name} must be a date`;
+      filters[name] = new Date(value).toISOString();
+    }
+  }
+
+  filters.actor = param('actor');
+  filters.targetId = param('targetId');
+
+  return filters;
+}
+
+/**
+ * GET /api/admin/audit-events
+ *
+ * Admin endpoint to page through the audit log, newest first.
+ * Takes the audit filters and `page` (from 1).
+ */
+adminRouter.get('/audit-events', verifyAuth, requireAdmin, async (req: Request, res: Response) => {
+  const filters = parseAuditFilters(req.query);
+
+  if (typeof filters === 'string') {
+    return res.status(400).json({ message: filters });
+  }
+
+  const page = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+
+  try {
+    const { events, total } = await listAuditEvents(filters, AUDIT_PAGE_SIZE, (page - 1) * AUDIT_PAGE_SIZE);
+    res.status(200).json({ events, total, page, pageSize: AUDIT_PAGE_SIZE });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    res.status(500).json({ message: 'Failed to fetch audit events' });
+  }
+});
+
+/**
+ * GET /api/admin/audit-events/export
+ *
+ * Admin endpoint to download the audit events matching the filters as CSV,
+ * up to AUDIT_EXPORT_LIMIT of the newest
+ */
+adminRouter.get('/audit-events/export', verifyAuth, requireAdmin, async (req: Request, res: Response) => {
+  const filters = parseAuditFilters(req.query);
+
+  if (typeof filters === 'string') {
+    return res.status(400).json({ message: filters });
+  }
+
+  try {
+    const { events } = await listAuditEvents(filters, AUDIT_EXPORT_LIMIT);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-events-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.status(200).send(auditEventsToCsv(events));
+  } catch (error) {
+    console.error('Error exporting audit events:', error);
+    res.status(500).json({ message: 'Failed to export audit events' });
+  }
+});
@@ -0,0 +1,159 @@
+import { Router, Request, Response } from 'express';
+import { getMemberRole, verifyAuth } from '../middleware/auth';
+import {
+  CampaignClosedError,
+  CampaignInput,
+  CampaignLimitError,
+  MAX_CAMPAIGN_TITLE_LENGTH,
+  closeCampaigns,
+  createCampaign,
+  getCampaign,
+  getProfileCampaigns,
+  updateCampaign
+} from '../services/campaignService';
+
+export const campaignRouter = Router();
+
+/**
+ * Check the campaign fields present in a request body.
+ * Returns an error message, or null when they're fine.
+ */
+function validateCampaignInput({ title, description, targetAmount, deadline }: CampaignInput): string | null {
+  if (title !== undefined && (typeof title !== 'string' || !title.trim() || title.trim().length > MAX_CAMPAIGN_TITLE_LENGTH)) {
+    return `Give the campaign a title of at most ${MAX_CAMPAIGN_TITLE_LENGTH} characters`;
+  }
+
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return 'description must be text';
+  }
+
+  if (targetAmount !== undefined && (!Number.isInteger(targetAmount) || targetAmount <= 0)) {
+    return 'targetAmount must be a positive integer in minor units';
+  }
+
+  if (deadline !== undefined && (typeof deadline !== 'string' || Number.isNaN(Date.parse(deadline)))) {
+    return 'deadline must be a date';
+  }
+
+  if (deadline !== undefined && new Date(deadline) <= new Date()) {
+    return 'The deadline must be in the future';
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/profiles/:id/campaigns
+ *
+ * Get a profile's active campaigns with their progress, and the summaries
+ * of campaigns that closed in the last 30 days
+ */
+campaignRouter.get('/profiles/:id/campaigns', async (req: Request, res: Response) => {
+  try {
+    const campaigns = await getProfileCampaigns(req.params.id);
+    res.status(200).json(campaigns);
+  } catch (error) {
+    console.error('Error fetching campaigns:', error);
+    res.status(500).json({ message: 'Failed to fetch campaigns' });
+  }
+});
+
+/**
+ * POST /api/profiles/:id/campaigns
+ *
+ * Start a campaign on a profile (owners and admins only):
+ * `{ title, description?, targetAmount, deadline }`. The target is in minor
+ * units of the profile's payout currency.
+ */
+campaignRouter.post('/profiles/:id/campaigns', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { title, description, targetAmount, deadline } = req.body;
+
+  if (title === undefined || targetAmount === undefined || deadline === undefined) {
+    return res.status(400).json({ message: 'Missing required fields: title, targetAmount, deadline' });
+  }
+
+  const validationError = validateCampaignInput({ title, description, targetAmount, deadline });
+
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage campaigns for this profile' });
+    }
+
+    const campaign = await createCampaign(id, {
+      title: title.trim(),
+      description: description?.trim() || null,
+      targetAmount,
+      deadline
+    });
+
+    res.status(201).json(campaign);
+  } catch (error) {
+    if (error instanceof CampaignLimitError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    console.error('Error creating campaign:', error);
+    res.status(500).json({ message: 'Failed to create campaign' });
+  }
+});
+
+/**
+ * PATCH /api/profiles/:id/campaigns/:campaignId
+ *
+ * Edit an active campaign (owners and admins only), or end it before its
+ * deadline with `{ status: 'closed' }`. Closed campaigns can't be edited.
+ */
+campaignRouter.patch('/profiles/:id/campaigns/:campaignId', verifyAuth, async (req: Request, res: Response) => {
+  const { id, campaignId } = req.params;
+  const { title, description, targetAmount, deadline, status } = req.body;
+
+  if (status !== undefined && status !== 'closed') {
+    return res.status(400).json({ message: "status can only be set to 'closed'" });
+  }
+
+  const validationError = validateCampaignInput({ title, description, targetAmount, deadline });
+
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage campaigns for this profile' });
+    }
+
+    let campaign = await updateCampaign(id, campaignId, {
+      title: title?.trim(),
+      description: typeof description === 'string' ? description.trim() : description,
+      targetAmount,
+      deadline
+    });
+
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    if (status === 'closed') {
+      await closeCampaigns(campaignId);
+      campaign = await getCampaign(id, campaignId);
+    }
+
+    res.status(200).json(campaign);
+  } catch (error) {
+    if (error instanceof CampaignClosedError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    console.error('Error updating campaign:', error);
+    res.status(500).json({ message: 'Failed to update campaign' });
+  }
+});
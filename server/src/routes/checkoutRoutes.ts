@@ -1,17 +1,102 @@
+import { randomUUID } from 'crypto';
 import { Router, Request, Response } from 'express';
+import Stripe from 'stripe';
 import { stripe } from '../services/stripe';
 import { supabase } from '../lib/supabase';
+import { DEFAULT_CURRENCY, money, toCurrencyCode } from '../lib/money';
+import {
+  MAX_TIP_MESSAGE_LENGTH,
+  calculateCoverFee,
+  filterTipText,
+  getReceiptUrl,
+  validateTipAmount
+} from '../services/tipService';
+import { getVariantLabel } from '../services/productService';
+import { validateTipCampaign } from '../services/campaignService';
+import { validateTipEvent } from '../services/eventTipService';
+import {
+  InsufficientStockError,
+  RESERVATION_MINUTES,
+  ReservationItem,
+  releaseReservation,
+  reserveStock
+} from '../services/inventoryService';
+import { FulfilmentMethod, getPickupEvents } from '../services/orderService';
+import { verifyAuth } from '../middleware/auth';
+import {
+  LIVE_SUBSCRIPTION_STATUSES,
+  getProfileTier,
+  getUserStripeCustomerId
+} from '../services/subscriptionService';
 
 export const checkoutRouter = Router();
 
+// Stripe allows at most 100 line items per Checkout session
+const MAX_CART_LINES = 100;
+const MAX_LINE_QUANTITY = 99;
+
+// Where merch can be shipped; everyone else can pick up at a gig
+const SHIPPING_COUNTRIES: Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[] = [
+  'SE', 'NO', 'DK', 'FI', 'IS', 'DE', 'NL', 'BE', 'FR', 'AT', 'IE', 'ES', 'PT', 'IT', 'PL', 'GB', 'US'
+];
+
+interface CartItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+/**
+ * Validate cart lines and merge duplicates of the same product and variant
+ */
+function parseCartItems(items: unknown): CartItem[] | null {
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_CART_LINES) {
+    return null;
+  }
+
+  const merged = new Map<string, CartItem>();
+
+  for (const item of items) {
+    if (!item || typeof item.productId !== 'string' || !Number.isInteger(item.quantity) || item.quantity < 1) {
+      return null;
+    }
+
+    if (item.variantId !== undefined && item.variantId !== null && typeof item.variantId !== 'string') {
+      return null;
+    }
+
+    const key = `${item.productId}:${item.variantId || ''}`;
+    const existing = merged.get(key);
+
+    merged.set(key, {
+      productId: item.productId,
+      ...(item.variantId && { variantId: item.variantId }),
+      quantity: (existing?.quantity || 0) + item.quantity
+    });
+  }
+
+  return [...merged.values()];
+}
+
 /**
  * POST /api/checkout/create-session
  *
- * Creates a Stripe Checkout session for a given price ID.
+ * Creates a Stripe Checkout session for a tip, or for a cart of the profile's
+ * products. Tips are `{ tipId, tipAmount, coverFees? }` for a pending tip row;
+ * the amount must be within the limits for the profile's currency, and with
+ * `coverFees` an estimate of the card fee is charged on top of it. With
+ * `campaignId` the tip counts towards one of the profile's active campaigns,
+ * and with `eventId` it's attributed to an event the profile performs at.
+ * The tip's name and message are filtered before anything is charged.
+ * Carts are `items: [{ productId, variantId?, quantity }]`. Prices and stock
+ * are checked against the database, never taken from the client, and the
+ * stock is reserved until the session completes or expires.
+ * Carts are shipped (Stripe collects the address) or picked up at one of the
+ * profile's upcoming events: `fulfilment: { method: 'shipping' | 'pickup', eventId? }`.
  * On success, returns the session URL for frontend redirection.
  */
 checkoutRouter.post('/create-session', async (req: Request, res: Response) => {
-  const { priceId, profileId, email, tipId, tipAmount } = req.body;
+  const { items, profileId, email, tipId, tipAmount, coverFees, campaignId, eventId, fulfilment } = req.body;
 
   if (!profileId) {
     return res.status(400).json({ statusCode: 400, message: 'Missing required parameter: profileId' });
@@ -24,8 +109,33 @@ checkoutRouter.post('/create-session', async (req: Request, res: Response) => {
   // Check if this is a tip payment or regular product purchase
   const isTipPayment = !!tipId && !!tipAmount;
   
-  if (!isTipPayment && !priceId) {
-    return res.status(400).json({ statusCode: 400, message: 'Missing required parameter: priceId' });
+  const cartItems = isTipPayment ? [] : parseCartItems(items);
+
+  if (!cartItems) {
+    return res.status(400).json({ statusCode: 400, message: 'items must be a non-empty list of { productId, quantity }' });
+  }
+
+  let fulfilmentMethod: FulfilmentMethod = fulfilment?.method || 'shipping';
+  const pickupEventId: string | undefined = fulfilment?.eventId;
+
+  if (!isTipPayment && fulfilmentMethod !== 'shipping' && fulfilmentMethod !== 'pickup') {
+    return res.status(400).json({ statusCode: 400, message: "fulfilment.method must be 'shipping' or 'pickup'" });
+  }
+
+  if (!isTipPayment && fulfilmentMethod === 'pickup' && !pickupEventId) {
+    return res.status(400).json({ statusCode: 400, message: 'Please choose the event to pick your order up at' });
+  }
+
+  if (isTipPayment && (!Number.isInteger(tipAmount) || tipAmount <= 0)) {
+    return res.status(400).json({ statusCode: 400, message: 'tipAmount must be a positive integer in minor units' });
+  }
+
+  if (isTipPayment && campaignId && typeof campaignId !== 'string') {
+    return res.status(400).json({ statusCode: 400, message: 'campaignId must be a campaign id' });
+  }
+
+  if (isTipPayment && eventId && typeof eventId !== 'string') {
+    return res.status(400).json({ statusCode: 400, message: 'eventId must be an event id' });
   }
 
   const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
@@ -35,30 +145,216 @@ checkoutRouter.post('/create-session', async (req: Request, res: Response) => {
 
   try {
     let lineItems;
+    let transferGroup: string | undefined;
+    let reservationItems: ReservationItem[] = [];
+    let reservationId: string | undefined;
+    let expiresAt: Date | undefined;
+    let feeAmount = 0;
 
     if (isTipPayment) {
+      // Tips are charged in the profile's payout currency so they never need converting
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('payout_currency')
+        .eq('id', profileId)
+        .single();
+
+      if (profileError || !profile) {
+        return res.status(404).json({ statusCode: 404, message: 'Profile not found' });
+      }
+
+      const currency = toCurrencyCode(profile.payout_currency || DEFAULT_CURRENCY);
+      const tip = money(tipAmount, currency);
+      const amountError = validateTipAmount(tip);
+
+      if (amountError) {
+        return res.status(400).json({ statusCode: 400, message: amountError });
+      }
+
+      const { data: tipRow, error: tipError } = await supabase
+        .from('tips')
+        .select('id, profile_id, payment_status, donor_name, message')
+        .eq('id', tipId)
+        .maybeSingle();
+
+      if (tipError) throw tipError;
+
+      if (!tipRow || tipRow.profile_id !== profileId || tipRow.payment_status !== 'pending') {
+        return res.status(404).json({ statusCode: 404, message: 'Tip not found' });
+      }
+
+      if (tipRow.message && tipRow.message.length > MAX_TIP_MESSAGE_LENGTH) {
+        return res.status(400).json({ statusCode: 400, message: `Messages can be at most ${MAX_TIP_MESSAGE_LENGTH} characters` });
+      }
+
+      if (campaignId) {
+        const campaignError = await validateTipCampaign(profileId, campaignId);
+
+        if (campaignError) {
+          return res.status(400).json({ statusCode: 400, message: campaignError });
+        }
+      }
+
+      if (eventId) {
+        const eventError = await validateTipEvent(eventId, profileId);
+
+        if (eventError) {
+          return res.status(400).json({ statusCode: 400, message: eventError });
+        }
+      }
+
+      feeAmount = coverFees === true ? calculateCoverFee(tip).amount : 0;
+
+      // The tip row was written by the browser, so store what will actually be
+      // charged and clean up what the tip wall will show
+      const { error: updateError } = await supabase
+        .from('tips')
+        .update({
+          donor_name: filterTipText(tipRow.donor_name),
+          message: filterTipText(tipRow.message),
+          amount: tip.amount,
+          currency: currency,
+          cover_fees: feeAmount > 0,
+          fee_amount: feeAmount,
+          campaign_id: campaignId || null,
+          event_id: eventId || null
+        })
+        .eq('id', tipId);
+
+      if (updateError) throw updateError;
+
+      // Band tips are split into per-member transfers when the payment completes
+      const { count: memberCount, error: membersError } = await supabase
+        .from('profile_members')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('profile_id', profileId);
+
+      if (membersError) throw membersError;
+
+      if ((memberCount || 0) > 1) {
+        transferGroup = `tip_${tipId}`;
+      }
+
       // For tips, create a custom line item
       lineItems = [
         {
           price_data: {
-            currency: 'usd',
+            currency: currency.toLowerCase(),
             product_data: {
               name: 'Support Artist Tip',
               description: 'Thank you for tipping this artist!'
             },
-            unit_amount: tipAmount, // already in cents
+            unit_amount: tip.amount, // already in minor units
           },
           quantity: 1,
         },
-      ];
-    } else {
-      // For regular products, use the price ID
-      lineItems = [
-        {
-          price: priceId,
+        ...(feeAmount > 0 ? [{
+          price_data: {
+            currency: currency.toLowerCase(),
+            product_data: {
+              name: 'Processing fee',
+              description: 'Covers the card fee so the artist gets your whole tip'
+            },
+            unit_amount: feeAmount,
+          },
           quantity: 1,
-        },
+        }] : []),
       ];
+    } else {
+      // Only the profile's own, active products can be bought from its shop
+      const { data: products, error: productsError } = await supabase
+        .from('products')
+        .select('id, name, type, status, stock, price, currency, stripe_price_id, variants:product_variants(id, size, color, stock)')
+        .eq('profile_id', profileId)
+        .in('id', cartItems.map((item) => item.productId));
+
+      if (productsError) throw productsError;
+
+      lineItems = [];
+      reservationItems = [];
+
+      for (const item of cartItems) {
+        const product = products?.find((p) => p.id === item.productId);
+
+        if (!product || product.status !== 'active' || !product.stripe_price_id) {
+          return res.status(404).json({ statusCode: 404, message: `Product ${item.productId} not found` });
+        }
+
+        // Products with variants are bought by variant, the rest by product
+        const variant = product.variants.find((v: { id: string }) => v.id === item.variantId);
+
+        if (product.variants.length > 0 ? !variant : !!item.variantId) {
+          return res.status(400).json({ statusCode: 400, message: `Please choose an option for ${product.name}` });
+        }
+
+        const name = variant ? `${product.name} (${getVariantLabel(variant)})` : product.name;
+        const stock = variant ? variant.stock : product.stock;
+
+        if (item.quantity > MAX_LINE_QUANTITY) {
+          return res.status(400).json({ statusCode: 400, message: `You can buy at most ${MAX_LINE_QUANTITY} of ${name}` });
+        }
+
+        if (product.type === 'digital') {
+          if (item.quantity > 1) {
+            return res.status(400).json({ statusCode: 400, message: `You only need one copy of ${name}` });
+          }
+        } else if (stock < item.quantity) {
+          return res.status(409).json({
+            statusCode: 409,
+            message: stock === 0
+              ? `${name} is sold out`
+              : `Only ${stock} of ${name} left in stock`
+          });
+        }
+
+        lineItems.push({
+          price: product.stripe_price_id,
+          quantity: item.quantity,
+        });
+
+        reservationItems.push({
+          productId: product.id,
+          variantId: variant?.id || null,
+          variantLabel: variant ? getVariantLabel(variant) : null,
+          quantity: item.quantity,
+          unitPrice: money(product.price, product.currency)
+        });
+      }
+
+      // One session is charged in one currency
+      if (new Set(products?.map((p) => p.currency)).size > 1) {
+        return res.status(400).json({ statusCode: 400, message: 'All products in a cart must have the same currency' });
+      }
+
+      // Downloads need no delivery, so digital-only carts skip shipping and pickup
+      if (products?.every((p) => p.type === 'digital')) {
+        fulfilmentMethod = 'digital';
+      }
+
+      if (fulfilmentMethod === 'pickup') {
+        const pickupEvents = await getPickupEvents(profileId);
+
+        if (!pickupEvents.some((event) => event.id === pickupEventId)) {
+          return res.status(400).json({ statusCode: 400, message: "Orders can't be picked up at that event" });
+        }
+      }
+
+      // Hold the stock for as long as the session can be paid
+      reservationId = randomUUID();
+      expiresAt = new Date(Date.now() + RESERVATION_MINUTES * 60 * 1000);
+
+      try {
+        await reserveStock(reservationId, reservationItems, expiresAt);
+      } catch (err) {
+        if (err instanceof InsufficientStockError) {
+          const product = products?.find((p) => p.id === err.productId);
+          return res.status(409).json({
+            statusCode: 409,
+            message: `${product?.name || 'An item in your cart'} just sold out, please update your cart`
+          });
+        }
+        throw err;
+      }
     }
     
     const session = await stripe.checkout.sessions.create({
@@ -68,10 +364,33 @@ checkoutRouter.post('/create-session', async (req: Request, res: Response) => {
       customer_email: email,
       success_url: successUrl,
       cancel_url: cancelUrl,
+      // checkout.session.expired releases the reservation
+      ...(expiresAt && { expires_at: Math.floor(expiresAt.getTime() / 1000) }),
+      ...(!isTipPayment && fulfilmentMethod === 'shipping' && {
+        shipping_address_collection: { allowed_countries: SHIPPING_COUNTRIES }
+      }),
       metadata: {
         profileId: profileId,
-        ...(isTipPayment && { tipId: tipId })
+        ...(isTipPayment && { tipId: tipId }),
+        ...(feeAmount > 0 && { feeAmount: String(feeAmount) }),
+        ...(reservationId && { reservationId: reservationId }),
+        ...(!isTipPayment && { fulfilment: fulfilmentMethod }),
+        ...(!isTipPayment && fulfilmentMethod === 'pickup' && { pickupEventId: pickupEventId })
       },
+      // Copied onto the payment intent so payment_intent.* and charge.* webhooks can find the tip
+      payment_intent_data: {
+        metadata: {
+          profileId: profileId,
+          ...(isTipPayment && { tipId: tipId })
+        },
+        ...(transferGroup && { transfer_group: transferGroup }),
+      },
+    }).catch(async (err) => {
+      // No session means no expiry event, so release the stock right away
+      if (reservationId) {
+        await releaseReservation(reservationId);
+      }
+      throw err;
     });
 
     if (!session.url) {
@@ -85,12 +404,79 @@ checkoutRouter.post('/create-session', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/checkout/create-subscription-session
+ *
+ * Creates a Stripe Checkout session for a monthly patron subscription to one
+ * of a profile's tiers: `{ profileId, tierId }`. The fan must be logged in so
+ * they can manage the subscription later; a fan who subscribed before reuses
+ * their Stripe customer, so the portal shows all their subscriptions.
+ * On success, returns the session URL for frontend redirection.
+ */
+checkoutRouter.post('/create-subscription-session', verifyAuth, async (req: Request, res: Response) => {
+  const { profileId, tierId } = req.body;
+
+  if (!profileId || !tierId) {
+    return res.status(400).json({ statusCode: 400, message: 'Missing required parameters: profileId, tierId' });
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+  try {
+    const tier = await getProfileTier(profileId, tierId);
+
+    if (!tier || tier.status !== 'active' || !tier.stripe_price_id) {
+      return res.status(404).json({ statusCode: 404, message: 'Tier not found' });
+    }
+
+    const { count: liveCount, error: liveError } = await supabase
+      .from('patron_subscriptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('profile_id', profileId)
+      .eq('user_id', req.user!.id)
+      .in('status', LIVE_SUBSCRIPTION_STATUSES);
+
+    if (liveError) throw liveError;
+
+    if ((liveCount || 0) > 0) {
+      return res.status(409).json({
+        statusCode: 409,
+        message: 'You already support this artist. Change or cancel your subscription from your dashboard.'
+      });
+    }
+
+    const customerId = await getUserStripeCustomerId(req.user!.id);
+    const metadata = { profileId, tierId, userId: req.user!.id };
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      line_items: [{ price: tier.stripe_price_id, quantity: 1 }],
+      ...(customerId ? { customer: customerId } : { customer_email: req.user!.email }),
+      success_url: `${frontendUrl}/payment/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${frontendUrl}/payment/cancel`,
+      metadata,
+      // Copied onto the subscription and its invoices so the webhooks can find the profile
+      subscription_data: { metadata }
+    });
+
+    if (!session.url) {
+      throw new Error('Could not create Stripe session URL.');
+    }
+    res.status(200).json({ url: session.url });
+  } catch (error: any) {
+    console.error('Stripe subscription session creation failed:', error);
+    res.status(500).json({ statusCode: 500, message: error.message });
+  }
+});
+
 /**
  * GET /api/checkout/session-status
  *
- * Retrieves the status of a Stripe Checkout session to verify payment
- * after the user is redirected from Stripe. Also fetches order details
- * and saves the order to the database.
+ * Read-only lookup of a Stripe Checkout session after the user is redirected
+ * from Stripe. Tips and orders are recorded by the webhook, so this only
+ * reports the payment status and whatever the webhook has stored so far.
+ * Anyone with the session id can call this, so it never returns the
+ * customer's contact or shipping details.
  */
 checkoutRouter.get('/session-status', async (req, res) => {
   const sessionId = req.query.session_id as string;
@@ -100,182 +486,85 @@ checkoutRouter.get('/session-status', async (req, res) => {
   }
 
   try {
-    const session = await stripe.checkout.sessions.retrieve(sessionId, {
-      expand: ['payment_intent', 'line_items'],
-    });
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
 
-    const isPaid = 
-      session.payment_status === 'paid' ||
-      (typeof session.payment_intent === 'object' && session.payment_intent?.status === 'succeeded');
-
-    if (isPaid) {
-      // Fetch full payment intent details to get more information
-      const paymentIntent = session.payment_intent as any;
-      const profileId = session.metadata?.profileId;
-      const tipId = session.metadata?.tipId;
-      const customerEmail = session.customer_email || paymentIntent?.receipt_email;
-
-      // If this is a tip payment, update the tip record and distribute to band members
-      if (tipId) {
-        try {
-          const tipAmount = (session.amount_total || 0) / 100; // Convert from cents to dollars
-          
-          // Mark tip as completed
-          const { data: updateResponse, error: tipError } = await supabase
-            .from('tips')
-            .update({
-              payment_status: 'completed',
-              stripe_session_id: sessionId
-            })
-            .eq('id', tipId)
-            .select();
-
-          if (tipError) {
-            console.error('Error updating tip payment status:', tipError);
-          }
+    if (session.payment_status !== 'paid') {
+      return res.json({
+        status: session.payment_status,
+        message: `Payment status: ${session.payment_status}`
+      });
+    }
 
-          // Get profile and its band members
-          const { data: profileData, error: fetchError } = await supabase
-            .from('profiles')
-            .select('user_id')
-            .eq('id', profileId)
-            .single();
-
-          if (fetchError) {
-            console.error('Error fetching profile:', fetchError);
-          } else if (profileData) {
-            // Get all band members for this profile (including owner)
-            const { data: members, error: membersError } = await supabase
-              .from('profile_members')
-              .select('user_id, revenue_share')
-              .eq('profile_id', profileId);
-
-            if (membersError) {
-              console.error('Error fetching band members:', membersError);
-            } else if (members && members.length > 0) {
-              // Distribute tip among band members based on revenue_share
-              for (const member of members) {
-                const memberShare = (member.revenue_share / 100) * tipAmount;
-                
-                // Get or create wallet for this member
-                const { data: wallet, error: walletFetchError } = await supabase
-                  .from('user_wallets')
-                  .select('saldo')
-                  .eq('user_id', member.user_id)
-                  .single();
-
-                if (walletFetchError && walletFetchError.code !== 'PGRST116') {
-                  console.error('Error fetching wallet for member:', walletFetchError);
-                  continue;
-                }
-
-                if (wallet) {
-                  // Update existing wallet
-                  const newSaldo = (wallet.saldo || 0) + memberShare;
-                  const { error: updateError } = await supabase
-                    .from('user_wallets')
-                    .update({ saldo: newSaldo })
-                    .eq('user_id', member.user_id);
-
-                  if (updateError) {
-                    console.error('Error updating wallet for member:', updateError);
-                  }
-                } else {
-                  // Create new wallet for this member
-                  const { error: createError } = await supabase
-                    .from('user_wallets')
-                    .insert([{
-                      user_id: member.user_id,
-                      saldo: memberShare
-                    }]);
-
-                  if (createError) {
-                    console.error('Error creating wallet for member:', createError);
-                  }
-                }
-              }
-            } else {
-              // No members found, add to profile owner's wallet
-              const { data: wallet } = await supabase
-                .from('user_wallets')
-                .select('saldo')
-                .eq('user_id', profileData.user_id)
-                .single();
-
-              if (wallet) {
-                const newSaldo = (wallet.saldo || 0) + tipAmount;
-                await supabase
-                  .from('user_wallets')
-                  .update({ saldo: newSaldo })
-                  .eq('user_id', profileData.user_id);
-              } else {
-                await supabase
-                  .from('user_wallets')
-                  .insert([{
-                    user_id: profileData.user_id,
-                    saldo: tipAmount
-                  }]);
-              }
-            }
-          }
-        } catch (err) {
-          console.error('Error processing tip payment:', err);
-        }
+    if (session.mode === 'subscription') {
+      return res.json({
+        status: 'complete',
+        type: 'subscription',
+        profile_id: session.metadata?.profileId,
+        total_amount: session.amount_total, // first month, in minor units
+        currency: session.currency?.toUpperCase() || 'USD',
+        created_at: new Date(session.created * 1000).toISOString(),
+        message: 'Subscription started'
+      });
+    }
 
-        return res.json({
-          status: 'complete',
-          type: 'tip',
-          tipId: tipId,
-          message: 'Tip payment successful'
-        });
+    const tipId = session.metadata?.tipId;
+
+    if (tipId) {
+      const { data: tip, error: tipError } = await supabase
+        .from('tips')
+        .select('id, payment_status, created_at')
+        .eq('id', tipId)
+        .single();
+
+      if (tipError) {
+        console.error('Error fetching tip:', tipError);
       }
-      
-      // Regular product order handling
-      const orderData = {
-        profile_id: profileId,
-        stripe_session_id: sessionId,
-        stripe_payment_intent_id: paymentIntent?.id,
-        customer_email: customerEmail,
-        customer_name: session.customer_details?.name,
+
+      // Guests have no account to find the tip in later, so give them a link to keep
+      return res.json({
+        status: 'complete',
+        type: 'tip',
+        tipId: tipId,
+        profile_id: session.metadata?.profileId,
+        receipt_url: getReceiptUrl(session.id),
+        fulfilled: tip?.payment_status === 'completed',
         total_amount: session.amount_total, // in cents
         currency: session.currency?.toUpperCase() || 'USD',
-        payment_status: session.payment_status,
-        payment_method: session.payment_method_types?.[0],
-        items: session.line_items?.data?.map((item: any) => ({
-          id: item.id,
-          name: item.description,
-          quantity: item.quantity,
-          price: item.amount_total, // in cents
-          product_id: item.price?.product
-        })) || [],
-        created_at: new Date(session.created * 1000).toISOString(),
-      };
+        created_at: tip?.created_at || new Date(session.created * 1000).toISOString(),
+        message: 'Tip payment successful'
+      });
+    }
 
-      // Save order to database
-      try {
-        const { error: dbError } = await supabase
-          .from('orders')
-          .insert([orderData]);
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, profile_id, total_amount, currency, items, created_at')
+      .eq('stripe_session_id', sessionId)
+      .maybeSingle();
 
-        if (dbError) {
-          console.error('Error saving order to database:', dbError);
-        }
-      } catch (dbError) {
-        console.error('Unexpected error saving order:', dbError);
-      }
+    if (orderError) {
+      console.error('Error fetching order:', orderError);
+    }
 
-      return res.json({ 
+    if (order) {
+      return res.json({
         status: 'complete',
         type: 'order',
-        ...orderData
+        fulfilled: true,
+        ...order
       });
     }
 
+    // Paid, but the webhook hasn't recorded the order yet
     return res.json({
-      status: session.payment_status,
-      message: `Payment status: ${session.payment_status}`
+      status: 'complete',
+      type: 'order',
+      fulfilled: false,
+      profile_id: session.metadata?.profileId,
+      total_amount: session.amount_total, // in cents
+      currency: session.currency?.toUpperCase() || 'USD',
+      items: [],
+      created_at: new Date(session.created * 1000).toISOString(),
     });
-
   } catch (error) {
     console.error(error);
     return res.status(500).json({
@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import { stripe } from '../services/stripe';
+import { verifyAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import {
+  createDashboardLink,
+  createOnboardingLink,
+  getMemberConnectAccount,
+  getOrCreateConnectAccount,
+  syncConnectAccount
+} from '../services/connectService';
+
+export const connectRouter = Router();
+
+/**
+ * GET /api/connect/status/:profileId
+ *
+ * Get the current user's Stripe Connect onboarding status for a profile
+ */
+connectRouter.get('/status/:profileId', verifyAuth, async (req: Request, res: Response) => {
+  const { profileId } = req.params;
+
+  try {
+    const account = await getMemberConnectAccount(profileId, req.user!.id);
+
+    if (!account) {
+      return res.status(403).json({ message: 'You are not a member of this profile' });
+    }
+
+    res.status(200).json(account);
+  } catch (err) {
+    console.error('Error fetching connect status:', err);
+    res.status(500).json({ message: 'Failed to fetch payout account status' });
+  }
+});
+
+/**
+ * POST /api/connect/onboarding-link
+ *
+ * Create (or continue) Stripe Express onboarding for the current user's
+ * membership of a profile. Returns the Stripe-hosted onboarding URL.
+ */
+connectRouter.post('/onboarding-link', verifyAuth, audit('payout_account.onboarding', 'connect_account'), async (req: Request, res: Response) => {
+  const { profileId, country } = req.body;
+
+  if (!profileId) {
+    return res.status(400).json({ message: 'Profile ID is required' });
+  }
+
+  if (country && !/^[A-Z]{2}$/.test(country)) {
+    return res.status(400).json({ message: 'Country must be a two-letter ISO code' });
+  }
+
+  try {
+    const membership = await getMemberConnectAccount(profileId, req.user!.id);
+
+    if (!membership) {
+      return res.status(403).json({ message: 'You are not a member of this profile' });
+    }
+
+    const accountId = await getOrCreateConnectAccount(profileId, req.user!.id, req.user!.email, country);
+    const url = await createOnboardingLink(accountId);
+
+    req.audit = {
+      targetId: accountId,
+      before: membership,
+      // The country is only used when the account is created
+      after: membership.accountId ? { profileId, accountId } : { profileId, accountId, country: country || 'SE' }
+    };
+
+    res.status(200).json({ url });
+  } catch (err: any) {
+    console.error('Error creating onboarding link:', err);
+    res.status(500).json({ message: err.message || 'Failed to start payout account setup' });
+  }
+});
+
+/**
+ * POST /api/connect/dashboard-link
+ *
+ * Create a login link to the Stripe Express dashboard, where members
+ * manage their bank details and see payouts
+ */
+connectRouter.post('/dashboard-link', verifyAuth, audit('payout_account.dashboard_login', 'connect_account'), async (req: Request, res: Response) => {
+  const { profileId } = req.body;
+
+  if (!profileId) {
+    return res.status(400).json({ message: 'Profile ID is required' });
+  }
+
+  try {
+    const account = await getMemberConnectAccount(profileId, req.user!.id);
+
+    if (!account?.accountId) {
+      return res.status(404).json({ message: 'No payout account connected' });
+    }
+
+    const url = await createDashboardLink(account.accountId);
+
+    req.audit = { targetId: account.accountId, after: { profileId } };
+
+    res.status(200).json({ url });
+  } catch (err: any) {
+    console.error('Error creating dashboard link:', err);
+    res.status(500).json({ message: err.message || 'Failed to open Stripe dashboard' });
+  }
+});
+
+/**
+ * GET /api/connect/return
+ *
+ * Stripe redirects here when the user leaves onboarding. Leaving doesn't mean
+ * onboarding is complete, so the account status is fetched from Stripe
+ * before sending the user back to their wallet.
+ */
+connectRouter.get('/return', async (req: Request, res: Response) => {
+  const accountId = req.query.account as string;
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+  try {
+    if (accountId) {
+      const account = await stripe.accounts.retrieve(accountId);
+      await syncConnectAccount(account);
+    }
+  } catch (err) {
+    // account.updated will still sync the status, so don't block the redirect
+    console.error('Error syncing connect account on return:', err);
+  }
+
+  res.redirect(`${frontendUrl}/dashboard?tab=wallet&connect=return`);
+});
+
+/**
+ * GET /api/connect/refresh
+ *
+ * Stripe redirects here when an onboarding link has expired or was already
+ * used. New links are only created for authenticated members, so send the
+ * user back to the app to request one.
+ */
+connectRouter.get('/refresh', (req: Request, res: Response) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  res.redirect(`${frontendUrl}/dashboard?tab=wallet&connect=refresh`);
+});
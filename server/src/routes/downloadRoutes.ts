@@ -0,0 +1,25 @@
+import { Router, Request, Response } from 'express';
+import { claimDownload } from '../services/downloadService';
+
+export const downloadRouter = Router();
+
+/**
+ * GET /api/downloads/:token
+ *
+ * Download a purchased file. The link from the fan's email counts one
+ * download and redirects to a short-lived signed URL for the file.
+ */
+downloadRouter.get('/:token', async (req: Request, res: Response) => {
+  try {
+    const url = await claimDownload(req.params.token);
+
+    if (!url) {
+      return res.status(410).json({ message: 'This download link has expired or reached its download limit' });
+    }
+
+    res.redirect(302, url);
+  } catch (error) {
+    console.error('Error claiming download:', error);
+    res.status(500).json({ message: 'Failed to start download' });
+  }
+});
@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { supabase } from '../lib/supabase';
+import { getMemberRole, verifyAuth } from '../middleware/auth';
+import { getEventPerformers, getEventTipReport, getProfileEventEarnings } from '../services/eventTipService';
+
+export const eventTipRouter = Router();
+
+/**
+ * GET /api/events/:id/tip-report
+ *
+ * Get what each performer was tipped at an event. The event maker's owners
+ * and admins see every performer; members of a performing profile only see
+ * their own profile's earnings.
+ */
+eventTipRouter.get('/events/:id/tip-report', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const performers = await getEventPerformers(req.params.id);
+
+    if (!performers) {
+      return res.status(404).json({ message: 'Event not found' });
+    }
+
+    const hostRole = await getMemberRole(performers.hostProfileId, req.user!.id);
+
+    if (hostRole === 'owner' || hostRole === 'admin') {
+      return res.status(200).json(await getEventTipReport(performers));
+    }
+
+    const { data: memberships, error } = await supabase
+      .from('profile_members')
+      .select('profile_id')
+      .eq('user_id', req.user!.id)
+      .in('profile_id', performers.performerIds);
+
+    if (error) throw error;
+
+    if (!memberships || memberships.length === 0) {
+      return res.status(403).json({ message: 'Not authorized to view tips for this event' });
+    }
+
+    const report = await getEventTipReport(performers, memberships.map((member) => member.profile_id));
+    res.status(200).json(report);
+  } catch (error) {
+    console.error('Error fetching event tip report:', error);
+    res.status(500).json({ message: 'Failed to fetch event tip report' });
+  }
+});
+
+/**
+ * GET /api/profiles/:id/event-earnings
+ *
+ * Get what a profile was tipped at each event it performed at (members only)
+ */
+eventTipRouter.get('/profiles/:id/event-earnings', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (!role) {
+      return res.status(403).json({ message: 'Not authorized to view earnings for this profile' });
+    }
+
+    const earnings = await getProfileEventEarnings(id);
+    res.status(200).json(earnings);
+  } catch (error) {
+    console.error('Error fetching event earnings:', error);
+    res.status(500).json({ message: 'Failed to fetch event earnings' });
+  }
+});
@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express';
 import { supabase } from '../lib/supabase';
 import { verifyAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
 
 const router = express.Router();
 
@@ -283,7 +284,7 @@ router.get('/token/:token', async (req: Request, res: Response) => {
 });
 
 // Accept invite
-router.post('/accept', verifyAuth, async (req: Request, res: Response) => {
+router.post('/accept', verifyAuth, audit('invite.accept', 'profile'), async (req: Request, res: Response) => {
   try {
     const { token, alias, description, specialty } = req.body as AcceptInviteRequest;
     const userId = req.user?.id;
@@ -330,16 +331,22 @@ router.post('/accept', verifyAuth, async (req: Request, res: Response) => {
     // Calculate new total after adding new member
     const newTotal = totalCurrentShare + newMemberShare;
     
+    // Revenue shares by user, for the audit log
+    const sharesBefore = (currentMembers || []).map((m) => ({ user_id: m.user_id, revenue_share: Number(m.revenue_share) }));
+    let sharesAfter = sharesBefore;
+
     // If new total exceeds 100%, proportionally reduce existing members
     if (newTotal > 100 && currentMembers && currentMembers.length > 0) {
       const reductionFactor = (100 - newMemberShare) / totalCurrentShare;
-      
+      sharesAfter = [];
+
       for (const member of currentMembers) {
         const adjustedShare = Number(member.revenue_share) * reductionFactor;
         await supabase
           .from('profile_members')
           .update({ revenue_share: adjustedShare })
           .eq('id', member.id);
+        sharesAfter.push({ user_id: member.user_id, revenue_share: adjustedShare });
       }
     }
 
@@ -386,6 +393,15 @@ router.post('/accept', verifyAuth, async (req: Request, res: Response) => {
       return res.status(500).json({ message: 'Failed to accept invite' });
     }
 
+    req.audit = {
+      targetId: invite.profile_id,
+      before: { invite_id: invite.id, revenue_shares: sharesBefore },
+      after: {
+        invite_id: invite.id,
+        revenue_shares: [...sharesAfter, { user_id: userId, revenue_share: Number(newMemberShare) }]
+      }
+    };
+
     res.json({
       message: 'Invite accepted successfully',
       profileId: invite.profile_id,
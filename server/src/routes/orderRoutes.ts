@@ -0,0 +1,99 @@
+import { Router, Request, Response } from 'express';
+import { getMemberRole, verifyAuth } from '../middleware/auth';
+import {
+  FULFILMENT_STATUSES,
+  FulfilmentStatus,
+  InvalidFulfilmentTransitionError,
+  getPickupEvents,
+  getProfileOrder,
+  getProfileOrders,
+  updateFulfilmentStatus
+} from '../services/orderService';
+
+export const orderRouter = Router();
+
+/**
+ * GET /api/profiles/:id/pickup-events
+ *
+ * Upcoming events where fans can pick up merch from this profile
+ */
+orderRouter.get('/profiles/:id/pickup-events', async (req: Request, res: Response) => {
+  try {
+    const events = await getPickupEvents(req.params.id);
+    res.status(200).json(events);
+  } catch (error) {
+    console.error('Error fetching pickup events:', error);
+    res.status(500).json({ message: 'Failed to fetch pickup events' });
+  }
+});
+
+/**
+ * GET /api/profiles/:id/orders?status=paid
+ *
+ * Get a profile's merch orders for fulfilment (profile members only)
+ */
+orderRouter.get('/profiles/:id/orders', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const status = req.query.status as FulfilmentStatus | undefined;
+
+  if (status && !FULFILMENT_STATUSES.includes(status)) {
+    return res.status(400).json({ message: `Status must be one of: ${FULFILMENT_STATUSES.join(', ')}` });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (!role) {
+      return res.status(403).json({ message: 'Not authorized to view orders for this profile' });
+    }
+
+    const orders = await getProfileOrders(id, status);
+    res.status(200).json(orders);
+  } catch (error) {
+    console.error('Error fetching profile orders:', error);
+    res.status(500).json({ message: 'Failed to fetch orders' });
+  }
+});
+
+/**
+ * PATCH /api/profiles/:id/orders/:orderId/fulfilment
+ *
+ * Move an order to its next fulfilment status (owners and admins only).
+ * Body: { status, trackingCarrier?, trackingNumber? }
+ * Tracking details are saved when the order is marked as shipped.
+ */
+orderRouter.patch('/profiles/:id/orders/:orderId/fulfilment', verifyAuth, async (req: Request, res: Response) => {
+  const { id, orderId } = req.params;
+  const { status, trackingCarrier, trackingNumber } = req.body;
+
+  if (!FULFILMENT_STATUSES.includes(status)) {
+    return res.status(400).json({ message: `Status must be one of: ${FULFILMENT_STATUSES.join(', ')}` });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage orders for this profile' });
+    }
+
+    const order = await getProfileOrder(id, orderId);
+
+    if (!order) {
+      return res.status(404).json({ message: 'Order not found' });
+    }
+
+    const updated = await updateFulfilmentStatus(order, status, {
+      carrier: typeof trackingCarrier === 'string' ? trackingCarrier.trim() : null,
+      number: typeof trackingNumber === 'string' ? trackingNumber.trim() : null
+    });
+
+    res.status(200).json(updated);
+  } catch (error) {
+    if (error instanceof InvalidFulfilmentTransitionError) {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error('Error updating order fulfilment:', error);
+    res.status(500).json({ message: 'Failed to update order' });
+  }
+});
@@ -1,25 +1,256 @@
 import { Router, Request, Response } from 'express';
-import { getAllStripeProducts } from '../services/stripe';
+import { supabase } from '../lib/supabase';
+import { getMemberRole, optionalAuth, verifyAuth } from '../middleware/auth';
+import { CurrencyCode, DEFAULT_CURRENCY, money, toCurrencyCode } from '../lib/money';
+import {
+  ProductInput,
+  ProductType,
+  ProductVariantInput,
+  createProduct,
+  getProfileProduct,
+  getProfileProducts,
+  setProductStatus,
+  updateProduct
+} from '../services/productService';
 
 // Create a new router instance to encapsulate product-related routes.
 export const productRouter = Router();
 
+// Enough for every size in a couple of colours
+const MAX_VARIANTS = 50;
+
+/**
+ * Validate a product's variant list: each needs a size or colour, a stock
+ * count, and a size/colour combination of its own
+ */
+function parseVariants(variants: unknown): { variants?: ProductVariantInput[]; error?: string } {
+  if (!Array.isArray(variants) || variants.length > MAX_VARIANTS) {
+    return { error: `Variants must be a list of at most ${MAX_VARIANTS}` };
+  }
+
+  const parsed: ProductVariantInput[] = [];
+  const seen = new Set<string>();
+
+  for (const variant of variants) {
+    const size = typeof variant?.size === 'string' ? variant.size.trim() : '';
+    const color = typeof variant?.color === 'string' ? variant.color.trim() : '';
+
+    if (!size && !color) {
+      return { error: 'Each variant needs a size or a colour' };
+    }
+
+    if (!Number.isInteger(variant.stock) || variant.stock < 0) {
+      return { error: 'Variant stock must be a whole number of 0 or more' };
+    }
+
+    const key = `${size.toLowerCase()}|${color.toLowerCase()}`;
+    if (seen.has(key)) {
+      return { error: `Variant ${[size, color].filter(Boolean).join(' / ')} is listed twice` };
+    }
+    seen.add(key);
+
+    parsed.push({
+      id: typeof variant.id === 'string' ? variant.id : undefined,
+      size: size || null,
+      color: color || null,
+      stock: variant.stock
+    });
+  }
+
+  return { variants: parsed };
+}
+
+/**
+ * Validate the product fields in a request body.
+ * `price` is in minor units and always in the profile's payout currency.
+ * `variants` (size/colour with their own stock) replace the product's list.
+ * Digital products have no stock but need a file uploaded to the profile's
+ * folder in the product-files bucket.
+ * With `partial`, missing fields are left out instead of rejected.
+ */
+function parseProductInput(body: any, currency: CurrencyCode, partial: boolean, profileId: string, type: ProductType): { input?: Partial<ProductInput>; error?: string } {
+  const input: Partial<ProductInput> = {};
+  const isDigital = type === 'digital';
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'Name is required' };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.price !== undefined || !partial) {
+    if (!Number.isInteger(body.price) || body.price <= 0) {
+      return { error: 'Price must be a positive integer in minor units' };
+    }
+    input.price = money(body.price, currency);
+  }
+
+  if (isDigital) {
+    if (body.filePath !== undefined || !partial) {
+      if (typeof body.filePath !== 'string' || !body.filePath.startsWith(`${profileId}/`)) {
+        return { error: 'Please upload the file for this digital product' };
+      }
+      input.filePath = body.filePath;
+      input.fileName = typeof body.fileName === 'string' && body.fileName.trim()
+        ? body.fileName.trim()
+        : body.filePath.split('/').pop();
+    }
+
+    if (body.downloadLimit !== undefined) {
+      if (!Number.isInteger(body.downloadLimit) || body.downloadLimit < 1) {
+        return { error: 'Download limit must be at least 1' };
+      }
+      input.downloadLimit = body.downloadLimit;
+    }
+
+    if (body.variants?.length) {
+      return { error: 'Digital products cannot have variants' };
+    }
+
+    if (!partial) input.stock = 0;
+  } else if (body.stock !== undefined || !partial) {
+    if (!Number.isInteger(body.stock) || body.stock < 0) {
+      return { error: 'Stock must be a whole number of 0 or more' };
+    }
+    input.stock = body.stock;
+  }
+
+  if (body.lowStockThreshold !== undefined) {
+    if (!Number.isInteger(body.lowStockThreshold) || body.lowStockThreshold < 0) {
+      return { error: 'Low-stock threshold must be a whole number of 0 or more' };
+    }
+    input.lowStockThreshold = body.lowStockThreshold;
+  }
+
+  if (body.variants !== undefined) {
+    const { variants, error } = parseVariants(body.variants);
+    if (error) return { error };
+    input.variants = variants;
+  }
+
+  if (body.description !== undefined) input.description = body.description;
+  if (body.imageUrl !== undefined) input.imageUrl = body.imageUrl;
+
+  return { input };
+}
+
 /**
- * GET /api/products
+ * GET /api/profiles/:id/products
  *
- * An endpoint to retrieve and display all active products from the Stripe catalog.
- * It features robust error handling to ensure server stability.
+ * Get a profile's merch. Owners and admins of the profile also get their
+ * archived products.
  */
-productRouter.get('/products', async (req: Request, res: Response) => {
+productRouter.get('/profiles/:id/products', optionalAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
   try {
-    const products = await getAllStripeProducts();
+    const role = req.user ? await getMemberRole(id, req.user.id) : null;
+    const canManage = role === 'owner' || role === 'admin';
+
+    const products = await getProfileProducts(id, canManage);
     res.status(200).json(products);
   } catch (error) {
-    console.error("Error in /api/products route:", error);
-    // Send a generic, user-friendly error message to the client.
+    console.error('Error fetching profile products:', error);
     res.status(500).json({
       statusCode: 500,
-      message: "An error occurred while fetching products. Please try again later."
+      message: 'An error occurred while fetching products. Please try again later.'
     });
   }
 });
+
+/**
+ * POST /api/profiles/:id/products
+ *
+ * Create a product for a profile (owners and admins only)
+ */
+productRouter.post('/profiles/:id/products', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage products for this profile' });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('payout_currency')
+      .eq('id', id)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(404).json({ message: 'Profile not found' });
+    }
+
+    const type: ProductType = req.body.type || 'physical';
+
+    if (type !== 'physical' && type !== 'digital') {
+      return res.status(400).json({ message: "Type must be 'physical' or 'digital'" });
+    }
+
+    const currency = toCurrencyCode(profile.payout_currency || DEFAULT_CURRENCY);
+    const { input, error } = parseProductInput(req.body, currency, false, id, type);
+
+    if (error || !input) {
+      return res.status(400).json({ message: error });
+    }
+
+    const product = await createProduct(id, { ...input, type } as ProductInput);
+    res.status(201).json(product);
+  } catch (err) {
+    console.error('Error creating product:', err);
+    res.status(500).json({ message: 'Failed to create product' });
+  }
+});
+
+/**
+ * PATCH /api/profiles/:id/products/:productId
+ *
+ * Edit, archive or restore a product (owners and admins only).
+ * Send `status: 'archived'` to archive, `status: 'active'` to restore.
+ */
+productRouter.patch('/profiles/:id/products/:productId', verifyAuth, async (req: Request, res: Response) => {
+  const { id, productId } = req.params;
+  const { status } = req.body;
+
+  if (status !== undefined && status !== 'active' && status !== 'archived') {
+    return res.status(400).json({ message: "Status must be 'active' or 'archived'" });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage products for this profile' });
+    }
+
+    let product = await getProfileProduct(id, productId);
+
+    if (!product) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+
+    // Price changes stay in the currency the product was created in
+    // The type is fixed once a product is created
+    const { input, error } = parseProductInput(req.body, toCurrencyCode(product.currency), true, id, product.type);
+
+    if (error || !input) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (Object.keys(input).length > 0) {
+      product = await updateProduct(product, input);
+    }
+
+    if (status && status !== product.status) {
+      product = await setProductStatus(product, status);
+    }
+
+    res.status(200).json(product);
+  } catch (err) {
+    console.error('Error updating product:', err);
+    res.status(500).json({ message: 'Failed to update product' });
+  }
+});
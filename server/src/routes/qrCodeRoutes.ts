@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { getMemberRole, verifyAuth } from '../middleware/auth';
+import {
+  MAX_QR_LABEL_LENGTH,
+  QrCodeInput,
+  QrCodeLimitError,
+  createQrCode,
+  deleteQrCode,
+  getProfileQrCodes,
+  resolveQrCode,
+  updateQrCode,
+  validateQrCodeTarget
+} from '../services/qrCodeService';
+
+export const qrCodeRouter = Router();
+
+/**
+ * Check the QR code fields present in a request body.
+ * Returns an error message, or null when they're fine.
+ */
+function validateQrCodeInput({ label, eventId, amount }: QrCodeInput): string | null {
+  if (label !== undefined && label !== null && (typeof label !== 'string' || label.trim().length > MAX_QR_LABEL_LENGTH)) {
+    return `label must be text of at most ${MAX_QR_LABEL_LENGTH} characters`;
+  }
+
+  if (eventId !== undefined && eventId !== null && typeof eventId !== 'string') {
+    return 'eventId must be a string';
+  }
+
+  if (amount !== undefined && amount !== null && (!Number.isInteger(amount) || amount <= 0)) {
+    return 'amount must be a positive integer in minor units';
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/qr/:code
+ *
+ * Where a printed QR code leads. Counts the scan and redirects to the
+ * profile's tip form with the code's event and amount preselected.
+ */
+qrCodeRouter.get('/qr/:code', async (req: Request, res: Response) => {
+  try {
+    const url = await resolveQrCode(req.params.code);
+
+    if (!url) {
+      return res.status(404).json({ message: 'This QR code is no longer in use' });
+    }
+
+    res.redirect(302, url);
+  } catch (error) {
+    console.error('Error resolving QR code:', error);
+    res.status(500).json({ message: 'Failed to open QR code' });
+  }
+});
+
+/**
+ * GET /api/profiles/:id/qr-codes
+ *
+ * Get a profile's QR codes with their scan counts (members only)
+ */
+qrCodeRouter.get('/profiles/:id/qr-codes', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (!role) {
+      return res.status(403).json({ message: 'Not authorized to view QR codes for this profile' });
+    }
+
+    const qrCodes = await getProfileQrCodes(id);
+    res.status(200).json(qrCodes);
+  } catch (error) {
+    console.error('Error fetching QR codes:', error);
+    res.status(500).json({ message: 'Failed to fetch QR codes' });
+  }
+});
+
+/**
+ * POST /api/profiles/:id/qr-codes
+ *
+ * Create a QR code for a profile (owners and admins only):
+ * `{ label?, eventId?, amount? }`. The event must be one the profile
+ * performs at; the amount is in minor units of the profile's payout currency.
+ */
+qrCodeRouter.post('/profiles/:id/qr-codes', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { label, eventId, amount } = req.body;
+
+  const validationError = validateQrCodeInput({ label, eventId, amount });
+
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage QR codes for this profile' });
+    }
+
+    const targetError = await validateQrCodeTarget(id, { eventId, amount });
+
+    if (targetError) {
+      return res.status(400).json({ message: targetError });
+    }
+
+    const qrCode = await createQrCode(id, req.user!.id, {
+      label: label?.trim() || null,
+      eventId: eventId || null,
+      amount: amount || null
+    });
+
+    res.status(201).json(qrCode);
+  } catch (error) {
+    if (error instanceof QrCodeLimitError) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    console.error('Error creating QR code:', error);
+    res.status(500).json({ message: 'Failed to create QR code' });
+  }
+});
+
+/**
+ * PATCH /api/profiles/:id/qr-codes/:codeId
+ *
+ * Change a QR code's label, event or amount (owners and admins only).
+ * Printed copies of the code lead to the new tip form straight away.
+ */
+qrCodeRouter.patch('/profiles/:id/qr-codes/:codeId', verifyAuth, async (req: Request, res: Response) => {
+  const { id, codeId } = req.params;
+  const { label, eventId, amount } = req.body;
+
+  const validationError = validateQrCodeInput({ label, eventId, amount });
+
+  if (validationError) {
+    return res.status(400).json({ message: validationError });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage QR codes for this profile' });
+    }
+
+    const targetError = await validateQrCodeTarget(id, { eventId, amount });
+
+    if (targetError) {
+      return res.status(400).json({ message: targetError });
+    }
+
+    const qrCode = await updateQrCode(id, codeId, {
+      label: typeof label === 'string' ? label.trim() : label,
+      eventId,
+      amount
+    });
+
+    if (!qrCode) {
+      return res.status(404).json({ message: 'QR code not found' });
+    }
+
+    res.status(200).json(qrCode);
+  } catch (error) {
+    console.error('Error updating QR code:', error);
+    res.status(500).json({ message: 'Failed to update QR code' });
+  }
+});
+
+/**
+ * DELETE /api/profiles/:id/qr-codes/:codeId
+ *
+ * Delete a QR code (owners and admins only). Printed copies stop working.
+ */
+qrCodeRouter.delete('/profiles/:id/qr-codes/:codeId', verifyAuth, async (req: Request, res: Response) => {
+  const { id, codeId } = req.params;
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage QR codes for this profile' });
+    }
+
+    const deleted = await deleteQrCode(id, codeId);
+
+    if (!deleted) {
+      return res.status(404).json({ message: 'QR code not found' });
+    }
+
+    res.status(200).json({ message: 'QR code deleted' });
+  } catch (error) {
+    console.error('Error deleting QR code:', error);
+    res.status(500).json({ message: 'Failed to delete QR code' });
+  }
+});
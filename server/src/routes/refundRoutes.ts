@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { supabase } from '../lib/supabase';
+import { requireAdmin, verifyAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { refundPayment, RefundableType } from '../services/refundService';
+
+export const refundRouter = Router();
+
+const REFUND_REASONS = ['duplicate', 'fraudulent', 'requested_by_customer'] as const;
+
+/**
+ * POST /api/refunds
+ *
+ * Admin endpoint to refund a completed tip or paid order in full (platform admins only).
+ * Body: { type: 'tip' | 'order', id, reason? }
+ * The tip/order is reversed and band members' earnings are clawed back
+ * when Stripe confirms the refund via the charge.refunded webhook.
+ */
+refundRouter.post('/', verifyAuth, requireAdmin, audit('refund.create', 'refund'), async (req: Request, res: Response) => {
+  const { type, id, reason } = req.body as { type: RefundableType; id: string; reason?: typeof REFUND_REASONS[number] };
+
+  if (type !== 'tip' && type !== 'order') {
+    return res.status(400).json({ message: "Type must be 'tip' or 'order'" });
+  }
+
+  if (!id) {
+    return res.status(400).json({ message: 'ID is required' });
+  }
+
+  if (reason && !REFUND_REASONS.includes(reason)) {
+    return res.status(400).json({ message: `Reason must be one of: ${REFUND_REASONS.join(', ')}` });
+  }
+
+  try {
+    const { data: payment, error } = await supabase
+      .from(type === 'tip' ? 'tips' : 'orders')
+      .select('id, payment_status, stripe_payment_intent_id')
+      .eq('id', id)
+      .single();
+
+    if (error || !payment) {
+      return res.status(404).json({ message: `${type === 'tip' ? 'Tip' : 'Order'} not found` });
+    }
+
+    const refundableStatus = type === 'tip' ? 'completed' : 'paid';
+
+    if (payment.payment_status !== refundableStatus) {
+      return res.status(409).json({ message: `Cannot refund a ${type} that is ${payment.payment_status}` });
+    }
+
+    if (!payment.stripe_payment_intent_id) {
+      return res.status(400).json({ message: `No Stripe payment found for this ${type}` });
+    }
+
+    const refund = await refundPayment(type, id, payment.stripe_payment_intent_id, reason);
+
+    req.audit = {
+      targetId: refund.id,
+      before: { type, id, payment_status: payment.payment_status },
+      after: { status: refund.status, amount: refund.amount, currency: refund.currency, reason: reason || null }
+    };
+
+    res.status(200).json({
+      message: 'Refund initiated. Earnings are reversed once Stripe confirms the refund.',
+      refund: {
+        id: refund.id,
+        status: refund.status,
+        amount: refund.amount,
+        currency: refund.currency.toUpperCase()
+      }
+    });
+  } catch (err: any) {
+    console.error('Error creating refund:', err);
+    res.status(500).json({ message: err.message || 'Failed to create refund' });
+  }
+});
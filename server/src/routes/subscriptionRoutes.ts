@@ -0,0 +1,231 @@
+import { Router, Request, Response } from 'express';
+import { supabase } from '../lib/supabase';
+import { getMemberRole, optionalAuth, verifyAuth } from '../middleware/auth';
+import { CurrencyCode, DEFAULT_CURRENCY, money, toCurrencyCode } from '../lib/money';
+import {
+  TierInput,
+  createPortalSession,
+  createTier,
+  getProfilePatrons,
+  getProfileTier,
+  getProfileTiers,
+  getUserStripeCustomerId,
+  getUserSubscriptions,
+  setTierStatus,
+  updateTier
+} from '../services/subscriptionService';
+
+export const subscriptionRouter = Router();
+
+// A profile offers a handful of tiers, not a price list
+const MAX_ACTIVE_TIERS = 10;
+
+/**
+ * Validate the tier fields in a request body.
+ * `price` is per month, in minor units and always in the profile's payout currency.
+ * With `partial`, missing fields are left out instead of rejected.
+ */
+function parseTierInput(body: any, currency: CurrencyCode, partial: boolean): { input?: Partial<TierInput>; error?: string } {
+  const input: Partial<TierInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'Name is required' };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.price !== undefined || !partial) {
+    if (!Number.isInteger(body.price) || body.price <= 0) {
+      return { error: 'Price must be a positive integer in minor units' };
+    }
+    input.price = money(body.price, currency);
+  }
+
+  if (body.perks !== undefined) {
+    if (typeof body.perks !== 'string') {
+      return { error: 'Perks must be text' };
+    }
+    input.perks = body.perks.trim();
+  }
+
+  return { input };
+}
+
+/**
+ * GET /api/profiles/:id/tiers
+ *
+ * Get a profile's subscription tiers. Owners and admins of the profile also
+ * get their archived tiers.
+ */
+subscriptionRouter.get('/profiles/:id/tiers', optionalAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const role = req.user ? await getMemberRole(id, req.user.id) : null;
+    const canManage = role === 'owner' || role === 'admin';
+
+    const tiers = await getProfileTiers(id, canManage);
+    res.status(200).json(tiers);
+  } catch (error) {
+    console.error('Error fetching subscription tiers:', error);
+    res.status(500).json({ message: 'Failed to fetch subscription tiers' });
+  }
+});
+
+/**
+ * POST /api/profiles/:id/tiers
+ *
+ * Create a subscription tier for a profile (owners and admins only)
+ */
+subscriptionRouter.post('/profiles/:id/tiers', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage tiers for this profile' });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('payout_currency')
+      .eq('id', id)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(404).json({ message: 'Profile not found' });
+    }
+
+    const currency = toCurrencyCode(profile.payout_currency || DEFAULT_CURRENCY);
+    const { input, error } = parseTierInput(req.body, currency, false);
+
+    if (error || !input) {
+      return res.status(400).json({ message: error });
+    }
+
+    const activeTiers = await getProfileTiers(id);
+
+    if (activeTiers.length >= MAX_ACTIVE_TIERS) {
+      return res.status(400).json({ message: `A profile can have at most ${MAX_ACTIVE_TIERS} tiers` });
+    }
+
+    const tier = await createTier(id, input as TierInput);
+    res.status(201).json(tier);
+  } catch (err) {
+    console.error('Error creating subscription tier:', err);
+    res.status(500).json({ message: 'Failed to create tier' });
+  }
+});
+
+/**
+ * PATCH /api/profiles/:id/tiers/:tierId
+ *
+ * Edit, archive or restore a tier (owners and admins only).
+ * Send `status: 'archived'` to archive, `status: 'active'` to restore.
+ */
+subscriptionRouter.patch('/profiles/:id/tiers/:tierId', verifyAuth, async (req: Request, res: Response) => {
+  const { id, tierId } = req.params;
+  const { status } = req.body;
+
+  if (status !== undefined && status !== 'active' && status !== 'archived') {
+    return res.status(400).json({ message: "Status must be 'active' or 'archived'" });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage tiers for this profile' });
+    }
+
+    let tier = await getProfileTier(id, tierId);
+
+    if (!tier) {
+      return res.status(404).json({ message: 'Tier not found' });
+    }
+
+    // Price changes stay in the currency the tier was created in
+    const { input, error } = parseTierInput(req.body, toCurrencyCode(tier.currency), true);
+
+    if (error || !input) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (Object.keys(input).length > 0) {
+      tier = await updateTier(tier, input);
+    }
+
+    if (status && status !== tier.status) {
+      tier = await setTierStatus(tier, status);
+    }
+
+    res.status(200).json(tier);
+  } catch (err) {
+    console.error('Error updating subscription tier:', err);
+    res.status(500).json({ message: 'Failed to update tier' });
+  }
+});
+
+/**
+ * GET /api/profiles/:id/patrons?includeEnded=true
+ *
+ * Get a profile's patrons (profile members only)
+ */
+subscriptionRouter.get('/profiles/:id/patrons', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (!role) {
+      return res.status(403).json({ message: 'Not authorized to view patrons for this profile' });
+    }
+
+    const patrons = await getProfilePatrons(id, req.query.includeEnded === 'true');
+    res.status(200).json(patrons);
+  } catch (error) {
+    console.error('Error fetching patrons:', error);
+    res.status(500).json({ message: 'Failed to fetch patrons' });
+  }
+});
+
+/**
+ * GET /api/subscriptions
+ *
+ * Get the current user's patron subscriptions
+ */
+subscriptionRouter.get('/subscriptions', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const subscriptions = await getUserSubscriptions(req.user!.id);
+    res.status(200).json(subscriptions);
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    res.status(500).json({ message: 'Failed to fetch subscriptions' });
+  }
+});
+
+/**
+ * POST /api/subscriptions/portal
+ *
+ * Open the Stripe customer portal, where the current user can cancel their
+ * subscriptions or change their card. Returns the portal URL.
+ */
+subscriptionRouter.post('/subscriptions/portal', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    const customerId = await getUserStripeCustomerId(req.user!.id);
+
+    if (!customerId) {
+      return res.status(404).json({ message: "You don't have any subscriptions yet" });
+    }
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    const url = await createPortalSession(customerId, `${frontendUrl}/dashboard?tab=subscriptions`);
+
+    res.status(200).json({ url });
+  } catch (error) {
+    console.error('Error creating customer portal session:', error);
+    res.status(500).json({ message: 'Failed to open subscription management' });
+  }
+});
@@ -0,0 +1,205 @@
+import { Router, Request, Response } from 'express';
+import { getMemberRole, optionalAuth, verifyAuth } from '../middleware/auth';
+import { CurrencyCode, isSupportedCurrency, money } from '../lib/money';
+import {
+  MAX_PINNED_TIPS,
+  MAX_TIP_PRESETS,
+  TipCurrencyLockedError,
+  getModeratedTips,
+  getPublicTips,
+  getTipReceipt,
+  getTipSettings,
+  moderateTip,
+  updateTipSettings,
+  validateTipAmount,
+  verifyReceiptSignature
+} from '../services/tipService';
+
+export const tipRouter = Router();
+
+/**
+ * GET /api/profiles/:id/tip-settings
+ *
+ * Get the preset amounts, currency and limits for a profile's tip wall
+ */
+tipRouter.get('/profiles/:id/tip-settings', async (req: Request, res: Response) => {
+  try {
+    const settings = await getTipSettings(req.params.id);
+
+    if (!settings) {
+      return res.status(404).json({ message: 'Profile not found' });
+    }
+
+    res.status(200).json(settings);
+  } catch (error) {
+    console.error('Error fetching tip settings:', error);
+    res.status(500).json({ message: 'Failed to fetch tip settings' });
+  }
+});
+
+/**
+ * PUT /api/profiles/:id/tip-settings
+ *
+ * Update a profile's tip presets and currency (owners and admins only).
+ * `presets` are in minor units of the currency; `null` restores the defaults.
+ * The currency can't change once the profile has been paid.
+ */
+tipRouter.put('/profiles/:id/tip-settings', verifyAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { presets, currency } = req.body;
+
+  if (currency !== undefined && !isSupportedCurrency(currency)) {
+    return res.status(400).json({ message: 'Unsupported currency' });
+  }
+
+  if (presets !== undefined && presets !== null) {
+    if (!Array.isArray(presets) || presets.length === 0 || presets.length > MAX_TIP_PRESETS) {
+      return res.status(400).json({ message: `Choose between 1 and ${MAX_TIP_PRESETS} preset amounts` });
+    }
+
+    if (!presets.every((preset) => Number.isInteger(preset) && preset > 0)) {
+      return res.status(400).json({ message: 'Preset amounts must be positive integers in minor units' });
+    }
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to manage tips for this profile' });
+    }
+
+    const current = await getTipSettings(id);
+
+    if (!current) {
+      return res.status(404).json({ message: 'Profile not found' });
+    }
+
+    const newCurrency: CurrencyCode = currency || current.currency;
+    let sortedPresets: number[] | null | undefined = presets;
+
+    if (Array.isArray(presets)) {
+      for (const preset of presets) {
+        const amountError = validateTipAmount(money(preset, newCurrency));
+
+        if (amountError) {
+          return res.status(400).json({ message: amountError });
+        }
+      }
+
+      sortedPresets = [...new Set<number>(presets)].sort((a, b) => a - b);
+    }
+
+    const settings = await updateTipSettings(id, { presets: sortedPresets, currency });
+    res.status(200).json(settings);
+  } catch (error) {
+    if (error instanceof TipCurrencyLockedError) {
+      return res.status(409).json({ message: error.message });
+    }
+
+    console.error('Error updating tip settings:', error);
+    res.status(500).json({ message: 'Failed to update tip settings' });
+  }
+});
+
+/**
+ * GET /api/profiles/:id/tips?since=ISO-date
+ *
+ * Get the tips on a profile's tip wall, pinned tips first. Owners and admins
+ * of the profile also get hidden tips, with the `is_hidden` flag, and the
+ * names of donors who chose not to show them. `since` limits the tips to
+ * those made from then on, e.g. during a set.
+ */
+tipRouter.get('/profiles/:id/tips', optionalAuth, async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const since = typeof req.query.since === 'string' ? req.query.since : undefined;
+
+  if (since && Number.isNaN(Date.parse(since))) {
+    return res.status(400).json({ message: 'since must be a date' });
+  }
+
+  try {
+    const role = req.user ? await getMemberRole(id, req.user.id) : null;
+    const canManage = role === 'owner' || role === 'admin';
+
+    const tips = canManage ? await getModeratedTips(id, since) : await getPublicTips(id, since);
+    res.status(200).json(tips);
+  } catch (error) {
+    console.error('Error fetching tips:', error);
+    res.status(500).json({ message: 'Failed to fetch tips' });
+  }
+});
+
+/**
+ * PATCH /api/profiles/:id/tips/:tipId
+ *
+ * Hide or pin a tip on the profile's tip wall (owners and admins only):
+ * `{ hidden?: boolean, pinned?: boolean }`
+ */
+tipRouter.patch('/profiles/:id/tips/:tipId', verifyAuth, async (req: Request, res: Response) => {
+  const { id, tipId } = req.params;
+  const { hidden, pinned } = req.body;
+
+  if ((hidden !== undefined && typeof hidden !== 'boolean') || (pinned !== undefined && typeof pinned !== 'boolean')) {
+    return res.status(400).json({ message: 'hidden and pinned must be true or false' });
+  }
+
+  if (hidden === undefined && pinned === undefined) {
+    return res.status(400).json({ message: 'Nothing to update' });
+  }
+
+  try {
+    const role = await getMemberRole(id, req.user!.id);
+
+    if (role !== 'owner' && role !== 'admin') {
+      return res.status(403).json({ message: 'Not authorized to moderate tips for this profile' });
+    }
+
+    if (pinned) {
+      const pinnedTips = (await getModeratedTips(id)).filter((tip) => tip.pinned_at && tip.id !== tipId);
+
+      if (pinnedTips.length >= MAX_PINNED_TIPS) {
+        return res.status(400).json({ message: `You can pin at most ${MAX_PINNED_TIPS} tips` });
+      }
+    }
+
+    const tip = await moderateTip(id, tipId, { hidden, pinned });
+
+    if (!tip) {
+      return res.status(404).json({ message: 'Tip not found' });
+    }
+
+    res.status(200).json(tip);
+  } catch (error) {
+    console.error('Error moderating tip:', error);
+    res.status(500).json({ message: 'Failed to update tip' });
+  }
+});
+
+/**
+ * GET /api/tips/receipt/:sessionId?sig=...
+ *
+ * Get a tip's receipt from a signed receipt link. No login needed, so guests
+ * who tipped from a QR code can see and keep their receipt.
+ */
+tipRouter.get('/tips/receipt/:sessionId', async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const signature = typeof req.query.sig === 'string' ? req.query.sig : '';
+
+  if (!verifyReceiptSignature(sessionId, signature)) {
+    return res.status(403).json({ message: 'This receipt link is not valid' });
+  }
+
+  try {
+    const receipt = await getTipReceipt(sessionId);
+
+    if (!receipt) {
+      return res.status(404).json({ message: 'Receipt not found' });
+    }
+
+    res.status(200).json(receipt);
+  } catch (error) {
+    console.error('Error fetching tip receipt:', error);
+    res.status(500).json({ message: 'Failed to fetch receipt' });
+  }
+});
@@ -0,0 +1,100 @@
+import express, { Router, Request, Response } from 'express';
+import Stripe from 'stripe';
+import { stripe } from '../services/stripe';
+import { fulfillCheckoutSession, markPaymentFailed, releaseExpiredSession } from '../services/checkoutService';
+import { handleChargeRefunded, handleDisputeCreated } from '../services/refundService';
+import { recordExternalAccountChange, syncConnectAccount } from '../services/connectService';
+import { recordPatronPayment, syncSubscription } from '../services/subscriptionService';
+import { applyPayoutStatus } from '../services/withdrawalService';
+
+export const webhookRouter = Router();
+
+/**
+ * POST /api/checkout/webhook
+ *
+ * Receives Stripe events and is the source of truth for tips, orders,
+ * patron subscriptions and withdrawal payouts.
+ * Must be registered before `express.json()` since signature verification
+ * needs the raw request body.
+ */
+webhookRouter.post('/webhook', express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+  const signature = req.headers['stripe-signature'];
+  // Connect events (account.updated) come from a separate Connect endpoint
+  // with its own signing secret, but are delivered to the same URL
+  const webhookSecrets = [
+    process.env.STRIPE_WEBHOOK_SECRET,
+    process.env.STRIPE_CONNECT_WEBHOOK_SECRET
+  ].filter((secret): secret is string => !!secret);
+
+  if (!signature || webhookSecrets.length === 0) {
+    return res.status(400).json({ message: 'Missing Stripe signature or webhook secret' });
+  }
+
+  let event: Stripe.Event | undefined;
+  let verificationError: any;
+
+  for (const webhookSecret of webhookSecrets) {
+    try {
+      event = stripe.webhooks.constructEvent(req.body, signature, webhookSecret);
+      break;
+    } catch (err) {
+      verificationError = err;
+    }
+  }
+
+  if (!event) {
+    console.error('Stripe webhook signature verification failed:', verificationError.message);
+    return res.status(400).json({ message: `Webhook Error: ${verificationError.message}` });
+  }
+
+  try {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await fulfillCheckoutSession(event.data.object);
+        break;
+      case 'checkout.session.expired':
+        await releaseExpiredSession(event.data.object);
+        break;
+      case 'payment_intent.payment_failed':
+        await markPaymentFailed(event.data.object);
+        break;
+      case 'charge.refunded':
+        await handleChargeRefunded(event.data.object);
+        break;
+      case 'charge.dispute.created':
+        await handleDisputeCreated(event.data.object);
+        break;
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await syncSubscription(event.data.object);
+        break;
+      case 'invoice.paid':
+        await recordPatronPayment(event.data.object);
+        break;
+      case 'account.updated':
+        // Sent for connected accounts, so the endpoint must also listen to Connect events
+        await syncConnectAccount(event.data.object);
+        break;
+      case 'account.external_account.created':
+      case 'account.external_account.updated':
+      case 'account.external_account.deleted':
+        // Members change their bank details on Stripe, so this is where the audit log learns of it
+        await recordExternalAccountChange(event);
+        break;
+      case 'payout.paid':
+      case 'payout.failed':
+        // Withdrawals are paid out by the member's connected account, so these are Connect events too
+        await applyPayoutStatus(event.data.object, event.account);
+        break;
+      default:
+        console.log(`Unhandled Stripe event type: ${event.type}`);
+    }
+
+    res.status(200).json({ received: true });
+  } catch (err) {
+    // Respond with an error so Stripe retries the delivery
+    console.error(`Error handling Stripe event ${event.id} (${event.type}):`, err);
+    res.status(500).json({ message: 'Webhook handler failed' });
+  }
+});
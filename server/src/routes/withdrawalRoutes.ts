@@ -1,15 +1,53 @@
 import { Router, Request, Response } from 'express';
 import { supabase } from '../lib/supabase';
-import { createStripePayout, getPayoutDetails } from '../services/payoutService';
+import { getMemberRole, isPlatformAdmin, requireAdmin, verifyAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { getPayoutDetails, getTransferDetails } from '../services/payoutService';
+import { getMemberConnectAccount } from '../services/connectService';
+import { getAvailableBalance, getWalletBalance, InsufficientFundsError } from '../services/walletService';
+import {
+  WithdrawalNotFoundError,
+  WithdrawalRow,
+  WithdrawalStatusError,
+  approveWithdrawal,
+  getWithdrawal,
+  payOutWithdrawal,
+  requestWithdrawal,
+  transitionWithdrawal
+} from '../services/withdrawalService';
+import {
+  PAYOUT_FREQUENCIES,
+  PayoutFrequency,
+  deletePayoutSchedule,
+  getAutoApproveLimits,
+  getPayoutSchedule,
+  savePayoutSchedule,
+  setAutoApproveLimit
+} from '../services/payoutScheduleService';
+import { DEFAULT_CURRENCY, formatMoney, isSupportedCurrency, money, toCurrencyCode } from '../lib/money';
 
 export const withdrawalRouter = Router();
 
+/**
+ * Whether a user owns a profile. Each member withdraws from their own wallet,
+ * but the owner (and platform admins) can see every member's withdrawals.
+ */
+async function isProfileOwner(profileId: string, userId: string): Promise<boolean> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('user_id')
+    .eq('id', profileId)
+    .maybeSingle();
+
+  return profile?.user_id === userId;
+}
+
 /**
  * GET /api/withdrawals/admin/all
  * 
- * Admin endpoint to get all withdrawal requests (service role only)
+ * Admin endpoint to get all withdrawal requests (platform admins only)
  */
-withdrawalRouter.get('/admin/all', async (req: Request, res: Response) => {
+withdrawalRouter.get('/admin/all', verifyAuth, requireAdmin, async (req: Request, res: Response) => {
   try {
     // Fetch all withdrawals with profile information
     const { data: withdrawals, error } = await supabase
@@ -18,6 +56,7 @@ withdrawalRouter.get('/admin/all', async (req: Request, res: Response) => {
         id,
         profile_id,
         amount,
+        currency,
         status,
         requested_at,
         processed_at,
@@ -44,27 +83,80 @@ withdrawalRouter.get('/admin/all', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/withdrawals/admin/auto-approve-limits
+ *
+ * Admin endpoint to get the largest scheduled withdrawal approved
+ * automatically, per currency. Currencies without a limit aren't.
+ */
+withdrawalRouter.get('/admin/auto-approve-limits', verifyAuth, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await getAutoApproveLimits());
+  } catch (err) {
+    console.error('Error fetching auto-approve limits:', err);
+    res.status(500).json({ message: 'Failed to fetch auto-approve limits' });
+  }
+});
+
+/**
+ * PUT /api/withdrawals/admin/auto-approve-limits
+ *
+ * Admin endpoint to set a currency's auto-approve limit:
+ * `{ currency, amount }` with the amount in minor units, or null to remove it.
+ */
+withdrawalRouter.put('/admin/auto-approve-limits', verifyAuth, requireAdmin, audit('withdrawal.auto_approve_limit', 'payout_auto_approve_limit'), async (req: Request, res: Response) => {
+  const { currency, amount } = req.body;
+
+  if (!isSupportedCurrency(currency)) {
+    return res.status(400).json({ message: 'Unsupported currency' });
+  }
+
+  if (amount !== null && (!Number.isInteger(amount) || amount < 0)) {
+    return res.status(400).json({ message: 'Amount must be a non-negative integer in minor units, or null' });
+  }
+
+  try {
+    const before = (await getAutoApproveLimits()).find((limit) => limit.currency === currency) || null;
+    await setAutoApproveLimit(currency, amount, req.user!.id);
+    const limits = await getAutoApproveLimits();
+
+    req.audit = {
+      targetId: currency,
+      before,
+      after: limits.find((limit) => limit.currency === currency) || null
+    };
+
+    res.status(200).json(limits);
+  } catch (err) {
+    console.error('Error setting auto-approve limit:', err);
+    res.status(500).json({ message: 'Failed to set auto-approve limit' });
+  }
+});
+
 /**
  * POST /api/withdrawals/request
  * 
- * Create a withdrawal request for an artist's accumulated saldo
+ * Create a withdrawal request for a profile member's own accumulated saldo,
+ * paid to their own connected account.
+ * `amount` is in minor units and is paid out in the profile's payout currency.
+ * The amount is held, so it can't be requested again while the request is pending.
  */
-withdrawalRouter.post('/request', async (req: Request, res: Response) => {
-  const { profileId, amount } = req.body;
+withdrawalRouter.post('/request', verifyAuth, async (req: Request, res: Response) => {
+  const { profileId, amount, currency } = req.body;
 
   if (!profileId) {
     return res.status(400).json({ message: 'Profile ID is required' });
   }
 
-  if (!amount || amount <= 0) {
-    return res.status(400).json({ message: 'Amount must be greater than 0' });
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return res.status(400).json({ message: 'Amount must be a positive integer in minor units' });
   }
 
   try {
-    // Get the profile to check bank account and get user_id
+    // Get the profile's payout currency
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
-      .select('user_id, bank_account_token')
+      .select('payout_currency')
       .eq('id', profileId)
       .single();
 
@@ -72,47 +164,43 @@ withdrawalRouter.post('/request', async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Profile not found' });
     }
 
-    // Check if bank account is configured
-    if (!profile.bank_account_token) {
+    // Every member withdraws their own share, to their own Stripe Connect account
+    const connectAccount = await getMemberConnectAccount(profileId, req.user!.id);
+
+    if (!connectAccount) {
+      return res.status(403).json({ message: 'Only members of this profile can request a withdrawal' });
+    }
+
+    if (connectAccount.status !== 'connected') {
       return res.status(400).json({ 
-        message: 'Bank account is required before requesting a withdrawal. Please add your bank details first.' 
+        message: 'A connected payout account is required before requesting a withdrawal. Please finish your Stripe payout setup first.' 
       });
     }
 
-    // Get user's wallet to check saldo
-    const { data: wallet, error: walletError } = await supabase
-      .from('user_wallets')
-      .select('saldo')
-      .eq('user_id', profile.user_id)
-      .single();
+    // Withdrawals are paid out in the profile's payout currency, never converted
+    const payoutCurrency = toCurrencyCode(profile.payout_currency || DEFAULT_CURRENCY);
 
-    if (walletError || !wallet) {
-      return res.status(404).json({ message: 'User wallet not found' });
-    }
-
-    // Check if requested amount doesn't exceed saldo
-    if (amount > (wallet.saldo || 0)) {
-      return res.status(400).json({ 
-        message: `Insufficient saldo. Available: ${(wallet.saldo || 0).toFixed(2)} SEK` 
+    if (currency && currency.toUpperCase() !== payoutCurrency) {
+      return res.status(400).json({
+        message: `Withdrawals for this profile are paid out in ${payoutCurrency}`
       });
     }
 
-    // Create withdrawal request
-    const { data: withdrawal, error: withdrawalError } = await supabase
-      .from('withdrawals')
-      .insert([
-        {
-          profile_id: profileId,
-          amount: amount,
-          status: 'pending'
-        }
-      ])
-      .select()
-      .single();
+    const requested = money(amount, payoutCurrency);
+
+    // Holds the amount until the request is approved or rejected
+    let withdrawal: WithdrawalRow;
 
-    if (withdrawalError) {
-      console.error('Error creating withdrawal request:', withdrawalError);
-      return res.status(500).json({ message: 'Failed to create withdrawal request' });
+    try {
+      withdrawal = await requestWithdrawal(profileId, req.user!.id, requested);
+    } catch (err) {
+      if (err instanceof InsufficientFundsError) {
+        const available = await getAvailableBalance(req.user!.id, payoutCurrency);
+        return res.status(400).json({
+          message: `Insufficient saldo. Available: ${formatMoney(available)}`
+        });
+      }
+      throw err;
     }
 
     res.status(201).json({
@@ -125,20 +213,131 @@ withdrawalRouter.post('/request', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/withdrawals/schedule
+ *
+ * Get the current user's payout schedule, or null if they have none
+ */
+withdrawalRouter.get('/schedule', verifyAuth, async (req: Request, res: Response) => {
+  try {
+    res.status(200).json(await getPayoutSchedule(req.user!.id));
+  } catch (err) {
+    console.error('Error fetching payout schedule:', err);
+    res.status(500).json({ message: 'Failed to fetch payout schedule' });
+  }
+});
+
+/**
+ * PUT /api/withdrawals/schedule
+ *
+ * Pay out the current user's available saldo automatically:
+ * `{ profileId, frequency: 'weekly' | 'monthly', minimumAmount }`. The
+ * minimum is in minor units of the profile's payout currency, and the payout
+ * goes to the user's connected account on that profile.
+ */
+withdrawalRouter.put('/schedule', verifyAuth, audit('payout_schedule.update', 'payout_schedule'), async (req: Request, res: Response) => {
+  const { profileId, frequency, minimumAmount } = req.body;
+
+  if (!profileId) {
+    return res.status(400).json({ message: 'Profile ID is required' });
+  }
+
+  if (!PAYOUT_FREQUENCIES.includes(frequency)) {
+    return res.status(400).json({ message: `Frequency must be one of: ${PAYOUT_FREQUENCIES.join(', ')}` });
+  }
+
+  if (!Number.isInteger(minimumAmount) || minimumAmount <= 0) {
+    return res.status(400).json({ message: 'Minimum amount must be a positive integer in minor units' });
+  }
+
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('payout_currency')
+      .eq('id', profileId)
+      .single();
+
+    if (profileError || !profile) {
+      return res.status(404).json({ message: 'Profile not found' });
+    }
+
+    const connectAccount = await getMemberConnectAccount(profileId, req.user!.id);
+
+    if (!connectAccount) {
+      return res.status(403).json({ message: 'Only members of this profile can schedule payouts' });
+    }
+
+    if (connectAccount.status !== 'connected') {
+      return res.status(400).json({ message: 'A connected payout account is required before scheduling payouts' });
+    }
+
+    const payoutCurrency = toCurrencyCode(profile.payout_currency || DEFAULT_CURRENCY);
+    const before = await getPayoutSchedule(req.user!.id);
+    const schedule = await savePayoutSchedule(
+      req.user!.id,
+      profileId,
+      frequency as PayoutFrequency,
+      money(minimumAmount, payoutCurrency)
+    );
+
+    req.audit = { targetId: req.user!.id, before, after: schedule };
+
+    res.status(200).json(schedule);
+  } catch (err) {
+    console.error('Error saving payout schedule:', err);
+    res.status(500).json({ message: 'Failed to save payout schedule' });
+  }
+});
+
+/**
+ * DELETE /api/withdrawals/schedule
+ *
+ * Stop the current user's scheduled payouts
+ */
+withdrawalRouter.delete('/schedule', verifyAuth, audit('payout_schedule.delete', 'payout_schedule'), async (req: Request, res: Response) => {
+  try {
+    const before = await getPayoutSchedule(req.user!.id);
+    const deleted = await deletePayoutSchedule(req.user!.id);
+
+    if (!deleted) {
+      return res.status(404).json({ message: 'No payout schedule found' });
+    }
+
+    req.audit = { targetId: req.user!.id, before, after: null };
+
+    res.status(200).json({ message: 'Payout schedule deleted' });
+  } catch (err) {
+    console.error('Error deleting payout schedule:', err);
+    res.status(500).json({ message: 'Failed to delete payout schedule' });
+  }
+});
+
 /**
  * GET /api/withdrawals/:profileId
  * 
- * Get all withdrawal requests for a profile
+ * Get all withdrawal requests for a profile (its owner and platform admins
+ * only). Other members get their own requests.
  */
-withdrawalRouter.get('/:profileId', async (req: Request, res: Response) => {
+withdrawalRouter.get('/:profileId', verifyAuth, async (req: Request, res: Response) => {
   const { profileId } = req.params;
 
   try {
-    const { data: withdrawals, error } = await supabase
+    const seesAll = await isProfileOwner(profileId, req.user!.id) || await isPlatformAdmin(req.user!.id);
+
+    if (!seesAll && !(await getMemberRole(profileId, req.user!.id))) {
+      return res.status(403).json({ message: 'Not authorized to view withdrawals for this profile' });
+    }
+
+    let query = supabase
       .from('withdrawals')
       .select('*')
-      .eq('profile_id', profileId)
-      .order('requested_at', { ascending: false });
+      .eq('profile_id', profileId);
+
+    if (!seesAll) {
+      query = query.eq('user_id', req.user!.id);
+    }
+
+    const { data: withdrawals, error } = await query.order('requested_at', { ascending: false });
 
     if (error) {
       console.error('Error fetching withdrawals:', error);
@@ -156,90 +355,53 @@ withdrawalRouter.get('/:profileId', async (req: Request, res: Response) => {
  * PATCH /api/withdrawals/:withdrawalId/approve
  * 
  * Admin endpoint to approve a withdrawal request and initiate Stripe payout
- * Deducts from artist's saldo and transfers money via Stripe
+ * Moves the held amount to a debit of the artist's saldo and transfers money via Stripe
  */
-withdrawalRouter.patch('/:withdrawalId/approve', async (req: Request, res: Response) => {
+withdrawalRouter.patch('/:withdrawalId/approve', verifyAuth, requireAdmin, audit('withdrawal.approve', 'withdrawal'), async (req: Request, res: Response) => {
   const { withdrawalId } = req.params;
   const { notes } = req.body;
 
   try {
-    // Get withdrawal details
-    const { data: withdrawal, error: withdrawalError } = await supabase
-      .from('withdrawals')
-      .select('*')
-      .eq('id', withdrawalId)
-      .single();
-
-    if (withdrawalError || !withdrawal) {
-      return res.status(404).json({ message: 'Withdrawal request not found' });
-    }
-
-    // Update withdrawal status to approved
-    const { error: updateError } = await supabase
-      .from('withdrawals')
-      .update({
-        status: 'approved',
-        processed_at: new Date().toISOString(),
-        notes: notes || null
-      })
-      .eq('id', withdrawalId);
-
-    if (updateError) {
-      console.error('Error approving withdrawal:', updateError);
-      return res.status(500).json({ message: 'Failed to approve withdrawal' });
-    }
-
-    // Get user_id from profile
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('user_id')
-      .eq('id', withdrawal.profile_id)
-      .single();
-
-    if (profileError || !profile) {
-      return res.status(404).json({ message: 'Profile not found' });
-    }
+    const before = await getWithdrawal(withdrawalId);
 
-    // Deduct from user's wallet (shared across all profiles)
-    const { data: wallet, error: walletError } = await supabase
-      .from('user_wallets')
-      .select('saldo')
-      .eq('user_id', profile.user_id)
-      .single();
+    // Moves the hold to a wallet debit; a withdrawal can only be approved once
+    let withdrawal: WithdrawalRow;
 
-    if (walletError || !wallet) {
-      return res.status(404).json({ message: 'User wallet not found' });
+    try {
+      withdrawal = await approveWithdrawal(withdrawalId, notes || null);
+    } catch (err) {
+      if (err instanceof WithdrawalNotFoundError) {
+        return res.status(404).json({ message: err.message });
+      }
+      if (err instanceof WithdrawalStatusError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InsufficientFundsError) {
+        // Refunds since the request was made have left too little
+        return res.status(400).json({ message: 'Insufficient saldo to cover this withdrawal' });
+      }
+      throw err;
     }
 
-    const currentSaldo = wallet.saldo || 0;
-    const newSaldo = Math.max(0, currentSaldo - withdrawal.amount);
-
-    const { error: saldoError } = await supabase
-      .from('user_wallets')
-      .update({ saldo: newSaldo })
-      .eq('user_id', profile.user_id);
-
-    if (saldoError) {
-      console.error('Error updating wallet saldo:', saldoError);
-      return res.status(500).json({ message: 'Failed to update artist wallet' });
-    }
+    const newSaldo = await getWalletBalance(withdrawal.user_id, toCurrencyCode(withdrawal.currency));
 
-    // Initiate Stripe payout
-    const payoutResult = await createStripePayout({
-      withdrawalId: withdrawalId,
-      profileId: withdrawal.profile_id,
-      amount: withdrawal.amount,
-      email: 'noreply@gobusker.local' // Default email since profile might not have one
-    });
+    // Initiate Stripe payout, unless it has already been started
+    const payoutResult = await payOutWithdrawal(withdrawalId);
 
     if (!payoutResult.success) {
       console.warn(`Payout initiated but failed: ${payoutResult.error}`);
       // Note: Saldo is already deducted, but we'll notify admin of the issue
     }
 
+    req.audit = {
+      targetId: withdrawalId,
+      before,
+      after: { ...withdrawal, payout: payoutResult }
+    };
+
     res.status(200).json({
       message: 'Withdrawal approved and payout initiated',
-      withdrawal: { ...withdrawal, status: 'approved' },
+      withdrawal,
       newSaldo: newSaldo,
       payout: payoutResult
     });
@@ -252,58 +414,95 @@ withdrawalRouter.patch('/:withdrawalId/approve', async (req: Request, res: Respo
 /**
  * PATCH /api/withdrawals/:withdrawalId/reject
  * 
- * Admin endpoint to reject a withdrawal request
+ * Admin endpoint to reject a pending withdrawal request, releasing its hold
  */
-withdrawalRouter.patch('/:withdrawalId/reject', async (req: Request, res: Response) => {
+withdrawalRouter.patch('/:withdrawalId/reject', verifyAuth, requireAdmin, audit('withdrawal.reject', 'withdrawal'), async (req: Request, res: Response) => {
   const { withdrawalId } = req.params;
   const { notes } = req.body;
 
   try {
-    const { error } = await supabase
-      .from('withdrawals')
-      .update({
-        status: 'rejected',
-        processed_at: new Date().toISOString(),
-        notes: notes || null
-      })
-      .eq('id', withdrawalId);
+    const before = await getWithdrawal(withdrawalId);
 
-    if (error) {
-      console.error('Error rejecting withdrawal:', error);
-      return res.status(500).json({ message: 'Failed to reject withdrawal' });
-    }
+    // Only a pending withdrawal can be rejected, which releases its hold
+    const withdrawal = await transitionWithdrawal(withdrawalId, 'rejected', {
+      processed_at: new Date().toISOString(),
+      notes: notes || null
+    });
+
+    req.audit = { targetId: withdrawalId, before, after: withdrawal };
 
     res.status(200).json({ message: 'Withdrawal request rejected' });
   } catch (err) {
+    if (err instanceof WithdrawalNotFoundError) {
+      return res.status(404).json({ message: err.message });
+    }
+    if (err instanceof WithdrawalStatusError) {
+      return res.status(409).json({ message: err.message });
+    }
+
     console.error('Error in reject withdrawal:', err);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
+/**
+ * PATCH /api/withdrawals/:withdrawalId/cancel
+ *
+ * Cancel one of the current user's pending withdrawal requests, releasing its hold
+ */
+withdrawalRouter.patch('/:withdrawalId/cancel', verifyAuth, audit('withdrawal.cancel', 'withdrawal'), async (req: Request, res: Response) => {
+  const { withdrawalId } = req.params;
+
+  try {
+    const withdrawal = await getWithdrawal(withdrawalId);
+
+    if (!withdrawal) {
+      return res.status(404).json({ message: 'Withdrawal request not found' });
+    }
+
+    if (withdrawal.user_id !== req.user!.id) {
+      return res.status(403).json({ message: 'Not authorized to cancel this withdrawal' });
+    }
+
+    const cancelled = await transitionWithdrawal(withdrawalId, 'cancelled', { processed_at: new Date().toISOString() });
+
+    req.audit = { targetId: withdrawalId, before: withdrawal, after: cancelled };
+
+    res.status(200).json({ message: 'Withdrawal request cancelled' });
+  } catch (err) {
+    if (err instanceof WithdrawalStatusError) {
+      return res.status(409).json({ message: 'Only pending withdrawals can be cancelled' });
+    }
+
+    console.error('Error in cancel withdrawal:', err);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 /**
  * PATCH /api/withdrawals/:withdrawalId/mark-completed
  * 
- * Admin endpoint to mark a withdrawal as completed (after transfer)
+ * Admin endpoint to mark an approved withdrawal as completed (after a manual
+ * transfer). Stripe payouts complete withdrawals through the payout.paid webhook.
  */
-withdrawalRouter.patch('/:withdrawalId/mark-completed', async (req: Request, res: Response) => {
+withdrawalRouter.patch('/:withdrawalId/mark-completed', verifyAuth, requireAdmin, audit('withdrawal.mark_completed', 'withdrawal'), async (req: Request, res: Response) => {
   const { withdrawalId } = req.params;
 
   try {
-    const { error } = await supabase
-      .from('withdrawals')
-      .update({
-        status: 'completed',
-        processed_at: new Date().toISOString()
-      })
-      .eq('id', withdrawalId);
+    const before = await getWithdrawal(withdrawalId);
+    const withdrawal = await transitionWithdrawal(withdrawalId, 'completed', { processed_at: new Date().toISOString() });
 
-    if (error) {
-      console.error('Error marking withdrawal as completed:', error);
-      return res.status(500).json({ message: 'Failed to mark withdrawal as completed' });
-    }
+    req.audit = { targetId: withdrawalId, before, after: withdrawal };
 
     res.status(200).json({ message: 'Withdrawal marked as completed' });
   } catch (err) {
+    if (err instanceof WithdrawalNotFoundError) {
+      return res.status(404).json({ message: err.message });
+    }
+    if (err instanceof WithdrawalStatusError) {
+      return res.status(409).json({ message: err.message });
+    }
+
     console.error('Error in mark completed:', err);
     res.status(500).json({ message: 'Internal server error' });
   }
@@ -312,9 +511,11 @@ withdrawalRouter.patch('/:withdrawalId/mark-completed', async (req: Request, res
 /**
  * GET /api/withdrawals/:withdrawalId/payout-status
  * 
- * Check the status of a payout
+ * Check the status of a payout on Stripe (the member who requested it, the
+ * profile owner and platform admins only).
+ * The withdrawal's own status is kept up to date by the payout webhooks.
  */
-withdrawalRouter.get('/:withdrawalId/payout-status', async (req: Request, res: Response) => {
+withdrawalRouter.get('/:withdrawalId/payout-status', verifyAuth, async (req: Request, res: Response) => {
   const { withdrawalId } = req.params;
 
   try {
@@ -329,6 +530,27 @@ withdrawalRouter.get('/:withdrawalId/payout-status', async (req: Request, res: R
       return res.status(404).json({ message: 'Withdrawal not found' });
     }
 
+    const allowed = withdrawal.user_id === req.user!.id
+      || await isProfileOwner(withdrawal.profile_id, req.user!.id)
+      || await isPlatformAdmin(req.user!.id);
+
+    if (!allowed) {
+      return res.status(403).json({ message: 'Not authorized to view this withdrawal' });
+    }
+
+    if (withdrawal.stripe_transfer_id) {
+      // Paid via a transfer to the artist's connected account
+      const transferDetails = await getTransferDetails(withdrawal.stripe_transfer_id);
+
+      return res.status(200).json({
+        status: transferDetails.reversed ? 'reversed' : 'transferred',
+        transfer_id: transferDetails.id,
+        destination: transferDetails.destination,
+        amount: money(transferDetails.amount, transferDetails.currency),
+        created: transferDetails.created
+      });
+    }
+
     if (!withdrawal.stripe_payout_id) {
       return res.json({
         status: 'no_payout',
@@ -342,7 +564,7 @@ withdrawalRouter.get('/:withdrawalId/payout-status', async (req: Request, res: R
     res.status(200).json({
       status: payoutDetails.status,
       payout_id: payoutDetails.id,
-      amount: payoutDetails.amount / 100,
+      amount: money(payoutDetails.amount, payoutDetails.currency),
       created: payoutDetails.created,
       arrival_date: payoutDetails.arrival_date,
       automatic: payoutDetails.automatic,
@@ -358,9 +580,9 @@ withdrawalRouter.get('/:withdrawalId/payout-status', async (req: Request, res: R
 /**
  * PATCH /api/withdrawals/admin/bulk-process
  * 
- * Process multiple approved withdrawals at once
+ * Admin endpoint to process multiple approved withdrawals at once
  */
-withdrawalRouter.patch('/admin/bulk-process', async (req: Request, res: Response) => {
+withdrawalRouter.patch('/admin/bulk-process', verifyAuth, requireAdmin, audit('withdrawal.bulk_process', 'withdrawal'), async (req: Request, res: Response) => {
   const { withdrawalIds } = req.body;
 
   if (!Array.isArray(withdrawalIds) || withdrawalIds.length === 0) {
@@ -371,53 +593,8 @@ withdrawalRouter.patch('/admin/bulk-process', async (req: Request, res: Response
     const results = [];
 
     for (const withdrawalId of withdrawalIds) {
-      const { data: withdrawal, error: withdrawalError } = await supabase
-        .from('withdrawals')
-        .select('*')
-        .eq('id', withdrawalId)
-        .single();
-
-      if (withdrawalError || !withdrawal) {
-        results.push({
-          withdrawalId,
-          success: false,
-          error: 'Withdrawal not found'
-        });
-        continue;
-      }
-
-      if (withdrawal.status !== 'approved') {
-        results.push({
-          withdrawalId,
-          success: false,
-          error: `Withdrawal status is ${withdrawal.status}, not approved`
-        });
-        continue;
-      }
-
-      // Get profile for email
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', withdrawal.profile_id)
-        .single();
-
-      if (profileError || !profile) {
-        results.push({
-          withdrawalId,
-          success: false,
-          error: 'Profile not found'
-        });
-        continue;
-      }
-
-      // Create payout
-      const payoutResult = await createStripePayout({
-        withdrawalId: withdrawalId,
-        profileId: withdrawal.profile_id,
-        amount: withdrawal.amount,
-        email: 'noreply@gobusker.local'
-      });
+      // Skips withdrawals that aren't approved or are already being paid out
+      const payoutResult = await payOutWithdrawal(withdrawalId);
 
       results.push({
         withdrawalId,
@@ -427,6 +604,8 @@ withdrawalRouter.patch('/admin/bulk-process', async (req: Request, res: Response
       });
     }
 
+    req.audit = { after: { results } };
+
     res.status(200).json({
       message: `Processed ${results.length} withdrawals`,
       results
@@ -0,0 +1,139 @@
+import { supabase } from '../lib/supabase';
+
+export const AUDIT_ACTIONS = [
+  'withdrawal.approve',
+  'withdrawal.reject',
+  'withdrawal.mark_completed',
+  'withdrawal.bulk_process',
+  'withdrawal.auto_approve_limit',
+  'withdrawal.cancel',
+  'payout_schedule.update',
+  'payout_schedule.delete',
+  'refund.create',
+  'invite.accept',
+  'payout_account.onboarding',
+  'payout_account.dashboard_login',
+  'payout_account.bank_account_created',
+  'payout_account.bank_account_updated',
+  'payout_account.bank_account_deleted'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_TARGET_TYPES = [
+  'withdrawal',
+  'payout_auto_approve_limit',
+  'payout_schedule',
+  'profile',
+  'connect_account',
+  'refund'
+] as const;
+
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+// The most events a single export returns
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+export interface AuditEvent {
+  id: string;
+  actor_id: string | null; // null for Stripe and background jobs
+  actor_email: string | null;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string | null;
+  before: unknown;
+  after: unknown;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface NewAuditEvent {
+  actorId: string | null;
+  actorEmail?: string | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  ipAddress?: string | null;
+  stripeEventId?: string; // for changes made on Stripe
+}
+
+export interface AuditEventFilters {
+  action?: AuditAction;
+  actor?: string; // part of the actor's email
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: string; // ISO dates, inclusive
+  to?: string;
+}
+
+/**
+ * Append an event to the audit log. An event from a Stripe webhook is only
+ * recorded once, however often Stripe delivers it.
+ */
+export async function recordAuditEvent(event: NewAuditEvent): Promise<void> {
+  const { error } = await supabase
+    .from('audit_events')
+    .upsert({
+      actor_id: event.actorId,
+      actor_email: event.actorEmail ?? null,
+      action: event.action,
+      target_type: event.targetType,
+      target_id: event.targetId ?? null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      ip_address: event.ipAddress ?? null,
+      stripe_event_id: event.stripeEventId ?? null
+    }, { onConflict: 'stripe_event_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * List audit events matching the filters, newest first, with the total
+ * number of matches for paging
+ */
+export async function listAuditEvents(
+  filters: AuditEventFilters,
+  limit: number,
+  offset: number = 0
+): Promise<{ events: AuditEvent[]; total: number }> {
+  let query = supabase
+    .from('audit_events')
+    .select('*', { count: 'exact' });
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actor) query = query.ilike('actor_email', `%${filters.actor}%`);
+  if (filters.targetType) query = query.eq('target_type', filters.targetType);
+  if (filters.targetId) query = query.eq('target_id', filters.targetId);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  const { data, count, error } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+
+  return { events: data || [], total: count || 0 };
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format audit events as CSV, with before/after as JSON columns
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const columns: (keyof AuditEvent)[] = [
+    'created_at', 'actor_email', 'actor_id', 'action', 'target_type', 'target_id', 'before', 'after', 'ip_address'
+  ];
+
+  const rows = events.map((event) => columns.map((column) => csvField(event[column])).join(','));
+
+  return [columns.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,292 @@
+import { supabase } from '../lib/supabase';
+import { DEFAULT_CURRENCY, formatMoney, money, toCurrencyCode } from '../lib/money';
+
+// A profile can run a few campaigns side by side, e.g. a van and an album
+export const MAX_ACTIVE_CAMPAIGNS = 3;
+
+export const MAX_CAMPAIGN_TITLE_LENGTH = 80;
+
+// Closed campaigns stay on the profile for a while with their summary
+const CLOSED_CAMPAIGN_VISIBLE_DAYS = 30;
+
+export interface CampaignRow {
+  id: string;
+  profile_id: string;
+  title: string;
+  description: string | null;
+  target_amount: number; // in minor units
+  currency: string;
+  deadline: string;
+  status: 'active' | 'closed';
+  raised_amount: number | null; // frozen when the campaign closes
+  tip_count: number | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A campaign with its progress, live while it's active and frozen once closed
+export interface Campaign extends CampaignRow {
+  raised_amount: number;
+  tip_count: number;
+}
+
+export interface CampaignInput {
+  title?: string;
+  description?: string | null;
+  targetAmount?: number; // in minor units
+  deadline?: string;
+}
+
+export class CampaignLimitError extends Error {
+  constructor(message: string = `A profile can have at most ${MAX_ACTIVE_CAMPAIGNS} active campaigns`) {
+    super(message);
+    this.name = 'CampaignLimitError';
+  }
+}
+
+export class CampaignClosedError extends Error {
+  constructor(message: string = 'This campaign has ended') {
+    super(message);
+    this.name = 'CampaignClosedError';
+  }
+}
+
+/**
+ * Add the live progress to active campaigns. Closed campaigns already carry
+ * their final totals.
+ */
+async function withProgress(campaigns: CampaignRow[]): Promise<Campaign[]> {
+  const activeIds = campaigns.filter((campaign) => campaign.status === 'active').map((campaign) => campaign.id);
+  const progress = new Map<string, { raised_amount: number; tip_count: number }>();
+
+  if (activeIds.length > 0) {
+    const { data, error } = await supabase
+      .from('campaign_progress')
+      .select('campaign_id, raised_amount, tip_count')
+      .in('campaign_id', activeIds);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      progress.set(row.campaign_id, { raised_amount: row.raised_amount, tip_count: row.tip_count });
+    }
+  }
+
+  return campaigns.map((campaign) => ({
+    ...campaign,
+    raised_amount: campaign.raised_amount ?? progress.get(campaign.id)?.raised_amount ?? 0,
+    tip_count: campaign.tip_count ?? progress.get(campaign.id)?.tip_count ?? 0
+  }));
+}
+
+/**
+ * Get a profile's active campaigns, soonest deadline first, followed by
+ * those that closed recently
+ */
+export async function getProfileCampaigns(profileId: string): Promise<Campaign[]> {
+  const closedSince = new Date(Date.now() - CLOSED_CAMPAIGN_VISIBLE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select('*')
+    .eq('profile_id', profileId)
+    .or(`status.eq.active,closed_at.gte.${closedSince}`)
+    .order('status', { ascending: true })
+    .order('deadline', { ascending: true });
+
+  if (error) throw error;
+
+  return withProgress(data || []);
+}
+
+/**
+ * Get one of a profile's campaigns, or null if it isn't one of theirs
+ */
+export async function getCampaign(profileId: string, campaignId: string): Promise<Campaign | null> {
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select('*')
+    .eq('id', campaignId)
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const [campaign] = await withProgress([data]);
+  return campaign;
+}
+
+/**
+ * Check that a tip can be put towards a campaign: it must be one of the
+ * tipped profile's campaigns, still active and before its deadline.
+ * Returns an error message, or null when it's fine.
+ */
+export async function validateTipCampaign(profileId: string, campaignId: string): Promise<string | null> {
+  const { data: campaign, error } = await supabase
+    .from('campaigns')
+    .select('id, status, deadline')
+    .eq('id', campaignId)
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!campaign) {
+    return 'Campaign not found';
+  }
+
+  if (campaign.status !== 'active' || new Date(campaign.deadline) <= new Date()) {
+    return 'This campaign has ended';
+  }
+
+  return null;
+}
+
+/**
+ * Start a campaign. The target is in the profile's payout currency, which
+ * is the currency its tips are charged in.
+ */
+export async function createCampaign(
+  profileId: string,
+  input: Required<Pick<CampaignInput, 'title' | 'targetAmount' | 'deadline'>> & Pick<CampaignInput, 'description'>
+): Promise<Campaign> {
+  const { count, error: countError } = await supabase
+    .from('campaigns')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', profileId)
+    .eq('status', 'active');
+
+  if (countError) throw countError;
+
+  if ((count || 0) >= MAX_ACTIVE_CAMPAIGNS) {
+    throw new CampaignLimitError();
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('payout_currency')
+    .eq('id', profileId)
+    .single();
+
+  if (profileError) throw profileError;
+
+  const { data, error } = await supabase
+    .from('campaigns')
+    .insert({
+      profile_id: profileId,
+      title: input.title,
+      description: input.description || null,
+      target_amount: input.targetAmount,
+      currency: toCurrencyCode(profile.payout_currency || DEFAULT_CURRENCY),
+      deadline: input.deadline
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  const [campaign] = await withProgress([data]);
+  return campaign;
+}
+
+/**
+ * Edit an active campaign. Closed campaigns keep their summary as it was.
+ * Returns null if the campaign isn't one of the profile's.
+ */
+export async function updateCampaign(profileId: string, campaignId: string, input: CampaignInput): Promise<Campaign | null> {
+  const existing = await getCampaign(profileId, campaignId);
+
+  if (!existing) return null;
+
+  if (existing.status !== 'active') {
+    throw new CampaignClosedError('Closed campaigns can no longer be edited');
+  }
+
+  const { data, error } = await supabase
+    .from('campaigns')
+    .update({
+      ...(input.title !== undefined && { title: input.title }),
+      ...(input.description !== undefined && { description: input.description || null }),
+      ...(input.targetAmount !== undefined && { target_amount: input.targetAmount }),
+      ...(input.deadline !== undefined && { deadline: input.deadline }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', campaignId)
+    .eq('status', 'active')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!data) {
+    throw new CampaignClosedError('Closed campaigns can no longer be edited');
+  }
+
+  const [campaign] = await withProgress([data]);
+  return campaign;
+}
+
+/**
+ * Email a profile's owner the summary of a campaign that just closed
+ */
+async function sendCampaignSummary(campaign: Campaign): Promise<void> {
+  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+    console.warn(`Email service not configured, summary for campaign ${campaign.id} not sent`);
+    return;
+  }
+
+  const { data: owner } = await supabase
+    .from('profile_members')
+    .select('user_id')
+    .eq('profile_id', campaign.profile_id)
+    .eq('role', 'owner')
+    .maybeSingle();
+
+  if (!owner) return;
+
+  const [{ data: ownerData }, { data: profile }] = await Promise.all([
+    supabase.auth.admin.getUserById(owner.user_id),
+    supabase.from('profiles').select('name').eq('id', campaign.profile_id).single()
+  ]);
+
+  if (!ownerData?.user?.email) return;
+
+  const currency = toCurrencyCode(campaign.currency);
+  const { sendCampaignSummaryEmail } = await import('./emailService');
+  await sendCampaignSummaryEmail({
+    to: ownerData.user.email,
+    profileName: profile?.name || 'your profile',
+    title: campaign.title,
+    raised: formatMoney(money(campaign.raised_amount, currency)),
+    target: formatMoney(money(campaign.target_amount, currency)),
+    tipCount: campaign.tip_count,
+    goalReached: campaign.raised_amount >= campaign.target_amount,
+    profileUrl: `${process.env.CLIENT_URL}/profile/${campaign.profile_id}`
+  });
+}
+
+/**
+ * Close campaigns and freeze their totals: one campaign early, when the
+ * profile ends it by hand, or every campaign whose deadline has passed.
+ * The owner is emailed a summary of each campaign this call closed.
+ */
+export async function closeCampaigns(campaignId?: string): Promise<Campaign[]> {
+  const { data, error } = await supabase.rpc('close_campaigns', { p_campaign_id: campaignId ?? null });
+
+  if (error) throw error;
+
+  const closed: Campaign[] = data || [];
+
+  for (const campaign of closed) {
+    try {
+      await sendCampaignSummary(campaign);
+    } catch (emailError) {
+      // The campaign is closed either way; the summary is on the profile too
+      console.error(`Failed to send summary for campaign ${campaign.id}:`, emailError);
+    }
+  }
+
+  return closed;
+}
@@ -0,0 +1,502 @@
+import Stripe from 'stripe';
+import { stripe } from './stripe';
+import { supabase } from '../lib/supabase';
+import { creditProfileMembers, creditWallet } from './walletService';
+import { Money, money, splitMoney, subtractMoney } from '../lib/money';
+import { completeReservation, getReservationLines, notifyLowStock, releaseReservation } from './inventoryService';
+import { createOrderDownloads, sendDownloadLinks } from './downloadService';
+import type { FulfilmentMethod } from './orderService';
+import { sendTipReceipt } from './tipService';
+import { getOrganizerShare } from './eventTipService';
+
+interface TipShareTransfer {
+  tipId: string;
+  profileId: string;
+  userId: string;
+  accountId: string;
+  amount: Money;
+  revenueShare: number;
+  transferGroup: string;
+  chargeId: string;
+}
+
+/**
+ * Transfer a band member's share of a tip to their connected account and
+ * record the transfer. Tied to the tip's charge, so the funds are available
+ * as soon as the charge is, and keyed so a redelivered event can't pay twice.
+ */
+async function transferTipShare(share: TipShareTransfer) {
+  const transfer = await stripe.transfers.create({
+    amount: share.amount.amount,
+    currency: share.amount.currency.toLowerCase(),
+    destination: share.accountId,
+    transfer_group: share.transferGroup,
+    source_transaction: share.chargeId,
+    description: `Tip share (${share.revenueShare}%)`,
+    metadata: {
+      tipId: share.tipId,
+      profileId: share.profileId,
+      userId: share.userId
+    }
+  }, {
+    idempotencyKey: `tip-transfer-${share.tipId}-${share.userId}`
+  });
+
+  const { error } = await supabase
+    .from('tip_transfers')
+    .upsert([
+      {
+        tip_id: share.tipId,
+        profile_id: share.profileId,
+        user_id: share.userId,
+        stripe_transfer_id: transfer.id,
+        stripe_connect_account_id: share.accountId,
+        transfer_group: share.transferGroup,
+        amount: share.amount.amount,
+        currency: share.amount.currency,
+        revenue_share: share.revenueShare
+      }
+    ], { onConflict: 'tip_id,user_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * Distribute a completed tip among the profile's band members based on
+ * their revenue_share, or credit the profile owner if there are no members.
+ * Band tips paid with a transfer group send each connected member's share
+ * straight to their Stripe account; other shares are credited to wallets.
+ * Rounding remainders go to the owner.
+ */
+async function distributeTip(tipId: string, profileId: string, tipAmount: Money, paymentIntentId?: string) {
+  const { data: profileData, error: fetchError } = await supabase
+    .from('profiles')
+    .select('user_id')
+    .eq('id', profileId)
+    .single();
+
+  if (fetchError || !profileData) {
+    throw fetchError || new Error(`Profile ${profileId} not found`);
+  }
+
+  const { data: members, error: membersError } = await supabase
+    .from('profile_members')
+    .select('user_id, revenue_share, role, stripe_connect_account_id, stripe_connect_status')
+    .eq('profile_id', profileId);
+
+  if (membersError) throw membersError;
+
+  if (!members || members.length === 0) {
+    await creditWallet({
+      userId: profileData.user_id,
+      amount: tipAmount,
+      sourceType: 'tip',
+      sourceId: tipId,
+      profileId,
+      description: 'Tip received'
+    });
+    return;
+  }
+
+  // Owner first so they absorb the rounding remainder, then a stable order for the rest
+  const orderedMembers = [...members].sort((a, b) =>
+    Number(b.role === 'owner') - Number(a.role === 'owner') || a.user_id.localeCompare(b.user_id)
+  );
+  const shares = splitMoney(tipAmount, orderedMembers.map((member) => member.revenue_share));
+
+  // Band checkout sessions carry a transfer group (see create-session)
+  const paymentIntent = paymentIntentId ? await stripe.paymentIntents.retrieve(paymentIntentId) : null;
+  const transferGroup = paymentIntent?.transfer_group;
+  const chargeId = typeof paymentIntent?.latest_charge === 'string'
+    ? paymentIntent.latest_charge
+    : paymentIntent?.latest_charge?.id;
+
+  // A member's share is paid exactly once, either by transfer or to the wallet,
+  // even if their Connect status changed between event deliveries
+  const { data: existingTransfers, error: transfersError } = await supabase
+    .from('tip_transfers')
+    .select('user_id')
+    .eq('tip_id', tipId);
+
+  if (transfersError) throw transfersError;
+
+  const { data: existingCredits, error: creditsError } = await supabase
+    .from('wallet_ledger')
+    .select('user_id')
+    .eq('source_type', 'tip')
+    .eq('source_id', tipId)
+    .eq('entry_type', 'credit');
+
+  if (creditsError) throw creditsError;
+
+  const alreadyPaid = new Set([...(existingTransfers || []), ...(existingCredits || [])].map((row) => row.user_id));
+
+  for (const [index, member] of orderedMembers.entries()) {
+    if (alreadyPaid.has(member.user_id)) continue;
+
+    const share = shares[index];
+    const canTransfer = !!transferGroup && !!chargeId && share.amount > 0
+      && member.stripe_connect_status === 'connected' && !!member.stripe_connect_account_id;
+
+    if (canTransfer) {
+      await transferTipShare({
+        tipId,
+        profileId,
+        userId: member.user_id,
+        accountId: member.stripe_connect_account_id,
+        amount: share,
+        revenueShare: member.revenue_share,
+        transferGroup,
+        chargeId
+      });
+    } else {
+      await creditWallet({
+        userId: member.user_id,
+        amount: share,
+        sourceType: 'tip',
+        sourceId: tipId,
+        profileId,
+        description: `Tip share (${member.revenue_share}%)`
+      });
+    }
+  }
+}
+
+/**
+ * Take the event maker's agreed cut out of a tip made from an event page:
+ * record it on the tip and credit it to the event maker's members. Returns
+ * what's left for the performer. The cut is decided once and its credits are
+ * keyed by tip id, so running this again pays nothing twice.
+ */
+async function takeOrganizerShare(tipId: string, profileId: string, tipAmount: Money): Promise<Money> {
+  const { data: tip, error } = await supabase
+    .from('tips')
+    .select('event_id, organizer_profile_id, organizer_share_amount')
+    .eq('id', tipId)
+    .single();
+
+  if (error) throw error;
+  if (!tip.event_id) return tipAmount;
+
+  let organizerProfileId: string | null = tip.organizer_profile_id;
+  let shareAmount = money(Number(tip.organizer_share_amount), tipAmount.currency);
+
+  if (!organizerProfileId) {
+    const share = await getOrganizerShare(tip.event_id, profileId);
+    if (!share) return tipAmount;
+
+    // The performer's part comes first so they keep the rounding remainder
+    shareAmount = splitMoney(tipAmount, [100 - share.percent, share.percent])[1];
+    organizerProfileId = share.organizerProfileId;
+
+    const { error: updateError } = await supabase
+      .from('tips')
+      .update({ organizer_profile_id: organizerProfileId, organizer_share_amount: shareAmount.amount })
+      .eq('id', tipId)
+      .is('organizer_profile_id', null);
+
+    if (updateError) throw updateError;
+  }
+
+  if (shareAmount.amount > 0) {
+    await creditProfileMembers(organizerProfileId, shareAmount, 'event_share', tipId, 'Event share of tip');
+  }
+
+  return subtractMoney(tipAmount, shareAmount);
+}
+
+/**
+ * Mark a pending tip as completed and credit the artist's wallet.
+ * Safe to run again when Stripe redelivers the event.
+ */
+async function completeTip(session: Stripe.Checkout.Session, tipId: string) {
+  const paymentIntentId = typeof session.payment_intent === 'string'
+    ? session.payment_intent
+    : session.payment_intent?.id;
+
+  // Record what Stripe charged rather than what the browser asked for; a
+  // covered fee is charged on top of the tip and isn't paid out
+  const feeAmount = Number(session.metadata?.feeAmount || 0);
+  const tipAmount = money((session.amount_total || 0) - feeAmount, session.currency || '');
+
+  const { data: updatedTips, error: tipError } = await supabase
+    .from('tips')
+    .update({
+      payment_status: 'completed',
+      amount: tipAmount.amount,
+      currency: tipAmount.currency,
+      fee_amount: feeAmount,
+      donor_email: session.customer_email || session.customer_details?.email || null,
+      stripe_session_id: session.id,
+      stripe_payment_intent_id: paymentIntentId || null
+    })
+    .eq('id', tipId)
+    .in('payment_status', ['pending', 'failed'])
+    .select('id, profile_id');
+
+  if (tipError) throw tipError;
+
+  if (!updatedTips || updatedTips.length === 0) {
+    console.log(`Tip ${tipId} already marked as completed`);
+  } else {
+    const donorEmail = session.customer_email || session.customer_details?.email;
+
+    if (donorEmail) {
+      try {
+        await sendTipReceipt(donorEmail, session.id);
+      } catch (err) {
+        // The tip is recorded, a missed receipt shouldn't make Stripe retry
+        console.error(`Failed to send receipt for tip ${tipId}:`, err);
+      }
+    }
+  }
+
+  // Ledger entries and transfers are keyed by tip id, so re-running this after
+  // a partial failure only pays the members that weren't paid yet
+  const profileId = updatedTips?.[0]?.profile_id || session.metadata?.profileId;
+
+  if (!profileId) {
+    throw new Error(`No profile found for tip ${tipId}`);
+  }
+
+  const performerAmount = await takeOrganizerShare(tipId, profileId, tipAmount);
+  await distributeTip(tipId, profileId, performerAmount, paymentIntentId);
+}
+
+/**
+ * Build order items from the checkout's stock reservations, which know the
+ * variant and the price each line was sold at
+ */
+async function getReservedOrderItems(reservationId: string) {
+  const lines = await getReservationLines(reservationId);
+
+  return lines.map((line) => ({
+    id: line.id,
+    name: line.variant_label ? `${line.product?.name} (${line.variant_label})` : line.product?.name,
+    quantity: line.quantity,
+    price: line.unit_price, // per unit, in minor units
+    amount_total: line.unit_price * line.quantity, // line total, in minor units
+    product_id: line.product_id,
+    variant_id: line.variant_id,
+    stripe_product_id: line.product?.stripe_product_id || null
+  }));
+}
+
+/**
+ * Build order items from the session's Stripe line items, for sessions
+ * created before stock was reserved at checkout
+ */
+async function getLineItemOrderItems(session: Stripe.Checkout.Session) {
+  // Webhook payloads don't include line items, so fetch them separately
+  const lineItems = await stripe.checkout.sessions.listLineItems(session.id, { limit: 100 });
+
+  // Map each line back to our product through its Stripe product
+  const stripeProductIds = lineItems.data
+    .map((item) => typeof item.price?.product === 'string' ? item.price.product : item.price?.product?.id)
+    .filter((id): id is string => !!id);
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, stripe_product_id')
+    .in('stripe_product_id', stripeProductIds);
+
+  if (productsError) throw productsError;
+
+  return lineItems.data.map((item) => {
+    const stripeProductId = typeof item.price?.product === 'string' ? item.price.product : item.price?.product?.id;
+
+    return {
+      id: item.id,
+      name: item.description,
+      quantity: item.quantity || 0,
+      price: item.price?.unit_amount ?? Math.round(item.amount_total / (item.quantity || 1)), // per unit, in minor units
+      amount_total: item.amount_total, // line total, in minor units
+      product_id: products?.find((product) => product.stripe_product_id === stripeProductId)?.id || null,
+      variant_id: null,
+      stripe_product_id: stripeProductId
+    };
+  });
+}
+
+/**
+ * Create the download links for an order's digital products and email the
+ * new ones to the fan
+ */
+async function deliverDownloads(
+  session: Stripe.Checkout.Session,
+  orderId: string | undefined,
+  items: { product_id: string | null }[]
+) {
+  const productIds = items
+    .map((item) => item.product_id)
+    .filter((id): id is string => !!id);
+
+  if (productIds.length === 0) return;
+
+  if (!orderId) {
+    // Redelivered event, the order was recorded before
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('id')
+      .eq('stripe_session_id', session.id)
+      .single();
+
+    if (error) throw error;
+    orderId = order.id as string;
+  }
+
+  const downloads = await createOrderDownloads(orderId, productIds);
+  const customerEmail = session.customer_email || session.customer_details?.email;
+
+  if (downloads.length === 0 || !customerEmail) return;
+
+  try {
+    await sendDownloadLinks(customerEmail, downloads);
+  } catch (err) {
+    // The links are also listed in the fan's order history, so don't make Stripe retry
+    console.error(`Failed to email download links for session ${session.id}:`, err);
+  }
+}
+
+/**
+ * Save a product order for a paid checkout session and keep the stock that
+ * was reserved for it. The unique stripe_session_id makes this a no-op for
+ * redelivered events.
+ */
+async function recordOrder(session: Stripe.Checkout.Session) {
+  const reservationId = session.metadata?.reservationId;
+  const items = reservationId
+    ? await getReservedOrderItems(reservationId)
+    : await getLineItemOrderItems(session);
+
+  const fulfilment = session.metadata?.fulfilment;
+  const fulfilmentMethod: FulfilmentMethod =
+    fulfilment === 'pickup' || fulfilment === 'digital' ? fulfilment : 'shipping';
+
+  const orderData = {
+    profile_id: session.metadata?.profileId,
+    stripe_session_id: session.id,
+    stripe_payment_intent_id: typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id,
+    customer_email: session.customer_email || session.customer_details?.email,
+    customer_name: session.customer_details?.name,
+    total_amount: session.amount_total, // in cents
+    currency: session.currency?.toUpperCase() || 'USD',
+    payment_status: session.payment_status,
+    payment_method: session.payment_method_types?.[0],
+    items,
+    fulfilment_method: fulfilmentMethod,
+    // Digital-only orders are delivered by their download links
+    ...(fulfilmentMethod === 'digital' && {
+      fulfilment_status: 'delivered',
+      delivered_at: new Date().toISOString()
+    }),
+    pickup_event_id: session.metadata?.pickupEventId || null,
+    shipping_name: session.collected_information?.shipping_details?.name || null,
+    shipping_address: session.collected_information?.shipping_details?.address || null,
+    created_at: new Date(session.created * 1000).toISOString(),
+  };
+
+  const { data: inserted, error: dbError } = await supabase
+    .from('orders')
+    .upsert([orderData], { onConflict: 'stripe_session_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (dbError) throw dbError;
+
+  const isNewOrder = !!inserted && inserted.length > 0;
+
+  await deliverDownloads(session, inserted?.[0]?.id, items);
+
+  if (reservationId) {
+    // Completing is idempotent, so a retry after a failure here still finishes
+    const completed = await completeReservation(reservationId);
+
+    if (completed > 0) {
+      try {
+        await notifyLowStock(items.map((item) => item.product_id));
+      } catch (err) {
+        // The order is recorded, a missed notice shouldn't make Stripe retry
+        console.error(`Failed to send low-stock notice for session ${session.id}:`, err);
+      }
+    }
+    return;
+  }
+
+  if (!isNewOrder) {
+    console.log(`Order for session ${session.id} already recorded, skipping`);
+    return;
+  }
+
+  // Stock only changes for newly recorded orders, so redelivered events don't count twice
+  for (const item of items) {
+    if (!item.product_id) continue;
+
+    const { data: decremented, error: stockError } = await supabase
+      .rpc('decrement_product_stock', { p_product_id: item.product_id, p_quantity: item.quantity });
+
+    if (stockError) throw stockError;
+
+    if (!decremented) {
+      console.warn(`Product ${item.product_id} oversold by order for session ${session.id}`);
+    }
+  }
+}
+
+/**
+ * Handle checkout.session.completed: complete the tip or record the order
+ */
+export async function fulfillCheckoutSession(session: Stripe.Checkout.Session) {
+  // Patron subscriptions are recorded from their own subscription and invoice events
+  if (session.mode === 'subscription') {
+    return;
+  }
+
+  if (session.payment_status !== 'paid') {
+    console.log(`Session ${session.id} completed with payment status ${session.payment_status}, skipping`);
+    return;
+  }
+
+  const tipId = session.metadata?.tipId;
+
+  if (tipId) {
+    await completeTip(session, tipId);
+  } else {
+    await recordOrder(session);
+  }
+}
+
+/**
+ * Handle checkout.session.expired: the fan never paid, so put the stock
+ * reserved for their cart back on sale
+ */
+export async function releaseExpiredSession(session: Stripe.Checkout.Session) {
+  const reservationId = session.metadata?.reservationId;
+
+  if (reservationId) {
+    await releaseReservation(reservationId);
+  }
+}
+
+/**
+ * Handle payment_intent.payment_failed: mark the pending tip as failed
+ */
+export async function markPaymentFailed(paymentIntent: Stripe.PaymentIntent) {
+  const tipId = paymentIntent.metadata?.tipId;
+
+  if (!tipId) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('tips')
+    .update({
+      payment_status: 'failed',
+      stripe_payment_intent_id: paymentIntent.id
+    })
+    .eq('id', tipId)
+    .eq('payment_status', 'pending');
+
+  if (error) throw error;
+}
@@ -0,0 +1,177 @@
+import Stripe from 'stripe';
+import { stripe } from './stripe';
+import { supabase } from '../lib/supabase';
+import { recordAuditEvent } from './auditService';
+
+export type ConnectStatus = 'not_connected' | 'pending' | 'restricted' | 'connected';
+
+export interface ConnectAccount {
+  accountId: string | null;
+  status: ConnectStatus;
+}
+
+/**
+ * Derive our onboarding status from a Stripe account
+ */
+export function getConnectStatus(account: Stripe.Account): ConnectStatus {
+  if (account.payouts_enabled && account.capabilities?.transfers === 'active') {
+    return 'connected';
+  }
+  return account.details_submitted ? 'restricted' : 'pending';
+}
+
+/**
+ * Get the connected account of a profile member
+ * Returns null if the user is not a member of the profile
+ */
+export async function getMemberConnectAccount(profileId: string, userId: string): Promise<ConnectAccount | null> {
+  const { data: member, error } = await supabase
+    .from('profile_members')
+    .select('stripe_connect_account_id, stripe_connect_status')
+    .eq('profile_id', profileId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!member) return null;
+
+  return {
+    accountId: member.stripe_connect_account_id,
+    status: member.stripe_connect_status
+  };
+}
+
+/**
+ * Get the member's Express account, creating it on first onboarding
+ */
+export async function getOrCreateConnectAccount(profileId: string, userId: string, email?: string, country: string = 'SE'): Promise<string> {
+  const existing = await getMemberConnectAccount(profileId, userId);
+
+  if (!existing) {
+    throw new Error(`User ${userId} is not a member of profile ${profileId}`);
+  }
+
+  if (existing.accountId) {
+    return existing.accountId;
+  }
+
+  const account = await stripe.accounts.create({
+    type: 'express',
+    country,
+    email,
+    // Charges are made on the platform, members only receive transfers
+    capabilities: {
+      transfers: { requested: true }
+    },
+    metadata: { profileId, userId }
+  }, {
+    // Double clicks shouldn't create two accounts for the same member
+    idempotencyKey: `connect-account-${profileId}-${userId}`
+  });
+
+  const { error } = await supabase
+    .from('profile_members')
+    .update({
+      stripe_connect_account_id: account.id,
+      stripe_connect_status: getConnectStatus(account)
+    })
+    .eq('profile_id', profileId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return account.id;
+}
+
+/**
+ * Create a one-time onboarding link for a connected account.
+ * Stripe sends the user back to our return/refresh routes afterwards.
+ */
+export async function createOnboardingLink(accountId: string): Promise<string> {
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:3000';
+
+  const accountLink = await stripe.accountLinks.create({
+    account: accountId,
+    refresh_url: `${serverUrl}/api/connect/refresh?account=${accountId}`,
+    return_url: `${serverUrl}/api/connect/return?account=${accountId}`,
+    type: 'account_onboarding'
+  });
+
+  return accountLink.url;
+}
+
+/**
+ * Create a login link to the Express dashboard for a connected account
+ */
+export async function createDashboardLink(accountId: string): Promise<string> {
+  const loginLink = await stripe.accounts.createLoginLink(accountId);
+  return loginLink.url;
+}
+
+/**
+ * Store the current onboarding status of a connected account.
+ * Called from the account.updated webhook and when returning from onboarding.
+ */
+export async function syncConnectAccount(account: Stripe.Account): Promise<ConnectStatus> {
+  const status = getConnectStatus(account);
+
+  const { error } = await supabase
+    .from('profile_members')
+    .update({ stripe_connect_status: status })
+    .eq('stripe_connect_account_id', account.id);
+
+  if (error) throw error;
+
+  return status;
+}
+
+// What the audit log keeps of a bank account or debit card
+const EXTERNAL_ACCOUNT_AUDIT_FIELDS = [
+  'id', 'object', 'bank_name', 'brand', 'last4', 'country', 'currency', 'default_for_currency', 'status'
+];
+
+function describeExternalAccount(externalAccount: Partial<Stripe.ExternalAccount>) {
+  return Object.fromEntries(
+    Object.entries(externalAccount).filter(([field]) => EXTERNAL_ACCOUNT_AUDIT_FIELDS.includes(field))
+  );
+}
+
+/**
+ * Record a change to a connected account's bank account (or debit card) in
+ * the audit log. These are made on Stripe, usually by the member through the
+ * Express dashboard, so the event has no actor of our own.
+ */
+export async function recordExternalAccountChange(
+  event: Stripe.AccountExternalAccountCreatedEvent | Stripe.AccountExternalAccountUpdatedEvent | Stripe.AccountExternalAccountDeletedEvent
+): Promise<void> {
+  const externalAccount = event.data.object;
+  const action = event.type === 'account.external_account.created'
+    ? 'payout_account.bank_account_created'
+    : event.type === 'account.external_account.updated'
+      ? 'payout_account.bank_account_updated'
+      : 'payout_account.bank_account_deleted';
+
+  const { data: member, error } = await supabase
+    .from('profile_members')
+    .select('user_id, profile_id')
+    .eq('stripe_connect_account_id', event.account)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  await recordAuditEvent({
+    actorId: null,
+    action,
+    targetType: 'connect_account',
+    targetId: event.account ?? null,
+    before: event.type === 'account.external_account.created' ? null : describeExternalAccount(
+      event.type === 'account.external_account.updated' ? event.data.previous_attributes || {} : externalAccount
+    ),
+    after: event.type === 'account.external_account.deleted' ? null : {
+      userId: member?.user_id ?? null,
+      profileId: member?.profile_id ?? null,
+      ...describeExternalAccount(externalAccount)
+    },
+    stripeEventId: event.id
+  });
+}
@@ -0,0 +1,125 @@
+import { supabase } from '../lib/supabase';
+
+// Signed storage URLs only need to live long enough to start the download
+const SIGNED_URL_SECONDS = 60;
+
+export interface OrderDownloadRow {
+  id: string;
+  order_id: string;
+  product_id: string;
+  token: string;
+  download_count: number;
+  download_limit: number;
+  expires_at: string;
+  last_downloaded_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Link a fan uses to download their file. Each visit counts towards the
+ * download limit and redirects to a short-lived signed URL.
+ */
+export function getDownloadUrl(token: string): string {
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:3000';
+  return `${serverUrl}/api/downloads/${token}`;
+}
+
+/**
+ * Give a paid order a download for each of its digital products.
+ * Returns only the downloads created by this call, so a redelivered event
+ * doesn't send the links twice.
+ */
+export async function createOrderDownloads(orderId: string, productIds: string[]): Promise<OrderDownloadRow[]> {
+  if (productIds.length === 0) return [];
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, download_limit')
+    .in('id', [...new Set(productIds)])
+    .eq('type', 'digital');
+
+  if (productsError) throw productsError;
+
+  if (!products || products.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('order_downloads')
+    .upsert(
+      products.map((product) => ({
+        order_id: orderId,
+        product_id: product.id,
+        download_limit: product.download_limit
+      })),
+      { onConflict: 'order_id,product_id', ignoreDuplicates: true }
+    )
+    .select();
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Email a fan the download links for their order
+ */
+export async function sendDownloadLinks(customerEmail: string, downloads: OrderDownloadRow[]): Promise<void> {
+  if (downloads.length === 0) return;
+
+  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+    console.warn('Email service not configured, download links not sent');
+    return;
+  }
+
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, name')
+    .in('id', downloads.map((download) => download.product_id));
+
+  if (error) throw error;
+
+  const { sendDownloadLinksEmail } = await import('./emailService');
+  await sendDownloadLinksEmail({
+    to: customerEmail,
+    downloads: downloads.map((download) => ({
+      name: products?.find((product) => product.id === download.product_id)?.name || 'Your download',
+      url: getDownloadUrl(download.token),
+      downloadLimit: download.download_limit
+    })),
+    expiresAt: downloads[0].expires_at
+  });
+}
+
+/**
+ * Count a download and create a signed URL for its file.
+ * Returns null when the link is unknown, expired, used up, or the order was
+ * refunded.
+ */
+export async function claimDownload(token: string): Promise<string | null> {
+  const { data: claimed, error } = await supabase.rpc('claim_order_download', { p_token: token });
+
+  if (error) throw error;
+
+  const download: OrderDownloadRow | undefined = claimed?.[0];
+
+  if (!download) return null;
+
+  const { data: product, error: productError } = await supabase
+    .from('products')
+    .select('file_path, file_name')
+    .eq('id', download.product_id)
+    .single();
+
+  if (productError) throw productError;
+
+  if (!product?.file_path) return null;
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from('product-files')
+    .createSignedUrl(product.file_path, SIGNED_URL_SECONDS, {
+      download: product.file_name || true
+    });
+
+  if (signError) throw signError;
+
+  return signed.signedUrl;
+}
@@ -6,6 +6,37 @@ interface SendInviteEmailOptions {
   inviteUrl: string;
 }
 
+interface SendLowStockEmailOptions {
+  to: string;
+  profileName: string;
+  items: { name: string; stock: number }[];
+  manageUrl: string;
+}
+
+interface SendDownloadLinksEmailOptions {
+  to: string;
+  downloads: { name: string; url: string; downloadLimit: number }[];
+  expiresAt: string;
+}
+
+interface SendTipReceiptEmailOptions {
+  to: string;
+  profileName: string;
+  amount: string;
+  receiptUrl: string;
+}
+
+interface SendCampaignSummaryEmailOptions {
+  to: string;
+  profileName: string;
+  title: string;
+  raised: string;
+  target: string;
+  tipCount: number;
+  goalReached: boolean;
+  profileUrl: string;
+}
+
 let transporter: any = null;
 
 // Initialize email transporter only if credentials are provided
@@ -156,3 +187,220 @@ export async function sendWelcomeEmail(
     throw error;
   }
 }
+
+export async function sendLowStockEmail({
+  to,
+  profileName,
+  items,
+  manageUrl
+}: SendLowStockEmailOptions): Promise<void> {
+  if (!transporter) {
+    throw new Error('Email service not configured');
+  }
+
+  const subject = `Merch running low for ${profileName}`;
+
+  const itemRows = items
+    .map((item) => `<li>${item.name}: <strong>${item.stock === 0 ? 'sold out' : `${item.stock} left`}</strong></li>`)
+    .join('');
+
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+        <h1 style="margin: 0; font-size: 28px;">Running Low 📦</h1>
+      </div>
+
+      <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; border: 1px solid #e0e0e0; border-top: none;">
+        <p style="font-size: 14px; color: #555; margin-bottom: 10px;">
+          Some merch in the <strong>"${profileName}"</strong> shop is almost gone:
+        </p>
+
+        <ul style="font-size: 14px; color: #555; margin-bottom: 30px;">
+          ${itemRows}
+        </ul>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${manageUrl}" style="display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; font-size: 14px;">
+            Manage Merch
+          </a>
+        </div>
+      </div>
+    </div>
+  `;
+
+  try {
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to,
+      subject,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Failed to send low-stock email:', error);
+    throw error;
+  }
+}
+
+export async function sendDownloadLinksEmail({
+  to,
+  downloads,
+  expiresAt
+}: SendDownloadLinksEmailOptions): Promise<void> {
+  if (!transporter) {
+    throw new Error('Email service not configured');
+  }
+
+  const subject = 'Your downloads from Gobusker';
+  const expiryDate = new Date(expiresAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const downloadRows = downloads
+    .map((download) => `
+        <div style="margin: 20px 0; padding: 15px; background: white; border: 1px solid #e0e0e0; border-radius: 5px;">
+          <p style="font-size: 14px; color: #333; margin: 0 0 10px 0;"><strong>${download.name}</strong></p>
+          <a href="${download.url}" style="display: inline-block; background: #667eea; color: white; padding: 10px 24px; text-decoration: none; border-radius: 5px; font-weight: bold; font-size: 14px;">
+            Download
+          </a>
+          <p style="font-size: 11px; color: #999; margin: 10px 0 0 0;">Can be downloaded ${download.downloadLimit} times</p>
+        </div>`)
+    .join('');
+
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+        <h1 style="margin: 0; font-size: 28px;">Thanks for your support! 🎧</h1>
+      </div>
+
+      <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; border: 1px solid #e0e0e0; border-top: none;">
+        <p style="font-size: 14px; color: #555; margin-bottom: 10px;">
+          Your music is ready to download:
+        </p>
+
+        ${downloadRows}
+
+        <p style="font-size: 12px; color: #999; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0;">
+          These links expire on ${expiryDate}. You can also find them under Orders in your Gobusker dashboard.
+        </p>
+      </div>
+    </div>
+  `;
+
+  try {
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to,
+      subject,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Failed to send download links email:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send a tip receipt. The link works without logging in.
+ */
+export async function sendTipReceiptEmail({
+  to,
+  profileName,
+  amount,
+  receiptUrl
+}: SendTipReceiptEmailOptions): Promise<void> {
+  if (!transporter) {
+    throw new Error('Email service not configured');
+  }
+
+  const subject = `Your tip to ${profileName}`;
+
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+        <h1 style="margin: 0; font-size: 28px;">Thanks for the tip! 💰</h1>
+      </div>
+
+      <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; border: 1px solid #e0e0e0; border-top: none;">
+        <p style="font-size: 14px; color: #555; margin-bottom: 30px;">
+          You tipped <strong>${profileName}</strong> ${amount}. Thank you for supporting live music!
+        </p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${receiptUrl}" style="display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; font-size: 14px;">
+            View Receipt
+          </a>
+        </div>
+
+        <p style="font-size: 12px; color: #999; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0;">
+          Keep this email to find your receipt again. Anyone with the link can view it.
+        </p>
+      </div>
+    </div>
+  `;
+
+  try {
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to,
+      subject,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Failed to send tip receipt email:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send a profile's owner the summary of a campaign that has closed
+ */
+export async function sendCampaignSummaryEmail({
+  to,
+  profileName,
+  title,
+  raised,
+  target,
+  tipCount,
+  goalReached,
+  profileUrl
+}: SendCampaignSummaryEmailOptions): Promise<void> {
+  if (!transporter) {
+    throw new Error('Email service not configured');
+  }
+
+  const subject = `Campaign ended: ${title}`;
+
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+        <h1 style="margin: 0; font-size: 28px;">${goalReached ? 'Goal Reached! 🎉' : 'Campaign Ended 🏁'}</h1>
+      </div>
+
+      <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; border: 1px solid #e0e0e0; border-top: none;">
+        <p style="font-size: 14px; color: #555; margin-bottom: 10px;">
+          The <strong>"${title}"</strong> campaign for <strong>${profileName}</strong> has ended.
+        </p>
+
+        <p style="font-size: 14px; color: #555; margin-bottom: 30px;">
+          Fans put <strong>${raised}</strong> towards your target of ${target}, across ${tipCount} ${tipCount === 1 ? 'tip' : 'tips'}.
+        </p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${profileUrl}" style="display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; font-size: 14px;">
+            View Profile
+          </a>
+        </div>
+      </div>
+    </div>
+  `;
+
+  try {
+    await transporter.sendMail({
+      from: process.env.EMAIL_FROM || process.env.EMAIL_USER,
+      to,
+      subject,
+      html: htmlContent
+    });
+  } catch (error) {
+    console.error('Failed to send campaign summary email:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,247 @@
+import { supabase } from '../lib/supabase';
+import { DEFAULT_CURRENCY } from '../lib/money';
+
+export interface EventPerformers {
+  eventId: string;
+  title: string;
+  startTime: string;
+  hostProfileId: string;
+  performerIds: string[]; // profiles that can be tipped from the event page
+}
+
+// What one performer earned at an event
+export interface EventTipLine {
+  profileId: string;
+  profileName: string | null;
+  tipCount: number;
+  amount: number; // in minor units
+  currency: string;
+}
+
+export interface EventTipReport {
+  eventId: string;
+  title: string;
+  startTime: string;
+  performers: EventTipLine[];
+}
+
+// The cut of a performer's event tips that goes to the event maker
+export interface OrganizerShare {
+  organizerProfileId: string;
+  percent: number;
+}
+
+// What a profile earned at one event
+export interface ProfileEventEarnings {
+  eventId: string;
+  title: string;
+  startTime: string;
+  hostProfileId: string;
+  tipCount: number;
+  amount: number; // in minor units
+  currency: string;
+}
+
+/**
+ * Get who performs at an event: the performers whose request or invite was
+ * accepted, and the host when it's a solo performance. Returns null if the
+ * event doesn't exist.
+ */
+export async function getEventPerformers(eventId: string): Promise<EventPerformers | null> {
+  const { data: event, error } = await supabase
+    .from('events')
+    .select('id, title, start_time, profile_id, event_type')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!event) return null;
+
+  const [{ data: requests, error: requestsError }, { data: invites, error: invitesError }] = await Promise.all([
+    supabase.from('event_requests').select('requester_profile_id').eq('event_id', eventId).eq('status', 'accepted'),
+    supabase.from('event_invites').select('invited_profile_id').eq('event_id', eventId).eq('status', 'accepted')
+  ]);
+
+  if (requestsError) throw requestsError;
+  if (invitesError) throw invitesError;
+
+  const performerIds = new Set<string>([
+    ...(event.event_type === 'solo_performance' ? [event.profile_id] : []),
+    ...(requests || []).map((request) => request.requester_profile_id),
+    ...(invites || []).map((invite) => invite.invited_profile_id)
+  ]);
+
+  return {
+    eventId: event.id,
+    title: event.title,
+    startTime: event.start_time,
+    hostProfileId: event.profile_id,
+    performerIds: [...performerIds]
+  };
+}
+
+/**
+ * Check that a tip can be made at an event to a profile: the profile must
+ * perform at the event. Returns an error message, or null when it's fine.
+ */
+export async function validateTipEvent(eventId: string, profileId: string): Promise<string | null> {
+  const performers = await getEventPerformers(eventId);
+
+  if (!performers) {
+    return 'Event not found';
+  }
+
+  if (!performers.performerIds.includes(profileId)) {
+    return "This artist isn't performing at this event";
+  }
+
+  return null;
+}
+
+/**
+ * Get the cut of a performer's tips at an event that goes to the event
+ * maker, as agreed in the performer's accepted request or invite. Only venue
+ * bookings take a cut. Returns null when there's nothing to take.
+ */
+export async function getOrganizerShare(eventId: string, profileId: string): Promise<OrganizerShare | null> {
+  const { data: event, error } = await supabase
+    .from('events')
+    .select('profile_id, event_type')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!event || event.event_type !== 'venue_booking' || event.profile_id === profileId) return null;
+
+  const [{ data: request, error: requestError }, { data: invite, error: inviteError }] = await Promise.all([
+    supabase
+      .from('event_requests')
+      .select('organizer_share_percent')
+      .eq('event_id', eventId)
+      .eq('requester_profile_id', profileId)
+      .eq('status', 'accepted')
+      .maybeSingle(),
+    supabase
+      .from('event_invites')
+      .select('organizer_share_percent')
+      .eq('event_id', eventId)
+      .eq('invited_profile_id', profileId)
+      .eq('status', 'accepted')
+      .maybeSingle()
+  ]);
+
+  if (requestError) throw requestError;
+  if (inviteError) throw inviteError;
+
+  const percent = Number(request?.organizer_share_percent ?? invite?.organizer_share_percent ?? 0);
+  if (percent <= 0) return null;
+
+  return { organizerProfileId: event.profile_id, percent };
+}
+
+/**
+ * Get what each of an event's performers was tipped at the event, biggest
+ * earner first. `profileIds` limits the report to those performers, for
+ * performers who may only see their own earnings. Performers without tips
+ * are listed with nothing earned.
+ */
+export async function getEventTipReport(performers: EventPerformers, profileIds?: string[]): Promise<EventTipReport> {
+  const visibleIds = profileIds
+    ? performers.performerIds.filter((id) => profileIds.includes(id))
+    : performers.performerIds;
+
+  const report: EventTipReport = {
+    eventId: performers.eventId,
+    title: performers.title,
+    startTime: performers.startTime,
+    performers: []
+  };
+
+  if (visibleIds.length === 0) return report;
+
+  const [{ data: tips, error }, { data: profiles, error: profilesError }] = await Promise.all([
+    supabase
+      .from('tips')
+      .select('profile_id, amount, currency')
+      .eq('event_id', performers.eventId)
+      .eq('payment_status', 'completed')
+      .in('profile_id', visibleIds),
+    supabase.from('profiles').select('id, name, payout_currency').in('id', visibleIds)
+  ]);
+
+  if (error) throw error;
+  if (profilesError) throw profilesError;
+
+  for (const profile of profiles || []) {
+    // One line per currency; a performer's tips are normally all in their payout currency
+    const lines = new Map<string, EventTipLine>();
+
+    for (const tip of (tips || []).filter((tip) => tip.profile_id === profile.id)) {
+      const line = lines.get(tip.currency) || {
+        profileId: profile.id,
+        profileName: profile.name,
+        tipCount: 0,
+        amount: 0,
+        currency: tip.currency
+      };
+
+      line.tipCount += 1;
+      line.amount += tip.amount;
+      lines.set(tip.currency, line);
+    }
+
+    if (lines.size === 0) {
+      lines.set('', {
+        profileId: profile.id,
+        profileName: profile.name,
+        tipCount: 0,
+        amount: 0,
+        currency: profile.payout_currency || DEFAULT_CURRENCY
+      });
+    }
+
+    report.performers.push(...lines.values());
+  }
+
+  report.performers.sort((a, b) => b.amount - a.amount);
+  return report;
+}
+
+/**
+ * Get what a profile was tipped at each event it performed at, most recent
+ * event first
+ */
+export async function getProfileEventEarnings(profileId: string): Promise<ProfileEventEarnings[]> {
+  const { data: tips, error } = await supabase
+    .from('tips')
+    .select('event_id, amount, currency, event:events(id, title, start_time, profile_id)')
+    .eq('profile_id', profileId)
+    .eq('payment_status', 'completed')
+    .not('event_id', 'is', null);
+
+  if (error) throw error;
+
+  const earnings = new Map<string, ProfileEventEarnings>();
+
+  for (const tip of tips || []) {
+    const event = Array.isArray(tip.event) ? tip.event[0] : tip.event;
+    if (!event) continue;
+
+    const key = `${event.id}:${tip.currency}`;
+    const entry = earnings.get(key) || {
+      eventId: event.id,
+      title: event.title,
+      startTime: event.start_time,
+      hostProfileId: event.profile_id,
+      tipCount: 0,
+      amount: 0,
+      currency: tip.currency
+    };
+
+    entry.tipCount += 1;
+    entry.amount += tip.amount;
+    earnings.set(key, entry);
+  }
+
+  return [...earnings.values()].sort((a, b) => b.startTime.localeCompare(a.startTime));
+}
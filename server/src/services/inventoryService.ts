@@ -0,0 +1,184 @@
+import { supabase } from '../lib/supabase';
+import { Money } from '../lib/money';
+import { getVariantLabel } from './productService';
+
+// Stripe won't expire a Checkout session sooner than 30 minutes after creation
+export const RESERVATION_MINUTES = 30;
+
+export interface ReservationItem {
+  productId: string;
+  variantId?: string | null;
+  variantLabel?: string | null;
+  quantity: number;
+  unitPrice: Money;
+}
+
+export interface ReservationLine {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  variant_label: string | null;
+  quantity: number;
+  unit_price: number;
+  currency: string;
+  status: 'reserved' | 'completed' | 'released';
+  product: { name: string; stripe_product_id: string | null } | null;
+}
+
+export class InsufficientStockError extends Error {
+  productId: string;
+
+  constructor(productId: string, message: string = 'Not enough stock left') {
+    super(message);
+    this.name = 'InsufficientStockError';
+    this.productId = productId;
+  }
+}
+
+/**
+ * Reserve stock for every line of a checkout, all or nothing.
+ * Throws InsufficientStockError naming the first product that ran out.
+ */
+export async function reserveStock(checkoutId: string, items: ReservationItem[], expiresAt: Date): Promise<void> {
+  const { error } = await supabase.rpc('reserve_stock', {
+    p_checkout_id: checkoutId,
+    p_expires_at: expiresAt.toISOString(),
+    p_items: items.map((item) => ({
+      product_id: item.productId,
+      variant_id: item.variantId || null,
+      variant_label: item.variantLabel || null,
+      quantity: item.quantity,
+      unit_price: item.unitPrice.amount,
+      currency: item.unitPrice.currency
+    }))
+  });
+
+  if (error) {
+    // Raised by reserve_stock, with the product id as detail
+    if (error.message?.includes('insufficient_stock')) {
+      throw new InsufficientStockError(error.details);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Put a checkout's reserved stock back. Safe to run more than once.
+ */
+export async function releaseReservation(checkoutId: string): Promise<void> {
+  const { error } = await supabase.rpc('release_stock_reservation', { p_checkout_id: checkoutId });
+
+  if (error) throw error;
+}
+
+/**
+ * Keep a checkout's reserved stock as sold. Returns the number of lines
+ * completed by this call, 0 when it was already completed.
+ */
+export async function completeReservation(checkoutId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('complete_stock_reservation', { p_checkout_id: checkoutId });
+
+  if (error) throw error;
+
+  return data || 0;
+}
+
+/**
+ * Get the lines reserved for a checkout, with their product
+ */
+export async function getReservationLines(checkoutId: string): Promise<ReservationLine[]> {
+  const { data, error } = await supabase
+    .from('stock_reservations')
+    .select('id, product_id, variant_id, variant_label, quantity, unit_price, currency, status, product:products(name, stripe_product_id)')
+    .eq('checkout_id', checkoutId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as unknown as ReservationLine[];
+}
+
+/**
+ * Email the profile owner about products (or variants) that have dropped to
+ * their low-stock threshold. Each is only reported once until it's restocked.
+ */
+export async function notifyLowStock(productIds: string[]): Promise<void> {
+  if (productIds.length === 0) return;
+
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, profile_id, name, stock, low_stock_threshold, low_stock_notified_at, variants:product_variants(id, size, color, stock, low_stock_notified_at)')
+    .in('id', [...new Set(productIds)])
+    .eq('type', 'physical');
+
+  if (error) throw error;
+
+  for (const product of products || []) {
+    const lowItems: { name: string; stock: number }[] = [];
+    const variantIds: string[] = [];
+    let productIsLow = false;
+
+    if (product.variants.length > 0) {
+      for (const variant of product.variants) {
+        if (variant.stock <= product.low_stock_threshold && !variant.low_stock_notified_at) {
+          lowItems.push({ name: `${product.name} (${getVariantLabel(variant)})`, stock: variant.stock });
+          variantIds.push(variant.id);
+        }
+      }
+    } else if (product.stock <= product.low_stock_threshold && !product.low_stock_notified_at) {
+      lowItems.push({ name: product.name, stock: product.stock });
+      productIsLow = true;
+    }
+
+    if (lowItems.length === 0) continue;
+
+    if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+      console.warn(`Email service not configured, low-stock notice for product ${product.id} not sent`);
+      continue;
+    }
+
+    const { data: owner } = await supabase
+      .from('profile_members')
+      .select('user_id')
+      .eq('profile_id', product.profile_id)
+      .eq('role', 'owner')
+      .maybeSingle();
+
+    if (!owner) continue;
+
+    const [{ data: ownerData }, { data: profile }] = await Promise.all([
+      supabase.auth.admin.getUserById(owner.user_id),
+      supabase.from('profiles').select('name').eq('id', product.profile_id).single()
+    ]);
+
+    if (!ownerData?.user?.email) continue;
+
+    const { sendLowStockEmail } = await import('./emailService');
+    await sendLowStockEmail({
+      to: ownerData.user.email,
+      profileName: profile?.name || 'your profile',
+      items: lowItems,
+      manageUrl: `${process.env.CLIENT_URL}/profile/${product.profile_id}`
+    });
+
+    const notifiedAt = new Date().toISOString();
+
+    if (productIsLow) {
+      const { error: productError } = await supabase
+        .from('products')
+        .update({ low_stock_notified_at: notifiedAt })
+        .eq('id', product.id);
+
+      if (productError) throw productError;
+    }
+
+    if (variantIds.length > 0) {
+      const { error: variantError } = await supabase
+        .from('product_variants')
+        .update({ low_stock_notified_at: notifiedAt })
+        .in('id', variantIds);
+
+      if (variantError) throw variantError;
+    }
+  }
+}
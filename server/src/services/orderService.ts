@@ -0,0 +1,181 @@
+import { supabase } from '../lib/supabase';
+
+// Digital-only orders are delivered as soon as they're paid
+export type FulfilmentMethod = 'shipping' | 'pickup' | 'digital';
+
+export type FulfilmentStatus = 'paid' | 'packed' | 'shipped' | 'picked_up' | 'delivered';
+
+export interface TrackingInfo {
+  carrier?: string | null;
+  number?: string | null;
+}
+
+export interface OrderRow {
+  id: string;
+  profile_id: string;
+  payment_status: string;
+  fulfilment_method: FulfilmentMethod;
+  fulfilment_status: FulfilmentStatus;
+  pickup_event_id: string | null;
+  [column: string]: unknown;
+}
+
+export class InvalidFulfilmentTransitionError extends Error {
+  constructor(message: string = 'Invalid fulfilment status change') {
+    super(message);
+    this.name = 'InvalidFulfilmentTransitionError';
+  }
+}
+
+// Fulfilment only moves forward
+const NEXT_STATUSES: Record<FulfilmentStatus, FulfilmentStatus[]> = {
+  paid: ['packed'],
+  packed: ['shipped', 'picked_up'],
+  shipped: ['delivered'],
+  picked_up: ['delivered'],
+  delivered: []
+};
+
+const STATUS_TIMESTAMPS: Partial<Record<FulfilmentStatus, string>> = {
+  packed: 'packed_at',
+  shipped: 'shipped_at',
+  picked_up: 'picked_up_at',
+  delivered: 'delivered_at'
+};
+
+export const FULFILMENT_STATUSES = Object.keys(NEXT_STATUSES) as FulfilmentStatus[];
+
+/**
+ * Check whether an order can move to a fulfilment status. Shipping orders are
+ * shipped, pickup orders are picked up, and refunded or disputed orders stay
+ * where they are.
+ */
+export function canTransition(order: OrderRow, status: FulfilmentStatus): boolean {
+  if (order.payment_status !== 'paid') return false;
+  if (status === 'shipped' && order.fulfilment_method !== 'shipping') return false;
+  if (status === 'picked_up' && order.fulfilment_method !== 'pickup') return false;
+
+  return NEXT_STATUSES[order.fulfilment_status].includes(status);
+}
+
+/**
+ * Get a profile's orders, newest first, optionally only those in one status
+ */
+export async function getProfileOrders(profileId: string, status?: FulfilmentStatus) {
+  let query = supabase
+    .from('orders')
+    .select('*, pickup_event:events(id, title, place_name, start_time)')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('fulfilment_status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get a single order of a profile
+ */
+export async function getProfileOrder(profileId: string, orderId: string): Promise<OrderRow | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Move an order to its next fulfilment status, with tracking details when it
+ * ships. The update only applies if nobody changed the status in between.
+ */
+export async function updateFulfilmentStatus(order: OrderRow, status: FulfilmentStatus, tracking?: TrackingInfo) {
+  if (!canTransition(order, status)) {
+    throw new InvalidFulfilmentTransitionError(
+      `Can't change a ${order.fulfilment_method} order from ${order.fulfilment_status} to ${status}`
+    );
+  }
+
+  const timestampColumn = STATUS_TIMESTAMPS[status];
+  const updates: Record<string, unknown> = {
+    fulfilment_status: status,
+    ...(timestampColumn && { [timestampColumn]: new Date().toISOString() })
+  };
+
+  if (status === 'shipped' && tracking) {
+    updates.tracking_carrier = tracking.carrier || null;
+    updates.tracking_number = tracking.number || null;
+  }
+
+  const { data, error } = await supabase
+    .from('orders')
+    .update(updates)
+    .eq('id', order.id)
+    .eq('fulfilment_status', order.fulfilment_status)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!data) {
+    throw new InvalidFulfilmentTransitionError('The order was updated by someone else, please reload');
+  }
+
+  return data;
+}
+
+/**
+ * Get the upcoming events a profile plays or organizes, where fans can pick
+ * up merch
+ */
+export async function getPickupEvents(profileId: string) {
+  const [organized, requested, invited] = await Promise.all([
+    supabase
+      .from('events')
+      .select('id')
+      .eq('profile_id', profileId),
+    supabase
+      .from('event_requests')
+      .select('event_id')
+      .eq('requester_profile_id', profileId)
+      .eq('status', 'accepted'),
+    supabase
+      .from('event_invites')
+      .select('event_id')
+      .eq('invited_profile_id', profileId)
+      .eq('status', 'accepted')
+  ]);
+
+  const queryError = organized.error || requested.error || invited.error;
+  if (queryError) throw queryError;
+
+  const eventIds = [
+    ...(organized.data || []).map((event) => event.id),
+    ...(requested.data || []).map((request) => request.event_id),
+    ...(invited.data || []).map((invite) => invite.event_id)
+  ];
+
+  if (eventIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, title, place_name, start_time, end_time')
+    .in('id', [...new Set(eventIds)])
+    .neq('status', 'cancelled')
+    .gt('end_time', new Date().toISOString())
+    .order('start_time', { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
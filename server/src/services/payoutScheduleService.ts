@@ -0,0 +1,262 @@
+import { supabase } from '../lib/supabase';
+import { CurrencyCode, Money, money, toCurrencyCode } from '../lib/money';
+import { getMemberConnectAccount } from './connectService';
+import { getAvailableBalance, InsufficientFundsError } from './walletService';
+import { WithdrawalRow, approveWithdrawal, payOutWithdrawal, requestWithdrawal } from './withdrawalService';
+import { recordAuditEvent } from './auditService';
+
+export const PAYOUT_FREQUENCIES = ['weekly', 'monthly'] as const;
+
+export type PayoutFrequency = typeof PAYOUT_FREQUENCIES[number];
+
+// Scheduled payouts run on Mondays or the 1st of the month, from this hour on
+const PAYOUT_HOUR_UTC = 6;
+
+export interface PayoutSchedule {
+  id: string;
+  user_id: string;
+  profile_id: string; // whose connected account is paid
+  frequency: PayoutFrequency;
+  minimum_amount: number; // in minor units
+  currency: string;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledPayoutRun {
+  created: number; // withdrawals requested
+  approved: number; // of those, approved and paid out automatically
+}
+
+/**
+ * When a schedule next pays out after `from`: the next Monday for weekly
+ * payouts, the 1st of the next month for monthly ones
+ */
+export function getNextPayoutDate(frequency: PayoutFrequency, from: Date = new Date()): Date {
+  const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), PAYOUT_HOUR_UTC));
+
+  if (frequency === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + (8 - next.getUTCDay()) % 7);
+    if (next <= from) next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCDate(1);
+    if (next <= from) next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+
+  return next;
+}
+
+/**
+ * Get a user's payout schedule, or null if they request payouts themselves
+ */
+export async function getPayoutSchedule(userId: string): Promise<PayoutSchedule | null> {
+  const { data, error } = await supabase
+    .from('payout_schedules')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Create or change a user's payout schedule. Their available balance is
+ * withdrawn to the profile's connected account once it reaches the minimum.
+ */
+export async function savePayoutSchedule(
+  userId: string,
+  profileId: string,
+  frequency: PayoutFrequency,
+  minimumAmount: Money
+): Promise<PayoutSchedule> {
+  const { data, error } = await supabase
+    .from('payout_schedules')
+    .upsert({
+      user_id: userId,
+      profile_id: profileId,
+      frequency,
+      minimum_amount: minimumAmount.amount,
+      currency: minimumAmount.currency,
+      next_run_at: getNextPayoutDate(frequency).toISOString(),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Stop a user's scheduled payouts. Returns false if they had none.
+ */
+export async function deletePayoutSchedule(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('payout_schedules')
+    .delete()
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Get the auto-approve limit for every currency that has one
+ */
+export async function getAutoApproveLimits(): Promise<Money[]> {
+  const { data, error } = await supabase
+    .from('payout_auto_approve_limits')
+    .select('currency, amount')
+    .order('currency');
+
+  if (error) throw error;
+
+  return (data || []).map((row) => money(Number(row.amount), row.currency));
+}
+
+/**
+ * Set the largest scheduled withdrawal approved without an admin in a
+ * currency, or remove the limit with null so none are
+ */
+export async function setAutoApproveLimit(currency: CurrencyCode, amount: number | null, adminId: string): Promise<void> {
+  const { error } = amount === null
+    ? await supabase.from('payout_auto_approve_limits').delete().eq('currency', currency)
+    : await supabase.from('payout_auto_approve_limits').upsert({
+      currency,
+      amount,
+      updated_by: adminId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'currency' });
+
+  if (error) throw error;
+}
+
+async function getAutoApproveLimit(currency: CurrencyCode): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('payout_auto_approve_limits')
+    .select('amount')
+    .eq('currency', currency)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? Number(data.amount) : null;
+}
+
+/**
+ * Run one due schedule: withdraw the available balance if it has reached the
+ * minimum, and approve and pay it out if it's within the auto-approve limit.
+ * Returns the withdrawal's status, or null if nothing was withdrawn.
+ */
+async function runPayoutSchedule(schedule: PayoutSchedule): Promise<'pending' | 'approved' | null> {
+  const currency = toCurrencyCode(schedule.currency);
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('payout_currency')
+    .eq('id', schedule.profile_id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  // Same checks as a withdrawal requested by hand
+  if (!profile || toCurrencyCode(profile.payout_currency) !== currency) {
+    console.warn(`Skipping payout schedule ${schedule.id}: profile payout currency has changed`);
+    return null;
+  }
+
+  const connectAccount = await getMemberConnectAccount(schedule.profile_id, schedule.user_id);
+
+  if (!connectAccount) {
+    console.warn(`Skipping payout schedule ${schedule.id}: user is no longer a member of the profile`);
+    return null;
+  }
+
+  if (connectAccount.status !== 'connected') {
+    console.warn(`Skipping payout schedule ${schedule.id}: payout account isn't connected`);
+    return null;
+  }
+
+  const available = await getAvailableBalance(schedule.user_id, currency);
+
+  if (available.amount < schedule.minimum_amount) return null;
+
+  let withdrawal: WithdrawalRow;
+
+  try {
+    withdrawal = await requestWithdrawal(schedule.profile_id, schedule.user_id, available, schedule.id);
+  } catch (err) {
+    // A refund or another request got to the balance first
+    if (err instanceof InsufficientFundsError) return null;
+    throw err;
+  }
+
+  const limit = await getAutoApproveLimit(currency);
+
+  if (limit === null || withdrawal.amount > limit) return 'pending';
+
+  const approved = await approveWithdrawal(withdrawal.id, 'Approved automatically: scheduled payout within the auto-approve limit');
+  const payout = await payOutWithdrawal(withdrawal.id);
+
+  await recordAuditEvent({
+    actorId: null,
+    action: 'withdrawal.approve',
+    targetType: 'withdrawal',
+    targetId: withdrawal.id,
+    before: withdrawal,
+    after: { ...approved, payout, autoApproveLimit: money(limit, currency) }
+  }).catch((err) => console.error(`Error recording audit event for withdrawal ${withdrawal.id}:`, err));
+
+  return 'approved';
+}
+
+/**
+ * Run every payout schedule that is due. Each run is claimed by moving the
+ * schedule to its next date first, so a schedule only runs once per period.
+ */
+export async function runScheduledPayouts(): Promise<ScheduledPayoutRun> {
+  const now = new Date();
+
+  const { data: due, error } = await supabase
+    .from('payout_schedules')
+    .select('*')
+    .lte('next_run_at', now.toISOString());
+
+  if (error) throw error;
+
+  const run: ScheduledPayoutRun = { created: 0, approved: 0 };
+
+  for (const schedule of (due || []) as PayoutSchedule[]) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('payout_schedules')
+      .update({
+        next_run_at: getNextPayoutDate(schedule.frequency, now).toISOString(),
+        last_run_at: now.toISOString()
+      })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      const status = await runPayoutSchedule(schedule);
+
+      if (status) run.created++;
+      if (status === 'approved') run.approved++;
+    } catch (scheduleError) {
+      // The next period tries again; the other schedules still run
+      console.error(`Error running payout schedule ${schedule.id}:`, scheduleError);
+    }
+  }
+
+  return run;
+}
@@ -1,12 +1,14 @@
 import { stripe } from './stripe';
 import { supabase } from '../lib/supabase';
+import { Money, formatMoney } from '../lib/money';
 
 export interface PayoutRequest {
   withdrawalId: string;
   profileId: string;
-  amount: number; // in dollars
+  amount: Money;
   email: string;
   stripeConnectAccountId?: string;
+  payoutStartedAt: string; // when this payout attempt claimed the withdrawal
 }
 
 export interface PayoutResult {
@@ -16,101 +18,105 @@ export interface PayoutResult {
 }
 
 /**
- * Create a Stripe payout to an artist's account
- * Supports both direct bank transfers and Stripe Connect
- * Falls back to manual payout if automatic fails
+ * Transfer a withdrawal to the artist's Stripe Connect account.
+ * Stripe then pays it out to their bank on the connected account's schedule.
+ * Falls back to manual payout if the transfer fails.
  */
 export async function createStripePayout(request: PayoutRequest): Promise<PayoutResult> {
   try {
-    // Convert to cents (SEK)
-    const amountInCents = Math.round(request.amount * 100);
-
-    try {
-      // Try to create automatic payout
-      
-      // Check if we're in test mode
-      const isTestMode = process.env.STRIPE_SECRET_KEY?.includes('sk_test');
-      
-      let payout;
-      
-      if (isTestMode) {
-        // In test mode, mock the payout without calling Stripe
-        console.log(`Test mode: Mocking payout for ${request.amount} SEK`);
-        payout = {
-          id: `po_test_${Date.now()}`, // Mock payout ID
-          amount: amountInCents,
-          currency: 'sek',
-          method: 'standard',
-          status: 'in_transit',
-          created: Math.floor(Date.now() / 1000),
-          automatic: true
-        } as any;
-      } else {
-        // In production, use real Stripe payout
-        payout = await stripe.payouts.create({
-          amount: amountInCents,
-          currency: 'sek',
-          method: 'standard',
-          description: `Payout for artist withdrawal`,
-          statement_descriptor: 'GoBusker Artist Payout'
-        });
-      }
+    if (!request.stripeConnectAccountId) {
+      throw new Error('Artist has no connected Stripe account');
+    }
 
-      // Update withdrawal record with payout ID
-      await supabase
-        .from('withdrawals')
-        .update({
-          stripe_payout_id: payout.id,
-          payout_method: 'stripe'
-        })
-        .eq('id', request.withdrawalId);
+    const transfer = await stripe.transfers.create({
+      amount: request.amount.amount,
+      currency: request.amount.currency.toLowerCase(),
+      destination: request.stripeConnectAccountId,
+      description: 'Payout for artist withdrawal',
+      transfer_group: `withdrawal_${request.withdrawalId}`,
+      metadata: {
+        withdrawalId: request.withdrawalId,
+        profileId: request.profileId
+      }
+    }, {
+      // One transfer per claim: a repeated call never transfers twice, but a
+      // retry after a failed transfer gets a fresh key instead of the cached error
+      idempotencyKey: `withdrawal-transfer-${request.withdrawalId}-${Date.parse(request.payoutStartedAt)}`
+    });
 
-      console.log(`Automatic payout created: ${payout.id} for ${request.amount} SEK`);
+    // Update withdrawal record with transfer ID
+    const { error: updateError } = await supabase
+      .from('withdrawals')
+      .update({
+        stripe_transfer_id: transfer.id,
+        payout_method: 'stripe',
+        payout_error: null
+      })
+      .eq('id', request.withdrawalId);
 
-      return {
-        success: true,
-        payoutId: payout.id
-      };
-    } catch (payoutErr: any) {
-      // If automatic payout fails, mark as manual payout needed
-      const errorMsg = payoutErr.message || 'Automatic payout failed';
-      console.warn(`Automatic payout failed, marking for manual transfer: ${errorMsg}`);
+    if (updateError) {
+      // The money has moved, so keep the payout claimed and leave it to an admin
+      console.error(`Transfer ${transfer.id} created but not saved on withdrawal ${request.withdrawalId}:`, updateError);
 
-      // Still mark the withdrawal as approved, but flag it for manual payout
-      await supabase
+      const { error: flagError } = await supabase
         .from('withdrawals')
-        .update({
-          payout_method: 'manual',
-          payout_error: errorMsg
-        })
+        .update({ payout_error: `Transfer ${transfer.id} was created but couldn't be recorded, check it on Stripe` })
         .eq('id', request.withdrawalId);
 
+      if (flagError) {
+        console.error(`Error flagging withdrawal ${request.withdrawalId} for review:`, flagError);
+      }
+
       return {
-        success: true, // Mark as successful because saldo is deducted and withdrawal is approved
-        payoutId: undefined, // No automatic payout ID
-        error: `Manual payout required: ${errorMsg}` // But note it needs manual transfer
+        success: false,
+        payoutId: transfer.id,
+        error: `Transfer ${transfer.id} was created but couldn't be recorded on the withdrawal`
       };
     }
+
+    console.log(`Transfer created: ${transfer.id} for ${formatMoney(request.amount)} to ${request.stripeConnectAccountId}`);
+
+    return {
+      success: true,
+      payoutId: transfer.id
+    };
   } catch (err: any) {
-    const errorMessage = err.message || 'Unknown error creating payout';
-    console.error('Stripe payout error:', errorMessage);
+    // If the transfer fails, mark as manual payout needed
+    const errorMsg = err.message || 'Automatic payout failed';
+    console.warn(`Transfer failed, marking for manual payout: ${errorMsg}`);
 
-    // Update withdrawal with error
+    // Still mark the withdrawal as approved, but flag it for manual payout.
+    // Releasing the payout claim lets it be retried.
     await supabase
       .from('withdrawals')
       .update({
-        payout_error: errorMessage,
-        payout_method: 'manual'
+        payout_method: 'manual',
+        payout_error: errorMsg,
+        payout_started_at: null
       })
       .eq('id', request.withdrawalId);
 
     return {
-      success: false,
-      error: errorMessage
+      success: true, // Mark as successful because saldo is deducted and withdrawal is approved
+      payoutId: undefined, // No transfer ID
+      error: `Manual payout required: ${errorMsg}` // But note it needs manual transfer
     };
   }
 }
 
+/**
+ * Get transfer details from Stripe
+ */
+export async function getTransferDetails(transferId: string) {
+  try {
+    const transfer = await stripe.transfers.retrieve(transferId);
+    return transfer;
+  } catch (err) {
+    console.error('Error retrieving transfer:', err);
+    throw err;
+  }
+}
+
 /**
  * Get payout details from Stripe
  */
@@ -125,15 +131,17 @@ export async function getPayoutDetails(payoutId: string) {
 }
 
 /**
- * Get all payouts for a specific time period
+ * Get all payouts for a specific time period.
+ * Lists a connected account's payouts when `stripeAccount` is given.
  */
-export async function listPayouts(limit: number = 10, starting_after?: string) {
+export async function listPayouts(limit: number = 10, starting_after?: string, stripeAccount?: string) {
   try {
     const payouts = await stripe.payouts.list(
       {
         limit,
         ...(starting_after && { starting_after })
-      }
+      },
+      stripeAccount ? { stripeAccount } : undefined
     );
     return payouts.data;
   } catch (err) {
@@ -142,6 +150,41 @@ export async function listPayouts(limit: number = 10, starting_after?: string) {
   }
 }
 
+/**
+ * Get the withdrawal transfers a connected account's payout paid out. Each
+ * transfer arrives in the connected account as a payment whose source
+ * transfer is ours.
+ */
+export async function getPayoutTransferIds(payoutId: string, stripeAccount: string): Promise<string[]> {
+  const transferIds: string[] = [];
+
+  for await (const transaction of stripe.balanceTransactions.list(
+    { payout: payoutId, expand: ['data.source'] },
+    { stripeAccount }
+  )) {
+    const source = transaction.source;
+
+    if (source && typeof source !== 'string' && source.object === 'charge' && source.source_transfer) {
+      transferIds.push(typeof source.source_transfer === 'string' ? source.source_transfer : source.source_transfer.id);
+    }
+  }
+
+  return transferIds;
+}
+
+/**
+ * Take a withdrawal's transfer back from the connected account, after its
+ * payout to the bank failed
+ */
+export async function reverseWithdrawalTransfer(withdrawalId: string, transferId: string) {
+  return stripe.transfers.createReversal(transferId, {
+    metadata: { withdrawalId }
+  }, {
+    // A redelivered payout.failed must never reverse twice
+    idempotencyKey: `withdrawal-transfer-reversal-${withdrawalId}`
+  });
+}
+
 /**
  * Cancel a pending payout
  */
@@ -173,41 +216,13 @@ export async function getStripeBalance() {
   try {
     const balance = await stripe.balance.retrieve();
     return {
-      available: balance.available.map(b => ({ amount: b.amount / 100, currency: b.currency })),
-      pending: balance.pending.map(b => ({ amount: b.amount / 100, currency: b.currency })),
-      instant_available: balance.instant_available?.map(b => ({ amount: b.amount / 100, currency: b.currency })) || []
+      // Amounts in minor units; the platform account may hold currencies we don't support for payouts
+      available: balance.available.map(b => ({ amount: b.amount, currency: b.currency.toUpperCase() })),
+      pending: balance.pending.map(b => ({ amount: b.amount, currency: b.currency.toUpperCase() })),
+      instant_available: balance.instant_available?.map(b => ({ amount: b.amount, currency: b.currency.toUpperCase() })) || []
     };
   } catch (err) {
     console.error('Error retrieving Stripe balance:', err);
     throw err;
   }
 }
-
-/**
- * Create a bank account token for direct transfers
- * This would require collecting bank details securely
- */
-export async function createBankAccountToken(bankDetails: {
-  accountNumber: string;
-  routingNumber: string;
-  accountHolderName: string;
-  accountHolderType: 'individual' | 'company';
-}) {
-  try {
-    const token = await stripe.tokens.create({
-      bank_account: {
-        country: 'US',
-        currency: 'usd',
-        account_number: bankDetails.accountNumber,
-        routing_number: bankDetails.routingNumber,
-        account_holder_name: bankDetails.accountHolderName,
-        account_holder_type: bankDetails.accountHolderType
-      }
-    });
-
-    return token;
-  } catch (err) {
-    console.error('Error creating bank account token:', err);
-    throw err;
-  }
-}
@@ -0,0 +1,308 @@
+import { stripe } from './stripe';
+import { supabase } from '../lib/supabase';
+import { Money } from '../lib/money';
+
+export type ProductStatus = 'active' | 'archived';
+
+// Digital products are a file in the private product-files bucket, with no stock
+export type ProductType = 'physical' | 'digital';
+
+export interface ProductVariantInput {
+  id?: string;
+  size?: string | null;
+  color?: string | null;
+  stock: number;
+}
+
+export interface ProductInput {
+  name: string;
+  description?: string | null;
+  imageUrl?: string | null;
+  price: Money;
+  stock: number;
+  lowStockThreshold?: number;
+  variants?: ProductVariantInput[];
+  type?: ProductType;
+  filePath?: string | null;
+  fileName?: string | null;
+  downloadLimit?: number;
+}
+
+export interface ProductVariantRow {
+  id: string;
+  product_id: string;
+  size: string | null;
+  color: string | null;
+  stock: number;
+  low_stock_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductRow {
+  id: string;
+  profile_id: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  price: number;
+  currency: string;
+  stock: number;
+  low_stock_threshold: number;
+  low_stock_notified_at: string | null;
+  type: ProductType;
+  file_path: string | null;
+  file_name: string | null;
+  download_limit: number;
+  status: ProductStatus;
+  stripe_product_id: string | null;
+  stripe_price_id: string | null;
+  created_at: string;
+  updated_at: string;
+  variants: ProductVariantRow[];
+}
+
+// Products are always read together with their variants
+const PRODUCT_COLUMNS = '*, variants:product_variants(*)';
+
+/**
+ * Label a variant for carts and orders, e.g. "M / Black"
+ */
+export function getVariantLabel(variant: Pick<ProductVariantRow, 'size' | 'color'>): string {
+  return [variant.size, variant.color].filter(Boolean).join(' / ');
+}
+
+/**
+ * Stock a fan can buy: the sum of the variants' stock when there are variants,
+ * and no limit for digital products
+ */
+export function getAvailableStock(product: ProductRow): number {
+  if (product.type === 'digital') return Infinity;
+
+  return product.variants.length > 0
+    ? product.variants.reduce((sum, variant) => sum + variant.stock, 0)
+    : product.stock;
+}
+
+/**
+ * Replace a product's variants with the given list. Variants with an id are
+ * updated, new ones inserted and missing ones deleted. Restocking above the
+ * low-stock threshold re-arms the low-stock notice.
+ */
+async function syncVariants(productId: string, variants: ProductVariantInput[], lowStockThreshold: number) {
+  const { data: existing, error: existingError } = await supabase
+    .from('product_variants')
+    .select('id')
+    .eq('product_id', productId);
+
+  if (existingError) throw existingError;
+
+  const keptIds = variants.map((variant) => variant.id).filter(Boolean);
+  const removedIds = (existing || []).map((variant) => variant.id).filter((id) => !keptIds.includes(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from('product_variants')
+      .delete()
+      .in('id', removedIds);
+
+    if (error) throw error;
+  }
+
+  for (const variant of variants) {
+    const fields = {
+      size: variant.size || null,
+      color: variant.color || null,
+      stock: variant.stock,
+      ...(variant.stock > lowStockThreshold && { low_stock_notified_at: null })
+    };
+
+    const { error } = variant.id
+      ? await supabase.from('product_variants').update(fields).eq('id', variant.id).eq('product_id', productId)
+      : await supabase.from('product_variants').insert([{ product_id: productId, ...fields }]);
+
+    if (error) throw error;
+  }
+}
+
+/**
+ * Get the products of a profile, newest first
+ */
+export async function getProfileProducts(profileId: string, includeArchived: boolean = false): Promise<ProductRow[]> {
+  let query = supabase
+    .from('products')
+    .select(PRODUCT_COLUMNS)
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false });
+
+  if (!includeArchived) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get a single product of a profile
+ */
+export async function getProfileProduct(profileId: string, productId: string): Promise<ProductRow | null> {
+  const { data, error } = await supabase
+    .from('products')
+    .select(PRODUCT_COLUMNS)
+    .eq('id', productId)
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Create a product for a profile along with its Stripe product and price.
+ * The Stripe product carries metadata.profileId so it can be traced back.
+ */
+export async function createProduct(profileId: string, input: ProductInput): Promise<ProductRow> {
+  const stripeProduct = await stripe.products.create({
+    name: input.name,
+    description: input.description || undefined,
+    images: input.imageUrl ? [input.imageUrl] : undefined,
+    metadata: { profileId },
+    default_price_data: {
+      currency: input.price.currency.toLowerCase(),
+      unit_amount: input.price.amount
+    }
+  });
+
+  const stripePriceId = typeof stripeProduct.default_price === 'string'
+    ? stripeProduct.default_price
+    : stripeProduct.default_price?.id;
+
+  const { data, error } = await supabase
+    .from('products')
+    .insert([
+      {
+        profile_id: profileId,
+        name: input.name,
+        description: input.description || null,
+        image_url: input.imageUrl || null,
+        price: input.price.amount,
+        currency: input.price.currency,
+        stock: input.stock,
+        ...(input.lowStockThreshold !== undefined && { low_stock_threshold: input.lowStockThreshold }),
+        type: input.type || 'physical',
+        file_path: input.filePath || null,
+        file_name: input.fileName || null,
+        ...(input.downloadLimit !== undefined && { download_limit: input.downloadLimit }),
+        stripe_product_id: stripeProduct.id,
+        stripe_price_id: stripePriceId
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned product in the Stripe catalog
+    await stripe.products.update(stripeProduct.id, { active: false });
+    throw error;
+  }
+
+  if (input.variants?.length) {
+    await syncVariants(data.id, input.variants, data.low_stock_threshold);
+  }
+
+  return (await getProfileProduct(profileId, data.id))!;
+}
+
+/**
+ * Update a product and keep Stripe in sync.
+ * Stripe prices are immutable, so a new price replaces the old one.
+ */
+export async function updateProduct(product: ProductRow, changes: Partial<ProductInput>): Promise<ProductRow> {
+  const updates: Record<string, unknown> = {};
+
+  if (changes.name !== undefined) updates.name = changes.name;
+  if (changes.description !== undefined) updates.description = changes.description || null;
+  if (changes.imageUrl !== undefined) updates.image_url = changes.imageUrl || null;
+  if (changes.stock !== undefined) updates.stock = changes.stock;
+  if (changes.lowStockThreshold !== undefined) updates.low_stock_threshold = changes.lowStockThreshold;
+  if (changes.filePath !== undefined) updates.file_path = changes.filePath || null;
+  if (changes.fileName !== undefined) updates.file_name = changes.fileName || null;
+  if (changes.downloadLimit !== undefined) updates.download_limit = changes.downloadLimit;
+
+  const lowStockThreshold = changes.lowStockThreshold ?? product.low_stock_threshold;
+
+  if (changes.stock !== undefined && changes.stock > lowStockThreshold) {
+    updates.low_stock_notified_at = null;
+  }
+
+  if (product.stripe_product_id) {
+    const newPrice = changes.price;
+    const priceChanged = !!newPrice
+      && (newPrice.amount !== product.price || newPrice.currency !== product.currency);
+
+    if (newPrice && priceChanged) {
+      const stripePrice = await stripe.prices.create({
+        product: product.stripe_product_id,
+        currency: newPrice.currency.toLowerCase(),
+        unit_amount: newPrice.amount
+      });
+
+      updates.price = newPrice.amount;
+      updates.currency = newPrice.currency;
+      updates.stripe_price_id = stripePrice.id;
+    }
+
+    await stripe.products.update(product.stripe_product_id, {
+      name: changes.name,
+      description: changes.description === undefined ? undefined : changes.description || '',
+      images: changes.imageUrl === undefined ? undefined : (changes.imageUrl ? [changes.imageUrl] : []),
+      ...(priceChanged && { default_price: updates.stripe_price_id as string })
+    });
+
+    if (priceChanged && product.stripe_price_id) {
+      await stripe.prices.update(product.stripe_price_id, { active: false });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('products')
+    .update(updates)
+    .eq('id', product.id)
+    .select(PRODUCT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  if (changes.variants !== undefined) {
+    await syncVariants(product.id, changes.variants, lowStockThreshold);
+    return (await getProfileProduct(product.profile_id, product.id))!;
+  }
+
+  return data;
+}
+
+/**
+ * Archive or restore a product. Archived products are hidden from the shop
+ * and inactive in Stripe, but kept for past orders.
+ */
+export async function setProductStatus(product: ProductRow, status: ProductStatus): Promise<ProductRow> {
+  if (product.stripe_product_id) {
+    await stripe.products.update(product.stripe_product_id, { active: status === 'active' });
+  }
+
+  const { data, error } = await supabase
+    .from('products')
+    .update({ status })
+    .eq('id', product.id)
+    .select(PRODUCT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
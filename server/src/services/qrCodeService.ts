@@ -0,0 +1,230 @@
+import { randomInt } from 'crypto';
+import { supabase } from '../lib/supabase';
+import { money } from '../lib/money';
+import { getTipSettings, validateTipAmount } from './tipService';
+import { validateTipEvent } from './eventTipService';
+
+// Short enough to type from a photo of a sign, without 0/O or 1/l/I to misread
+const CODE_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 7;
+
+// A new code is retried this many times if it happens to be taken
+const CODE_ATTEMPTS = 3;
+
+export const MAX_QR_CODES = 20;
+
+export const MAX_QR_LABEL_LENGTH = 60;
+
+export interface QrCodeRow {
+  id: string;
+  code: string;
+  profile_id: string;
+  label: string | null;
+  event_id: string | null;
+  amount: number | null; // in minor units
+  currency: string | null;
+  scan_count: number;
+  last_scanned_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A code with the link printed in it
+export interface QrCode extends QrCodeRow {
+  url: string;
+}
+
+export interface QrCodeInput {
+  label?: string | null;
+  eventId?: string | null;
+  amount?: number | null; // in minor units of the profile's payout currency
+}
+
+export class QrCodeLimitError extends Error {
+  constructor(message: string = `A profile can have at most ${MAX_QR_CODES} QR codes`) {
+    super(message);
+    this.name = 'QrCodeLimitError';
+  }
+}
+
+function generateCode(): string {
+  return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+}
+
+/**
+ * Link a QR code holds. Scanning it counts the scan and redirects to the
+ * profile's tip form, see resolveQrCode.
+ */
+export function getQrCodeUrl(code: string): string {
+  const serverUrl = process.env.SERVER_URL || 'http://localhost:3000';
+  return `${serverUrl}/api/qr/${code}`;
+}
+
+function withUrl(row: QrCodeRow): QrCode {
+  return { ...row, url: getQrCodeUrl(row.code) };
+}
+
+/**
+ * Get a profile's QR codes, newest first
+ */
+export async function getProfileQrCodes(profileId: string): Promise<QrCode[]> {
+  const { data, error } = await supabase
+    .from('qr_codes')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(withUrl);
+}
+
+/**
+ * Check the event and amount a QR code preselects: the profile must perform
+ * at the event and the amount must be a valid tip in the profile's currency.
+ * Returns an error message, or null when they're fine.
+ */
+export async function validateQrCodeTarget(profileId: string, input: QrCodeInput): Promise<string | null> {
+  if (input.eventId) {
+    const eventError = await validateTipEvent(input.eventId, profileId);
+    if (eventError) return eventError;
+  }
+
+  if (input.amount) {
+    const settings = await getTipSettings(profileId);
+    if (!settings) return 'Profile not found';
+
+    const amountError = validateTipAmount(money(input.amount, settings.currency));
+    if (amountError) return amountError;
+  }
+
+  return null;
+}
+
+/**
+ * The columns a QR code's input sets. The amount is stored with the
+ * profile's current payout currency.
+ */
+async function toQrCodeColumns(profileId: string, input: QrCodeInput) {
+  const columns: Partial<QrCodeRow> = {};
+
+  if (input.label !== undefined) {
+    columns.label = input.label || null;
+  }
+
+  if (input.eventId !== undefined) {
+    columns.event_id = input.eventId || null;
+  }
+
+  if (input.amount !== undefined) {
+    const settings = input.amount ? await getTipSettings(profileId) : null;
+    columns.amount = input.amount || null;
+    columns.currency = settings?.currency || null;
+  }
+
+  return columns;
+}
+
+/**
+ * Create a QR code for a profile with a new short code
+ */
+export async function createQrCode(profileId: string, userId: string, input: QrCodeInput): Promise<QrCode> {
+  const { count, error: countError } = await supabase
+    .from('qr_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', profileId);
+
+  if (countError) throw countError;
+
+  if ((count || 0) >= MAX_QR_CODES) {
+    throw new QrCodeLimitError();
+  }
+
+  const columns = await toQrCodeColumns(profileId, input);
+
+  for (let attempt = 1; ; attempt++) {
+    const { data, error } = await supabase
+      .from('qr_codes')
+      .insert({ ...columns, profile_id: profileId, code: generateCode(), created_by: userId })
+      .select('*')
+      .single();
+
+    // 23505: unique violation, the code is already taken
+    if (error?.code === '23505' && attempt < CODE_ATTEMPTS) continue;
+    if (error) throw error;
+
+    return withUrl(data);
+  }
+}
+
+/**
+ * Change a QR code's label, event or amount. The code itself never
+ * changes, so printed copies pick up the change. Returns null if the code
+ * isn't one of the profile's.
+ */
+export async function updateQrCode(profileId: string, codeId: string, input: QrCodeInput): Promise<QrCode | null> {
+  const columns = await toQrCodeColumns(profileId, input);
+
+  const { data, error } = await supabase
+    .from('qr_codes')
+    .update({ ...columns, updated_at: new Date().toISOString() })
+    .eq('id', codeId)
+    .eq('profile_id', profileId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? withUrl(data) : null;
+}
+
+/**
+ * Delete one of a profile's QR codes. Printed copies stop working.
+ * Returns false if the code isn't one of the profile's.
+ */
+export async function deleteQrCode(profileId: string, codeId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('qr_codes')
+    .delete()
+    .eq('id', codeId)
+    .eq('profile_id', profileId)
+    .select('id');
+
+  if (error) throw error;
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Count a scan of a QR code and get the tip form it leads to, or null if
+ * there's no such code. The event and amount are only preselected while
+ * they're still valid, so an old sign falls back to the plain tip form.
+ */
+export async function resolveQrCode(code: string): Promise<string | null> {
+  const { data: scanned, error } = await supabase.rpc('record_qr_scan', { p_code: code });
+
+  if (error) throw error;
+
+  const qrCode: QrCodeRow | undefined = scanned?.[0];
+
+  if (!qrCode) return null;
+
+  const params = new URLSearchParams({ tip: '1' });
+
+  if (qrCode.event_id && !(await validateTipEvent(qrCode.event_id, qrCode.profile_id))) {
+    params.set('event', qrCode.event_id);
+  }
+
+  if (qrCode.amount) {
+    // Tips are charged in the profile's payout currency
+    const settings = await getTipSettings(qrCode.profile_id);
+
+    if (settings?.currency === qrCode.currency) {
+      params.set('amount', String(qrCode.amount));
+    }
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${frontendUrl}/profile/${qrCode.profile_id}?${params}`;
+}
@@ -0,0 +1,315 @@
+import Stripe from 'stripe';
+import { stripe } from './stripe';
+import { supabase } from '../lib/supabase';
+import { PartialRefund, clawBackCredits } from './walletService';
+
+export type ReversalStatus = 'refunded' | 'disputed';
+
+export type RefundableType = 'tip' | 'order';
+
+/**
+ * Reverse the transfers made to band members' Connect accounts for a tip.
+ * Each reversal takes back what's left of its transfer after partial refunds.
+ * Reversals are keyed per transfer, so a redelivered event can't reverse twice.
+ */
+async function reverseTipTransfers(tipId: string) {
+  const { data: transfers, error } = await supabase
+    .from('tip_transfers')
+    .select('id, stripe_transfer_id, amount')
+    .eq('tip_id', tipId)
+    .is('stripe_reversal_id', null);
+
+  if (error) throw error;
+
+  for (const transfer of transfers || []) {
+    const reversal = await stripe.transfers.createReversal(transfer.stripe_transfer_id, {
+      metadata: { tipId }
+    }, {
+      idempotencyKey: `tip-transfer-reversal-${transfer.stripe_transfer_id}`
+    });
+
+    const { error: updateError } = await supabase
+      .from('tip_transfers')
+      .update({
+        stripe_reversal_id: reversal.id,
+        reversed_at: new Date().toISOString()
+      })
+      .eq('id', transfer.id);
+
+    if (updateError) throw updateError;
+  }
+}
+
+/**
+ * Take the refunded share of each transfer to band members' Connect accounts
+ * back for a partial refund. Reversals carry the refund id, so a redelivered
+ * event finds its reversal on Stripe instead of reversing again.
+ */
+async function reverseTipTransferShares(tipId: string, partialRefund: PartialRefund) {
+  const { data: transfers, error } = await supabase
+    .from('tip_transfers')
+    .select('stripe_transfer_id, amount')
+    .eq('tip_id', tipId)
+    .is('stripe_reversal_id', null);
+
+  if (error) throw error;
+
+  for (const transfer of transfers || []) {
+    const amount = Math.floor(Number(transfer.amount) * partialRefund.refunded / partialRefund.total);
+
+    if (amount <= 0) continue;
+
+    const reversals = await stripe.transfers.listReversals(transfer.stripe_transfer_id, { limit: 100 });
+
+    if (reversals.data.some((reversal) => reversal.metadata?.refundId === partialRefund.refundId)) {
+      continue;
+    }
+
+    await stripe.transfers.createReversal(transfer.stripe_transfer_id, {
+      amount,
+      metadata: { tipId, refundId: partialRefund.refundId }
+    }, {
+      idempotencyKey: `tip-transfer-reversal-${transfer.stripe_transfer_id}-${partialRefund.refundId}`
+    });
+  }
+}
+
+/**
+ * Reverse a completed tip: mark it refunded or disputed and take back what
+ * each member received, from their wallet or their Connect account, and
+ * the event maker's share if it was made from a venue booking's page.
+ * Safe to run again when Stripe redelivers the event.
+ */
+async function reverseTip(tipId: string, status: ReversalStatus) {
+  const { error } = await supabase
+    .from('tips')
+    .update({ payment_status: status, reversed_at: new Date().toISOString() })
+    .eq('id', tipId)
+    .eq('payment_status', 'completed');
+
+  if (error) throw error;
+
+  const description = status === 'refunded' ? 'Tip refunded' : 'Tip disputed';
+  await clawBackCredits('tip', tipId, description);
+  await clawBackCredits('event_share', tipId, description);
+  await reverseTipTransfers(tipId);
+}
+
+/**
+ * Reverse a paid order. Merch revenue isn't credited to wallets today, but
+ * any credits an order did cause are clawed back the same way as tips.
+ */
+async function reverseOrder(orderId: string, status: ReversalStatus) {
+  const { error } = await supabase
+    .from('orders')
+    .update({ payment_status: status, reversed_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('payment_status', 'paid');
+
+  if (error) throw error;
+
+  const description = status === 'refunded' ? 'Order refunded' : 'Order disputed';
+  await clawBackCredits('order', orderId, description);
+}
+
+/**
+ * Reverse a patron's subscription payment, taking back the 'subscription'
+ * credits it gave band members
+ */
+async function reversePatronPayment(invoiceId: string, status: ReversalStatus) {
+  const { error } = await supabase
+    .from('patron_payments')
+    .update({ payment_status: status, reversed_at: new Date().toISOString() })
+    .eq('stripe_invoice_id', invoiceId)
+    .eq('payment_status', 'paid');
+
+  if (error) throw error;
+
+  const description = status === 'refunded' ? 'Patron payment refunded' : 'Patron payment disputed';
+  await clawBackCredits('subscription', invoiceId, description);
+}
+
+/**
+ * Find the invoices a payment intent paid. Charges no longer carry their
+ * invoice, so this goes through the invoice payments Stripe records.
+ */
+async function findPaidInvoiceIds(paymentIntentId: string): Promise<string[]> {
+  const invoicePayments = await stripe.invoicePayments.list({
+    payment: { type: 'payment_intent', payment_intent: paymentIntentId },
+    status: 'paid'
+  });
+
+  return invoicePayments.data.map((invoicePayment) =>
+    typeof invoicePayment.invoice === 'string' ? invoicePayment.invoice : invoicePayment.invoice.id
+  );
+}
+
+interface PaymentsByIntent {
+  tipIds: string[];
+  orderIds: string[];
+  invoiceIds: string[]; // of patron payments
+}
+
+/**
+ * Find the tips, orders or patron payments paid with a payment intent that
+ * are in one of the given states
+ */
+async function findPayments(
+  paymentIntentId: string,
+  tipStatuses: string[],
+  paidStatuses: string[]
+): Promise<PaymentsByIntent> {
+  const { data: tips, error: tipError } = await supabase
+    .from('tips')
+    .select('id')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .in('payment_status', tipStatuses);
+
+  if (tipError) throw tipError;
+
+  const { data: orders, error: orderError } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .in('payment_status', paidStatuses);
+
+  if (orderError) throw orderError;
+
+  const payments: PaymentsByIntent = {
+    tipIds: (tips || []).map((tip) => tip.id),
+    orderIds: (orders || []).map((order) => order.id),
+    invoiceIds: []
+  };
+
+  if (payments.tipIds.length > 0 || payments.orderIds.length > 0) {
+    return payments;
+  }
+
+  // Neither a tip nor an order, so look for a subscription invoice
+  const invoiceIds = await findPaidInvoiceIds(paymentIntentId);
+
+  if (invoiceIds.length === 0) {
+    return payments;
+  }
+
+  const { data: patronPayments, error: patronPaymentError } = await supabase
+    .from('patron_payments')
+    .select('stripe_invoice_id')
+    .in('stripe_invoice_id', invoiceIds)
+    .in('payment_status', paidStatuses);
+
+  if (patronPaymentError) throw patronPaymentError;
+
+  payments.invoiceIds = (patronPayments || []).map((patronPayment) => patronPayment.stripe_invoice_id);
+
+  return payments;
+}
+
+/**
+ * Reverse the tip, order or patron payment paid with a payment intent
+ */
+async function reversePayment(paymentIntentId: string, status: ReversalStatus) {
+  // Already reversed rows are included so a retry finishes an interrupted clawback
+  const payments = await findPayments(
+    paymentIntentId,
+    ['completed', 'refunded', 'disputed'],
+    ['paid', 'refunded', 'disputed']
+  );
+
+  for (const tipId of payments.tipIds) {
+    await reverseTip(tipId, status);
+  }
+
+  for (const orderId of payments.orderIds) {
+    await reverseOrder(orderId, status);
+  }
+
+  for (const invoiceId of payments.invoiceIds) {
+    await reversePatronPayment(invoiceId, status);
+  }
+}
+
+/**
+ * Claw back the share of a tip, order or patron payment that a partial
+ * refund gave back. The payment keeps its status; a later full refund or
+ * dispute takes back the rest.
+ */
+async function refundPaymentShare(paymentIntentId: string, partialRefund: PartialRefund) {
+  // Payments that were already reversed in full have nothing left to claw back
+  const payments = await findPayments(paymentIntentId, ['completed'], ['paid']);
+
+  for (const tipId of payments.tipIds) {
+    await clawBackCredits('tip', tipId, 'Tip partially refunded', partialRefund);
+    await clawBackCredits('event_share', tipId, 'Tip partially refunded', partialRefund);
+    await reverseTipTransferShares(tipId, partialRefund);
+  }
+
+  for (const orderId of payments.orderIds) {
+    await clawBackCredits('order', orderId, 'Order partially refunded', partialRefund);
+  }
+
+  for (const invoiceId of payments.invoiceIds) {
+    await clawBackCredits('subscription', invoiceId, 'Patron payment partially refunded', partialRefund);
+  }
+}
+
+/**
+ * Handle charge.refunded: reverse the tip, order or patron payment once the
+ * charge has been refunded in full, or claw back the share each partial
+ * refund gave back until then
+ */
+export async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return;
+  }
+
+  if (!charge.refunded) {
+    // Each refund is clawed back once, so earlier ones are skipped on later events
+    for await (const refund of stripe.refunds.list({ charge: charge.id })) {
+      if (refund.status === 'failed' || refund.status === 'canceled') continue;
+
+      await refundPaymentShare(paymentIntentId, {
+        refundId: refund.id,
+        refunded: refund.amount,
+        total: charge.amount
+      });
+    }
+    return;
+  }
+
+  await reversePayment(paymentIntentId, 'refunded');
+}
+
+/**
+ * Handle charge.dispute.created: Stripe has already taken the disputed funds
+ * from the platform, so reverse the tip, order or patron payment right away
+ */
+export async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const paymentIntentId = typeof dispute.payment_intent === 'string'
+    ? dispute.payment_intent
+    : dispute.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return;
+  }
+
+  await reversePayment(paymentIntentId, 'disputed');
+}
+
+/**
+ * Refund a tip or order in full.
+ * The clawback itself happens when Stripe confirms with charge.refunded.
+ */
+export function refundPayment(type: RefundableType, id: string, paymentIntentId: string, reason?: Stripe.RefundCreateParams.Reason): Promise<Stripe.Refund> {
+  return stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    reason: reason || 'requested_by_customer',
+    metadata: { type, id }
+  }, {
+    idempotencyKey: `refund-${type}-${id}`
+  });
+}
@@ -0,0 +1,384 @@
+import Stripe from 'stripe';
+import { stripe } from './stripe';
+import { supabase } from '../lib/supabase';
+import { Money, money } from '../lib/money';
+import { creditProfileMembers } from './walletService';
+
+export type TierStatus = 'active' | 'archived';
+
+export interface TierInput {
+  name: string;
+  perks?: string;
+  price: Money; // per month
+}
+
+export interface SubscriptionTierRow {
+  id: string;
+  profile_id: string;
+  name: string;
+  perks: string | null;
+  price: number; // per month, in minor units
+  currency: string;
+  status: TierStatus;
+  stripe_product_id: string | null;
+  stripe_price_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PatronSubscriptionRow {
+  id: string;
+  profile_id: string;
+  tier_id: string | null;
+  user_id: string | null;
+  customer_email: string | null;
+  customer_name: string | null;
+  stripe_customer_id: string;
+  stripe_subscription_id: string;
+  status: Stripe.Subscription.Status;
+  amount: number; // per month, in minor units
+  currency: string;
+  cancel_at_period_end: boolean;
+  current_period_end: string | null;
+  canceled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Subscriptions that still count as supporting the profile
+export const LIVE_SUBSCRIPTION_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+/**
+ * Get a profile's subscription tiers, cheapest first.
+ * Archived tiers are only included for the profile's managers.
+ */
+export async function getProfileTiers(profileId: string, includeArchived: boolean = false): Promise<SubscriptionTierRow[]> {
+  let query = supabase
+    .from('subscription_tiers')
+    .select('*')
+    .eq('profile_id', profileId)
+    .order('price', { ascending: true });
+
+  if (!includeArchived) {
+    query = query.eq('status', 'active');
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get one of a profile's tiers, or null if it doesn't belong to the profile
+ */
+export async function getProfileTier(profileId: string, tierId: string): Promise<SubscriptionTierRow | null> {
+  const { data, error } = await supabase
+    .from('subscription_tiers')
+    .select('*')
+    .eq('id', tierId)
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Create a tier along with its Stripe product and monthly price.
+ * The Stripe product carries metadata.profileId so it can be traced back.
+ */
+export async function createTier(profileId: string, input: TierInput): Promise<SubscriptionTierRow> {
+  const stripeProduct = await stripe.products.create({
+    name: input.name,
+    description: input.perks || undefined,
+    metadata: { profileId },
+    default_price_data: {
+      currency: input.price.currency.toLowerCase(),
+      unit_amount: input.price.amount,
+      recurring: { interval: 'month' }
+    }
+  });
+
+  const stripePriceId = typeof stripeProduct.default_price === 'string'
+    ? stripeProduct.default_price
+    : stripeProduct.default_price?.id;
+
+  const { data, error } = await supabase
+    .from('subscription_tiers')
+    .insert([
+      {
+        profile_id: profileId,
+        name: input.name,
+        perks: input.perks || null,
+        price: input.price.amount,
+        currency: input.price.currency,
+        stripe_product_id: stripeProduct.id,
+        stripe_price_id: stripePriceId || null
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned product in the Stripe catalog
+    await stripe.products.update(stripeProduct.id, { active: false });
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update a tier and keep Stripe in sync.
+ * A new price only applies to new patrons; existing subscriptions keep the
+ * price they signed up at.
+ */
+export async function updateTier(tier: SubscriptionTierRow, changes: Partial<TierInput>): Promise<SubscriptionTierRow> {
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+  if (changes.name !== undefined) updates.name = changes.name;
+  if (changes.perks !== undefined) updates.perks = changes.perks || null;
+
+  if (tier.stripe_product_id) {
+    const newPrice = changes.price;
+    const priceChanged = !!newPrice
+      && (newPrice.amount !== tier.price || newPrice.currency !== tier.currency);
+
+    if (newPrice && priceChanged) {
+      const stripePrice = await stripe.prices.create({
+        product: tier.stripe_product_id,
+        currency: newPrice.currency.toLowerCase(),
+        unit_amount: newPrice.amount,
+        recurring: { interval: 'month' }
+      });
+
+      updates.price = newPrice.amount;
+      updates.currency = newPrice.currency;
+      updates.stripe_price_id = stripePrice.id;
+    }
+
+    await stripe.products.update(tier.stripe_product_id, {
+      name: changes.name,
+      description: changes.perks === undefined ? undefined : changes.perks || '',
+      ...(priceChanged && { default_price: updates.stripe_price_id as string })
+    });
+
+    if (priceChanged && tier.stripe_price_id) {
+      await stripe.prices.update(tier.stripe_price_id, { active: false });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('subscription_tiers')
+    .update(updates)
+    .eq('id', tier.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Archive or restore a tier. Archived tiers can't be subscribed to, but
+ * existing patrons keep their subscription until they cancel.
+ */
+export async function setTierStatus(tier: SubscriptionTierRow, status: TierStatus): Promise<SubscriptionTierRow> {
+  if (tier.stripe_product_id) {
+    await stripe.products.update(tier.stripe_product_id, { active: status === 'active' });
+  }
+
+  const { data, error } = await supabase
+    .from('subscription_tiers')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', tier.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Get a profile's patrons, with their tier. Ended subscriptions are left out
+ * unless `includeEnded` is set.
+ */
+export async function getProfilePatrons(profileId: string, includeEnded: boolean = false): Promise<PatronSubscriptionRow[]> {
+  let query = supabase
+    .from('patron_subscriptions')
+    .select('*, tier:subscription_tiers(id, name)')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false });
+
+  if (!includeEnded) {
+    query = query.in('status', LIVE_SUBSCRIPTION_STATUSES);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get the subscriptions a fan has taken out, with the tier and profile
+ */
+export async function getUserSubscriptions(userId: string): Promise<PatronSubscriptionRow[]> {
+  const { data, error } = await supabase
+    .from('patron_subscriptions')
+    .select('*, tier:subscription_tiers(id, name, perks), profile:profiles(id, name)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Find the Stripe customer a fan used before, so all their subscriptions can
+ * be managed from one customer portal
+ */
+export async function getUserStripeCustomerId(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('patron_subscriptions')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.stripe_customer_id || null;
+}
+
+/**
+ * Mirror a Stripe subscription into patron_subscriptions.
+ * Handles customer.subscription.created/updated/deleted; events can arrive in
+ * any order, so each one writes the subscription's current state.
+ */
+export async function syncSubscription(subscription: Stripe.Subscription) {
+  const profileId = subscription.metadata?.profileId;
+
+  if (!profileId) {
+    // Not a patron subscription
+    return;
+  }
+
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+  const item = subscription.items.data[0];
+  const customer = typeof subscription.customer === 'string'
+    ? await stripe.customers.retrieve(subscription.customer)
+    : subscription.customer;
+
+  const { error } = await supabase
+    .from('patron_subscriptions')
+    .upsert([
+      {
+        profile_id: profileId,
+        tier_id: subscription.metadata?.tierId || null,
+        user_id: subscription.metadata?.userId || null,
+        customer_email: customer.deleted ? null : customer.email,
+        customer_name: customer.deleted ? null : customer.name,
+        stripe_customer_id: customerId,
+        stripe_subscription_id: subscription.id,
+        status: subscription.status,
+        amount: item?.price.unit_amount || 0,
+        currency: subscription.currency.toUpperCase(),
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        current_period_end: item ? new Date(item.current_period_end * 1000).toISOString() : null,
+        canceled_at: subscription.canceled_at ? new Date(subscription.canceled_at * 1000).toISOString() : null,
+        updated_at: new Date().toISOString()
+      }
+    ], { onConflict: 'stripe_subscription_id' });
+
+  if (error) throw error;
+}
+
+/**
+ * Handle invoice.paid: record the patron's payment and split it among the
+ * band members' wallets. Keyed by invoice id, so redelivered events are a no-op.
+ */
+export async function recordPatronPayment(invoice: Stripe.Invoice) {
+  const subscriptionDetails = invoice.parent?.subscription_details;
+  const profileId = subscriptionDetails?.metadata?.profileId;
+
+  if (!subscriptionDetails || !profileId || !invoice.id) {
+    return;
+  }
+
+  if (invoice.amount_paid <= 0) {
+    // e.g. a trial or a fully discounted month
+    return;
+  }
+
+  const stripeSubscriptionId = typeof subscriptionDetails.subscription === 'string'
+    ? subscriptionDetails.subscription
+    : subscriptionDetails.subscription.id;
+
+  // The first invoice can be paid before customer.subscription.created is processed
+  const { data: existing, error: fetchError } = await supabase
+    .from('patron_subscriptions')
+    .select('id')
+    .eq('stripe_subscription_id', stripeSubscriptionId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  let subscriptionId = existing?.id;
+
+  if (!subscriptionId) {
+    await syncSubscription(await stripe.subscriptions.retrieve(stripeSubscriptionId));
+
+    const { data: synced, error: syncedError } = await supabase
+      .from('patron_subscriptions')
+      .select('id')
+      .eq('stripe_subscription_id', stripeSubscriptionId)
+      .single();
+
+    if (syncedError) throw syncedError;
+    subscriptionId = synced.id;
+  }
+
+  const amount = money(invoice.amount_paid, invoice.currency);
+
+  const { error } = await supabase
+    .from('patron_payments')
+    .upsert([
+      {
+        subscription_id: subscriptionId,
+        profile_id: profileId,
+        stripe_invoice_id: invoice.id,
+        amount: amount.amount,
+        currency: amount.currency,
+        paid_at: invoice.status_transitions?.paid_at
+          ? new Date(invoice.status_transitions.paid_at * 1000).toISOString()
+          : new Date().toISOString()
+      }
+    ], { onConflict: 'stripe_invoice_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+
+  // Credits are keyed by invoice id, so a retry only credits who wasn't credited yet
+  await creditProfileMembers(profileId, amount, 'subscription', invoice.id, 'Patron subscription');
+}
+
+/**
+ * Create a Stripe customer portal session where a fan can cancel or update
+ * their subscriptions
+ */
+export async function createPortalSession(customerId: string, returnUrl: string): Promise<string> {
+  const session = await stripe.billingPortal.sessions.create({
+    customer: customerId,
+    return_url: returnUrl
+  });
+
+  return session.url;
+}
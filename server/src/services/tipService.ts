@@ -0,0 +1,403 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { supabase } from '../lib/supabase';
+import { stripe } from './stripe';
+import { CurrencyCode, DEFAULT_CURRENCY, Money, formatMoney, money, toCurrencyCode } from '../lib/money';
+
+export interface TipLimits {
+  min: number; // in minor units
+  max: number;
+}
+
+export interface TipSettings {
+  currency: CurrencyCode;
+  presets: number[]; // in minor units
+  limits: TipLimits;
+  fee: { percent: number; fixed: number }; // for showing the "cover the fees" amount
+}
+
+// Stripe's minimum charge is well below these; tips under them mostly go to fees
+export const TIP_LIMITS: Record<CurrencyCode, TipLimits> = {
+  SEK: { min: 1000, max: 500000 },
+  NOK: { min: 1000, max: 500000 },
+  DKK: { min: 1000, max: 500000 },
+  EUR: { min: 100, max: 50000 },
+  USD: { min: 100, max: 50000 }
+};
+
+export const DEFAULT_TIP_PRESETS: Record<CurrencyCode, number[]> = {
+  SEK: [2000, 5000, 10000, 20000],
+  NOK: [2000, 5000, 10000, 20000],
+  DKK: [2000, 5000, 10000, 20000],
+  EUR: [200, 500, 1000, 2000],
+  USD: [200, 500, 1000, 2000]
+};
+
+export const MAX_TIP_PRESETS = 6;
+
+export const MAX_TIP_MESSAGE_LENGTH = 150;
+
+// A profile can feature a few tips at the top of its wall
+export const MAX_PINNED_TIPS = 3;
+
+// Words masked in tip messages and names. Matched as whole words, so
+// "class" or "Scunthorpe" are left alone.
+const BLOCKED_WORDS = [
+  'fuck', 'fucking', 'fucker', 'motherfucker', 'shit', 'bullshit', 'bitch', 'bastard', 'cunt', 'dick',
+  'cock', 'pussy', 'asshole', 'slut', 'whore', 'fag', 'faggot', 'nigger', 'nigga', 'retard',
+  'fitta', 'kuk', 'hora', 'jävla', 'jävlar', 'helvete', 'knulla', 'faen', 'fanden', 'pikk', 'føkk', 'lort'
+];
+
+const BLOCKED_WORDS_PATTERN = new RegExp(`(?<![\\p{L}\\p{N}])(${BLOCKED_WORDS.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+// URLs, www. addresses and bare domains like example.com/page
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|se|no|dk|eu|co|me|info|xyz|ly|gg|tv|app|link|shop)\b(?:\/\S*)?/gi;
+
+// Estimate of Stripe's card fee (European cards), used for "cover the fees"
+const CARD_FEES: Record<CurrencyCode, { percent: number; fixed: number }> = {
+  SEK: { percent: 1.5, fixed: 180 },
+  NOK: { percent: 1.5, fixed: 200 },
+  DKK: { percent: 1.5, fixed: 180 },
+  EUR: { percent: 1.5, fixed: 25 },
+  USD: { percent: 1.5, fixed: 30 }
+};
+
+// A tip as shown on the public tip wall
+export interface PublicTipRow {
+  id: string;
+  profile_id: string;
+  donor_name: string | null; // null when the donor is anonymous or hid their name
+  amount: number; // in minor units
+  currency: string;
+  message: string | null;
+  pinned_at: string | null;
+  created_at: string;
+}
+
+// A tip as its profile's owners and admins see it when moderating
+export interface ModeratedTipRow extends PublicTipRow {
+  show_name: boolean;
+  is_hidden: boolean;
+}
+
+export interface TipReceipt {
+  tipId: string;
+  profileId: string;
+  profileName: string | null;
+  donorName: string | null;
+  showName: boolean;
+  amount: number; // the tip, in minor units
+  feeAmount: number; // covered fee charged on top, in minor units
+  currency: CurrencyCode;
+  message: string | null;
+  paymentStatus: string;
+  createdAt: string;
+}
+
+export class TipCurrencyLockedError extends Error {
+  constructor(message: string = "The tip currency can't be changed after the profile has been paid") {
+    super(message);
+    this.name = 'TipCurrencyLockedError';
+  }
+}
+
+/**
+ * Check a tip amount against the limits for its currency.
+ * Returns an error message, or null when the amount is fine.
+ */
+export function validateTipAmount(amount: Money): string | null {
+  const limits = TIP_LIMITS[amount.currency];
+
+  if (amount.amount < limits.min) {
+    return `Tips must be at least ${formatMoney(money(limits.min, amount.currency))}`;
+  }
+
+  if (amount.amount > limits.max) {
+    return `Tips can be at most ${formatMoney(money(limits.max, amount.currency))}`;
+  }
+
+  return null;
+}
+
+/**
+ * The fee to add on top of a tip so that, after the card fee is taken from
+ * the whole charge, the artist still receives the full tip
+ */
+export function calculateCoverFee(tip: Money): Money {
+  const { percent, fixed } = CARD_FEES[tip.currency];
+  const gross = Math.ceil((tip.amount + fixed) / (1 - percent / 100));
+
+  return money(gross - tip.amount, tip.currency);
+}
+
+/**
+ * Get the tip settings shown on a profile's tip wall
+ */
+export async function getTipSettings(profileId: string): Promise<TipSettings | null> {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('payout_currency, tip_presets')
+    .eq('id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!profile) return null;
+
+  const currency = toCurrencyCode(profile.payout_currency || DEFAULT_CURRENCY);
+
+  return {
+    currency,
+    presets: profile.tip_presets?.length ? profile.tip_presets.map(Number) : DEFAULT_TIP_PRESETS[currency],
+    limits: TIP_LIMITS[currency],
+    fee: CARD_FEES[currency]
+  };
+}
+
+/**
+ * Update a profile's tip presets and currency.
+ * The currency is also the profile's payout currency, so it's locked once
+ * anything has been credited for the profile; balances are never converted.
+ */
+export async function updateTipSettings(
+  profileId: string,
+  changes: { presets?: number[] | null; currency?: CurrencyCode }
+): Promise<TipSettings | null> {
+  const current = await getTipSettings(profileId);
+
+  if (!current) return null;
+
+  const updates: Record<string, unknown> = {};
+
+  if (changes.currency && changes.currency !== current.currency) {
+    const { count, error } = await supabase
+      .from('wallet_ledger')
+      .select('id', { count: 'exact', head: true })
+      .eq('profile_id', profileId);
+
+    if (error) throw error;
+
+    if ((count || 0) > 0) {
+      throw new TipCurrencyLockedError();
+    }
+
+    updates.payout_currency = changes.currency;
+
+    // Presets in the old currency make no sense in the new one
+    if (changes.presets === undefined) {
+      updates.tip_presets = null;
+    }
+  }
+
+  if (changes.presets !== undefined) {
+    updates.tip_presets = changes.presets;
+  }
+
+  if (Object.keys(updates).length > 0) {
+    const { error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('id', profileId);
+
+    if (error) throw error;
+  }
+
+  return getTipSettings(profileId);
+}
+
+/**
+ * Sign a Checkout session id, so a receipt link can be shared or bookmarked
+ * without an account. Returns null when RECEIPT_SECRET isn't configured.
+ */
+export function signReceipt(sessionId: string): string | null {
+  const secret = process.env.RECEIPT_SECRET;
+
+  if (!secret) return null;
+
+  return createHmac('sha256', secret).update(sessionId).digest('hex');
+}
+
+/**
+ * Check a receipt link's signature against its session id
+ */
+export function verifyReceiptSignature(sessionId: string, signature: string): boolean {
+  const expected = signReceipt(sessionId);
+
+  if (!expected || signature.length !== expected.length) return false;
+
+  return timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/**
+ * Link to the public receipt page for a tip's Checkout session
+ */
+export function getReceiptUrl(sessionId: string): string | null {
+  const signature = signReceipt(sessionId);
+
+  if (!signature) return null;
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${frontendUrl}/receipt/${sessionId}?sig=${signature}`;
+}
+
+/**
+ * Get the receipt for a tip by its Checkout session. The session is asked for
+ * the tip id, so this also works before the webhook has completed the tip.
+ */
+export async function getTipReceipt(sessionId: string): Promise<TipReceipt | null> {
+  const session = await stripe.checkout.sessions.retrieve(sessionId);
+  const tipId = session.metadata?.tipId;
+
+  if (!tipId) return null;
+
+  const { data: tip, error } = await supabase
+    .from('tips')
+    .select('id, profile_id, donor_name, show_name, amount, fee_amount, currency, message, payment_status, created_at, profile:profiles!tips_profile_id_fkey(name)')
+    .eq('id', tipId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!tip) return null;
+
+  const profile = Array.isArray(tip.profile) ? tip.profile[0] : tip.profile;
+
+  return {
+    tipId: tip.id,
+    profileId: tip.profile_id,
+    profileName: profile?.name || null,
+    donorName: tip.donor_name,
+    showName: tip.show_name,
+    amount: tip.amount,
+    feeAmount: tip.fee_amount,
+    currency: toCurrencyCode(tip.currency),
+    message: tip.message,
+    // Paid sessions count as paid even if the webhook is still on its way
+    paymentStatus: tip.payment_status === 'pending' && session.payment_status === 'paid' ? 'completed' : tip.payment_status,
+    createdAt: tip.created_at
+  };
+}
+
+/**
+ * Email the donor a link to their receipt
+ */
+export async function sendTipReceipt(to: string, sessionId: string) {
+  const receiptUrl = getReceiptUrl(sessionId);
+
+  if (!receiptUrl) {
+    console.warn('RECEIPT_SECRET not configured, tip receipt not sent');
+    return;
+  }
+
+  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
+    console.warn('Email service not configured, tip receipt not sent');
+    return;
+  }
+
+  const receipt = await getTipReceipt(sessionId);
+
+  if (!receipt) return;
+
+  const { sendTipReceiptEmail } = await import('./emailService');
+  await sendTipReceiptEmail({
+    to,
+    profileName: receipt.profileName || 'the artist',
+    amount: formatMoney(money(receipt.amount + receipt.feeAmount, receipt.currency)),
+    receiptUrl
+  });
+}
+
+/**
+ * Mask blocked words and remove links from text a donor wants on the tip
+ * wall. Returns null for text that is empty afterwards.
+ */
+export function filterTipText(text: string | null | undefined): string | null {
+  if (!text) return null;
+
+  const filtered = text
+    .replace(LINK_PATTERN, '[link removed]')
+    .replace(BLOCKED_WORDS_PATTERN, (word) => word[0] + '*'.repeat(word.length - 1))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return filtered || null;
+}
+
+/**
+ * Get the tips shown on a profile's tip wall, pinned tips first.
+ * With `since`, only tips made from then on.
+ */
+export async function getPublicTips(profileId: string, since?: string): Promise<PublicTipRow[]> {
+  let query = supabase
+    .from('public_tips')
+    .select('*')
+    .eq('profile_id', profileId);
+
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+
+  const { data, error } = await query
+    .order('pinned_at', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Get all completed tips for a profile, including hidden ones, for its
+ * owners and admins to moderate. Donor emails are left out.
+ */
+export async function getModeratedTips(profileId: string, since?: string): Promise<ModeratedTipRow[]> {
+  let query = supabase
+    .from('tips')
+    .select('id, profile_id, donor_name, show_name, amount, currency, message, is_hidden, pinned_at, created_at')
+    .eq('profile_id', profileId)
+    .eq('payment_status', 'completed');
+
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+
+  const { data, error } = await query
+    .order('pinned_at', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Hide, show, pin or unpin a completed tip on its profile's wall.
+ * Returns null when the tip doesn't exist or isn't completed.
+ */
+export async function moderateTip(
+  profileId: string,
+  tipId: string,
+  changes: { hidden?: boolean; pinned?: boolean }
+): Promise<ModeratedTipRow | null> {
+  const updates: Record<string, unknown> = {};
+
+  if (changes.hidden !== undefined) {
+    updates.is_hidden = changes.hidden;
+  }
+
+  if (changes.pinned !== undefined) {
+    updates.pinned_at = changes.pinned ? new Date().toISOString() : null;
+  }
+
+  const { data, error } = await supabase
+    .from('tips')
+    .update(updates)
+    .eq('id', tipId)
+    .eq('profile_id', profileId)
+    .eq('payment_status', 'completed')
+    .select('id, profile_id, donor_name, show_name, amount, currency, message, is_hidden, pinned_at, created_at')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
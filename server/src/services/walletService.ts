@@ -0,0 +1,251 @@
+import { supabase } from '../lib/supabase';
+import { CurrencyCode, Money, money, splitMoney } from '../lib/money';
+
+export type LedgerEntryType = 'credit' | 'debit';
+
+export type LedgerSourceType = 'tip' | 'order' | 'withdrawal' | 'refund' | 'subscription' | 'event_share';
+
+export interface LedgerEntry {
+  userId: string;
+  entryType: LedgerEntryType;
+  amount: Money;
+  sourceType: LedgerSourceType;
+  sourceId: string;
+  profileId?: string;
+  description?: string;
+}
+
+// A partial refund of a payment: `refunded` of its `total`, in minor units
+export interface PartialRefund {
+  refundId: string;
+  refunded: number;
+  total: number;
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(message: string = 'Insufficient wallet balance') {
+    super(message);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * Append an entry to the wallet ledger.
+ * Entries are unique per user, source and entry type, so recording the same
+ * movement twice is a no-op. Returns false when the entry already existed.
+ */
+export async function recordLedgerEntry(entry: LedgerEntry): Promise<boolean> {
+  if (entry.amount.amount < 0) {
+    throw new Error('Ledger amounts must be positive, use the entry type for direction');
+  }
+
+  const { data, error } = await supabase
+    .from('wallet_ledger')
+    .upsert([
+      {
+        user_id: entry.userId,
+        entry_type: entry.entryType,
+        amount: entry.amount.amount,
+        currency: entry.amount.currency,
+        source_type: entry.sourceType,
+        source_id: entry.sourceId,
+        profile_id: entry.profileId || null,
+        description: entry.description || null
+      }
+    ], { onConflict: 'user_id,source_type,source_id,entry_type', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    // Raised by the check_withdrawal_balance trigger
+    if (error.message?.includes('insufficient_wallet_balance')) {
+      throw new InsufficientFundsError();
+    }
+    throw error;
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Credit a user's wallet
+ */
+export function creditWallet(entry: Omit<LedgerEntry, 'entryType'>): Promise<boolean> {
+  return recordLedgerEntry({ ...entry, entryType: 'credit' });
+}
+
+/**
+ * Debit a user's wallet
+ */
+export function debitWallet(entry: Omit<LedgerEntry, 'entryType'>): Promise<boolean> {
+  return recordLedgerEntry({ ...entry, entryType: 'debit' });
+}
+
+/**
+ * Credit a payment to a profile's band members by their revenue_share, or
+ * to the profile owner if there are no members. Rounding remainders go to
+ * the owner. Credits are keyed by the source, so running this again only
+ * credits members that weren't credited yet.
+ */
+export async function creditProfileMembers(
+  profileId: string,
+  amount: Money,
+  sourceType: LedgerSourceType,
+  sourceId: string,
+  description: string
+): Promise<void> {
+  const { data: members, error: membersError } = await supabase
+    .from('profile_members')
+    .select('user_id, revenue_share, role')
+    .eq('profile_id', profileId);
+
+  if (membersError) throw membersError;
+
+  if (!members || members.length === 0) {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('user_id')
+      .eq('id', profileId)
+      .single();
+
+    if (profileError || !profile) {
+      throw profileError || new Error(`Profile ${profileId} not found`);
+    }
+
+    await creditWallet({ userId: profile.user_id, amount, sourceType, sourceId, profileId, description });
+    return;
+  }
+
+  // Owner first so they absorb the rounding remainder, then a stable order for the rest
+  const orderedMembers = [...members].sort((a, b) =>
+    Number(b.role === 'owner') - Number(a.role === 'owner') || a.user_id.localeCompare(b.user_id)
+  );
+  const shares = splitMoney(amount, orderedMembers.map((member) => member.revenue_share));
+
+  for (const [index, member] of orderedMembers.entries()) {
+    await creditWallet({
+      userId: member.user_id,
+      amount: shares[index],
+      sourceType,
+      sourceId,
+      profileId,
+      description: `${description} (${member.revenue_share}%)`
+    });
+  }
+}
+
+/**
+ * Sum what partial refunds have already clawed back from a user's credit
+ */
+async function getPartiallyClawedBack(userId: string, sourceType: LedgerSourceType, sourceId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('wallet_ledger')
+    .select('amount')
+    .eq('user_id', userId)
+    .eq('source_type', 'refund')
+    .eq('entry_type', 'debit')
+    .like('source_id', `${sourceType}:${sourceId}:%`);
+
+  if (error) throw error;
+
+  return (data || []).reduce((sum, row) => sum + Number(row.amount), 0);
+}
+
+/**
+ * Reverse every wallet credit caused by a tip or order with a matching
+ * 'refund' debit, so each member gives back what they were credited, less
+ * what partial refunds already took back.
+ * Debits are keyed by the original source type and id, so this runs at most
+ * once per source, and a user credited by the same payment twice (say a tip
+ * and an event share) is debited for both.
+ * With a partial refund, each member gives back the refunded share of their
+ * credit instead, keyed by the refund as well.
+ * Returns the number of debits recorded.
+ */
+export async function clawBackCredits(
+  sourceType: LedgerSourceType,
+  sourceId: string,
+  description: string,
+  partialRefund?: PartialRefund
+): Promise<number> {
+  const { data: credits, error } = await supabase
+    .from('wallet_ledger')
+    .select('user_id, amount, currency, profile_id')
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+    .eq('entry_type', 'credit');
+
+  if (error) throw error;
+
+  let debited = 0;
+
+  for (const credit of credits || []) {
+    const credited = Number(credit.amount);
+    const amount = partialRefund
+      ? Math.floor(credited * partialRefund.refunded / partialRefund.total)
+      : credited - await getPartiallyClawedBack(credit.user_id, sourceType, sourceId);
+
+    if (amount <= 0) continue;
+
+    const recorded = await debitWallet({
+      userId: credit.user_id,
+      amount: money(amount, credit.currency),
+      sourceType: 'refund',
+      sourceId: partialRefund
+        ? `${sourceType}:${sourceId}:${partialRefund.refundId}`
+        : `${sourceType}:${sourceId}`,
+      profileId: credit.profile_id || undefined,
+      description
+    });
+
+    if (recorded) debited++;
+  }
+
+  return debited;
+}
+
+/**
+ * Get a user's balance in one currency as computed from the ledger
+ */
+export async function getWalletBalance(userId: string, currency: CurrencyCode): Promise<Money> {
+  const { data, error } = await supabase
+    .from('wallet_balances')
+    .select('balance')
+    .eq('user_id', userId)
+    .eq('currency', currency)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return money(Number(data?.balance || 0), currency);
+}
+
+/**
+ * Get what a user can still withdraw in one currency: their balance minus
+ * the amounts held by pending withdrawals
+ */
+export async function getAvailableBalance(userId: string, currency: CurrencyCode): Promise<Money> {
+  const { data, error } = await supabase
+    .from('wallet_available_balances')
+    .select('available')
+    .eq('user_id', userId)
+    .eq('currency', currency)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return money(Number(data?.available || 0), currency);
+}
+
+/**
+ * Get all of a user's balances, one per currency
+ */
+export async function getWalletBalances(userId: string): Promise<Money[]> {
+  const { data, error } = await supabase
+    .from('wallet_balances')
+    .select('balance, currency')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return (data || []).map((row) => money(Number(row.balance), row.currency));
+}
@@ -0,0 +1,391 @@
+import Stripe from 'stripe';
+import { supabase } from '../lib/supabase';
+import { Money, money } from '../lib/money';
+import {
+  PayoutResult,
+  createStripePayout,
+  getPayoutTransferIds,
+  listPayouts,
+  reverseWithdrawalTransfer
+} from './payoutService';
+import { getMemberConnectAccount } from './connectService';
+import { InsufficientFundsError } from './walletService';
+
+export type WithdrawalStatus = 'pending' | 'approved' | 'rejected' | 'completed' | 'failed' | 'cancelled';
+
+// The status changes a withdrawal allows, enforced by the
+// check_withdrawal_transition trigger. A payout can fail after it was paid
+// when the bank returns it.
+export const WITHDRAWAL_TRANSITIONS: Record<WithdrawalStatus, WithdrawalStatus[]> = {
+  pending: ['approved', 'rejected', 'cancelled'],
+  approved: ['completed', 'failed'],
+  completed: ['failed'],
+  rejected: [],
+  failed: [],
+  cancelled: []
+};
+
+// How far back the nightly reconciliation looks at withdrawals and payouts
+const RECONCILIATION_DAYS = 30;
+
+// Connected accounts are paid out daily by default, so an approved withdrawal
+// without a payout after this long needs a look
+const PAYOUT_OVERDUE_DAYS = 14;
+
+export interface WithdrawalRow {
+  id: string;
+  profile_id: string;
+  user_id: string; // whose wallet it's paid out of
+  amount: number; // in minor units
+  currency: string;
+  status: WithdrawalStatus;
+  requested_at: string;
+  processed_at: string | null;
+  notes: string | null;
+  payout_method: string | null;
+  stripe_payout_id: string | null;
+  stripe_transfer_id: string | null;
+  stripe_reversal_id: string | null;
+  payout_error: string | null;
+  payout_started_at: string | null;
+  payout_schedule_id: string | null; // set when a payout schedule created it
+}
+
+export class WithdrawalNotFoundError extends Error {
+  constructor(message: string = 'Withdrawal request not found') {
+    super(message);
+    this.name = 'WithdrawalNotFoundError';
+  }
+}
+
+export class WithdrawalStatusError extends Error {
+  status: string;
+
+  constructor(status: string, message: string = `Withdrawal is already ${status}`) {
+    super(message);
+    this.name = 'WithdrawalStatusError';
+    this.status = status;
+  }
+}
+
+export interface PayoutReconciliation {
+  checked: number; // withdrawals compared with Stripe
+  updated: number; // withdrawals completed or failed by the reconciliation
+  mismatches: string[];
+}
+
+export function canTransitionWithdrawal(from: WithdrawalStatus, to: WithdrawalStatus): boolean {
+  return WITHDRAWAL_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Get a withdrawal, or null if it doesn't exist
+ */
+export async function getWithdrawal(withdrawalId: string): Promise<WithdrawalRow | null> {
+  const { data, error } = await supabase
+    .from('withdrawals')
+    .select('*')
+    .eq('id', withdrawalId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Move a withdrawal to a new status, setting other columns along with it.
+ * Throws WithdrawalStatusError if the transition isn't allowed, including
+ * when another request changed the status first.
+ */
+export async function transitionWithdrawal(
+  withdrawalId: string,
+  to: WithdrawalStatus,
+  columns: Partial<WithdrawalRow> = {}
+): Promise<WithdrawalRow> {
+  const current = await getWithdrawal(withdrawalId);
+
+  if (!current) throw new WithdrawalNotFoundError();
+
+  if (!canTransitionWithdrawal(current.status, to)) {
+    throw new WithdrawalStatusError(current.status, `A withdrawal that is ${current.status} can't become ${to}`);
+  }
+
+  const { data, error } = await supabase
+    .from('withdrawals')
+    .update({ ...columns, status: to, updated_at: new Date().toISOString() })
+    .eq('id', withdrawalId)
+    .eq('status', current.status)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new WithdrawalStatusError(current.status, 'Withdrawal was changed by another request, try again');
+
+  return data;
+}
+
+/**
+ * Request a withdrawal from a user's wallet. Its amount is held until the
+ * withdrawal is approved or rejected, so requests can't add up to more than
+ * the balance. Throws InsufficientFundsError if too little is available.
+ */
+export async function requestWithdrawal(
+  profileId: string,
+  userId: string,
+  amount: Money,
+  payoutScheduleId: string | null = null
+): Promise<WithdrawalRow> {
+  const { data, error } = await supabase.rpc('request_withdrawal', {
+    p_profile_id: profileId,
+    p_user_id: userId,
+    p_amount: amount.amount,
+    p_currency: amount.currency,
+    p_payout_schedule_id: payoutScheduleId
+  });
+
+  if (error) {
+    // Raised by request_withdrawal
+    if (error.message?.includes('insufficient_wallet_balance')) {
+      throw new InsufficientFundsError();
+    }
+    throw error;
+  }
+
+  return data[0];
+}
+
+/**
+ * Approve a pending withdrawal, moving its hold to a wallet debit in one
+ * transaction. Throws WithdrawalStatusError if it isn't pending (a second
+ * approval included) and InsufficientFundsError if clawbacks have left the
+ * wallet too little to cover it.
+ */
+export async function approveWithdrawal(withdrawalId: string, notes: string | null): Promise<WithdrawalRow> {
+  const { data, error } = await supabase.rpc('approve_withdrawal', {
+    p_withdrawal_id: withdrawalId,
+    p_notes: notes
+  });
+
+  if (error) {
+    // Raised by approve_withdrawal and the check_withdrawal_balance trigger
+    if (error.message?.includes('withdrawal_not_found')) {
+      throw new WithdrawalNotFoundError();
+    }
+    if (error.message?.includes('withdrawal_not_pending')) {
+      throw new WithdrawalStatusError(error.details);
+    }
+    if (error.message?.includes('insufficient_wallet_balance')) {
+      throw new InsufficientFundsError();
+    }
+    throw error;
+  }
+
+  return data[0];
+}
+
+/**
+ * Claim an approved withdrawal's payout. Only one caller gets the claim, and
+ * never for a withdrawal that already has a transfer. A failed transfer
+ * releases it again, see createStripePayout. Returns null when it can't be claimed.
+ */
+export async function claimWithdrawalPayout(withdrawalId: string): Promise<WithdrawalRow | null> {
+  const { data, error } = await supabase
+    .from('withdrawals')
+    .update({ payout_started_at: new Date().toISOString() })
+    .eq('id', withdrawalId)
+    .eq('status', 'approved')
+    .is('payout_started_at', null)
+    .is('stripe_transfer_id', null)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Transfer an approved withdrawal to the member's Stripe Connect account,
+ * unless its payout has already been started
+ */
+export async function payOutWithdrawal(withdrawalId: string): Promise<PayoutResult> {
+  const withdrawal = await claimWithdrawalPayout(withdrawalId);
+
+  if (!withdrawal) {
+    return { success: false, error: 'Withdrawal is not approved or its payout has already started' };
+  }
+
+  const connectAccount = await getMemberConnectAccount(withdrawal.profile_id, withdrawal.user_id);
+
+  return createStripePayout({
+    withdrawalId: withdrawal.id,
+    profileId: withdrawal.profile_id,
+    amount: money(withdrawal.amount, withdrawal.currency),
+    email: 'noreply@gobusker.local', // Default email since profile might not have one
+    stripeConnectAccountId: connectAccount?.accountId || undefined,
+    payoutStartedAt: withdrawal.payout_started_at!
+  });
+}
+
+/**
+ * Fail a withdrawal whose payout didn't reach the bank: its transfer is taken
+ * back from the connected account and the amount credited back to the wallet,
+ * so the artist can withdraw it again. Safe to run more than once.
+ */
+export async function failWithdrawal(withdrawal: WithdrawalRow, reason: string): Promise<WithdrawalRow> {
+  if (withdrawal.stripe_transfer_id && !withdrawal.stripe_reversal_id) {
+    const reversal = await reverseWithdrawalTransfer(withdrawal.id, withdrawal.stripe_transfer_id);
+
+    const { error } = await supabase
+      .from('withdrawals')
+      .update({ stripe_reversal_id: reversal.id })
+      .eq('id', withdrawal.id);
+
+    if (error) throw error;
+  }
+
+  const { data, error } = await supabase.rpc('fail_withdrawal', {
+    p_withdrawal_id: withdrawal.id,
+    p_error: reason
+  });
+
+  if (error) throw error;
+
+  return data[0];
+}
+
+/**
+ * Get the withdrawals a Stripe payout paid out. A connected account's payout
+ * is matched by the withdrawal transfers in it, and recorded on them.
+ */
+async function getPayoutWithdrawals(payout: Stripe.Payout, stripeAccount?: string): Promise<WithdrawalRow[]> {
+  const { data: recorded, error } = await supabase
+    .from('withdrawals')
+    .select('*')
+    .eq('stripe_payout_id', payout.id);
+
+  if (error) throw error;
+
+  if (!stripeAccount) return recorded || [];
+
+  const transferIds = await getPayoutTransferIds(payout.id, stripeAccount);
+
+  if (transferIds.length === 0) return recorded || [];
+
+  const { data: transferred, error: transferredError } = await supabase
+    .from('withdrawals')
+    .update({ stripe_payout_id: payout.id })
+    .in('stripe_transfer_id', transferIds)
+    .is('stripe_payout_id', null)
+    .select('*');
+
+  if (transferredError) throw transferredError;
+
+  return [...(recorded || []), ...(transferred || [])];
+}
+
+/**
+ * Complete or fail the withdrawals in a payout that has been paid or has
+ * failed. Used by the payout.paid and payout.failed webhooks and the nightly
+ * reconciliation. Returns the number of withdrawals that changed status.
+ */
+export async function applyPayoutStatus(payout: Stripe.Payout, stripeAccount?: string): Promise<number> {
+  if (payout.status !== 'paid' && payout.status !== 'failed' && payout.status !== 'canceled') {
+    return 0;
+  }
+
+  const withdrawals = await getPayoutWithdrawals(payout, stripeAccount);
+  let updated = 0;
+
+  for (const withdrawal of withdrawals) {
+    if (payout.status === 'paid') {
+      if (!canTransitionWithdrawal(withdrawal.status, 'completed')) continue;
+
+      await transitionWithdrawal(withdrawal.id, 'completed', { processed_at: new Date().toISOString() });
+    } else {
+      if (!canTransitionWithdrawal(withdrawal.status, 'failed')) continue;
+
+      await failWithdrawal(withdrawal, payout.failure_message || `Payout ${payout.status}`);
+    }
+
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Compare recent withdrawals with the payouts on Stripe. Completes or fails
+ * withdrawals whose payout webhook was missed, and reports withdrawals whose
+ * payout can't be found or is overdue.
+ */
+export async function reconcilePayouts(): Promise<PayoutReconciliation> {
+  const since = new Date(Date.now() - RECONCILIATION_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data: withdrawals, error } = await supabase
+    .from('withdrawals')
+    .select('*')
+    .in('status', ['approved', 'completed'])
+    .gte('processed_at', since.toISOString());
+
+  if (error) throw error;
+
+  const candidates: WithdrawalRow[] = (withdrawals || []).filter((w) => w.stripe_transfer_id || w.stripe_payout_id);
+
+  // Transfers are paid out by the member's connected account, old payouts by the platform
+  const accounts = new Set<string | undefined>();
+
+  for (const withdrawal of candidates) {
+    if (withdrawal.stripe_transfer_id) {
+      const account = await getMemberConnectAccount(withdrawal.profile_id, withdrawal.user_id);
+      if (account?.accountId) accounts.add(account.accountId);
+    } else {
+      accounts.add(undefined);
+    }
+  }
+
+  const seenPayouts = new Map<string, Stripe.Payout>();
+  let updated = 0;
+
+  for (const account of accounts) {
+    const payouts = await listPayouts(100, undefined, account);
+
+    for (const payout of payouts) {
+      if (payout.created * 1000 < since.getTime()) continue;
+
+      seenPayouts.set(payout.id, payout);
+      updated += await applyPayoutStatus(payout, account);
+    }
+  }
+
+  // Read them again, since applying payouts records their payout ids
+  const { data: reconciled, error: reconciledError } = await supabase
+    .from('withdrawals')
+    .select('*')
+    .in('id', candidates.map((w) => w.id));
+
+  if (reconciledError) throw reconciledError;
+
+  const mismatches: string[] = [];
+  const overdue = Date.now() - PAYOUT_OVERDUE_DAYS * 24 * 60 * 60 * 1000;
+
+  for (const withdrawal of (reconciled || []) as WithdrawalRow[]) {
+    const payout = withdrawal.stripe_payout_id ? seenPayouts.get(withdrawal.stripe_payout_id) : undefined;
+
+    if (withdrawal.stripe_payout_id && !payout) {
+      mismatches.push(`Withdrawal ${withdrawal.id}: payout ${withdrawal.stripe_payout_id} not found on Stripe`);
+    } else if (withdrawal.status === 'completed' && payout && payout.status !== 'paid') {
+      mismatches.push(`Withdrawal ${withdrawal.id} is completed but payout ${payout.id} is ${payout.status}`);
+    } else if (
+      withdrawal.status === 'approved' &&
+      !withdrawal.stripe_payout_id &&
+      withdrawal.processed_at &&
+      new Date(withdrawal.processed_at).getTime() < overdue
+    ) {
+      mismatches.push(`Withdrawal ${withdrawal.id} was approved over ${PAYOUT_OVERDUE_DAYS} days ago and hasn't been paid out`);
+    }
+  }
+
+  return { checked: candidates.length, updated, mismatches };
+}